@@ -1,17 +1,37 @@
 import { defineBuildConfig } from 'unbuild'
 
 export default defineBuildConfig({
-  entries: ['src/index'],
+  entries: [
+    'src/index',
+    { input: 'src/features/blocklist/index', name: 'blocklist' },
+    { input: 'src/features/canonical/index', name: 'canonical' },
+    { input: 'src/features/domain/index', name: 'domain' },
+    { input: 'src/features/path/index', name: 'path' },
+    { input: 'src/features/pattern/index', name: 'pattern' },
+    { input: 'src/features/protocol/index', name: 'protocol' },
+    { input: 'src/features/query/index', name: 'query' },
+    { input: 'src/features/security/index', name: 'security' },
+    { input: 'src/features/special/index', name: 'special' },
+    { input: 'src/features/template/index', name: 'template' },
+    { input: 'src/features/tracking/index', name: 'tracking' },
+    { input: 'src/errors/index', name: 'errors' },
+  ],
   declaration: true,
   clean: true,
   rollup: {
     emitCJS: true,
+    dts: {
+      compilerOptions: {
+        incremental: false,
+      },
+    },
   },
   externals: [
     'nanoid',
     'p-memoize',
     'p-queue',
     'parse-domain',
+    'pathe',
     'pino',
     'pino-http',
     'zod',
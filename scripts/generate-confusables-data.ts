@@ -0,0 +1,62 @@
+/**
+ * Generates src/features/domain/confusables/confusables-data.ts from the
+ * UTS #39 confusables table. Download it and pass its path:
+ *
+ *   https://www.unicode.org/Public/security/<version>/confusables.txt
+ *
+ *   tsx scripts/generate-confusables-data.ts ./confusables.txt
+ */
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import process from 'node:process'
+
+/**
+ * Encodes the table as ",<source delta> <prototype code points>" entries,
+ * with all numbers in base 36 and entries sorted by source code point
+ */
+function encode(content: string): string {
+  const rows = content
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [source, prototype] = line.split(';').map(field => field.trim())
+      return {
+        source: Number.parseInt(source, 16),
+        prototype: prototype.split(/\s+/).map(value => Number.parseInt(value, 16)),
+      }
+    })
+    .sort((a, b) => a.source - b.source)
+
+  let previous = 0
+  return rows.map((row) => {
+    const entry = [row.source - previous, ...row.prototype].map(value => value.toString(36)).join(' ')
+    previous = row.source
+    return entry
+  }).join(',')
+}
+
+/**
+ * Splits a long string literal over several lines
+ */
+function chunk(name: string, value: string, comment: string): string {
+  const lines: string[] = []
+  for (let i = 0; i < value.length; i += 100)
+    lines.push(`  '${value.slice(i, i + 100)}',`)
+  return `// ${comment}\nexport const ${name} = [\n${lines.join('\n')}\n].join('')\n`
+}
+
+const file = process.argv[2]
+if (!file) {
+  console.error('Usage: tsx scripts/generate-confusables-data.ts <path to confusables.txt>')
+  process.exit(1)
+}
+
+const content = readFileSync(file, 'utf8')
+const version = /confusables-(\d+\.\d+\.\d+)/.exec(content)?.[1] ?? 'unknown'
+
+writeFileSync(join(import.meta.dirname, '../src/features/domain/confusables/confusables-data.ts'), [
+  `// Generated by scripts/generate-confusables-data.ts from the Unicode ${version} confusables.txt. Do not edit.\n`,
+  `export const CONFUSABLES_UNICODE_VERSION = '${version}'\n`,
+  chunk('CONFUSABLES_DATA', encode(content), 'Prototypes: ",<source delta> <prototype code points>" entries'),
+].join('\n'))
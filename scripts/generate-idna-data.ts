@@ -0,0 +1,162 @@
+/**
+ * Generates src/features/domain/idna/idna-data.ts from the Unicode data files
+ * used by UTS #46 processing. Download them for one Unicode version into a
+ * directory and pass it as the only argument:
+ *
+ *   https://www.unicode.org/Public/idna/<version>/IdnaMappingTable.txt
+ *   https://www.unicode.org/Public/<version>/ucd/extracted/DerivedBidiClass.txt
+ *   https://www.unicode.org/Public/<version>/ucd/extracted/DerivedJoiningType.txt
+ *   https://www.unicode.org/Public/<version>/ucd/extracted/DerivedCombiningClass.txt
+ *
+ *   tsx scripts/generate-idna-data.ts ./ucd
+ */
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import process from 'node:process'
+
+interface Row {
+  start: number
+  end: number
+  fields: string[]
+}
+
+const MAX_CODE_POINT = 0x10FFFF
+
+const STATUS_CODES: Record<string, string> = {
+  valid: 'V',
+  mapped: 'M',
+  deviation: 'D',
+  ignored: 'I',
+  disallowed: 'X',
+  disallowed_STD3_valid: 'S',
+  disallowed_STD3_mapped: 'T',
+}
+
+const BIDI_CODES: Record<string, string> = {
+  L: 'L',
+  R: 'R',
+  AL: 'A',
+  AN: 'N',
+  EN: 'E',
+  ES: 'S',
+  CS: 'C',
+  ET: 'T',
+  ON: 'O',
+  BN: 'B',
+  NSM: 'M',
+}
+
+/**
+ * Reads the data lines of a UCD file as code point ranges and their fields
+ */
+function readRows(directory: string, file: string): Row[] {
+  return readFileSync(join(directory, file), 'utf8')
+    .split(/\r?\n/)
+    .map(line => line.replace(/#.*$/, '').trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [range, ...fields] = line.split(';').map(field => field.trim())
+      const [start, end = start] = range.split('..').map(value => Number.parseInt(value, 16))
+      return { start, end, fields }
+    })
+}
+
+/**
+ * Encodes a property as runs covering every code point: "<length><code>"
+ * with the length in base 36 and a one-letter code
+ */
+function encodeRuns(rows: Row[], toCode: (fields: string[]) => string, fallback: string): string {
+  const codes = Array.from<string>({ length: MAX_CODE_POINT + 1 }).fill(fallback)
+  for (const row of rows) {
+    const code = toCode(row.fields)
+    for (let cp = row.start; cp <= row.end; cp++)
+      codes[cp] = code
+  }
+
+  let encoded = ''
+  let start = 0
+  for (let cp = 1; cp <= MAX_CODE_POINT + 1; cp++) {
+    if (cp > MAX_CODE_POINT || codes[cp] !== codes[start]) {
+      encoded += `${(cp - start).toString(36)}${codes[start]}`
+      start = cp
+    }
+  }
+  return encoded
+}
+
+/**
+ * Encodes the mapping table as ",<start delta><status>[<mapping>]" entries,
+ * with deltas and mapped code points in base 36. Neighbouring rows with the
+ * same status and no mapping are merged
+ */
+function encodeMapping(rows: Row[]): string {
+  const entries: string[] = []
+  let previousStart = 0
+  let previousKey: string | undefined
+
+  for (const row of rows) {
+    const status = STATUS_CODES[row.fields[0]]
+    if (!status)
+      throw new Error(`Unknown IDNA status: ${row.fields[0]}`)
+
+    const mapping = (row.fields[1] ?? '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(value => Number.parseInt(value, 16).toString(36))
+      .join(' ')
+    const key = `${status}${mapping}`
+    const hasMapping = status === 'M' || status === 'D' || status === 'T'
+    if (key === previousKey && !hasMapping)
+      continue
+
+    entries.push(`${(row.start - previousStart).toString(36)}${key}`)
+    previousStart = row.start
+    previousKey = key
+  }
+
+  return entries.join(',')
+}
+
+/**
+ * Splits a long string literal over several lines
+ */
+function chunk(name: string, value: string, comment: string): string {
+  const lines: string[] = []
+  for (let i = 0; i < value.length; i += 100)
+    lines.push(`  '${value.slice(i, i + 100)}',`)
+  return `// ${comment}\nexport const ${name} = [\n${lines.join('\n')}\n].join('')\n`
+}
+
+const directory = process.argv[2]
+if (!directory) {
+  console.error('Usage: tsx scripts/generate-idna-data.ts <directory with the Unicode data files>')
+  process.exit(1)
+}
+
+const mappingFile = readFileSync(join(directory, 'IdnaMappingTable.txt'), 'utf8')
+const version = /IdnaMappingTable-(\d+\.\d+\.\d+)/.exec(mappingFile)?.[1] ?? 'unknown'
+
+const mapping = encodeMapping(readRows(directory, 'IdnaMappingTable.txt'))
+const bidi = encodeRuns(
+  readRows(directory, 'DerivedBidiClass.txt'),
+  fields => BIDI_CODES[fields[0]] ?? 'X',
+  'L',
+)
+const joining = encodeRuns(
+  readRows(directory, 'DerivedJoiningType.txt'),
+  fields => fields[0],
+  'U',
+)
+const virama = readRows(directory, 'DerivedCombiningClass.txt')
+  .filter(row => row.fields[0] === '9')
+  .flatMap(row => Array.from({ length: row.end - row.start + 1 }, (_, i) => (row.start + i).toString(36)))
+  .join(',')
+
+writeFileSync(join(import.meta.dirname, '../src/features/domain/idna/idna-data.ts'), [
+  `// Generated by scripts/generate-idna-data.ts from the Unicode ${version} data files. Do not edit.\n`,
+  `export const IDNA_UNICODE_VERSION = '${version}'\n`,
+  chunk('IDNA_MAPPING_DATA', mapping, 'IdnaMappingTable: ",<start delta><status>[<mapped code points>]" entries'),
+  chunk('IDNA_BIDI_DATA', bidi, 'Bidi_Class runs: "<length><class>"'),
+  chunk('IDNA_JOINING_DATA', joining, 'Joining_Type runs: "<length><type>"'),
+  chunk('IDNA_VIRAMA_DATA', virama, 'Code points with Canonical_Combining_Class=Virama'),
+].join('\n'))
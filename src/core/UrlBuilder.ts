@@ -0,0 +1,421 @@
+import type { PathValidationOptions } from '../features/path/types/path'
+import type { QueryOptions, QueryParam } from '../features/query/types'
+import type {
+  Protocol,
+  QueryParams,
+  URLBuilder,
+  URLComponents,
+} from './types'
+import { isIP } from 'node:net'
+import { ErrorCode, ValidationError } from '../errors'
+import { DomainValidator } from '../features/domain/validate/domain-validator'
+import { PathValidator } from '../features/path/validate/path-validator'
+import { PortValidator } from '../features/protocol/validate/port-validator'
+import { QueryHandler } from '../features/query/query-handler'
+import { ProtocolSchema, QueryParamsSchema } from './types'
+
+/**
+ * URL components validated by the builder
+ * @typedef {string} UrlBuilderComponent
+ */
+export type UrlBuilderComponent =
+  | 'protocol'
+  | 'hostname'
+  | 'port'
+  | 'path'
+  | 'search'
+  | 'hash'
+  | 'credentials'
+
+/**
+ * Options for UrlBuilder
+ */
+export interface UrlBuilderOptions {
+  /** Protocol used when setProtocol is never called */
+  defaultProtocol?: Protocol
+  /** Also reject ports the protocol registry does not allow for the protocol */
+  strictPorts?: boolean
+  /** Options passed to PathValidator */
+  pathValidation?: PathValidationOptions
+  /**
+   * Options passed to QueryHandler when stringifying query parameters.
+   * `encode` defaults to false, since the result is already URL-encoded
+   */
+  queryOptions?: QueryOptions
+}
+
+/**
+ * UrlBuilder - builds URLs piece by piece
+ *
+ * Each setter validates its component right away and records any failure;
+ * build() throws a ValidationError naming the offending component.
+ * @class UrlBuilder
+ * @implements {URLBuilder}
+ */
+export class UrlBuilder implements URLBuilder {
+  /** Shared validators (all of them are stateless) */
+  private static readonly domainValidator = new DomainValidator()
+  private static readonly portValidator = new PortValidator()
+  private static readonly pathValidator = new PathValidator()
+  private static readonly queryHandler = new QueryHandler()
+
+  private readonly options: UrlBuilderOptions
+  private readonly errors = new Map<UrlBuilderComponent, ValidationError>()
+
+  private protocol: Protocol
+  private hostname = ''
+  private port = ''
+  private path = '/'
+  private search = ''
+  private hash = ''
+  private username = ''
+  private password = ''
+
+  /**
+   * Creates an instance of UrlBuilder
+   * @param {UrlBuilderOptions} [options] - Builder options
+   */
+  constructor(options: UrlBuilderOptions = {}) {
+    this.options = options
+    this.protocol = options.defaultProtocol ?? 'https:'
+  }
+
+  /**
+   * Creates a builder pre-filled from URL components, e.g. a config object
+   * @param {Partial<URLComponents>} components - The components to set
+   * @param {UrlBuilderOptions} [options] - Builder options
+   * @returns {UrlBuilder} The pre-filled builder
+   */
+  public static fromComponents(
+    components: Partial<URLComponents>,
+    options?: UrlBuilderOptions,
+  ): UrlBuilder {
+    const builder = new UrlBuilder(options)
+
+    if (components.protocol !== undefined)
+      builder.setProtocol(components.protocol)
+    if (components.hostname !== undefined)
+      builder.setHostname(components.hostname)
+    if (components.port)
+      builder.setPort(components.port)
+    if (components.pathname !== undefined)
+      builder.setPath(components.pathname)
+    if (components.search !== undefined)
+      builder.setSearch(components.search)
+    if (components.hash !== undefined)
+      builder.setHash(components.hash)
+    if (components.username !== undefined || components.password !== undefined)
+      builder.setCredentials(components.username ?? '', components.password ?? '')
+
+    return builder
+  }
+
+  /**
+   * Creates a builder pre-filled from an existing URL
+   * @param {string | URL} url - The URL to start from
+   * @param {UrlBuilderOptions} [options] - Builder options
+   * @returns {UrlBuilder} The pre-filled builder
+   * @throws {ValidationError} If the URL cannot be parsed
+   */
+  public static from(url: string | URL, options?: UrlBuilderOptions): UrlBuilder {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    }
+    catch (error) {
+      throw new ValidationError(
+        `Invalid URL: ${String(url)}`,
+        ErrorCode.INVALID_URL,
+        { url: String(url) },
+        error instanceof Error ? error : undefined,
+      )
+    }
+
+    return UrlBuilder.fromComponents({
+      protocol: parsed.protocol as Protocol,
+      hostname: parsed.hostname,
+      port: parsed.port,
+      pathname: parsed.pathname,
+      search: parsed.search,
+      hash: parsed.hash,
+      username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+      password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    }, options)
+  }
+
+  /**
+   * Sets the protocol
+   * @param {Protocol} protocol - One of the supported protocols, including the colon
+   * @returns {UrlBuilder} This builder
+   */
+  public setProtocol(protocol: Protocol): UrlBuilder {
+    this.attempt('protocol', () => {
+      const result = ProtocolSchema.safeParse(protocol)
+      if (!result.success) {
+        throw new ValidationError(
+          `Unsupported protocol: ${protocol}`,
+          ErrorCode.INVALID_PROTOCOL,
+          { protocol },
+        )
+      }
+      this.protocol = result.data
+    })
+    return this
+  }
+
+  /**
+   * Sets the hostname; IPv6 addresses may be given with or without brackets
+   * @param {string} hostname - Domain name or IP address
+   * @returns {UrlBuilder} This builder
+   */
+  public setHostname(hostname: string): UrlBuilder {
+    this.attempt('hostname', () => {
+      const bare = hostname.replace(/^\[(.*)\]$/, '$1')
+      if (!UrlBuilder.domainValidator.validate(bare)) {
+        throw new ValidationError(
+          `Invalid hostname: ${hostname}`,
+          ErrorCode.INVALID_HOSTNAME,
+          { hostname },
+        )
+      }
+      this.hostname = bare
+    })
+    return this
+  }
+
+  /**
+   * Sets the port
+   * @param {string | number} port - Port number between 1 and 65535
+   * @returns {UrlBuilder} This builder
+   */
+  public setPort(port: string | number): UrlBuilder {
+    this.attempt('port', () => {
+      // Number() would also accept "0x50", "1e3" and surrounding spaces
+      const value = typeof port === 'number' ? port : /^\d+$/.test(port) ? Number(port) : Number.NaN
+      if (!UrlBuilder.portValidator.isValidPortRange(value)) {
+        throw new ValidationError(
+          `Invalid port: ${port}`,
+          ErrorCode.INVALID_PORT,
+          { port },
+        )
+      }
+      this.port = String(value)
+    })
+    return this
+  }
+
+  /**
+   * Sets the path; a leading slash is added when missing. "." and ".."
+   * segments are resolved when the URL is built
+   * @param {string} path - The path
+   * @returns {UrlBuilder} This builder
+   */
+  public setPath(path: string): UrlBuilder {
+    this.attempt('path', () => {
+      const absolute = path.startsWith('/') ? path : `/${path}`
+      if (UrlBuilder.climbsAboveRoot(absolute)) {
+        throw new ValidationError(
+          `Path climbs above the root: ${path}`,
+          ErrorCode.INVALID_PATH,
+          { path },
+        )
+      }
+      UrlBuilder.pathValidator.validate(absolute, this.options.pathValidation)
+      this.path = absolute
+    })
+    return this
+  }
+
+  /**
+   * Sets the query, either as a raw string or as parameters keyed by name
+   * @param {string | QueryParams} search - Query string (with or without "?") or parameters
+   * @returns {UrlBuilder} This builder
+   */
+  public setSearch(search: string | QueryParams): UrlBuilder {
+    this.attempt('search', () => {
+      if (typeof search === 'string') {
+        const query = search.replace(/^\?/, '')
+        UrlBuilder.queryHandler.parse(query, this.options.queryOptions)
+        this.search = query
+        return
+      }
+
+      const result = QueryParamsSchema.safeParse(search)
+      if (!result.success) {
+        throw new ValidationError(
+          'Invalid query parameters',
+          ErrorCode.INVALID_QUERY,
+          { issues: result.error.issues },
+        )
+      }
+
+      const params: QueryParam[] = Object.entries(result.data).map(([key, value]) => ({
+        key,
+        value,
+        isArray: Array.isArray(value),
+        hasMultipleValues: Array.isArray(value) && value.length > 1,
+        rawValue: String(value),
+      }))
+      this.search = UrlBuilder.queryHandler.stringify(params, { encode: false, ...this.options.queryOptions })
+    })
+    return this
+  }
+
+  /**
+   * Sets the fragment
+   * @param {string} hash - Fragment, with or without "#"
+   * @returns {UrlBuilder} This builder
+   */
+  public setHash(hash: string): UrlBuilder {
+    this.hash = hash.replace(/^#/, '')
+    return this
+  }
+
+  /**
+   * Sets the credentials
+   * @param {string} username - Username, required when a password is given
+   * @param {string} password - Password
+   * @returns {UrlBuilder} This builder
+   */
+  public setCredentials(username: string, password: string): UrlBuilder {
+    this.attempt('credentials', () => {
+      if (!username && password) {
+        throw new ValidationError(
+          'A username is required when a password is set',
+          ErrorCode.INVALID_CREDENTIALS,
+        )
+      }
+      this.username = username
+      this.password = password
+    })
+    return this
+  }
+
+  /**
+   * Returns the errors recorded so far, keyed by component
+   * @returns {Map<UrlBuilderComponent, ValidationError>} A copy of the recorded errors
+   */
+  public getErrors(): Map<UrlBuilderComponent, ValidationError> {
+    return new Map(this.errors)
+  }
+
+  /**
+   * Builds the URL
+   * @returns {URL} The built URL
+   * @throws {ValidationError} If any component is invalid; details.component names the first one
+   */
+  public build(): URL {
+    this.checkRequired()
+
+    const [first] = this.errors
+    if (first) {
+      const [component, error] = first
+      const components = [...this.errors.keys()]
+      throw new ValidationError(
+        `Cannot build URL, invalid ${components.join(', ')}: ${error.message}`,
+        error.code,
+        {
+          ...error.details,
+          component,
+          components,
+        },
+        error,
+      )
+    }
+
+    const host = isIP(this.hostname) === 6 ? `[${this.hostname}]` : this.hostname
+
+    let url: URL
+    try {
+      url = new URL(`${this.protocol}//${host}`)
+      url.port = this.port
+      url.pathname = this.path
+      url.search = this.search
+      url.hash = this.hash
+      url.username = this.username
+      url.password = this.password
+    }
+    catch (error) {
+      throw new ValidationError(
+        'Failed to build URL',
+        ErrorCode.INVALID_URL,
+        { component: 'url' },
+        error instanceof Error ? error : undefined,
+      )
+    }
+
+    return url
+  }
+
+  /**
+   * Builds the URL and serializes it
+   * @returns {string} The built URL
+   * @throws {ValidationError} If any component is invalid
+   */
+  public toString(): string {
+    return this.build().href
+  }
+
+  /**
+   * Runs a setter, recording its ValidationError instead of throwing
+   * @param {UrlBuilderComponent} component - The component being set
+   * @param {() => void} apply - Validates and stores the component
+   * @private
+   */
+  private attempt(component: UrlBuilderComponent, apply: () => void): void {
+    try {
+      apply()
+      this.errors.delete(component)
+    }
+    catch (error) {
+      if (!(error instanceof ValidationError)) {
+        throw error
+      }
+      this.errors.set(component, error)
+    }
+  }
+
+  /**
+   * Tells whether a ".." segment would go above the root, which URL
+   * resolution drops silently ("/../etc/passwd" becomes "/etc/passwd")
+   * @param {string} path - An absolute path
+   * @returns {boolean} True if the path leaves the root
+   * @private
+   */
+  private static climbsAboveRoot(path: string): boolean {
+    let depth = 0
+    // URL reads "%2e" as a dot and backslashes as separators in special schemes
+    for (const segment of path.slice(1).split(/[/\\]/)) {
+      const name = segment.replace(/%2e/gi, '.')
+      if (name === '..') {
+        if (depth === 0) {
+          return true
+        }
+        depth--
+      }
+      else if (name !== '.') {
+        depth++
+      }
+    }
+    return false
+  }
+
+  /**
+   * Records errors for checks that depend on more than one component
+   * @private
+   */
+  private checkRequired(): void {
+    if (!this.hostname && !this.errors.has('hostname')) {
+      this.errors.set('hostname', new ValidationError(
+        'Hostname is required',
+        ErrorCode.INVALID_HOSTNAME,
+      ))
+    }
+
+    if (this.options.strictPorts && this.port && !this.errors.has('port')) {
+      this.attempt('port', () => {
+        UrlBuilder.portValidator.validate(this.protocol, Number(this.port))
+      })
+    }
+  }
+}
@@ -1,242 +1,789 @@
-// import { z } from 'zod';
-// import pMemoize from 'p-memoize';
-// import { nanoid } from 'nanoid';
-// import { pino } from 'pino';
-// OVERHAUL THIS AFTER I SLEEP A BIT
-// import { PROTOCOLS, REGEX, URL_VALIDATION } from './constants';
-// import {
-//   URLComponentsSchema,
-//   URLValidationOptionsSchema,
-//   QueryValueSchema,
-//   QueryParamsSchema,
-//   type URLComponents,
-//   type URLValidationOptions,
-//   type QueryValue,
-//   type QueryParams
-// } from './types';
-
-// import { FormattingUtils } from '../utils/formatting';
-// import { ParsingUtils } from '../utils/parsing';
-// import { EncodingUtils } from '../utils/encoding';
-// import { PathHandler } from '../features/path/path-handler';
-// import type { PathInfo, PathOptions } from '../features/path/types';
-
-// const logger = pino({
-//   level: 'info',
-//   name: 'urlmage'
-// });
-
-// /**
-//  * UrlMage - Advanced URL manipulation library
-//  */
-// export class UrlMage {
-//   private url: URL;
-//   private readonly id: string;
-//   private readonly pathHandler: PathHandler;
-//   private readonly options: URLValidationOptions;
-
-//   constructor(url: string, options?: Partial<URLValidationOptions>) {
-//     this.options = URLValidationOptionsSchema.parse({
-//       ...URLValidationOptionsSchema.parse({}),
-//       ...options
-//     });
-
-//     try {
-//       // Validate and parse URL
-//       this.url = new URL(url);
-//       this.validateUrl();
-
-//       // Initialize handlers
-//       this.pathHandler = new PathHandler();
-
-//       // Generate instance ID
-//       this.id = nanoid();
-
-//       logger.debug({ id: this.id, url }, 'Created new UrlMage instance');
-//     } catch (error) {
-//       logger.error({ url, error }, 'Failed to create UrlMage instance');
-//       throw error;
-//     }
-//   }
-
-//   // Core Methods
-//   toString(): string {
-//     return this.url.toString();
-//   }
-
-//   toJSON(): string {
-//     return this.url.toString();
-//   }
-
-//   clone(): UrlMage {
-//     return new UrlMage(this.url.toString(), this.options);
-//   }
-
-//   // Components Methods
-//   private getComponentsMemoized = pMemoize((): URLComponents => ({
-//     protocol: this.url.protocol as URLComponents['protocol'],
-//     hostname: this.url.hostname,
-//     port: this.url.port,
-//     pathname: this.url.pathname,
-//     search: this.url.search,
-//     hash: this.url.hash,
-//     username: this.url.username,
-//     password: this.url.password
-//   }));
-
-//   getComponents(): URLComponents {
-//     return URLComponentsSchema.parse(this.getComponentsMemoized());
-//   }
-
-//   // Path Methods
-//   getPathInfo(options?: Partial<PathOptions>): PathInfo {
-//     return this.pathHandler.parse(this.url.pathname, options);
-//   }
-
-//   setPath(path: string): UrlMage {
-//     const normalized = this.pathHandler.normalizePath(path);
-//     this.url.pathname = normalized;
-//     return this;
-//   }
-
-//   appendPath(path: string): UrlMage {
-//     const normalized = this.pathHandler.normalizePath(path);
-//     this.url.pathname = this.pathHandler.join(this.url.pathname, normalized);
-//     return this;
-//   }
-
-//   prependPath(path: string): UrlMage {
-//     const normalized = this.pathHandler.normalizePath(path);
-//     this.url.pathname = this.pathHandler.join(normalized, this.url.pathname);
-//     return this;
-//   }
-
-//   getPathSegments(): string[] {
-//     return this.pathHandler.parse(this.url.pathname).segments.map(s => s.value);
-//   }
-
-//   getPathSegment(index: number): string | null {
-//     const segments = this.getPathSegments();
-//     return segments[index] ?? null;
-//   }
-
-//   setPathSegment(index: number, value: string): UrlMage {
-//     const segments = this.getPathSegments();
-//     if (index >= 0 && index < segments.length) {
-//       segments[index] = value;
-//       this.url.pathname = '/' + segments.join('/');
-//     }
-//     return this;
-//   }
-
-//   private parseQueryValue(value: QueryValue): string {
-//     if (Array.isArray(value)) {
-//       return value.map(String).join(',');
-//     }
-//     return String(value);
-//   }
-
-//   addQueryParam(key: string, value: QueryValue): UrlMage {
-//     const parsedValue = QueryValueSchema.parse(value);
-//     this.url.searchParams.set(key, this.parseQueryValue(parsedValue));
-//     logger.debug({ id: this.id, key, value }, 'Added query parameter');
-//     return this;
-//   }
-
-//   removeQueryParam(key: string): UrlMage {
-//     this.url.searchParams.delete(key);
-//     logger.debug({ id: this.id, key }, 'Removed query parameter');
-//     return this;
-//   }
-
-//   getQueryParam(key: string): string | null {
-//     return this.url.searchParams.get(key);
-//   }
-
-//   hasQueryParam(key: string): boolean {
-//     return this.url.searchParams.has(key);
-//   }
-
-//   clearQueryParams(): UrlMage {
-//     this.url.search = '';
-//     logger.debug({ id: this.id }, 'Cleared all query parameters');
-//     return this;
-//   }
-
-//   setQueryParams(params: QueryParams): UrlMage {
-//     const validatedParams = QueryParamsSchema.parse(params);
-//     this.clearQueryParams();
-//     Object.entries(validatedParams).forEach(([key, value]) => {
-//       this.addQueryParam(key, value);
-//     });
-//     return this;
-//   }
-
-//   // Formatting Methods
-//   format(options: Parameters<typeof FormattingUtils.formatUrl>[1] = {}): UrlMage {
-//     const formatted = FormattingUtils.formatUrl(this.url.toString(), options);
-//     this.url = new URL(formatted);
-//     return this;
-//   }
-
-//   formatForDisplay(options: Parameters<typeof FormattingUtils.formatForDisplay>[1] = {}): string {
-//     return FormattingUtils.formatForDisplay(this.url.toString(), options);
-//   }
-
-//   formatForSEO(): UrlMage {
-//     const formatted = FormattingUtils.formatForSEO(this.url.toString());
-//     this.url = new URL(formatted);
-//     return this;
-//   }
-
-//   // Security Methods
-//   private validateUrl(): void {
-//     const { allowedProtocols, requireSecure, maxLength, allowCredentials } = this.options;
-
-//     // Check protocol
-//     if (!allowedProtocols.includes(this.url.protocol as any)) {
-//       throw new Error(`Protocol ${this.url.protocol} is not allowed`);
-//     }
-
-//     // Check HTTPS requirement
-//     if (requireSecure && this.url.protocol !== 'https:') {
-//       throw new Error('HTTPS is required');
-//     }
-
-//     // Check URL length
-//     if (this.url.toString().length > maxLength) {
-//       throw new Error(`URL length exceeds maximum of ${maxLength} characters`);
-//     }
-
-//     // Check credentials
-//     if (!allowCredentials && (this.url.username || this.url.password)) {
-//       throw new Error('Credentials are not allowed');
-//     }
-//   }
-
-//   removeCredentials(): UrlMage {
-//     this.url.username = '';
-//     this.url.password = '';
-//     logger.debug({ id: this.id }, 'Removed credentials from URL');
-//     return this;
-//   }
-
-//   toSecure(): UrlMage {
-//     this.url.protocol = 'https:';
-//     return this;
-//   }
-
-//   isSecure(): boolean {
-//     return this.url.protocol === 'https:';
-//   }
-
-//   // Pattern Matching Methods
-//   matches(pattern: string): boolean {
-//     try {
-//       const urlPattern = new URLPattern(pattern);
-//       return urlPattern.test(this.url.toString());
-//     } catch {
-//       return false;
-//     }
-//   }
-// }
+import type { CanonicalizeOptions, CanonicalizeResult } from '../features/canonical/types'
+import type { DomainInfo } from '../features/domain/types/domain'
+import type { PathInfo, PathOptions } from '../features/path/types/path'
+import type { UrlPatternResult } from '../features/pattern/types'
+import type { ProtocolFullInfo } from '../features/protocol/types/protocol'
+import type { QueryInfo, QueryOptions } from '../features/query/types'
+import type {
+  SecuritySanitizerOptions,
+  SecurityScanOptions,
+  SecurityScanResult,
+} from '../features/security/types'
+import type { TrackingCleanerOptions, TrackingCleanResult } from '../features/tracking/types'
+import type {
+  QueryParams,
+  QueryValue,
+  URLComponents,
+  URLPattern,
+  URLValidationOptions,
+} from './types'
+import { isIP } from 'node:net'
+import { ErrorCode, ValidationError } from '../errors'
+import { UrlCanonicalizer } from '../features/canonical/canonicalizer'
+import { DomainHandler } from '../features/domain/core/domain-handler'
+import { PathHandler } from '../features/path/core/path-handler'
+import { UrlPattern } from '../features/pattern/url-pattern'
+import { ProtocolHandler } from '../features/protocol/core/protocol-handler'
+import { QueryHandler } from '../features/query/query-handler'
+import { SecurityChecker } from '../features/security/security-checker'
+import { SecuritySanitizer } from '../features/security/security-sanitizer'
+import { TrackingCleaner } from '../features/tracking/tracking-cleaner'
+import { FormattingUtils } from '../utils/formatting'
+import {
+  QueryParamsSchema,
+  QueryValueSchema,
+  URLComponentsSchema,
+  URLPatternSchema,
+  URLValidationOptionsSchema,
+} from './types'
+
+/**
+ * Input accepted wherever a URL is expected
+ * @typedef {string | URL | UrlMage} UrlInput
+ */
+export type UrlInput = string | URL | UrlMage
+
+/**
+ * UrlMage - immutable, chainable URL object
+ *
+ * Every mutator returns a new instance; the wrapped URL is never modified
+ * in place. Each new instance is validated against the same options.
+ * @class UrlMage
+ */
+export class UrlMage {
+  /** Shared feature handlers (all of them are stateless) */
+  private static readonly pathHandler = new PathHandler()
+  private static readonly queryHandler = new QueryHandler()
+  private static readonly domainHandler = new DomainHandler()
+  private static readonly protocolHandler = new ProtocolHandler()
+  private static readonly securityChecker = new SecurityChecker()
+  private static readonly canonicalizer = new UrlCanonicalizer()
+  private static readonly trackingCleaner = new TrackingCleaner()
+
+  /** The wrapped URL, never exposed directly */
+  private readonly url: URL
+
+  /** Validation options applied to this instance and all derived instances */
+  private readonly options: URLValidationOptions
+
+  /**
+   * Creates an instance of UrlMage
+   * @param {UrlInput} input - The URL to wrap
+   * @param {Partial<URLValidationOptions>} [options] - Validation options
+   * @throws {ValidationError} If the URL is malformed or fails validation
+   */
+  constructor(input: UrlInput, options?: Partial<URLValidationOptions>) {
+    this.options = URLValidationOptionsSchema.parse({
+      ...(input instanceof UrlMage ? input.options : {}),
+      ...options,
+    })
+    this.url = UrlMage.parseUrl(input)
+    this.validate()
+  }
+
+  /**
+   * Creates an instance of UrlMage
+   * @param {UrlInput} input - The URL to wrap
+   * @param {Partial<URLValidationOptions>} [options] - Validation options
+   * @returns {UrlMage} The new instance
+   */
+  public static from(input: UrlInput, options?: Partial<URLValidationOptions>): UrlMage {
+    return new UrlMage(input, options)
+  }
+
+  /**
+   * Checks whether the input would produce a valid instance
+   * @param {UrlInput} input - The URL to check
+   * @param {Partial<URLValidationOptions>} [options] - Validation options
+   * @returns {boolean} True if the URL parses and passes validation
+   */
+  public static isValid(input: UrlInput, options?: Partial<URLValidationOptions>): boolean {
+    try {
+      // Throws when the input is malformed or fails validation
+      UrlMage.from(input, options)
+      return true
+    }
+    catch {
+      return false
+    }
+  }
+
+  // Core Methods
+
+  /** The serialized URL */
+  public get href(): string {
+    return this.url.href
+  }
+
+  public toString(): string {
+    return this.url.href
+  }
+
+  public toJSON(): string {
+    return this.url.href
+  }
+
+  /**
+   * Returns a copy of the wrapped URL that can be mutated freely
+   * @returns {URL} A new URL object
+   */
+  public toURL(): URL {
+    return new URL(this.url.href)
+  }
+
+  /**
+   * Returns the validation options of this instance
+   * @returns {URLValidationOptions} A copy of the options
+   */
+  public getOptions(): URLValidationOptions {
+    return { ...this.options }
+  }
+
+  /**
+   * Creates a new instance with different validation options
+   * @param {Partial<URLValidationOptions>} options - Options to merge with the current ones
+   * @returns {UrlMage} The new instance
+   */
+  public withOptions(options: Partial<URLValidationOptions>): UrlMage {
+    return new UrlMage(this.url.href, { ...this.options, ...options })
+  }
+
+  /**
+   * Compares two URLs by their serialized form
+   * @param {UrlInput} other - The URL to compare with
+   * @returns {boolean} True if both URLs serialize identically
+   */
+  public equals(other: UrlInput): boolean {
+    try {
+      return UrlMage.parseUrl(other).href === this.url.href
+    }
+    catch {
+      return false
+    }
+  }
+
+  // Components Methods
+
+  /**
+   * Returns the URL split into its components
+   * @returns {URLComponents} The validated components
+   */
+  public getComponents(): URLComponents {
+    return URLComponentsSchema.parse({
+      protocol: this.url.protocol,
+      hostname: this.url.hostname,
+      port: this.url.port || undefined,
+      pathname: this.url.pathname,
+      search: this.url.search || undefined,
+      hash: this.url.hash || undefined,
+      username: this.url.username || undefined,
+      password: this.url.password || undefined,
+    })
+  }
+
+  // Path Methods
+
+  public getPathInfo(options?: Partial<PathOptions>): PathInfo {
+    return UrlMage.pathHandler.parse(this.url.pathname, options)
+  }
+
+  public getPathSegments(): string[] {
+    return UrlMage.pathHandler.getSegments(this.url.pathname)
+  }
+
+  public getPathSegment(index: number): string | null {
+    return this.getPathSegments()[index] ?? null
+  }
+
+  public setPath(path: string): UrlMage {
+    const normalized = UrlMage.pathHandler.normalizePath(path)
+    return this.with((url) => {
+      url.pathname = normalized
+    })
+  }
+
+  public appendPath(path: string): UrlMage {
+    const normalized = UrlMage.pathHandler.normalizePath(path)
+    return this.with((url) => {
+      url.pathname = UrlMage.pathHandler.join(url.pathname, normalized)
+    })
+  }
+
+  public prependPath(path: string): UrlMage {
+    const normalized = UrlMage.pathHandler.normalizePath(path)
+    return this.with((url) => {
+      url.pathname = UrlMage.pathHandler.join(normalized, url.pathname)
+    })
+  }
+
+  /**
+   * Replaces a single path segment; out-of-range indices leave the path unchanged.
+   * The other segments keep their encoding, so "%2F" in them stays one segment
+   * @param {number} index - Zero-based segment index
+   * @param {string} value - The new segment value, percent-encoded as a whole
+   * @returns {UrlMage} The new instance
+   */
+  public setPathSegment(index: number, value: string): UrlMage {
+    const parts = this.url.pathname.split('/')
+    const positions = parts.flatMap((part, position) => part ? [position] : [])
+    if (index < 0 || index >= positions.length) {
+      return this
+    }
+    parts[positions[index]] = encodeURIComponent(value)
+    return this.with((url) => {
+      url.pathname = parts.join('/')
+    })
+  }
+
+  // Query Methods
+
+  public getQueryInfo(options?: QueryOptions): QueryInfo {
+    return UrlMage.queryHandler.parse(this.url.search, options)
+  }
+
+  public getQueryParam(key: string): string | null {
+    return this.url.searchParams.get(key)
+  }
+
+  public getQueryParamAll(key: string): string[] {
+    return this.url.searchParams.getAll(key)
+  }
+
+  public getQueryParams(): Record<string, string | string[]> {
+    const result: Record<string, string | string[]> = {}
+    for (const key of new Set(this.url.searchParams.keys())) {
+      const values = this.url.searchParams.getAll(key)
+      result[key] = values.length > 1 ? values : values[0]
+    }
+    return result
+  }
+
+  public hasQueryParam(key: string): boolean {
+    return this.url.searchParams.has(key)
+  }
+
+  /**
+   * Sets a query parameter, replacing any existing values for the key.
+   * Arrays are stored as repeated keys; null is stored as an empty value.
+   * @param {string} key - Parameter name
+   * @param {QueryValue} value - Parameter value
+   * @returns {UrlMage} The new instance
+   */
+  public addQueryParam(key: string, value: QueryValue): UrlMage {
+    const parsedValue = QueryValueSchema.parse(value)
+    return this.with((url) => {
+      url.searchParams.delete(key)
+      for (const item of UrlMage.toQueryStrings(parsedValue)) {
+        url.searchParams.append(key, item)
+      }
+    })
+  }
+
+  /**
+   * Appends a query parameter, keeping any existing values for the key
+   * @param {string} key - Parameter name
+   * @param {QueryValue} value - Parameter value
+   * @returns {UrlMage} The new instance
+   */
+  public appendQueryParam(key: string, value: QueryValue): UrlMage {
+    const parsedValue = QueryValueSchema.parse(value)
+    return this.with((url) => {
+      for (const item of UrlMage.toQueryStrings(parsedValue)) {
+        url.searchParams.append(key, item)
+      }
+    })
+  }
+
+  public removeQueryParam(key: string): UrlMage {
+    return this.with((url) => {
+      url.searchParams.delete(key)
+    })
+  }
+
+  /**
+   * Removes tracking parameters and unwraps redirect wrappers
+   * @param {TrackingCleanerOptions} [options] - Cleaner options; the bundled rules are used by default
+   * @returns {UrlMage} The cleaned instance
+   */
+  public removeTracking(options?: TrackingCleanerOptions): UrlMage {
+    return new UrlMage(this.explainTracking(options).url, this.options)
+  }
+
+  /**
+   * Reports the tracking parameters and redirect wrappers that removeTracking() would strip
+   * @param {TrackingCleanerOptions} [options] - Cleaner options
+   * @returns {TrackingCleanResult} The cleaned URL and what was removed
+   */
+  public explainTracking(options?: TrackingCleanerOptions): TrackingCleanResult {
+    const cleaner = options ? new TrackingCleaner(options) : UrlMage.trackingCleaner
+    return cleaner.clean(this.url.href)
+  }
+
+  public clearQueryParams(): UrlMage {
+    return this.with((url) => {
+      url.search = ''
+    })
+  }
+
+  /**
+   * Replaces the whole query string with the given parameters
+   * @param {QueryParams} params - Parameters keyed by name
+   * @returns {UrlMage} The new instance
+   */
+  public setQueryParams(params: QueryParams): UrlMage {
+    const validatedParams = QueryParamsSchema.parse(params)
+    return this.with((url) => {
+      url.search = ''
+      for (const [key, value] of Object.entries(validatedParams)) {
+        for (const item of UrlMage.toQueryStrings(value)) {
+          url.searchParams.append(key, item)
+        }
+      }
+    })
+  }
+
+  public sortQueryParams(): UrlMage {
+    return this.with((url) => {
+      url.searchParams.sort()
+    })
+  }
+
+  // Fragment Methods
+
+  public getHash(): string {
+    return this.url.hash.replace(/^#/, '')
+  }
+
+  public setHash(hash: string): UrlMage {
+    return this.with((url) => {
+      url.hash = hash
+    })
+  }
+
+  public removeHash(): UrlMage {
+    return this.with((url) => {
+      url.hash = ''
+    })
+  }
+
+  // Domain Methods
+
+  public getHostname(): string {
+    return this.url.hostname
+  }
+
+  /**
+   * Returns the hostname with Punycode labels converted back to Unicode
+   * @returns {string} The Unicode hostname
+   */
+  public getUnicodeHostname(): string {
+    return this.isIpHost()
+      ? this.url.hostname
+      : UrlMage.domainHandler.fromPunycode(this.url.hostname)
+  }
+
+  public getDomainInfo(): DomainInfo {
+    return UrlMage.domainHandler.parse(this.getBareHostname())
+  }
+
+  public getRootDomain(): string {
+    return UrlMage.domainHandler.getRootDomain(this.getBareHostname())
+  }
+
+  public getSubdomains(): string[] {
+    return UrlMage.domainHandler.getSubdomains(this.getBareHostname())
+  }
+
+  public isSubdomainOf(parentDomain: string): boolean {
+    return UrlMage.domainHandler.isSubdomainOf(this.getBareHostname(), parentDomain)
+  }
+
+  public setHostname(hostname: string): UrlMage {
+    const normalized = UrlMage.domainHandler.normalize(hostname)
+    return this.with((url) => {
+      url.hostname = normalized
+    })
+  }
+
+  public addSubdomain(subdomain: string): UrlMage {
+    const hostname = UrlMage.domainHandler.addSubdomain(this.getBareHostname(), subdomain)
+    return this.with((url) => {
+      url.hostname = hostname
+    })
+  }
+
+  public removeSubdomain(): UrlMage {
+    const hostname = UrlMage.domainHandler.removeSubdomain(this.getBareHostname())
+    return this.with((url) => {
+      url.hostname = hostname
+    })
+  }
+
+  public replaceSubdomains(subdomain: string): UrlMage {
+    const hostname = UrlMage.domainHandler.replaceSubdomains(this.getBareHostname(), subdomain)
+    return this.with((url) => {
+      url.hostname = hostname
+    })
+  }
+
+  // Protocol Methods
+
+  public getProtocol(): string {
+    return this.url.protocol
+  }
+
+  public getProtocolInfo(): ProtocolFullInfo {
+    return UrlMage.protocolHandler.parse(this.url.protocol)
+  }
+
+  /**
+   * Changes the protocol; the URL standard forbids switching between
+   * special (http, ws, ftp, ...) and non-special schemes
+   * @param {string} protocol - The new protocol, with or without the trailing colon
+   * @returns {UrlMage} The new instance
+   * @throws {ValidationError} If the protocol cannot be applied
+   */
+  public setProtocol(protocol: string): UrlMage {
+    const normalized = `${protocol.toLowerCase().replace(/[:/]+$/, '')}:`
+    return this.with((url) => {
+      url.protocol = normalized
+      if (url.protocol !== normalized) {
+        throw new ValidationError(
+          `Cannot change protocol from ${this.url.protocol} to ${normalized}`,
+          ErrorCode.INVALID_PROTOCOL,
+          { from: this.url.protocol, to: normalized },
+        )
+      }
+    })
+  }
+
+  public isSecure(): boolean {
+    return UrlMage.protocolHandler.isSecure(this.url.protocol)
+  }
+
+  /**
+   * Switches to the secure alternative of the current protocol (http → https, ws → wss).
+   * Default ports of the old protocol are dropped.
+   * @returns {UrlMage} The new instance, or this instance if it is already secure
+   */
+  public toSecure(): UrlMage {
+    if (this.isSecure()) {
+      return this
+    }
+
+    const alternative = UrlMage.protocolHandler.getSecureAlternative(this.url.protocol)
+    if (!alternative) {
+      throw new ValidationError(
+        `No secure alternative for protocol ${this.url.protocol}`,
+        ErrorCode.UNSAFE_PROTOCOL,
+      )
+    }
+
+    const insecurePort = UrlMage.protocolHandler.getDefaultPort(this.url.protocol)
+    return this.setProtocol(alternative).with((url) => {
+      if (url.port && Number(url.port) === insecurePort) {
+        url.port = ''
+      }
+    })
+  }
+
+  /**
+   * Returns the explicit port, or the default port of the protocol
+   * @returns {number | undefined} The effective port
+   */
+  public getPort(): number | undefined {
+    return this.url.port
+      ? Number.parseInt(this.url.port, 10)
+      : UrlMage.protocolHandler.getDefaultPort(this.url.protocol)
+  }
+
+  /**
+   * Sets the port
+   * @param {string | number} port - Port number between 0 and 65535
+   * @returns {UrlMage} The new instance
+   * @throws {ValidationError} If the port is not an integer between 0 and 65535
+   */
+  public setPort(port: string | number): UrlMage {
+    // URL would silently keep the old port, or a numeric prefix of the new one
+    const value = typeof port === 'number' ? port : /^\d+$/.test(port) ? Number(port) : Number.NaN
+    if (!Number.isInteger(value) || value < 0 || value > 65535) {
+      throw new ValidationError(`Invalid port: ${port}`, ErrorCode.INVALID_PORT, { port })
+    }
+    return this.with((url) => {
+      url.port = String(value)
+    })
+  }
+
+  public removePort(): UrlMage {
+    return this.with((url) => {
+      url.port = ''
+    })
+  }
+
+  // Credentials Methods
+
+  public hasCredentials(): boolean {
+    return Boolean(this.url.username || this.url.password)
+  }
+
+  public setCredentials(username: string, password = ''): UrlMage {
+    return this.with((url) => {
+      url.username = username
+      url.password = password
+    })
+  }
+
+  public removeCredentials(): UrlMage {
+    return this.with((url) => {
+      url.username = ''
+      url.password = ''
+    })
+  }
+
+  // Formatting Methods
+
+  public format(options: Parameters<typeof FormattingUtils.formatUrl>[1] = {}): UrlMage {
+    return new UrlMage(FormattingUtils.formatUrl(this.url.href, options), this.options)
+  }
+
+  /**
+   * Canonicalizes the URL through the canonicalization pipeline
+   * @param {CanonicalizeOptions} [options] - Preset and step overrides
+   * @returns {UrlMage} The canonical instance
+   */
+  public canonicalize(options?: CanonicalizeOptions): UrlMage {
+    return new UrlMage(this.explainCanonicalization(options).url, this.options)
+  }
+
+  /**
+   * Canonicalizes the URL and reports which steps changed it
+   * @param {CanonicalizeOptions} [options] - Preset and step overrides
+   * @returns {CanonicalizeResult} The canonical URL and the changes per step
+   */
+  public explainCanonicalization(options?: CanonicalizeOptions): CanonicalizeResult {
+    return UrlMage.canonicalizer.canonicalize(this.url.href, options)
+  }
+
+  // Pattern Matching Methods
+
+  /**
+   * Checks the URL against a URLPattern-style pattern
+   * @param {string | URLPattern | UrlPattern} pattern - Pattern string, per-component patterns or compiled pattern
+   * @returns {boolean} True if the URL matches
+   * @throws {ParseError} If the pattern is invalid
+   */
+  public matches(pattern: string | URLPattern | UrlPattern): boolean {
+    return UrlMage.toPattern(pattern).test(this.url.href)
+  }
+
+  /**
+   * Matches the URL against a URLPattern-style pattern
+   * @param {string | URLPattern | UrlPattern} pattern - Pattern string, per-component patterns or compiled pattern
+   * @returns {UrlPatternResult | null} Captured groups per component, or null if the URL does not match
+   * @throws {ParseError} If the pattern is invalid
+   */
+  public match(pattern: string | URLPattern | UrlPattern): UrlPatternResult | null {
+    return UrlMage.toPattern(pattern).exec(this.url.href)
+  }
+
+  // Security Methods
+
+  /**
+   * Runs the URL through SecuritySanitizer
+   * @param {SecuritySanitizerOptions} [options] - Sanitizer options
+   * @returns {UrlMage} The sanitized instance
+   * @throws {SecurityError} If the URL fails sanitization
+   */
+  public sanitize(options?: SecuritySanitizerOptions): UrlMage {
+    return new UrlMage(new SecuritySanitizer(options).sanitize(this.url.href), this.options)
+  }
+
+  /**
+   * Runs a full security scan of the URL
+   * @param {SecurityScanOptions} [options] - Scan options
+   * @returns {Promise<SecurityScanResult>} The scan result
+   */
+  public async checkSecurity(options?: SecurityScanOptions): Promise<SecurityScanResult> {
+    return UrlMage.securityChecker.checkUrl(this.url.href, options)
+  }
+
+  // Internals
+
+  /**
+   * Applies a mutation to a copy of the URL and wraps the result
+   * @param {(url: URL) => void} mutate - Mutation applied to the copy
+   * @returns {UrlMage} The new, validated instance
+   * @private
+   */
+  private with(mutate: (url: URL) => void): UrlMage {
+    const copy = new URL(this.url.href)
+    mutate(copy)
+    return new UrlMage(copy, this.options)
+  }
+
+  /**
+   * Validates the wrapped URL against the instance options
+   * @throws {ValidationError} If any rule is violated
+   * @private
+   */
+  private validate(): void {
+    const {
+      allowedProtocols,
+      requireSecure,
+      maxLength,
+      allowCredentials,
+      allowLocalhost,
+      allowIPv4,
+      allowIPv6,
+      allowQueryParams,
+      allowFragment,
+      customValidation,
+    } = this.options
+    const { href, protocol, hostname, search, hash } = this.url
+
+    if (!(allowedProtocols as string[]).includes(protocol)) {
+      throw new ValidationError(
+        `Protocol ${protocol} is not allowed. Allowed protocols: ${allowedProtocols.join(', ')}`,
+        ErrorCode.INVALID_PROTOCOL,
+        { protocol, allowedProtocols },
+      )
+    }
+
+    if (requireSecure && !UrlMage.protocolHandler.isSecure(protocol)) {
+      throw new ValidationError(
+        `A secure protocol is required, got ${protocol}`,
+        ErrorCode.UNSAFE_PROTOCOL,
+        { protocol },
+      )
+    }
+
+    if (href.length > maxLength) {
+      throw new ValidationError(
+        `URL length exceeds maximum of ${maxLength} characters`,
+        ErrorCode.URL_TOO_LONG,
+        { length: href.length, maxLength },
+      )
+    }
+
+    if (!allowCredentials && (this.url.username || this.url.password)) {
+      throw new ValidationError(
+        'Credentials are not allowed',
+        ErrorCode.INVALID_CREDENTIALS,
+      )
+    }
+
+    const bareHostname = this.getBareHostname()
+    if (
+      !allowLocalhost
+      && (bareHostname === 'localhost' || bareHostname.endsWith('.localhost'))
+    ) {
+      throw new ValidationError(
+        'Localhost is not allowed',
+        ErrorCode.INVALID_HOSTNAME,
+        { hostname },
+      )
+    }
+
+    const ipVersion = isIP(bareHostname)
+    if (!allowIPv4 && ipVersion === 4) {
+      throw new ValidationError(
+        'IPv4 hosts are not allowed',
+        ErrorCode.INVALID_IP,
+        { hostname },
+      )
+    }
+    if (!allowIPv6 && ipVersion === 6) {
+      throw new ValidationError(
+        'IPv6 hosts are not allowed',
+        ErrorCode.INVALID_IP,
+        { hostname },
+      )
+    }
+
+    if (!allowQueryParams && search) {
+      throw new ValidationError(
+        'Query parameters are not allowed',
+        ErrorCode.INVALID_QUERY,
+      )
+    }
+
+    if (!allowFragment && hash) {
+      throw new ValidationError(
+        'Fragments are not allowed',
+        ErrorCode.INVALID_FRAGMENT,
+      )
+    }
+
+    if (customValidation && !customValidation(href)) {
+      throw new ValidationError(
+        'URL failed custom validation',
+        ErrorCode.INVALID_URL,
+        { url: href },
+      )
+    }
+  }
+
+  /**
+   * Hostname without the brackets URL puts around IPv6 addresses
+   * @returns {string} The bare hostname
+   * @private
+   */
+  private getBareHostname(): string {
+    return this.url.hostname.replace(/^\[(.*)\]$/, '$1')
+  }
+
+  private isIpHost(): boolean {
+    return isIP(this.getBareHostname()) !== 0
+  }
+
+  /**
+   * Parses any accepted input into a fresh URL object
+   * @param {UrlInput} input - The input to parse
+   * @returns {URL} The parsed URL
+   * @throws {ValidationError} If the input is not a valid absolute URL
+   * @private
+   */
+  private static parseUrl(input: UrlInput): URL {
+    const href = typeof input === 'string' ? input : input.href
+    try {
+      return new URL(href)
+    }
+    catch (error) {
+      throw new ValidationError(
+        `Invalid URL: ${href}`,
+        ErrorCode.INVALID_URL,
+        { url: href },
+        error instanceof Error ? error : undefined,
+      )
+    }
+  }
+
+  /**
+   * Compiles a pattern unless it already is one
+   * @param {string | URLPattern | UrlPattern} pattern - The pattern
+   * @returns {UrlPattern} The compiled pattern
+   * @private
+   */
+  private static toPattern(pattern: string | URLPattern | UrlPattern): UrlPattern {
+    if (pattern instanceof UrlPattern) {
+      return pattern
+    }
+    return new UrlPattern(typeof pattern === 'string' ? pattern : URLPatternSchema.parse(pattern))
+  }
+
+  /**
+   * Converts a query value into the strings stored in the query string
+   * @param {QueryValue} value - The value to convert
+   * @returns {string[]} One string per stored key/value pair
+   * @private
+   */
+  private static toQueryStrings(value: QueryValue): string[] {
+    if (value === null) {
+      return ['']
+    }
+    if (Array.isArray(value)) {
+      return value.map(String)
+    }
+    return [String(value)]
+  }
+}
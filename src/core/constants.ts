@@ -79,15 +79,16 @@ export const REGEX = {
   XSS_PATTERNS: [
     /<script\b[^>]*>(.*?)<\/script>/gi,
     /javascript:/gi,
-    /on\w+\s*=\s*"[^"]*"/gi,
-    /on\w+\s*=\s*'[^']*'/gi,
-    /on\w+\s*=[^"'\s>]+/gi,
+    /(?:^|[\s"'/<])on\w+\s*=\s*"[^"]*"/gi,
+    /(?:^|[\s"'/<])on\w+\s*=\s*'[^']*'/gi,
+    /(?:^|[\s"'/<])on\w+\s*=[^"'\s>]+/gi,
   ],
   SQL_INJECTION: [
     /%27|'|--|%23|#/,
     /((%3D)|=)[^\n]*((%27)|'|--|%3B|%2B|%20)/i,
     /\w*((%27)|')((%6F)|o|(%4F))((%72)|r|(%52))/i,
     /((%27)|')union/i,
+    /\bunion(?:\s+all)?\s+select\b/i,
   ],
 } as const
 
@@ -154,6 +155,7 @@ export const SECURITY = {
     'redirect',
     'redirectUrl',
     'redirect_uri',
+    'redirect_to',
     'return',
     'returnUrl',
     'return_url',
@@ -51,10 +51,14 @@ export const URLComponentsSchema = z.object({
 // Pattern Matching Schema
 export const URLPatternSchema = z.object({
   protocol: z.string().optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
   hostname: z.string().optional(),
+  port: z.string().optional(),
   pathname: z.string().optional(),
   search: z.string().optional(),
   hash: z.string().optional(),
+  baseURL: z.string().optional(),
 })
 
 // Export inferred types
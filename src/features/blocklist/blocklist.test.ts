@@ -0,0 +1,106 @@
+import type { BlocklistFeedInfo } from './types'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { OperationError, ValidationError } from '../../errors'
+import { Blocklist } from './blocklist'
+
+describe('blocklist', () => {
+  it('matches hostnames and URLs against every feed', async () => {
+    const blocklist = await Blocklist.create([
+      { name: 'ads', content: '0.0.0.0 ads.example\n' },
+      { name: 'threats', content: 'bad.example\n', format: 'domains' },
+      { name: 'urlhaus', content: '"1","2024-05-01 10:00:00","http://host.example/x.exe","online","","malware_download","exe","",""' },
+    ])
+
+    expect(blocklist.match('https://ads.example/banner')).toMatchObject([{ feed: 'ads', type: 'domain', value: 'ads.example', line: 1 }])
+    expect(blocklist.isBlocked('sub.ads.example')).toBe(false)
+    expect(blocklist.isBlocked('deep.sub.bad.example')).toBe(true)
+    expect(blocklist.match('http://HOST.example/x.exe#frag')).toEqual([{
+      feed: 'urlhaus',
+      rule: 'http://host.example/x.exe',
+      line: 1,
+      type: 'url',
+      value: 'http://host.example/x.exe',
+      threat: 'malware_download',
+      tags: ['exe'],
+    }])
+    expect(blocklist.isBlocked('http://host.example/other')).toBe(false)
+  })
+
+  it('lifts domain rules with Adblock exceptions from any feed', async () => {
+    const blocklist = await Blocklist.create([
+      { name: 'easylist', content: '||ads.example^\n@@||cdn.ads.example^\n' },
+      { name: 'local', content: 'tracker.example\n', format: 'domains' },
+      { name: 'allow', content: '@@||ok.tracker.example^\n', format: 'adblock' },
+    ])
+
+    expect(blocklist.isBlocked('img.ads.example')).toBe(true)
+    expect(blocklist.isBlocked('cdn.ads.example')).toBe(false)
+    expect(blocklist.isBlocked('x.cdn.ads.example')).toBe(false)
+    expect(blocklist.isBlocked('ok.tracker.example')).toBe(false)
+    expect(blocklist.getFeeds()[0]).toMatchObject({ name: 'easylist', format: 'adblock', rules: 1, exceptions: 1 })
+  })
+
+  it('refuses a second feed with the same name', () => {
+    const blocklist = new Blocklist()
+    blocklist.addContent('ads', 'ads.example')
+
+    expect(() => blocklist.addContent('ads', 'other.example')).toThrow(ValidationError)
+    expect(blocklist.removeFeed('ads')).toBe(true)
+    expect(blocklist.isBlocked('ads.example')).toBe(false)
+  })
+
+  describe('file feeds', () => {
+    let dir: string
+    let path: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'blocklist-'))
+      path = join(dir, 'hosts.txt')
+      await writeFile(path, '0.0.0.0 old.example\n')
+    })
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('reloads feeds from disk', async () => {
+      const blocklist = await Blocklist.create([{ name: 'hosts', path }])
+      expect(blocklist.isBlocked('old.example')).toBe(true)
+
+      await writeFile(path, '0.0.0.0 new.example\n')
+      const [info] = await blocklist.reload()
+
+      expect(info).toMatchObject({ name: 'hosts', path, rules: 1 })
+      expect(blocklist.isBlocked('old.example')).toBe(false)
+      expect(blocklist.isBlocked('new.example')).toBe(true)
+    })
+
+    it('keeps the previous rules when a reload fails', async () => {
+      const blocklist = await Blocklist.create([{ name: 'hosts', path }])
+      await rm(path)
+
+      await expect(blocklist.reload('hosts')).rejects.toThrow(OperationError)
+      expect(blocklist.isBlocked('old.example')).toBe(true)
+    })
+
+    it('reloads a feed when its file changes', async () => {
+      const blocklist = await Blocklist.create([{ name: 'hosts', path }])
+      let stop = (): void => {}
+      const reloaded = new Promise<BlocklistFeedInfo>((resolve) => {
+        stop = blocklist.watch({ debounceMs: 10, onReload: resolve })
+      })
+
+      try {
+        await writeFile(path, '0.0.0.0 new.example\n')
+        expect(await reloaded).toMatchObject({ name: 'hosts', rules: 1 })
+        expect(blocklist.isBlocked('new.example')).toBe(true)
+      }
+      finally {
+        stop()
+      }
+    })
+  })
+})
@@ -0,0 +1,355 @@
+import type { FSWatcher } from 'node:fs'
+import type {
+  BlocklistFeed,
+  BlocklistFeedInfo,
+  BlocklistMatch,
+  BlocklistRule,
+  BlocklistWatchOptions,
+} from './types'
+import { watch } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { ErrorCode, OperationError, ValidationError } from '../../errors'
+import { DomainTrie } from './domain-trie'
+import { FeedParser } from './feed-parser'
+import { BlocklistFeedSchema } from './types'
+
+interface LoadedFeed {
+  info: BlocklistFeedInfo
+  rules: BlocklistRule[]
+}
+
+interface BlocklistIndex {
+  blocks: DomainTrie
+  exceptions: DomainTrie
+  urls: Map<string, BlocklistRule[]>
+}
+
+/**
+ * Matches URLs and hostnames against blocklist and threat feeds. Every
+ * change builds a new index that replaces the old one in a single step, so
+ * lookups never see a half-loaded feed
+ * @class Blocklist
+ */
+export class Blocklist {
+  /**
+   * Parser for feed contents
+   * @private
+   * @readonly
+   */
+  private readonly parser = new FeedParser()
+
+  /**
+   * Loaded feeds by name
+   * @private
+   */
+  private feeds = new Map<string, LoadedFeed>()
+
+  /**
+   * Index of the rules of every loaded feed
+   * @private
+   */
+  private index: BlocklistIndex = this.buildIndex([])
+
+  /**
+   * Loads feeds given inline or as local files
+   * @param {BlocklistFeed[]} feeds - The feeds
+   * @returns {Promise<Blocklist>} A blocklist holding the feeds
+   * @throws {ValidationError} If a feed is invalid or two feeds share a name
+   * @throws {OperationError} If a feed file cannot be read
+   */
+  public static async create(feeds: BlocklistFeed[]): Promise<Blocklist> {
+    const blocklist = new Blocklist()
+    for (const feed of feeds) {
+      await blocklist.addFeed(feed)
+    }
+    return blocklist
+  }
+
+  /**
+   * Adds a feed; feeds with a path are read from disk
+   * @param {BlocklistFeed} feed - The feed
+   * @returns {Promise<BlocklistFeedInfo>} Summary of the loaded feed
+   * @throws {ValidationError} If the feed is invalid or its name is taken
+   * @throws {OperationError} If the feed file cannot be read
+   */
+  public async addFeed(feed: BlocklistFeed): Promise<BlocklistFeedInfo> {
+    const validated = BlocklistFeedSchema.parse(feed)
+    this.assertNameFree(validated.name)
+
+    const content = validated.path === undefined
+      ? validated.content ?? ''
+      : await this.readFeed(validated.name, validated.path)
+    const loaded = this.load(validated.name, validated.format, content, validated.path)
+
+    this.commit(new Map(this.feeds).set(validated.name, loaded))
+    return loaded.info
+  }
+
+  /**
+   * Adds a feed given inline
+   * @param {string} name - Feed name
+   * @param {string} content - Feed content
+   * @param {BlocklistFeed['format']} [format] - Feed format
+   * @returns {BlocklistFeedInfo} Summary of the loaded feed
+   * @throws {ValidationError} If the name is taken
+   */
+  public addContent(name: string, content: string, format?: BlocklistFeed['format']): BlocklistFeedInfo {
+    const validated = BlocklistFeedSchema.parse({ name, content, format })
+    this.assertNameFree(validated.name)
+
+    const loaded = this.load(validated.name, validated.format, content)
+    this.commit(new Map(this.feeds).set(validated.name, loaded))
+    return loaded.info
+  }
+
+  /**
+   * Removes a feed
+   * @param {string} name - Feed name
+   * @returns {boolean} Whether the feed was loaded
+   */
+  public removeFeed(name: string): boolean {
+    if (!this.feeds.has(name)) {
+      return false
+    }
+
+    const feeds = new Map(this.feeds)
+    feeds.delete(name)
+    this.commit(feeds)
+    return true
+  }
+
+  /**
+   * Re-reads file feeds from disk. All of them are read and parsed before
+   * any is replaced; if one fails, none is
+   * @param {string} [name] - Feed to reload; all file feeds when omitted
+   * @returns {Promise<BlocklistFeedInfo[]>} Summaries of the reloaded feeds
+   * @throws {ValidationError} If the named feed is not loaded from a file
+   * @throws {OperationError} If a feed file cannot be read
+   */
+  public async reload(name?: string): Promise<BlocklistFeedInfo[]> {
+    const targets = name === undefined
+      ? Array.from(this.feeds.values()).filter(feed => feed.info.path !== undefined)
+      : [this.feeds.get(name)]
+
+    const reloaded: LoadedFeed[] = []
+    for (const feed of targets) {
+      if (feed?.info.path === undefined) {
+        throw new ValidationError(
+          `Feed "${name}" is not loaded from a file`,
+          ErrorCode.INVALID_OPERATION,
+          { feed: name },
+        )
+      }
+
+      const content = await this.readFeed(feed.info.name, feed.info.path)
+      reloaded.push(this.load(feed.info.name, feed.info.format, content, feed.info.path))
+    }
+
+    const feeds = new Map(this.feeds)
+    for (const feed of reloaded) {
+      // The feed may have been removed while its file was being read
+      if (feeds.has(feed.info.name)) {
+        feeds.set(feed.info.name, feed)
+      }
+    }
+    this.commit(feeds)
+
+    return reloaded.map(feed => feed.info)
+  }
+
+  /**
+   * Reloads file feeds whenever their files change
+   * @param {BlocklistWatchOptions} [options] - Watch options
+   * @returns {() => void} Function that stops watching
+   */
+  public watch(options: BlocklistWatchOptions = {}): () => void {
+    const watchers: FSWatcher[] = []
+    const timers = new Map<string, ReturnType<typeof setTimeout>>()
+
+    for (const { info } of this.feeds.values()) {
+      if (info.path === undefined) {
+        continue
+      }
+
+      const reloadFeed = (): void => {
+        timers.delete(info.name)
+        this.reload(info.name)
+          .then(([feed]) => options.onReload?.(feed))
+          .catch((error: unknown) => {
+            options.onError?.(error instanceof Error ? error : new Error(String(error)), info.name)
+          })
+      }
+
+      const watcher = watch(info.path, () => {
+        clearTimeout(timers.get(info.name))
+        timers.set(info.name, setTimeout(reloadFeed, options.debounceMs ?? 100))
+      })
+      watcher.on('error', error => options.onError?.(error, info.name))
+      watchers.push(watcher)
+    }
+
+    return () => {
+      watchers.forEach(watcher => watcher.close())
+      timers.forEach(timer => clearTimeout(timer))
+      timers.clear()
+    }
+  }
+
+  /**
+   * Finds the rules blocking a URL or hostname. Domain rules are lifted
+   * by matching exception rules from any feed; URL rules are not
+   * @param {string} target - A URL or a hostname
+   * @returns {BlocklistMatch[]} The matching rules
+   */
+  public match(target: string): BlocklistMatch[] {
+    const index = this.index
+    const { hostname, url } = this.parseTarget(target)
+    const matches: BlocklistRule[] = []
+
+    if (url !== undefined) {
+      matches.push(...index.urls.get(url) ?? [])
+    }
+    if (hostname !== undefined && index.exceptions.lookup(hostname).length === 0) {
+      matches.push(...index.blocks.lookup(hostname))
+    }
+
+    return matches.map(({ feed, rule, line, type, value, threat, tags }) => ({
+      feed,
+      rule,
+      line,
+      type,
+      value,
+      ...(threat === undefined ? {} : { threat }),
+      ...(tags === undefined ? {} : { tags }),
+    }))
+  }
+
+  /**
+   * Checks whether any rule blocks a URL or hostname
+   * @param {string} target - A URL or a hostname
+   * @returns {boolean} Whether the target is blocked
+   */
+  public isBlocked(target: string): boolean {
+    return this.match(target).length > 0
+  }
+
+  /**
+   * Returns summaries of the loaded feeds
+   * @returns {BlocklistFeedInfo[]} Feed summaries in load order
+   */
+  public getFeeds(): BlocklistFeedInfo[] {
+    return Array.from(this.feeds.values(), feed => ({ ...feed.info }))
+  }
+
+  private assertNameFree(name: string): void {
+    if (this.feeds.has(name)) {
+      throw new ValidationError(
+        `A feed named "${name}" is already loaded`,
+        ErrorCode.INVALID_OPERATION,
+        { feed: name },
+      )
+    }
+  }
+
+  /**
+   * Parses a feed and attaches its name to the rules
+   * @private
+   */
+  private load(name: string, format: BlocklistFeed['format'], content: string, path?: string): LoadedFeed {
+    const parsed = this.parser.parse(content, format)
+    const rules = parsed.rules.map(rule => ({ feed: name, ...rule }))
+
+    return {
+      info: {
+        name,
+        format: parsed.format,
+        ...(path === undefined ? {} : { path }),
+        rules: rules.filter(rule => !rule.exception).length,
+        exceptions: rules.filter(rule => rule.exception).length,
+        loadedAt: new Date(),
+      },
+      rules,
+    }
+  }
+
+  /**
+   * Replaces the feeds and their index
+   * @private
+   */
+  private commit(feeds: Map<string, LoadedFeed>): void {
+    const index = this.buildIndex(Array.from(feeds.values()))
+    this.feeds = feeds
+    this.index = index
+  }
+
+  private buildIndex(feeds: LoadedFeed[]): BlocklistIndex {
+    const index: BlocklistIndex = {
+      blocks: new DomainTrie(),
+      exceptions: new DomainTrie(),
+      urls: new Map(),
+    }
+
+    for (const { rules } of feeds) {
+      for (const rule of rules) {
+        if (rule.type === 'url') {
+          const existing = index.urls.get(rule.value)
+          if (existing) {
+            existing.push(rule)
+          }
+          else {
+            index.urls.set(rule.value, [rule])
+          }
+        }
+        else if (rule.exception) {
+          index.exceptions.insert(rule)
+        }
+        else {
+          index.blocks.insert(rule)
+        }
+      }
+    }
+
+    return index
+  }
+
+  /**
+   * Splits a lookup target into its normalized hostname and URL
+   * @private
+   */
+  private parseTarget(target: string): { hostname?: string, url?: string } {
+    if (!/^[a-z][\w+.-]*:\/\//i.test(target)) {
+      return { hostname: this.parser.normalizeHost(target) }
+    }
+
+    try {
+      const parsed = new URL(target)
+      // URL keeps the brackets around IPv6 hosts; feeds do not
+      const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1')
+      return {
+        hostname: hostname ? this.parser.normalizeHost(hostname) : undefined,
+        url: this.parser.normalizeUrl(target),
+      }
+    }
+    catch {
+      return {}
+    }
+  }
+
+  /**
+   * Reads a feed file
+   * @private
+   */
+  private async readFeed(name: string, path: string): Promise<string> {
+    try {
+      return await readFile(path, 'utf8')
+    }
+    catch (error) {
+      throw new OperationError(
+        `Failed to read feed "${name}" from ${path}`,
+        ErrorCode.OPERATION_FAILED,
+        { feed: name, path },
+        error instanceof Error ? error : undefined,
+      )
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Addresses hosts files use to block a name
+ */
+export const HOSTS_SINK_ADDRESSES = new Set(['0.0.0.0', '127.0.0.1', '::', '::1', '0:0:0:0:0:0:0:0', '0:0:0:0:0:0:0:1'])
+
+/**
+ * Names every hosts file maps to itself; they are never rules
+ */
+export const HOSTS_IGNORED_NAMES = new Set([
+  'localhost',
+  'localhost.localdomain',
+  'local',
+  'broadcasthost',
+  'ip6-localhost',
+  'ip6-loopback',
+  'ip6-localnet',
+  'ip6-mcastprefix',
+  'ip6-allnodes',
+  'ip6-allrouters',
+  'ip6-allhosts',
+  '0.0.0.0',
+])
+
+/**
+ * Header comment and data rows of a URLhaus CSV export
+ */
+export const URLHAUS_HEADER_PATTERN = /^#\s*"?id"?,\s*"?dateadded"?,/im
+export const URLHAUS_ROW_PATTERN = /^"\d+","\d{4}-\d{2}-\d{2}/
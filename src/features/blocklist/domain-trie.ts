@@ -0,0 +1,85 @@
+import type { BlocklistRule } from './types'
+import { isIP } from 'node:net'
+
+interface TrieNode {
+  children: Map<string, TrieNode>
+  rules: BlocklistRule[]
+}
+
+/**
+ * Hostname rules keyed by their labels from the TLD down, so that a lookup
+ * costs one step per label of the hostname whatever the number of rules
+ * @class DomainTrie
+ */
+export class DomainTrie {
+  /**
+   * Node of the empty name
+   * @private
+   * @readonly
+   */
+  private readonly root: TrieNode = this.createNode()
+
+  /**
+   * Number of rules in the trie
+   */
+  public size = 0
+
+  /**
+   * Adds a rule under its hostname
+   * @param {BlocklistRule} rule - A 'domain' rule
+   */
+  public insert(rule: BlocklistRule): void {
+    let node = this.root
+    for (const label of this.getLabels(rule.value)) {
+      let child = node.children.get(label)
+      if (!child) {
+        child = this.createNode()
+        node.children.set(label, child)
+      }
+      node = child
+    }
+
+    node.rules.push(rule)
+    this.size++
+  }
+
+  /**
+   * Finds the rules covering a hostname: rules for the hostname itself and
+   * rules for its parent domains that include subdomains
+   * @param {string} hostname - Lowercase hostname
+   * @returns {BlocklistRule[]} Matching rules, closest to the TLD first
+   */
+  public lookup(hostname: string): BlocklistRule[] {
+    const labels = this.getLabels(hostname)
+    const found: BlocklistRule[] = []
+
+    let node: TrieNode | undefined = this.root
+    for (let depth = 0; depth < labels.length && node; depth++) {
+      node = node.children.get(labels[depth])
+      if (!node) {
+        break
+      }
+
+      const exact = depth === labels.length - 1
+      for (const rule of node.rules) {
+        if (exact || rule.includeSubdomains) {
+          found.push(rule)
+        }
+      }
+    }
+
+    return found
+  }
+
+  /**
+   * Splits a hostname into labels, TLD first; IP addresses are a single label
+   * @private
+   */
+  private getLabels(hostname: string): string[] {
+    return isIP(hostname) === 0 ? hostname.split('.').reverse() : [hostname]
+  }
+
+  private createNode(): TrieNode {
+    return { children: new Map(), rules: [] }
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { ParseError } from '../../errors'
+import { FeedParser } from './feed-parser'
+
+const URLHAUS = [
+  '# abuse.ch URLhaus Database Dump (CSV)',
+  '# id,dateadded,url,url_status,last_online,threat,tags,urlhaus_link,reporter',
+  '"3001","2024-05-01 10:00:00","http://bad.example/payload.exe#x","online","2024-05-01","malware_download","exe,Emotet","https://urlhaus.abuse.ch/url/3001/","someone"',
+  '"3002","2024-05-01 10:05:00","not a url","offline","","","","",""',
+].join('\n')
+
+describe('feedParser', () => {
+  const parser = new FeedParser()
+
+  it('detects the format from the content', () => {
+    expect(parser.detectFormat('0.0.0.0 ads.example\n')).toBe('hosts')
+    expect(parser.detectFormat('! Title: list\n||ads.example^\n')).toBe('adblock')
+    expect(parser.detectFormat('ads.example\ntracker.example\n')).toBe('domains')
+    expect(parser.detectFormat(URLHAUS)).toBe('urlhaus')
+  })
+
+  it('reads hosts files without the names every hosts file maps', () => {
+    const { rules } = parser.parse([
+      '127.0.0.1 localhost',
+      '0.0.0.0 Ads.Example. tracker.example # trailing comment',
+      '192.168.1.10 printer.lan',
+    ].join('\n'), 'hosts')
+
+    expect(rules.map(rule => [rule.value, rule.line, rule.includeSubdomains])).toEqual([
+      ['ads.example', 2, false],
+      ['tracker.example', 2, false],
+    ])
+  })
+
+  it('reads domain lists, subdomains included', () => {
+    const { rules } = parser.parse('# comment\n*.ads.example\nbad.example ! note\n\n203.0.113.7\n', 'domains')
+
+    expect(rules.map(rule => [rule.value, rule.includeSubdomains])).toEqual([
+      ['ads.example', true],
+      ['bad.example', true],
+      ['203.0.113.7', false],
+    ])
+  })
+
+  it('keeps only document-level Adblock network rules', () => {
+    const { rules } = parser.parse([
+      '[Adblock Plus 2.0]',
+      '||ads.example^',
+      '@@||good.ads.example^',
+      '||third.example^$third-party',
+      '||images.example^$image',
+      '||undone.example^$badfilter',
+      'example.com##.banner',
+      '||path.example/ads/*',
+    ].join('\n'), 'adblock')
+
+    expect(rules.map(rule => [rule.value, rule.exception])).toEqual([
+      ['ads.example', false],
+      ['good.ads.example', true],
+      ['third.example', false],
+    ])
+  })
+
+  it('reads URLhaus rows with their threat and tags', () => {
+    const { format, rules } = parser.parse(URLHAUS)
+
+    expect(format).toBe('urlhaus')
+    expect(rules).toEqual([{
+      rule: 'http://bad.example/payload.exe#x',
+      line: 3,
+      type: 'url',
+      value: 'http://bad.example/payload.exe',
+      includeSubdomains: false,
+      exception: false,
+      threat: 'malware_download',
+      tags: ['exe', 'Emotet'],
+    }])
+  })
+
+  it('fails on a URLhaus header without a url column', () => {
+    expect(() => parser.parse('# id,dateadded,link\n"1","2024-01-01","x"', 'urlhaus')).toThrow(ParseError)
+  })
+})
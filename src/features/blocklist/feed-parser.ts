@@ -0,0 +1,265 @@
+import type { BlocklistFormat, ParsedBlocklistRule } from './types'
+import { isIP } from 'node:net'
+import { ErrorCode, ParseError } from '../../errors'
+import {
+  HOSTS_IGNORED_NAMES,
+  HOSTS_SINK_ADDRESSES,
+  URLHAUS_HEADER_PATTERN,
+  URLHAUS_ROW_PATTERN,
+} from './constants'
+
+export class FeedParser {
+  /**
+   * Parses a feed into rules; lines that are not rules are skipped
+   * @param {string} content - Feed content
+   * @param {BlocklistFormat} [format] - Feed format
+   * @returns {{ format: Exclude<BlocklistFormat, 'auto'>, rules: ParsedBlocklistRule[] }} The detected format and the rules
+   * @throws {ParseError} If a URLhaus feed has no url column
+   */
+  public parse(
+    content: string,
+    format: BlocklistFormat = 'auto',
+  ): { format: Exclude<BlocklistFormat, 'auto'>, rules: ParsedBlocklistRule[] } {
+    const resolved = format === 'auto' ? this.detectFormat(content) : format
+    const lines = content.split(/\r?\n/)
+
+    switch (resolved) {
+      case 'hosts':
+        return { format: resolved, rules: this.parseHosts(lines) }
+      case 'domains':
+        return { format: resolved, rules: this.parseDomains(lines) }
+      case 'adblock':
+        return { format: resolved, rules: this.parseAdblock(lines) }
+      case 'urlhaus':
+        return { format: resolved, rules: this.parseUrlhaus(lines) }
+    }
+  }
+
+  /**
+   * Guesses the format of a feed from its first rule lines
+   * @param {string} content - Feed content
+   * @returns {Exclude<BlocklistFormat, 'auto'>} The format
+   */
+  public detectFormat(content: string): Exclude<BlocklistFormat, 'auto'> {
+    if (URLHAUS_HEADER_PATTERN.test(content)) {
+      return 'urlhaus'
+    }
+
+    const sample = content
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line && !line.startsWith('#'))
+      .slice(0, 50)
+
+    if (URLHAUS_ROW_PATTERN.test(sample[0] ?? '')) {
+      return 'urlhaus'
+    }
+    if (sample.some(line => line.startsWith('||') || line.startsWith('@@') || line.startsWith('[Adblock'))) {
+      return 'adblock'
+    }
+    if (sample.some(line => /^\S+\s+\S/.test(line) && isIP(line.split(/\s+/)[0]) !== 0)) {
+      return 'hosts'
+    }
+    return 'domains'
+  }
+
+  /**
+   * "0.0.0.0 example.com" lines; every name blocks that exact host
+   * @private
+   */
+  private parseHosts(lines: string[]): ParsedBlocklistRule[] {
+    const rules: ParsedBlocklistRule[] = []
+
+    lines.forEach((raw, index) => {
+      const text = raw.replace(/#.*$/, '').trim()
+      const [address, ...names] = text.split(/\s+/)
+      if (!address || !HOSTS_SINK_ADDRESSES.has(address)) {
+        return
+      }
+
+      for (const name of names) {
+        const host = this.normalizeHost(name)
+        if (host && !HOSTS_IGNORED_NAMES.has(host)) {
+          rules.push(this.domainRule(raw.trim(), index, host, false, false))
+        }
+      }
+    })
+
+    return rules
+  }
+
+  /**
+   * One hostname per line; subdomains match too
+   * @private
+   */
+  private parseDomains(lines: string[]): ParsedBlocklistRule[] {
+    const rules: ParsedBlocklistRule[] = []
+
+    lines.forEach((raw, index) => {
+      const text = raw.replace(/[#!].*$/, '').trim()
+      const host = text.startsWith('*.') ? this.normalizeHost(text.slice(2)) : this.normalizeHost(text)
+      if (host) {
+        rules.push(this.domainRule(raw.trim(), index, host, isIP(host) === 0, false))
+      }
+    })
+
+    return rules
+  }
+
+  /**
+   * "||example.com^" network rules and their "@@" exceptions; cosmetic
+   * and path rules are skipped
+   * @private
+   */
+  private parseAdblock(lines: string[]): ParsedBlocklistRule[] {
+    const rules: ParsedBlocklistRule[] = []
+
+    lines.forEach((raw, index) => {
+      const text = raw.trim()
+      const exception = text.startsWith('@@')
+      const body = exception ? text.slice(2) : text
+      const match = /^\|\|([^/^$|*]+)\^?(?:\$(.*))?$/.exec(body)
+      if (!match) {
+        return
+      }
+
+      // Rules restricted to resource types other than documents do not block navigation
+      const modifiers = (match[2] ?? '').split(',').filter(Boolean)
+      const typed = modifiers.filter(modifier => !/^(?:~?third-party|important|all|document|doc|1p|3p|badfilter)$/.test(modifier))
+      if (typed.length > 0 || modifiers.includes('badfilter')) {
+        return
+      }
+
+      const host = this.normalizeHost(match[1])
+      if (host) {
+        rules.push(this.domainRule(text, index, host, true, exception))
+      }
+    })
+
+    return rules
+  }
+
+  /**
+   * URLhaus CSV export: id,dateadded,url,url_status,last_online,threat,tags,urlhaus_link,reporter
+   * @private
+   */
+  private parseUrlhaus(lines: string[]): ParsedBlocklistRule[] {
+    const header = lines.find(line => URLHAUS_HEADER_PATTERN.test(line))
+    const columns = header
+      ? this.parseCsvLine(header.replace(/^#\s*/, '')).map(column => column.trim().toLowerCase())
+      : ['id', 'dateadded', 'url', 'url_status', 'last_online', 'threat', 'tags', 'urlhaus_link', 'reporter']
+    const urlColumn = columns.indexOf('url')
+    if (urlColumn === -1) {
+      throw new ParseError('URLhaus feed has no url column', ErrorCode.PARSE_ERROR, { columns })
+    }
+
+    const threatColumn = columns.indexOf('threat')
+    const tagsColumn = columns.indexOf('tags')
+    const rules: ParsedBlocklistRule[] = []
+
+    lines.forEach((raw, index) => {
+      const text = raw.trim()
+      if (!text || text.startsWith('#')) {
+        return
+      }
+
+      const fields = this.parseCsvLine(text)
+      const value = this.normalizeUrl(fields[urlColumn] ?? '')
+      if (!value) {
+        return
+      }
+
+      const tags = tagsColumn === -1 ? [] : (fields[tagsColumn] ?? '').split(',').map(tag => tag.trim()).filter(Boolean)
+      rules.push({
+        rule: fields[urlColumn],
+        line: index + 1,
+        type: 'url',
+        value,
+        includeSubdomains: false,
+        exception: false,
+        threat: threatColumn === -1 ? undefined : fields[threatColumn] || undefined,
+        tags: tags.length > 0 ? tags : undefined,
+      })
+    })
+
+    return rules
+  }
+
+  private domainRule(
+    rule: string,
+    index: number,
+    value: string,
+    includeSubdomains: boolean,
+    exception: boolean,
+  ): ParsedBlocklistRule {
+    return { rule, line: index + 1, type: 'domain', value, includeSubdomains, exception }
+  }
+
+  /**
+   * Lowercases a hostname and drops the trailing dot
+   * @param {string} name - The hostname
+   * @returns {string | undefined} The normalized hostname, or undefined if it is not one
+   */
+  public normalizeHost(name: string): string | undefined {
+    const host = name.trim().toLowerCase().replace(/\.$/, '')
+    if (!host || host.length > 253 || (isIP(host) === 0 && !/^[\w-]+(?:\.[\w-]+)*$/.test(host))) {
+      return undefined
+    }
+    return host
+  }
+
+  /**
+   * Normalizes a URL so that feed entries and looked-up URLs compare equal
+   * @param {string} url - The URL
+   * @returns {string | undefined} The normalized URL, or undefined if it is invalid
+   */
+  public normalizeUrl(url: string): string | undefined {
+    try {
+      const parsed = new URL(url.trim())
+      parsed.hash = ''
+      return parsed.href
+    }
+    catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Splits a CSV line, honouring double-quoted fields
+   * @private
+   */
+  private parseCsvLine(line: string): string[] {
+    const fields: string[] = []
+    let field = ''
+    let quoted = false
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i]
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          field += '"'
+          i++
+        }
+        else if (char === '"') {
+          quoted = false
+        }
+        else {
+          field += char
+        }
+      }
+      else if (char === '"') {
+        quoted = true
+      }
+      else if (char === ',') {
+        fields.push(field)
+        field = ''
+      }
+      else {
+        field += char
+      }
+    }
+    fields.push(field)
+
+    return fields
+  }
+}
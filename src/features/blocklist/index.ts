@@ -0,0 +1,6 @@
+// Core exports
+export { Blocklist } from './blocklist'
+export { DomainTrie } from './domain-trie'
+export { FeedParser } from './feed-parser'
+// Type exports
+export * from './types'
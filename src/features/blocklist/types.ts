@@ -0,0 +1,99 @@
+import { z } from 'zod'
+
+/**
+ * Supported feed formats; 'auto' picks one from the content
+ */
+export const BlocklistFormatSchema = z.enum(['hosts', 'domains', 'adblock', 'urlhaus', 'auto'])
+
+export type BlocklistFormat = z.infer<typeof BlocklistFormatSchema>
+
+/**
+ * A feed, given either inline or as a local file
+ */
+export const BlocklistFeedSchema = z.object({
+  /** Unique feed name, reported with every match */
+  name: z.string().min(1),
+  /** Feed format */
+  format: BlocklistFormatSchema.default('auto'),
+  /** Feed content */
+  content: z.string().optional(),
+  /** Path of a local file holding the feed; re-read on reload */
+  path: z.string().optional(),
+}).refine(feed => feed.content !== undefined || feed.path !== undefined, {
+  message: 'A feed needs either content or a path',
+})
+
+export type BlocklistFeed = z.input<typeof BlocklistFeedSchema>
+
+/**
+ * A rule read from a feed
+ */
+export interface BlocklistRule {
+  /** Feed the rule came from */
+  feed: string
+  /** Rule text as it appears in the feed */
+  rule: string
+  /** 1-based line number in the feed */
+  line: number
+  /** 'domain' rules match hostnames, 'url' rules match whole URLs */
+  type: 'domain' | 'url'
+  /** Lowercase hostname, or normalized URL for 'url' rules */
+  value: string
+  /** Whether subdomains of the hostname match too */
+  includeSubdomains: boolean
+  /** Whether the rule unblocks instead of blocking (Adblock "@@") */
+  exception: boolean
+  /** Threat name from the feed, e.g. URLhaus "malware_download" */
+  threat?: string
+  /** Tags from the feed */
+  tags?: string[]
+}
+
+/**
+ * A rule as produced by FeedParser, before the feed name is attached
+ */
+export type ParsedBlocklistRule = Omit<BlocklistRule, 'feed'>
+
+/**
+ * A rule that matched a URL or hostname
+ */
+export interface BlocklistMatch {
+  /** Feed the rule came from */
+  feed: string
+  /** Rule text as it appears in the feed */
+  rule: string
+  /** 1-based line number in the feed */
+  line: number
+  /** Kind of rule */
+  type: 'domain' | 'url'
+  /** Hostname or URL the rule was written for */
+  value: string
+  /** Threat name from the feed */
+  threat?: string
+  /** Tags from the feed */
+  tags?: string[]
+}
+
+/**
+ * Summary of a loaded feed
+ */
+export interface BlocklistFeedInfo {
+  name: string
+  format: Exclude<BlocklistFormat, 'auto'>
+  path?: string
+  rules: number
+  exceptions: number
+  loadedAt: Date
+}
+
+/**
+ * Options for watching file feeds
+ */
+export interface BlocklistWatchOptions {
+  /** Time to wait for writes to settle before reloading, in milliseconds */
+  debounceMs?: number
+  /** Called after a feed was reloaded */
+  onReload?: (feed: BlocklistFeedInfo) => void
+  /** Called when a reload fails; the previous rules stay in use */
+  onError?: (error: Error, feed: string) => void
+}
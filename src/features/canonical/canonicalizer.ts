@@ -0,0 +1,283 @@
+import type {
+  CanonicalChange,
+  CanonicalizeOptions,
+  CanonicalizeResult,
+  CanonicalStep,
+  UriParts,
+} from './types'
+import { ErrorCode, ValidationError } from '../../errors'
+import { DomainHandler } from '../domain/core/domain-handler'
+import { ProtocolRegistry } from '../protocol/core/protocol-registry'
+import {
+  ALLOWED_PATH_CHAR,
+  ALLOWED_QUERY_CHAR,
+  CANONICAL_PRESETS,
+  UNRESERVED_CHAR,
+  URL_TAB_NEWLINE_PATTERN,
+} from './constants'
+import { CanonicalizeOptionsSchema, CanonicalStepSchema } from './types'
+import { UriParser } from './uri-parser'
+
+type StepFunction = (parts: UriParts) => UriParts
+
+export class UrlCanonicalizer {
+  /** Parser for RFC 3986 components */
+  private readonly parser: UriParser
+
+  /** Domain handler for IDN conversion */
+  private readonly domainHandler: DomainHandler
+
+  /** Default options for canonicalization */
+  private readonly defaultOptions: CanonicalizeOptions
+
+  /** Implementation of every step */
+  private readonly stepFunctions: Record<CanonicalStep, StepFunction> = {
+    'trim': parts => parts,
+    'lowercase-scheme': parts => ({ ...parts, scheme: parts.scheme.toLowerCase() }),
+    'lowercase-host': parts => this.mapHost(parts, host => host.toLowerCase()),
+    'idn-to-ascii': parts => this.mapHost(parts, host =>
+      /[\u0080-\uFFFF]/.test(host) ? this.domainHandler.toPunycode(host.normalize('NFC')) : host),
+    'remove-trailing-dot': parts => this.mapHost(parts, host => host.replace(/\.+$/, '')),
+    'remove-www': parts => this.mapHost(parts, host => host.replace(/^www\./i, '')),
+    'remove-credentials': parts => ({ ...parts, userinfo: undefined }),
+    'percent-encoding-case': parts => this.mapEncoded(parts, value =>
+      value.replace(/%[0-9a-f]{2}/gi, triplet => triplet.toUpperCase())),
+    'decode-unreserved': parts => this.mapEncoded(parts, value =>
+      value.replace(/%([0-9a-f]{2})/gi, (triplet, hex: string) => {
+        const char = String.fromCharCode(Number.parseInt(hex, 16))
+        return UNRESERVED_CHAR.test(char) ? char : triplet
+      })),
+    'encode-invalid': parts => ({
+      ...parts,
+      path: this.encodeInvalid(parts.path, ALLOWED_PATH_CHAR),
+      query: parts.query === undefined ? undefined : this.encodeInvalid(parts.query, ALLOWED_QUERY_CHAR),
+      fragment: parts.fragment === undefined ? undefined : this.encodeInvalid(parts.fragment, ALLOWED_QUERY_CHAR),
+    }),
+    'remove-default-port': parts => this.removeDefaultPort(parts),
+    'empty-path-to-slash': parts => parts.host !== undefined && parts.path === ''
+      ? { ...parts, path: '/' }
+      : parts,
+    'remove-dot-segments': parts => parts.host !== undefined || parts.path.startsWith('/')
+      ? { ...parts, path: this.removeDotSegments(parts.path) }
+      : parts,
+    'collapse-slashes': parts => ({ ...parts, path: parts.path.replace(/\/{2,}/g, '/') }),
+    'remove-trailing-slash': parts => parts.path.length > 1 && parts.path.endsWith('/')
+      ? { ...parts, path: parts.path.replace(/\/+$/, '') }
+      : parts,
+    'remove-empty-query-params': parts => parts.query === undefined
+      ? parts
+      : { ...parts, query: parts.query.split('&').filter(pair => !/^[^=]*=?$/.test(pair)).join('&') },
+    'sort-query': parts => parts.query === undefined ? parts : { ...parts, query: this.sortQuery(parts.query) },
+    'remove-empty-query': parts => parts.query === '' ? { ...parts, query: undefined } : parts,
+    'remove-fragment': parts => ({ ...parts, fragment: undefined }),
+  }
+
+  /**
+   * Creates an instance of UrlCanonicalizer
+   * @param {CanonicalizeOptions} [options] - Default preset and step overrides
+   */
+  constructor(options: CanonicalizeOptions = {}) {
+    this.parser = new UriParser()
+    this.domainHandler = new DomainHandler()
+    this.defaultOptions = options
+  }
+
+  /**
+   * Canonicalizes a URL
+   * @param {string | URL} url - The URL to canonicalize
+   * @param {CanonicalizeOptions} [options] - Preset and step overrides for this call
+   * @returns {CanonicalizeResult} The canonical URL and the steps that changed it
+   * @throws {ValidationError} If the input is not an absolute URL or holds a lone surrogate
+   */
+  public canonicalize(url: string | URL, options?: CanonicalizeOptions): CanonicalizeResult {
+    const original = typeof url === 'string' ? url : url.href
+    const steps = this.resolveSteps(options)
+    const changes: CanonicalChange[] = []
+
+    let current = steps.includes('trim') ? this.trim(original) : original
+    if (current !== original) {
+      changes.push({ step: 'trim', before: original, after: current })
+    }
+
+    let parts = this.parser.parse(current)
+    for (const step of steps) {
+      if (step === 'trim') {
+        continue
+      }
+
+      parts = this.stepFunctions[step](parts)
+      const next = this.parser.serialize(parts)
+      if (next !== current) {
+        changes.push({ step, before: current, after: next })
+        current = next
+      }
+    }
+
+    return {
+      url: current,
+      original,
+      changed: current !== original,
+      steps,
+      changes,
+    }
+  }
+
+  /**
+   * Returns the steps that run for the given options, in pipeline order
+   * @param {CanonicalizeOptions} [options] - Preset and step overrides
+   * @returns {CanonicalStep[]} The enabled steps
+   */
+  public resolveSteps(options?: CanonicalizeOptions): CanonicalStep[] {
+    const { preset, steps } = CanonicalizeOptionsSchema.parse({
+      ...this.defaultOptions,
+      ...options,
+      steps: { ...this.defaultOptions.steps, ...options?.steps },
+    })
+    const enabled = new Set(CANONICAL_PRESETS[preset])
+
+    for (const [step, isEnabled] of Object.entries(steps) as Array<[CanonicalStep, boolean]>) {
+      if (isEnabled) {
+        enabled.add(step)
+      }
+      else {
+        enabled.delete(step)
+      }
+    }
+
+    return CanonicalStepSchema.options.filter(step => enabled.has(step))
+  }
+
+  /**
+   * Strips leading and trailing C0 controls and spaces, and tabs and newlines anywhere
+   * @private
+   */
+  private trim(url: string): string {
+    let start = 0
+    let end = url.length
+    while (start < end && url.charCodeAt(start) <= 0x20) {
+      start++
+    }
+    while (end > start && url.charCodeAt(end - 1) <= 0x20) {
+      end--
+    }
+
+    return url.slice(start, end).replace(URL_TAB_NEWLINE_PATTERN, '')
+  }
+
+  private mapHost(parts: UriParts, map: (host: string) => string): UriParts {
+    return parts.host === undefined ? parts : { ...parts, host: map(parts.host) }
+  }
+
+  /**
+   * Applies a transformation to every component that may hold percent-encoded text
+   * @private
+   */
+  private mapEncoded(parts: UriParts, map: (value: string) => string): UriParts {
+    return {
+      ...parts,
+      userinfo: parts.userinfo === undefined ? undefined : map(parts.userinfo),
+      host: parts.host === undefined ? undefined : map(parts.host),
+      path: map(parts.path),
+      query: parts.query === undefined ? undefined : map(parts.query),
+      fragment: parts.fragment === undefined ? undefined : map(parts.fragment),
+    }
+  }
+
+  /**
+   * Percent-encodes characters that may not appear literally; existing escapes are kept
+   * @throws {ValidationError} If the value holds a lone surrogate, which has no UTF-8 form
+   * @private
+   */
+  private encodeInvalid(value: string, allowed: RegExp): string {
+    return Array.from(value)
+      .map((char) => {
+        if (allowed.test(char)) {
+          return char
+        }
+        try {
+          return encodeURIComponent(char)
+        }
+        catch {
+          throw new ValidationError(
+            `Cannot percent-encode lone surrogate U+${char.charCodeAt(0).toString(16).toUpperCase()}`,
+            ErrorCode.INVALID_URL,
+            { value },
+          )
+        }
+      })
+      .join('')
+  }
+
+  /**
+   * Drops the port when it is empty or the scheme's default
+   * @private
+   */
+  private removeDefaultPort(parts: UriParts): UriParts {
+    if (parts.port === undefined) {
+      return parts
+    }
+
+    const defaultPort = ProtocolRegistry.getDefaultPort(parts.scheme)
+    if (parts.port === '' || (defaultPort !== undefined && Number(parts.port) === defaultPort)) {
+      return { ...parts, port: undefined }
+    }
+
+    return parts
+  }
+
+  /**
+   * RFC 3986 section 5.2.4
+   * @private
+   */
+  private removeDotSegments(path: string): string {
+    let input = path
+    const output: string[] = []
+
+    while (input.length > 0) {
+      if (input.startsWith('../')) {
+        input = input.slice(3)
+      }
+      else if (input.startsWith('./')) {
+        input = input.slice(2)
+      }
+      else if (input.startsWith('/./')) {
+        input = input.slice(2)
+      }
+      else if (input === '/.') {
+        input = '/'
+      }
+      else if (input.startsWith('/../')) {
+        input = input.slice(3)
+        output.pop()
+      }
+      else if (input === '/..') {
+        input = '/'
+        output.pop()
+      }
+      else if (input === '.' || input === '..') {
+        input = ''
+      }
+      else {
+        const end = input.indexOf('/', input.startsWith('/') ? 1 : 0)
+        const segment = end === -1 ? input : input.slice(0, end)
+        output.push(segment)
+        input = input.slice(segment.length)
+      }
+    }
+
+    return output.join('')
+  }
+
+  /**
+   * Stable sort of query pairs by key; values and encoding are left as they are
+   * @private
+   */
+  private sortQuery(query: string): string {
+    return query
+      .split('&')
+      .map((pair, index) => ({ pair, index, key: pair.split('=')[0] }))
+      .sort((a, b) => a.key < b.key ? -1 : a.key > b.key ? 1 : a.index - b.index)
+      .map(({ pair }) => pair)
+      .join('&')
+  }
+}
@@ -0,0 +1,67 @@
+import type { CanonicalPreset, CanonicalStep } from './types'
+
+/**
+ * Semantics-preserving steps (RFC 3986 section 6.2.2 and the scheme-based
+ * rules of 6.2.3, plus the encoding fixes browsers apply)
+ */
+const SAFE_STEPS: CanonicalStep[] = [
+  'trim',
+  'lowercase-scheme',
+  'lowercase-host',
+  'idn-to-ascii',
+  'percent-encoding-case',
+  'decode-unreserved',
+  'encode-invalid',
+  'remove-default-port',
+  'empty-path-to-slash',
+  'remove-dot-segments',
+]
+
+/**
+ * Steps enabled by every preset
+ */
+export const CANONICAL_PRESETS: Record<CanonicalPreset, readonly CanonicalStep[]> = {
+  'safe': SAFE_STEPS,
+  // Steps that usually, but not always, keep the URL pointing at the same resource
+  'aggressive': [
+    ...SAFE_STEPS,
+    'remove-trailing-dot',
+    'remove-www',
+    'collapse-slashes',
+    'remove-trailing-slash',
+    'remove-empty-query-params',
+    'sort-query',
+    'remove-empty-query',
+    'remove-fragment',
+  ],
+  // Same resource, same key: drop what the server never sees or does not care about
+  'cache-key': [
+    ...SAFE_STEPS,
+    'remove-trailing-dot',
+    'remove-credentials',
+    'sort-query',
+    'remove-empty-query',
+    'remove-fragment',
+  ],
+}
+
+/**
+ * RFC 3986 appendix B, with the path split by whether an authority precedes it
+ */
+export const URI_REFERENCE_PATTERN = /^(?:([^:/?#]+):)?(?:\/\/([^/?#]*)(\/[^?#]*)?|([^?#]*))(?:\?([^#]*))?(?:#([\s\S]*))?$/
+
+/**
+ * Unreserved characters (RFC 3986 section 2.3)
+ */
+export const UNRESERVED_CHAR = /^[\w\-.~]$/
+
+/**
+ * Characters allowed unencoded in a path (pchar plus "/"), query and fragment
+ */
+export const ALLOWED_PATH_CHAR = /[\w\-.~!$&'()*+,;=:@/%]/
+export const ALLOWED_QUERY_CHAR = /[\w\-.~!$&'()*+,;=:@/?%]/
+
+/**
+ * Tab and newline, removed anywhere in the input (WHATWG URL)
+ */
+export const URL_TAB_NEWLINE_PATTERN = /[\t\n\r]/g
@@ -0,0 +1,7 @@
+// Core exports
+export { UrlCanonicalizer } from './canonicalizer'
+// Constants
+export * from './constants'
+// Type exports
+export * from './types'
+export { UriParser } from './uri-parser'
@@ -0,0 +1,80 @@
+import { z } from 'zod'
+
+/**
+ * Canonicalization steps, in the order they run
+ */
+export const CanonicalStepSchema = z.enum([
+  'trim',
+  'lowercase-scheme',
+  'lowercase-host',
+  'idn-to-ascii',
+  'remove-trailing-dot',
+  'remove-www',
+  'remove-credentials',
+  'percent-encoding-case',
+  'decode-unreserved',
+  'encode-invalid',
+  'remove-default-port',
+  'empty-path-to-slash',
+  'remove-dot-segments',
+  'collapse-slashes',
+  'remove-trailing-slash',
+  'remove-empty-query-params',
+  'sort-query',
+  'remove-empty-query',
+  'remove-fragment',
+])
+
+export type CanonicalStep = z.infer<typeof CanonicalStepSchema>
+
+export const CanonicalPresetSchema = z.enum(['safe', 'aggressive', 'cache-key'])
+
+export type CanonicalPreset = z.infer<typeof CanonicalPresetSchema>
+
+export const CanonicalizeOptionsSchema = z.object({
+  /** Preset providing the initial set of steps */
+  preset: CanonicalPresetSchema.default('safe'),
+  /** Turns individual steps on or off on top of the preset */
+  steps: z.record(CanonicalStepSchema, z.boolean()).default({}),
+})
+
+export type CanonicalizeOptions = z.input<typeof CanonicalizeOptionsSchema>
+
+/**
+ * URI split per RFC 3986 appendix B. Undefined components are absent;
+ * empty strings are present but empty ("http://a/?" has query "")
+ */
+export interface UriParts {
+  scheme: string
+  userinfo?: string
+  host?: string
+  port?: string
+  path: string
+  query?: string
+  fragment?: string
+}
+
+/**
+ * A step that changed the URL
+ */
+export interface CanonicalChange {
+  step: CanonicalStep
+  before: string
+  after: string
+}
+
+/**
+ * Result of UrlCanonicalizer.canonicalize()
+ */
+export interface CanonicalizeResult {
+  /** The canonical URL */
+  url: string
+  /** The input URL */
+  original: string
+  /** Whether any step changed the URL */
+  changed: boolean
+  /** Steps that ran, in order */
+  steps: CanonicalStep[]
+  /** Steps that changed the URL, with the URL before and after each */
+  changes: CanonicalChange[]
+}
@@ -0,0 +1,79 @@
+import type { UriParts } from './types'
+import { ErrorCode, ValidationError } from '../../errors'
+import { URI_REFERENCE_PATTERN } from './constants'
+
+export class UriParser {
+  /**
+   * Splits an absolute URI into its components without normalizing anything
+   * @param {string} uri - The URI
+   * @returns {UriParts} The components
+   * @throws {ValidationError} If the URI has no scheme
+   */
+  public parse(uri: string): UriParts {
+    const match = URI_REFERENCE_PATTERN.exec(uri)
+    const [, scheme, authority, authorityPath, path, query, fragment] = match ?? []
+
+    if (!scheme || !/^[a-z][a-z0-9+\-.]*$/i.test(scheme)) {
+      throw new ValidationError(
+        `Not an absolute URL: ${uri}`,
+        ErrorCode.INVALID_URL,
+        { url: uri },
+      )
+    }
+
+    return {
+      scheme,
+      ...(authority === undefined ? {} : this.parseAuthority(authority)),
+      path: authorityPath ?? path ?? '',
+      query,
+      fragment,
+    }
+  }
+
+  /**
+   * Joins components back into a URI
+   * @param {UriParts} parts - The components
+   * @returns {string} The URI
+   */
+  public serialize(parts: UriParts): string {
+    let uri = `${parts.scheme}:`
+
+    if (parts.host !== undefined) {
+      uri += '//'
+      if (parts.userinfo !== undefined) {
+        uri += `${parts.userinfo}@`
+      }
+      uri += parts.host
+      if (parts.port !== undefined) {
+        uri += `:${parts.port}`
+      }
+    }
+
+    uri += parts.path
+    if (parts.query !== undefined) {
+      uri += `?${parts.query}`
+    }
+    if (parts.fragment !== undefined) {
+      uri += `#${parts.fragment}`
+    }
+
+    return uri
+  }
+
+  /**
+   * Splits an authority into userinfo, host and port
+   * @private
+   */
+  private parseAuthority(authority: string): Pick<UriParts, 'userinfo' | 'host' | 'port'> {
+    const at = authority.lastIndexOf('@')
+    const userinfo = at === -1 ? undefined : authority.slice(0, at)
+    const hostPort = authority.slice(at + 1)
+
+    const portMatch = /^(\[[^\]]*\]|[^:]*):(\d*)$/.exec(hostPort)
+    if (portMatch) {
+      return { userinfo, host: portMatch[1], port: portMatch[2] }
+    }
+
+    return { userinfo, host: hostPort }
+  }
+}
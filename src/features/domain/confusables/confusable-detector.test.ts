@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { ConfusableDetector } from './confusable-detector'
+
+describe('confusableDetector', () => {
+  const detector = new ConfusableDetector()
+
+  it.each([
+    ['paypal', 'paypal'],
+    ['pаypal', 'paypal'],
+    ['microsoft', 'rnicrosoft'],
+    ['ℊoogle', 'google'],
+    ['ѕсоре', 'scope'],
+    ['1', 'l'],
+    ['a­b', 'ab'],
+  ])('gives %s the skeleton %s', (input, skeleton) => {
+    expect(detector.skeleton(input)).toBe(skeleton)
+  })
+
+  it('lists the characters that look like a prototype', () => {
+    expect(detector.getConfusables('rn')).toContain('m')
+    expect(detector.getConfusables('a')).toContain('а')
+  })
+
+  it.each([
+    ['paypal', 'paypal', 'identical'],
+    ['rn', 'm', 'single-script'],
+    ['pаypal', 'paypal', 'mixed-script'],
+    ['аре', 'ape', 'whole-script'],
+    ['ѕсоре', 'scope', 'whole-script'],
+  ])('classifies %s and %s as %s confusables', (a, b, type) => {
+    expect(detector.areConfusable(a, b)).toMatchObject({ confusable: true, type })
+  })
+
+  it('tells strings with different skeletons apart', () => {
+    expect(detector.areConfusable('xyz', 'abc')).toMatchObject({ confusable: false, type: 'none' })
+  })
+
+  it('resolves script sets', () => {
+    expect(detector.getResolvedScripts('abc')).toEqual(['Latin'])
+    expect(detector.getResolvedScripts('123')).toBeNull()
+    expect(detector.getResolvedScripts('aа')).toEqual([])
+    // Hiragana and Han are both written in Japanese
+    expect(detector.getResolvedScripts('ひらがな漢字')).toEqual(['Japanese'])
+  })
+
+  it('flags the lookalikes of a mixed-script label', () => {
+    const result = detector.analyze('pаypal.com')
+
+    expect(result).toMatchObject({ isMixedScript: true, isWholeScriptConfusable: false, isSuspicious: true })
+    expect(result.suspiciousCharacters).toEqual([{
+      char: 'а',
+      codePoint: 0x430,
+      position: 1,
+      label: 0,
+      prototype: 'a',
+      scripts: ['Cyrillic'],
+      reason: 'mixed-script',
+    }])
+  })
+
+  it('flags single-script labels that imitate Latin', () => {
+    const result = detector.analyze('аре.com')
+
+    expect(result).toMatchObject({ isMixedScript: false, isWholeScriptConfusable: true })
+    expect(result.labels[0]).toMatchObject({ resolvedScripts: ['Cyrillic'], wholeScriptConfusable: 'Latin' })
+    expect(result.suspiciousCharacters.map(char => [char.char, char.reason])).toEqual([
+      ['а', 'whole-script'],
+      ['р', 'whole-script'],
+      ['е', 'whole-script'],
+    ])
+  })
+
+  it.each([
+    'google.com',
+    'рф',
+    'москва',
+    'пример.рф',
+    '日本語.jp',
+    'Ελλάδα',
+  ])('leaves %s alone', (input) => {
+    expect(detector.analyze(input)).toMatchObject({ isSuspicious: false, suspiciousCharacters: [] })
+  })
+})
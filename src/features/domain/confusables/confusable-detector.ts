@@ -0,0 +1,240 @@
+import type {
+  ConfusableAnalysis,
+  ConfusableComparison,
+  ConfusableLabel,
+  SuspiciousCharacter,
+} from '../types/confusables'
+import { UNICODE_SCRIPTS } from '../constants'
+import { CONFUSABLES_DATA } from './confusables-data'
+
+// Scripts added to resolved script sets so that writing systems mixing
+// several scripts count as one (UTS #39 section 5.1)
+const SCRIPT_AUGMENTATION: Record<string, string[]> = {
+  Han: ['Han_with_Bopomofo', 'Japanese', 'Korean'],
+  Hiragana: ['Japanese'],
+  Katakana: ['Japanese'],
+  Hangul: ['Korean'],
+  Bopomofo: ['Han_with_Bopomofo'],
+}
+
+const DEFAULT_IGNORABLE = /\p{Default_Ignorable_Code_Point}/u
+
+// UTS #39 confusable detection: skeletons from confusables.txt, resolved
+// script sets, and mixed-script and whole-script confusable checks
+export class ConfusableDetector {
+  // Prototypes by code point, decoded from the generated data on first use
+  private static prototypes: Map<number, string> | undefined
+
+  // Characters by the prototype they look like, built on first use
+  private static sources: Map<string, string[]> | undefined
+
+  // Script_Extensions by code point; null for Common and Inherited characters
+  private static scriptCache = new Map<number, string[] | null>()
+
+  // Script tests, one per script
+  private static scriptPatterns: Array<{ script: string, pattern: RegExp }> | undefined
+
+  // Computes the UTS #39 skeleton: NFD, drop default ignorables, replace
+  // each character with its prototype, then NFD again
+  public skeleton(input: string): string {
+    const prototypes = this.getPrototypes()
+    let output = ''
+
+    for (const char of input.normalize('NFD')) {
+      if (DEFAULT_IGNORABLE.test(char))
+        continue
+      output += prototypes.get(char.codePointAt(0) ?? 0) ?? char
+    }
+
+    return output.normalize('NFD')
+  }
+
+  // Lists the characters confusables.txt maps to the given prototype
+  // ("m" is listed for "rn", Cyrillic "а" for "a")
+  public getConfusables(prototype: string): string[] {
+    if (!ConfusableDetector.sources) {
+      const sources = new Map<string, string[]>()
+      for (const [codePoint, target] of this.getPrototypes()) {
+        const list = sources.get(target) ?? []
+        list.push(String.fromCodePoint(codePoint))
+        sources.set(target, list)
+      }
+      ConfusableDetector.sources = sources
+    }
+
+    return [...(ConfusableDetector.sources.get(prototype) ?? [])]
+  }
+
+  // Checks whether two strings look alike and classifies them as UTS #39
+  // single-script, mixed-script or whole-script confusables
+  public areConfusable(a: string, b: string): ConfusableComparison {
+    const skeleton = this.skeleton(a)
+    const otherSkeleton = this.skeleton(b)
+
+    if (a === b)
+      return { confusable: true, type: 'identical', skeleton, otherSkeleton }
+    if (skeleton !== otherSkeleton)
+      return { confusable: false, type: 'none', skeleton, otherSkeleton }
+
+    const scripts = this.getResolvedScripts(a)
+    const otherScripts = this.getResolvedScripts(b)
+    if (this.intersect(scripts, otherScripts)?.length !== 0)
+      return { confusable: true, type: 'single-script', skeleton, otherSkeleton }
+
+    // Whole-script confusables are mixed-script confusables made of single-script strings
+    const wholeScript = scripts?.length !== 0 && otherScripts?.length !== 0
+    return { confusable: true, type: wholeScript ? 'whole-script' : 'mixed-script', skeleton, otherSkeleton }
+  }
+
+  // Analyzes a domain or label label by label and lists the non-ASCII
+  // characters that imitate characters of another script
+  public analyze(input: string): ConfusableAnalysis {
+    const labels: ConfusableLabel[] = []
+    const suspiciousCharacters: SuspiciousCharacter[] = []
+    let position = 0
+
+    input.split('.').forEach((label, index) => {
+      const result = this.analyzeLabel(label)
+      labels.push(result)
+
+      for (const char of label) {
+        const codePoint = char.codePointAt(0) ?? 0
+        const prototype = this.skeleton(char)
+        // A lookalike only matters in a label that mixes scripts or imitates
+        // another script as a whole (UTS #39 section 5); "пример" is plain Russian
+        const flagged = result.isMixedScript || result.wholeScriptConfusable !== undefined
+
+        // ASCII is the baseline the other characters are measured against
+        if (codePoint > 0x7F && prototype !== char.normalize('NFD') && flagged) {
+          suspiciousCharacters.push({
+            char,
+            codePoint,
+            position,
+            label: index,
+            prototype,
+            scripts: this.getScripts(codePoint) ?? [],
+            reason: result.isMixedScript ? 'mixed-script' : 'whole-script',
+          })
+        }
+        position++
+      }
+
+      // The "." separator
+      position++
+    })
+
+    const isMixedScript = labels.some(label => label.isMixedScript)
+    const isWholeScriptConfusable = labels.some(label => label.wholeScriptConfusable !== undefined)
+
+    return {
+      input,
+      skeleton: this.skeleton(input),
+      labels,
+      suspiciousCharacters,
+      isMixedScript,
+      isWholeScriptConfusable,
+      isSuspicious: isMixedScript || isWholeScriptConfusable || suspiciousCharacters.length > 0,
+    }
+  }
+
+  // Computes the resolved script set of a string: the intersection of the
+  // augmented Script_Extensions of its characters. Returns null when every
+  // character is Common or Inherited, and an empty array for mixed scripts
+  public getResolvedScripts(input: string): string[] | null {
+    let resolved: string[] | null = null
+
+    for (const char of input) {
+      const scripts = this.getScripts(char.codePointAt(0) ?? 0)
+      if (!scripts)
+        continue
+
+      const augmented = [...new Set(scripts.flatMap(script => [script, ...(SCRIPT_AUGMENTATION[script] ?? [])]))]
+      resolved = this.intersect(resolved, augmented)
+      if (resolved?.length === 0)
+        return resolved
+    }
+
+    return resolved
+  }
+
+  // Per-label script checks
+  private analyzeLabel(label: string): ConfusableLabel {
+    const skeleton = this.skeleton(label)
+    const resolvedScripts = this.getResolvedScripts(label)
+    const scripts = [...new Set(Array.from(label).flatMap(char => this.getScripts(char.codePointAt(0) ?? 0) ?? []))]
+    const result: ConfusableLabel = {
+      label,
+      skeleton,
+      scripts,
+      resolvedScripts,
+      isMixedScript: resolvedScripts?.length === 0,
+    }
+
+    // A single-script label whose skeleton is written in another script
+    // entirely (Cyrillic "аре" is "ape" in Latin). Only ASCII skeletons
+    // count, so Russian "рф" (skeleton "pɸ") is not reported
+    if (resolvedScripts?.length && skeleton !== label.normalize('NFD') && this.isAscii(skeleton)) {
+      const skeletonScripts = this.getResolvedScripts(skeleton)
+      if (skeletonScripts?.length && this.intersect(resolvedScripts, skeletonScripts)?.length === 0)
+        result.wholeScriptConfusable = skeletonScripts[0]
+    }
+
+    return result
+  }
+
+  private isAscii(input: string): boolean {
+    return Array.from(input).every(char => (char.codePointAt(0) ?? 0) <= 0x7F)
+  }
+
+  // Script_Extensions of a code point; null for Common and Inherited characters
+  private getScripts(codePoint: number): string[] | null {
+    const cached = ConfusableDetector.scriptCache.get(codePoint)
+    if (cached !== undefined)
+      return cached
+
+    const char = String.fromCodePoint(codePoint)
+    const scripts = this.getScriptPatterns()
+      .filter(({ pattern }) => pattern.test(char))
+      .map(({ script }) => script)
+    const result = scripts.length > 0 ? scripts : null
+
+    ConfusableDetector.scriptCache.set(codePoint, result)
+    return result
+  }
+
+  private getScriptPatterns(): Array<{ script: string, pattern: RegExp }> {
+    if (!ConfusableDetector.scriptPatterns) {
+      ConfusableDetector.scriptPatterns = UNICODE_SCRIPTS.map(script => ({
+        script,
+        pattern: new RegExp(`\\p{Script_Extensions=${script}}`, 'u'),
+      }))
+    }
+    return ConfusableDetector.scriptPatterns
+  }
+
+  // Intersects script sets where null stands for every script
+  private intersect(a: string[] | null, b: string[] | null): string[] | null {
+    if (!a)
+      return b
+    if (!b)
+      return a
+    return a.filter(script => b.includes(script))
+  }
+
+  // Decodes ",<source delta> <prototype code points>" entries
+  private getPrototypes(): Map<number, string> {
+    if (ConfusableDetector.prototypes)
+      return ConfusableDetector.prototypes
+
+    const prototypes = new Map<number, string>()
+    let source = 0
+    for (const entry of CONFUSABLES_DATA.split(',')) {
+      const [delta, ...prototype] = entry.split(' ').map(value => Number.parseInt(value, 36))
+      source += delta
+      prototypes.set(source, String.fromCodePoint(...prototype))
+    }
+
+    ConfusableDetector.prototypes = prototypes
+    return prototypes
+  }
+}
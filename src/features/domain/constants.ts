@@ -1,3 +1,7 @@
+import type { IpSpecialRange } from './types/domain'
+import type { IdnaOptions } from './types/idna'
+import type { KeyboardLayout } from './types/typosquat'
+
 export const DOMAIN_CONSTANTS = {
   MAX_DOMAIN_LENGTH: 253,
   MAX_LABEL_LENGTH: 63,
@@ -26,3 +30,381 @@ export const SUSPICIOUS_TLDS = [
   'ga',
   'tk',
 ]
+
+// Unicode scripts that characters are tested against, by their long property
+// value names; Common, Inherited and Unknown are handled separately
+export const UNICODE_SCRIPTS: ReadonlyArray<string> = [
+  'Arabic',
+  'Armenian',
+  'Bengali',
+  'Bopomofo',
+  'Cherokee',
+  'Coptic',
+  'Cyrillic',
+  'Deseret',
+  'Devanagari',
+  'Ethiopic',
+  'Georgian',
+  'Gothic',
+  'Greek',
+  'Gujarati',
+  'Gurmukhi',
+  'Han',
+  'Hangul',
+  'Hebrew',
+  'Hiragana',
+  'Kannada',
+  'Katakana',
+  'Khmer',
+  'Lao',
+  'Latin',
+  'Malayalam',
+  'Mongolian',
+  'Myanmar',
+  'Ogham',
+  'Old_Italic',
+  'Oriya',
+  'Runic',
+  'Sinhala',
+  'Syriac',
+  'Tamil',
+  'Telugu',
+  'Thaana',
+  'Thai',
+  'Tibetan',
+  'Canadian_Aboriginal',
+  'Yi',
+  'Tagalog',
+  'Hanunoo',
+  'Buhid',
+  'Tagbanwa',
+  'Braille',
+  'Cypriot',
+  'Limbu',
+  'Linear_B',
+  'Osmanya',
+  'Shavian',
+  'Tai_Le',
+  'Ugaritic',
+  'Buginese',
+  'Glagolitic',
+  'Kharoshthi',
+  'Syloti_Nagri',
+  'New_Tai_Lue',
+  'Tifinagh',
+  'Old_Persian',
+  'Balinese',
+  'Batak',
+  'Brahmi',
+  'Cham',
+  'Egyptian_Hieroglyphs',
+  'Pahawh_Hmong',
+  'Old_Hungarian',
+  'Javanese',
+  'Kayah_Li',
+  'Lepcha',
+  'Linear_A',
+  'Mandaic',
+  'Meroitic_Hieroglyphs',
+  'Nko',
+  'Old_Turkic',
+  'Old_Permic',
+  'Phags_Pa',
+  'Phoenician',
+  'Miao',
+  'Vai',
+  'Cuneiform',
+  'Carian',
+  'Tai_Tham',
+  'Lycian',
+  'Lydian',
+  'Ol_Chiki',
+  'Rejang',
+  'Saurashtra',
+  'SignWriting',
+  'Sundanese',
+  'Meetei_Mayek',
+  'Imperial_Aramaic',
+  'Avestan',
+  'Chakma',
+  'Kaithi',
+  'Manichaean',
+  'Inscriptional_Pahlavi',
+  'Psalter_Pahlavi',
+  'Inscriptional_Parthian',
+  'Samaritan',
+  'Tai_Viet',
+  'Bamum',
+  'Lisu',
+  'Old_South_Arabian',
+  'Bassa_Vah',
+  'Duployan',
+  'Elbasan',
+  'Grantha',
+  'Mende_Kikakui',
+  'Meroitic_Cursive',
+  'Old_North_Arabian',
+  'Nabataean',
+  'Palmyrene',
+  'Khudawadi',
+  'Warang_Citi',
+  'Mro',
+  'Nushu',
+  'Sharada',
+  'Sora_Sompeng',
+  'Takri',
+  'Tangut',
+  'Anatolian_Hieroglyphs',
+  'Khojki',
+  'Tirhuta',
+  'Caucasian_Albanian',
+  'Mahajani',
+  'Ahom',
+  'Hatran',
+  'Modi',
+  'Multani',
+  'Pau_Cin_Hau',
+  'Siddham',
+  'Adlam',
+  'Bhaiksuki',
+  'Marchen',
+  'Newa',
+  'Osage',
+  'Masaram_Gondi',
+  'Soyombo',
+  'Zanabazar_Square',
+  'Dogra',
+  'Gunjala_Gondi',
+  'Makasar',
+  'Medefaidrin',
+  'Hanifi_Rohingya',
+  'Sogdian',
+  'Old_Sogdian',
+  'Elymaic',
+  'Nyiakeng_Puachue_Hmong',
+  'Nandinagari',
+  'Wancho',
+  'Chorasmian',
+  'Dives_Akuru',
+  'Khitan_Small_Script',
+  'Yezidi',
+  'Cypro_Minoan',
+  'Old_Uyghur',
+  'Tangsa',
+  'Toto',
+  'Vithkuqi',
+  'Kawi',
+  'Nag_Mundari',
+]
+
+// UTS #46 options for resolving names the way browsers do (the WHATWG URL
+// "domain to ASCII" settings): no STD3 or hyphen checks and no length limits
+export const IDNA_LOOKUP_OPTIONS: IdnaOptions = {
+  useSTD3ASCIIRules: false,
+  checkHyphens: false,
+  checkBidi: true,
+  checkJoiners: true,
+  checkContextO: false,
+  transitionalProcessing: false,
+  verifyDnsLength: false,
+}
+
+// IANA IPv4 and IPv6 special-purpose address registries, plus the multicast blocks.
+// globallyReachable follows the registry; "N/A" entries (6to4, Teredo) count as reachable
+export const IP_SPECIAL_RANGES: ReadonlyArray<IpSpecialRange> = [
+  { cidr: '0.0.0.0/8', name: 'This network', category: 'this-network', rfc: 'RFC 791', globallyReachable: false },
+  { cidr: '0.0.0.0/32', name: 'This host on this network', category: 'unspecified', rfc: 'RFC 1122', globallyReachable: false },
+  { cidr: '10.0.0.0/8', name: 'Private-Use', category: 'private', rfc: 'RFC 1918', globallyReachable: false },
+  { cidr: '100.64.0.0/10', name: 'Shared Address Space', category: 'shared', rfc: 'RFC 6598', globallyReachable: false },
+  { cidr: '127.0.0.0/8', name: 'Loopback', category: 'loopback', rfc: 'RFC 1122', globallyReachable: false },
+  { cidr: '169.254.0.0/16', name: 'Link Local', category: 'link-local', rfc: 'RFC 3927', globallyReachable: false },
+  { cidr: '172.16.0.0/12', name: 'Private-Use', category: 'private', rfc: 'RFC 1918', globallyReachable: false },
+  { cidr: '192.0.0.0/24', name: 'IETF Protocol Assignments', category: 'protocol-assignments', rfc: 'RFC 6890', globallyReachable: false },
+  { cidr: '192.0.0.0/29', name: 'IPv4 Service Continuity Prefix', category: 'protocol-assignments', rfc: 'RFC 7335', globallyReachable: false },
+  { cidr: '192.0.0.8/32', name: 'IPv4 dummy address', category: 'protocol-assignments', rfc: 'RFC 7600', globallyReachable: false },
+  { cidr: '192.0.0.9/32', name: 'Port Control Protocol Anycast', category: 'anycast', rfc: 'RFC 7723', globallyReachable: true },
+  { cidr: '192.0.0.10/32', name: 'Traversal Using Relays around NAT Anycast', category: 'anycast', rfc: 'RFC 8155', globallyReachable: true },
+  { cidr: '192.0.0.170/32', name: 'NAT64/DNS64 Discovery', category: 'nat64', rfc: 'RFC 8880', globallyReachable: false },
+  { cidr: '192.0.0.171/32', name: 'NAT64/DNS64 Discovery', category: 'nat64', rfc: 'RFC 8880', globallyReachable: false },
+  { cidr: '192.0.2.0/24', name: 'Documentation (TEST-NET-1)', category: 'documentation', rfc: 'RFC 5737', globallyReachable: false },
+  { cidr: '192.31.196.0/24', name: 'AS112-v4', category: 'as112', rfc: 'RFC 7535', globallyReachable: true },
+  { cidr: '192.52.193.0/24', name: 'AMT', category: 'amt', rfc: 'RFC 7450', globallyReachable: true },
+  { cidr: '192.88.99.0/24', name: 'Deprecated (6to4 Relay Anycast)', category: '6to4', rfc: 'RFC 7526', globallyReachable: false },
+  { cidr: '192.168.0.0/16', name: 'Private-Use', category: 'private', rfc: 'RFC 1918', globallyReachable: false },
+  { cidr: '192.175.48.0/24', name: 'Direct Delegation AS112 Service', category: 'as112', rfc: 'RFC 7534', globallyReachable: true },
+  { cidr: '198.18.0.0/15', name: 'Benchmarking', category: 'benchmarking', rfc: 'RFC 2544', globallyReachable: false },
+  { cidr: '198.51.100.0/24', name: 'Documentation (TEST-NET-2)', category: 'documentation', rfc: 'RFC 5737', globallyReachable: false },
+  { cidr: '203.0.113.0/24', name: 'Documentation (TEST-NET-3)', category: 'documentation', rfc: 'RFC 5737', globallyReachable: false },
+  { cidr: '224.0.0.0/4', name: 'Multicast', category: 'multicast', rfc: 'RFC 5771', globallyReachable: false },
+  { cidr: '240.0.0.0/4', name: 'Reserved', category: 'reserved', rfc: 'RFC 1112', globallyReachable: false },
+  { cidr: '255.255.255.255/32', name: 'Limited Broadcast', category: 'broadcast', rfc: 'RFC 8190', globallyReachable: false },
+  { cidr: '::/128', name: 'Unspecified Address', category: 'unspecified', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: '::1/128', name: 'Loopback Address', category: 'loopback', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: '::ffff:0:0/96', name: 'IPv4-mapped Address', category: 'ipv4-mapped', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: '64:ff9b::/96', name: 'IPv4-IPv6 Translation', category: 'nat64', rfc: 'RFC 6052', globallyReachable: true },
+  { cidr: '64:ff9b:1::/48', name: 'IPv4-IPv6 Translation', category: 'nat64', rfc: 'RFC 8215', globallyReachable: false },
+  { cidr: '100::/64', name: 'Discard-Only Address Block', category: 'discard', rfc: 'RFC 6666', globallyReachable: false },
+  { cidr: '2001::/23', name: 'IETF Protocol Assignments', category: 'protocol-assignments', rfc: 'RFC 2928', globallyReachable: false },
+  { cidr: '2001::/32', name: 'TEREDO', category: 'teredo', rfc: 'RFC 4380', globallyReachable: true },
+  { cidr: '2001:1::1/128', name: 'Port Control Protocol Anycast', category: 'anycast', rfc: 'RFC 7723', globallyReachable: true },
+  { cidr: '2001:1::2/128', name: 'Traversal Using Relays around NAT Anycast', category: 'anycast', rfc: 'RFC 8155', globallyReachable: true },
+  { cidr: '2001:1::3/128', name: 'DNS-SD Service Registration Protocol Anycast', category: 'anycast', rfc: 'RFC 9665', globallyReachable: true },
+  { cidr: '2001:2::/48', name: 'Benchmarking', category: 'benchmarking', rfc: 'RFC 5180', globallyReachable: false },
+  { cidr: '2001:3::/32', name: 'AMT', category: 'amt', rfc: 'RFC 7450', globallyReachable: true },
+  { cidr: '2001:4:112::/48', name: 'AS112-v6', category: 'as112', rfc: 'RFC 7535', globallyReachable: true },
+  { cidr: '2001:10::/28', name: 'Deprecated (previously ORCHID)', category: 'orchid', rfc: 'RFC 4843', globallyReachable: false },
+  { cidr: '2001:20::/28', name: 'ORCHIDv2', category: 'orchid', rfc: 'RFC 7343', globallyReachable: true },
+  { cidr: '2001:30::/28', name: 'Drone Remote ID Protocol Entity Tags (DETs) Prefix', category: 'orchid', rfc: 'RFC 9374', globallyReachable: true },
+  { cidr: '2001:db8::/32', name: 'Documentation', category: 'documentation', rfc: 'RFC 3849', globallyReachable: false },
+  { cidr: '2002::/16', name: '6to4', category: '6to4', rfc: 'RFC 3056', globallyReachable: true },
+  { cidr: '2620:4f:8000::/48', name: 'Direct Delegation AS112 Service', category: 'as112', rfc: 'RFC 7534', globallyReachable: true },
+  { cidr: '3fff::/20', name: 'Documentation', category: 'documentation', rfc: 'RFC 9637', globallyReachable: false },
+  { cidr: '5f00::/16', name: 'Segment Routing (SRv6) SIDs', category: 'srv6', rfc: 'RFC 9602', globallyReachable: false },
+  { cidr: 'fc00::/7', name: 'Unique-Local', category: 'unique-local', rfc: 'RFC 4193', globallyReachable: false },
+  { cidr: 'fe80::/10', name: 'Link-Local Unicast', category: 'link-local', rfc: 'RFC 4291', globallyReachable: false },
+  { cidr: 'ff00::/8', name: 'Multicast', category: 'multicast', rfc: 'RFC 4291', globallyReachable: false },
+]
+
+// Keys next to each key, for keyboard-adjacency typosquats
+export const KEYBOARD_LAYOUTS: Readonly<Record<KeyboardLayout, Readonly<Record<string, string>>>> = {
+  qwerty: {
+    1: '2q',
+    2: '3wq1',
+    3: '4ew2',
+    4: '5re3',
+    5: '6tr4',
+    6: '7yt5',
+    7: '8uy6',
+    8: '9iu7',
+    9: '0oi8',
+    0: 'po9',
+    q: '12wa',
+    w: '3esaq2',
+    e: '4rdsw3',
+    r: '5tfde4',
+    t: '6ygfr5',
+    y: '7uhgt6',
+    u: '8ijhy7',
+    i: '9okju8',
+    o: '0plki9',
+    p: 'lo0',
+    a: 'qwsz',
+    s: 'edxzaw',
+    d: 'rfcxse',
+    f: 'tgvcdr',
+    g: 'yhbvft',
+    h: 'ujnbgy',
+    j: 'ikmnhu',
+    k: 'olmji',
+    l: 'kop',
+    z: 'asx',
+    x: 'zsdc',
+    c: 'xdfv',
+    v: 'cfgb',
+    b: 'vghn',
+    n: 'bhjm',
+    m: 'njk',
+  },
+  qwertz: {
+    1: '2q',
+    2: '3wq1',
+    3: '4ew2',
+    4: '5re3',
+    5: '6tr4',
+    6: '7zt5',
+    7: '8uz6',
+    8: '9iu7',
+    9: '0oi8',
+    0: 'po9',
+    q: '12wa',
+    w: '3esaq2',
+    e: '4rdsw3',
+    r: '5tfde4',
+    t: '6zgfr5',
+    z: '7uhgt6',
+    u: '8ijhz7',
+    i: '9okju8',
+    o: '0plki9',
+    p: 'lo0',
+    a: 'qwsy',
+    s: 'edxyaw',
+    d: 'rfcxse',
+    f: 'tgvcdr',
+    g: 'zhbvft',
+    h: 'ujnbgz',
+    j: 'ikmnhu',
+    k: 'olmji',
+    l: 'kop',
+    y: 'asx',
+    x: 'ysdc',
+    c: 'xdfv',
+    v: 'cfgb',
+    b: 'vghn',
+    n: 'bhjm',
+    m: 'njk',
+  },
+  azerty: {
+    1: '2a',
+    2: '3za1',
+    3: '4ez2',
+    4: '5re3',
+    5: '6tr4',
+    6: '7yt5',
+    7: '8uy6',
+    8: '9iu7',
+    9: '0oi8',
+    0: 'po9',
+    a: '2zq1',
+    z: '3esqa2',
+    e: '4rdsz3',
+    r: '5tfde4',
+    t: '6ygfr5',
+    y: '7uhgt6',
+    u: '8ijhy7',
+    i: '9okju8',
+    o: '0plki9',
+    p: 'lo0m',
+    q: 'zswa',
+    s: 'edxwqz',
+    d: 'rfcxse',
+    f: 'tgvcdr',
+    g: 'yhbvft',
+    h: 'ujnbgy',
+    j: 'iknhu',
+    k: 'olji',
+    l: 'kopm',
+    m: 'lp',
+    w: 'sxq',
+    x: 'wsdc',
+    c: 'xdfv',
+    v: 'cfgb',
+    b: 'vghn',
+    n: 'bhj',
+  },
+}
+
+// Suffixes tried for TLD-swap typosquats
+export const TYPOSQUAT_TLDS: ReadonlyArray<string> = [
+  'com',
+  'net',
+  'org',
+  'info',
+  'biz',
+  'co',
+  'io',
+  'app',
+  'online',
+  'site',
+  'shop',
+  'store',
+  'us',
+  'uk',
+  'co.uk',
+  'de',
+  'eu',
+  'ru',
+  'cn',
+  'cm',
+  'om',
+  ...SUSPICIOUS_TLDS,
+]
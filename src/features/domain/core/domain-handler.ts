@@ -1,4 +1,5 @@
 import type { DomainInfo, IpAddress } from '../types/domain'
+import type { PublicSuffixOptions } from '../types/psl'
 import type { IDomainHandler } from '../utils/domain-operations'
 import { DomainOperations } from '../utils/domain-operations'
 import { PunycodeUtils } from '../utils/punycode'
@@ -12,9 +13,11 @@ export class DomainHandler implements IDomainHandler {
   private readonly punycodeUtils: PunycodeUtils // For Punycode conversions
   private readonly domainOperations: DomainOperations // For domain manipulation operations
 
-  constructor() {
+  // Domains are split with options.publicSuffixList, or the list set with
+  // PublicSuffixList.setDefault, falling back to parse-domain's bundled suffixes
+  constructor(options: PublicSuffixOptions = {}) {
     // Initialize all the required components
-    this.domainParser = new DomainParser()
+    this.domainParser = new DomainParser(options)
     this.ipHandler = new IpHandler()
     this.punycodeUtils = new PunycodeUtils()
     // Note: DomainOperations requires this DomainHandler instance
@@ -46,7 +49,7 @@ export class DomainHandler implements IDomainHandler {
     return this.punycodeUtils.fromPunycode(domain)
   }
 
-  // Get the root domain (registrable part + TLD)
+  // Get the root domain (registrable part + public suffix)
   public getRootDomain(domain: string): string {
     return this.domainOperations.getRootDomain(domain)
   }
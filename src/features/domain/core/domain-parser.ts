@@ -1,15 +1,21 @@
 import type { DomainInfo, DomainPart } from '../types/domain'
+import type { PublicSuffixOptions } from '../types/psl'
 import { isIP } from 'node:net'
 import { parseDomain, ParseResultType } from 'parse-domain'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
+import { IDNA_LOOKUP_OPTIONS } from '../constants'
+import { Idna } from '../idna/idna'
 import { IpHandler } from './ip-handler'
+import { PublicSuffixList } from './public-suffix-list'
 
 export class DomainParser {
   private readonly ipHandler: IpHandler
+  private readonly idna: Idna
 
-  constructor() {
+  constructor(private readonly options: PublicSuffixOptions = {}) {
     this.ipHandler = new IpHandler()
+    this.idna = new Idna(IDNA_LOOKUP_OPTIONS)
   }
 
   // Parses a domain string into structured information
@@ -32,6 +38,11 @@ export class DomainParser {
       }
     }
 
+    // Prefer a loaded Public Suffix List over the suffixes bundled with parse-domain
+    const suffixList = this.options.publicSuffixList ?? PublicSuffixList.getDefault()
+    if (suffixList)
+      return this.parseWithSuffixList(domain, suffixList)
+
     // Use parse-domain library to break down the domain
     const parseResult = parseDomain(domain)
 
@@ -130,6 +141,76 @@ export class DomainParser {
     }
   }
 
+  // Breaks a domain down using a Public Suffix List
+  private parseWithSuffixList(domain: string, suffixList: PublicSuffixList): DomainInfo {
+    const result = suffixList.lookup(domain, this.options.suffixMode ?? 'all')
+
+    // Single-label names no rule covers (e.g. "localhost") are local hosts
+    if (!result.isListed && !result.domain.includes('.')) {
+      return {
+        fullDomain: domain,
+        parts: [
+          {
+            name: domain,
+            level: 0,
+            isPublicSuffix: false,
+            isRegistrable: true,
+          },
+        ],
+        tld: '',
+        isIp: false,
+        isLocal: true,
+        isValid: true,
+      }
+    }
+
+    // A public suffix on its own (e.g. "co.uk", "github.io") has no registrable part
+    if (!result.registrableDomain) {
+      throw new ValidationError(
+        `Invalid domain structure: ${domain}`,
+        ErrorCode.INVALID_HOSTNAME,
+      )
+    }
+
+    const sld = result.registrableDomain.split('.')[0]
+    const subDomains = result.subdomain ? result.subdomain.split('.') : []
+    const parts: DomainPart[] = []
+    let level = 0
+
+    // Subdomains from right to left, then the SLD and the public suffix
+    for (const sub of [...subDomains].reverse()) {
+      parts.push({
+        name: sub,
+        level: level++,
+        isPublicSuffix: false,
+        isRegistrable: false,
+      })
+    }
+    parts.push({
+      name: sld,
+      level: level++,
+      isPublicSuffix: false,
+      isRegistrable: true,
+    })
+    parts.push({
+      name: result.publicSuffix,
+      level,
+      isPublicSuffix: true,
+      isRegistrable: false,
+    })
+
+    return {
+      fullDomain: domain,
+      parts,
+      tld: result.publicSuffix,
+      sld,
+      subdomain: result.subdomain,
+      isIp: false,
+      isLocal: !result.isListed, // Names under unlisted TLDs (e.g. "printer.lan") are local
+      isValid: true,
+    }
+  }
+
   // Normalizes a domain string for consistent processing
   public normalize(domain: string): string {
     // Remove protocol if present
@@ -144,14 +225,20 @@ export class DomainParser {
     // Remove trailing dot (used in DNS but not in web URLs)
     domain = domain.replace(/\.$/, '')
 
-    // Use URL parsing for additional normalization if possible
+    // Use URL parsing to read IP addresses written in any notation
     try {
-      const url = new URL(`http://${domain}`)
-      return url.hostname
+      const { hostname } = new URL(`http://${domain}`)
+      if (isIP(hostname.replace(/^\[(.*)\]$/, '$1')))
+        return hostname
     }
     catch {
-      // If URL parsing fails, return the cleaned domain
-      return domain
+      // Not a valid URL host; UTS #46 processing decides below
     }
+
+    // Drop any port, then map, validate and encode the name with UTS #46
+    const result = this.idna.process(domain.replace(/:\d*$/, ''))
+
+    // If IDNA processing fails, return the cleaned domain
+    return result.isValid ? result.ascii : domain
   }
 }
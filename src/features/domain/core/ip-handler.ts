@@ -1,9 +1,19 @@
-import type { IpAddress } from '../types/domain'
+import type { IpAddress, IpCidr, IpSpecialRange } from '../types/domain'
 import { isIP } from 'node:net'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
+import { IP_SPECIAL_RANGES } from '../constants'
+
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+
+// Address width in bits per version
+const BITS = { v4: 32, v6: 128 } as const
 
 export class IpHandler {
+  // Special-purpose registry parsed once, shared by every handler
+  private static specialRanges: Array<{ range: IpSpecialRange, cidr: IpCidr }> | undefined
+
   // Parse an IP address string into structured information
   public parseIP(ip: string): IpAddress {
     // Verify this is a valid IP address (returns 4 for IPv4, 6 for IPv6, 0 for invalid)
@@ -15,6 +25,9 @@ export class IpHandler {
       )
     }
 
+    const ranges = this.classify(ip)
+    const mappedIPv4 = this.getMappedIPv4(ip)
+
     // Return structured information about the IP address
     return {
       address: ip,
@@ -22,7 +35,187 @@ export class IpHandler {
       isPrivate: this.isPrivateIP(ip), // Check if IP is in private address ranges
       isLoopback: this.isLoopbackIP(ip), // Check if IP is a loopback address
       isMulticast: this.isMulticastIP(ip), // Check if IP is a multicast address
+      normalized: version === 4 ? ip : this.compressIPv6(ip),
+      expanded: version === 4 ? ip : this.expandIPv6Address(ip),
+      value: this.toBigInt(ip),
+      isLinkLocal: this.isLinkLocalIP(ip),
+      // The most specific registry entry decides; unlisted addresses are global
+      isGlobal: ranges.length === 0 || ranges[0].globallyReachable,
+      ...(mappedIPv4 ? { mappedIPv4 } : {}),
+      ranges,
+    }
+  }
+
+  // Lists the IANA special-purpose blocks containing an address, most specific first
+  public classify(ip: string): IpSpecialRange[] {
+    const value = this.toBigInt(ip)
+    const version = isIP(ip) === 4 ? 'v4' : 'v6'
+
+    return this.getSpecialRanges()
+      .filter(({ cidr }) => cidr.version === version && value >= cidr.first && value <= cidr.lastValue)
+      .sort((a, b) => b.cidr.prefix - a.cidr.prefix)
+      .map(({ range }) => ({ ...range }))
+  }
+
+  // Converts an address to its numeric value
+  public toBigInt(ip: string): bigint {
+    const octets = this.parseIPv4(ip)
+    if (octets)
+      return octets.reduce((value, octet) => (value << BigInt(8)) | BigInt(octet), ZERO)
+
+    const groups = this.expandIPv6(ip)
+    if (!groups) {
+      throw new ValidationError(
+        `Invalid IP address: ${ip}`,
+        ErrorCode.INVALID_IP,
+      )
+    }
+    return groups.reduce((value, group) => (value << BigInt(16)) | BigInt(group), ZERO)
+  }
+
+  // Converts a numeric value back to an address; IPv6 comes out compressed
+  public fromBigInt(value: bigint, version: 'v4' | 'v6'): string {
+    if (value < ZERO || value >= ONE << BigInt(BITS[version])) {
+      throw new ValidationError(
+        `Value out of range for IP${version}: ${value}`,
+        ErrorCode.INVALID_IP,
+        { value: value.toString(), version },
+      )
+    }
+
+    if (version === 'v4')
+      return [24, 16, 8, 0].map(shift => Number((value >> BigInt(shift)) & BigInt(0xFF))).join('.')
+
+    const groups = [112, 96, 80, 64, 48, 32, 16, 0].map(shift => Number((value >> BigInt(shift)) & BigInt(0xFFFF)))
+    return this.formatIPv6(groups)
+  }
+
+  // Writes an IPv6 address in the RFC 5952 form: lowercase, no leading
+  // zeros, the longest run of two or more zero groups as "::", and
+  // IPv4-mapped addresses as "::ffff:1.2.3.4"
+  public compressIPv6(ip: string): string {
+    const groups = this.expandIPv6(ip)
+    if (!groups) {
+      throw new ValidationError(
+        `Invalid IPv6 address: ${ip}`,
+        ErrorCode.INVALID_IP,
+      )
     }
+    return this.formatIPv6(groups)
+  }
+
+  // Writes an IPv6 address as eight four-digit groups
+  public expandIPv6Address(ip: string): string {
+    const groups = this.expandIPv6(ip)
+    if (!groups) {
+      throw new ValidationError(
+        `Invalid IPv6 address: ${ip}`,
+        ErrorCode.INVALID_IP,
+      )
+    }
+    return groups.map(group => group.toString(16).padStart(4, '0')).join(':')
+  }
+
+  // Parses "address/prefix" notation; a bare address is a single-address range.
+  // Host bits set in the address are cleared
+  public parseCIDR(input: string): IpCidr {
+    const [address, prefixText, ...rest] = input.trim().split('/')
+    const version = isIP(address)
+    const bits = version === 4 ? BITS.v4 : BITS.v6
+    const prefix = prefixText === undefined ? bits : Number(prefixText)
+
+    if (!version || rest.length > 0 || (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) || prefix > bits) {
+      throw new ValidationError(
+        `Invalid CIDR range: ${input}`,
+        ErrorCode.INVALID_IP,
+        { input },
+      )
+    }
+
+    const ipVersion = version === 4 ? 'v4' : 'v6'
+    const size = ONE << BigInt(bits - prefix)
+    const first = (this.toBigInt(address) >> BigInt(bits - prefix)) << BigInt(bits - prefix)
+    const lastValue = first + size - ONE
+    const network = this.fromBigInt(first, ipVersion)
+
+    return {
+      cidr: `${network}/${prefix}`,
+      version: ipVersion,
+      prefix,
+      network,
+      last: this.fromBigInt(lastValue, ipVersion),
+      first,
+      lastValue,
+      size,
+    }
+  }
+
+  // Checks whether a range contains an address or a whole other range
+  public cidrContains(range: string, target: string): boolean {
+    const outer = this.parseCIDR(range)
+    const inner = this.parseCIDR(target)
+    return outer.version === inner.version && inner.first >= outer.first && inner.lastValue <= outer.lastValue
+  }
+
+  // Checks whether two ranges share at least one address
+  public cidrOverlaps(a: string, b: string): boolean {
+    const left = this.parseCIDR(a)
+    const right = this.parseCIDR(b)
+    return left.version === right.version && left.first <= right.lastValue && right.first <= left.lastValue
+  }
+
+  // Merges overlapping and adjacent ranges and returns the fewest CIDRs
+  // covering the same addresses, IPv4 first then IPv6, in address order
+  public mergeCIDRs(ranges: string[]): string[] {
+    const result: string[] = []
+
+    for (const version of ['v4', 'v6'] as const) {
+      const sorted = ranges
+        .map(range => this.parseCIDR(range))
+        .filter(cidr => cidr.version === version)
+        .sort((a, b) => (a.first < b.first ? -1 : a.first > b.first ? 1 : 0))
+
+      const spans: Array<[bigint, bigint]> = []
+      for (const cidr of sorted) {
+        const current = spans[spans.length - 1]
+        if (current && cidr.first <= current[1] + ONE) {
+          if (cidr.lastValue > current[1])
+            current[1] = cidr.lastValue
+        }
+        else {
+          spans.push([cidr.first, cidr.lastValue])
+        }
+      }
+
+      for (const [first, last] of spans)
+        result.push(...this.spanToCIDRs(first, last, version))
+    }
+
+    return result
+  }
+
+  // Returns the fewest CIDRs covering every address from start to end inclusive
+  public rangeToCIDRs(start: string, end: string): string[] {
+    const version = isIP(start)
+    if (!version || version !== isIP(end)) {
+      throw new ValidationError(
+        `Invalid IP range: ${start} - ${end}`,
+        ErrorCode.INVALID_IP,
+        { start, end },
+      )
+    }
+
+    const first = this.toBigInt(start)
+    const last = this.toBigInt(end)
+    if (first > last) {
+      throw new ValidationError(
+        `Invalid IP range: ${start} is after ${end}`,
+        ErrorCode.INVALID_IP,
+        { start, end },
+      )
+    }
+
+    return this.spanToCIDRs(first, last, version === 4 ? 'v4' : 'v6')
   }
 
   // Determines if an IP address is in a private address range
@@ -38,26 +231,34 @@ export class IpHandler {
         return false
 
       // Check against known private IPv4 address ranges:
-      // 10.0.0.0/8, 172.16.0.0/12, 192.168.0.0/16, 169.254.0.0/16 (link-local)
+      // 0.0.0.0/8 (this network), 10.0.0.0/8, 100.64.0.0/10 (carrier-grade NAT),
+      // 172.16.0.0/12, 192.168.0.0/16, 169.254.0.0/16 (link-local)
       return (
-        addr[0] === 10
+        addr[0] === 0
+        || addr[0] === 10
+        || (addr[0] === 100 && addr[1] >= 64 && addr[1] <= 127)
         || (addr[0] === 172 && addr[1] >= 16 && addr[1] <= 31)
         || (addr[0] === 192 && addr[1] === 168)
         || (addr[0] === 169 && addr[1] === 254)
       )
     }
 
-    if (version === 6) {
-      // Check against known private IPv6 address ranges:
-      // fe80::/10 (link-local), fc00::/7 (unique local addresses)
-      return (
-        ip.toLowerCase().startsWith('fe80:') // Link-local
-        || ip.toLowerCase().startsWith('fc00:') // Unique local
-        || ip.toLowerCase().startsWith('fd00:') // Unique local
-      )
-    }
+    // IPv4 addresses embedded in IPv6 are judged by their IPv4 part
+    const mapped = this.getMappedIPv4(ip)
+    if (mapped)
+      return this.isPrivateIP(mapped)
+
+    const groups = this.expandIPv6(ip)
+    if (!groups)
+      return false
 
-    return false
+    // Check against known private IPv6 address ranges:
+    // :: (unspecified), fe80::/10 (link-local), fc00::/7 (unique local addresses)
+    return (
+      groups.every(group => group === 0)
+      || (groups[0] & 0xFFC0) === 0xFE80
+      || (groups[0] & 0xFE00) === 0xFC00
+    )
   }
 
   // Determines if an IP address is a loopback address
@@ -75,12 +276,34 @@ export class IpHandler {
       return addr[0] === 127
     }
 
-    if (version === 6) {
-      // IPv6 loopback address is ::1
-      return ip === '::1'
+    const mapped = this.getMappedIPv4(ip)
+    if (mapped)
+      return this.isLoopbackIP(mapped)
+
+    // IPv6 loopback address is ::1, however it is written
+    const groups = this.expandIPv6(ip)
+    return !!groups && groups.slice(0, 7).every(group => group === 0) && groups[7] === 1
+  }
+
+  // Determines if an IP address is a link-local address
+  public isLinkLocalIP(ip: string): boolean {
+    const version = isIP(ip)
+    if (version === 0)
+      return false
+
+    if (version === 4) {
+      const addr = this.parseIPv4(ip)
+      // IPv4 link-local addresses are in the 169.254.0.0/16 range
+      return !!addr && addr[0] === 169 && addr[1] === 254
     }
 
-    return false
+    const mapped = this.getMappedIPv4(ip)
+    if (mapped)
+      return this.isLinkLocalIP(mapped)
+
+    // IPv6 link-local addresses are in the fe80::/10 range
+    const groups = this.expandIPv6(ip)
+    return !!groups && (groups[0] & 0xFFC0) === 0xFE80
   }
 
   // Determines if an IP address is a multicast address
@@ -98,12 +321,158 @@ export class IpHandler {
       return addr[0] >= 224 && addr[0] <= 239
     }
 
-    if (version === 6) {
-      // IPv6 multicast addresses start with ff
-      return ip.toLowerCase().startsWith('ff')
+    const mapped = this.getMappedIPv4(ip)
+    if (mapped)
+      return this.isMulticastIP(mapped)
+
+    // IPv6 multicast addresses are in the ff00::/8 range
+    const groups = this.expandIPv6(ip)
+    return !!groups && (groups[0] & 0xFF00) === 0xFF00
+  }
+
+  // Returns the IPv4 address carried by an IPv4-mapped (::ffff:0:0/96),
+  // IPv4-compatible (::/96) or NAT64 (64:ff9b::/96) IPv6 address
+  public getMappedIPv4(ip: string): string | null {
+    if (isIP(ip) !== 6)
+      return null
+
+    const groups = this.expandIPv6(ip)
+    if (!groups)
+      return null
+
+    const zeros = groups.slice(0, 5).every(group => group === 0)
+    const isMapped = zeros && groups[5] === 0xFFFF
+    // ::/96 also holds :: and ::1, which are not IPv4 addresses
+    const isCompatible = zeros && groups[5] === 0 && (groups[6] !== 0 || groups[7] > 1)
+    const isNat64 = groups[0] === 0x64 && groups[1] === 0xFF9B && groups.slice(2, 6).every(group => group === 0)
+    if (!isMapped && !isCompatible && !isNat64)
+      return null
+
+    return [groups[6] >> 8, groups[6] & 0xFF, groups[7] >> 8, groups[7] & 0xFF].join('.')
+  }
+
+  // Rewrites an IPv4 address written in decimal, octal or hex, with fewer
+  // than four parts (e.g. "2130706433", "0x7f.1", "0177.0.0.1"), as four
+  // decimal octets the way URL parsers and inet_aton read it
+  public normalizeIPv4(input: string): string | null {
+    const parts = input.trim().replace(/\.$/, '').split('.')
+    if (parts.length > 4 || !parts.every(part => /^(?:0x[\da-f]*|0[0-7]*|[1-9]\d*)$/i.test(part)))
+      return null
+
+    const values = parts.map(part => /^0x/i.test(part)
+      ? Number.parseInt(part.slice(2) || '0', 16)
+      : Number.parseInt(part, /^0\d/.test(part) ? 8 : 10))
+
+    // The last part fills all the remaining octets
+    const last = values.pop() ?? 0
+    if (values.some(value => value > 255) || last >= 256 ** (4 - values.length))
+      return null
+
+    const octets = [...values]
+    for (let i = 3 - values.length; i >= 0; i--)
+      octets.push(Math.floor(last / 256 ** i) % 256)
+
+    return octets.join('.')
+  }
+
+  // Normalizes any IP notation: exotic IPv4 forms become dotted decimal,
+  // IPv6 loses brackets and zone and is written in its shortest form
+  public normalizeIP(input: string): string | null {
+    const ipv4 = this.normalizeIPv4(input)
+    if (ipv4)
+      return ipv4
+
+    const ipv6 = input.trim().replace(/^\[(.*)\]$/, '$1').replace(/%.*$/, '')
+    if (isIP(ipv6) !== 6)
+      return null
+
+    // URL serializes IPv6 hosts in the RFC 5952 canonical form
+    return new URL(`http://[${ipv6}]/`).hostname.slice(1, -1)
+  }
+
+  // Expands an IPv6 address into its eight 16-bit groups
+  public expandIPv6(ip: string): number[] | null {
+    const address = ip.replace(/%.*$/, '')
+    if (isIP(address) !== 6)
+      return null
+
+    // Rewrite a trailing dotted IPv4 part as two hex groups
+    let text = address
+    const ipv4 = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(text)
+    if (ipv4) {
+      const [a, b, c, d] = ipv4.slice(1).map(Number)
+      text = `${text.slice(0, ipv4.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+    }
+
+    const [head, tail] = text.split('::')
+    const left = head ? head.split(':') : []
+    const right = tail ? tail.split(':') : []
+    const missing = tail === undefined ? 0 : 8 - left.length - right.length
+
+    return [...left, ...Array.from({ length: missing }, () => '0'), ...right]
+      .map(group => Number.parseInt(group, 16))
+  }
+
+  // Splits a numeric span into aligned blocks, largest first
+  private spanToCIDRs(first: bigint, last: bigint, version: 'v4' | 'v6'): string[] {
+    const bits = BITS[version]
+    const cidrs: string[] = []
+    let current = first
+
+    while (current <= last) {
+      // Grow the block while it stays aligned and inside the span
+      let size = 0
+      while (
+        size < bits
+        && ((current >> BigInt(size)) & ONE) === ZERO
+        && current + (ONE << BigInt(size + 1)) - ONE <= last
+      ) {
+        size++
+      }
+
+      cidrs.push(`${this.fromBigInt(current, version)}/${bits - size}`)
+      current += ONE << BigInt(size)
     }
 
-    return false
+    return cidrs
+  }
+
+  // Writes eight groups in the RFC 5952 compressed form
+  private formatIPv6(groups: number[]): string {
+    // IPv4-mapped addresses keep their IPv4 part dotted (RFC 5952 section 5)
+    if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xFFFF)
+      return `::ffff:${[groups[6] >> 8, groups[6] & 0xFF, groups[7] >> 8, groups[7] & 0xFF].join('.')}`
+
+    // Find the longest run of zero groups; the first one wins a tie
+    let bestStart = -1
+    let bestLength = 0
+    for (let i = 0; i < groups.length;) {
+      if (groups[i] !== 0) {
+        i++
+        continue
+      }
+      let j = i
+      while (j < groups.length && groups[j] === 0)
+        j++
+      if (j - i > bestLength) {
+        bestStart = i
+        bestLength = j - i
+      }
+      i = j
+    }
+
+    const hex = groups.map(group => group.toString(16))
+    if (bestLength < 2)
+      return hex.join(':')
+
+    return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`
+  }
+
+  // Parses the special-purpose registry on first use
+  private getSpecialRanges(): Array<{ range: IpSpecialRange, cidr: IpCidr }> {
+    if (!IpHandler.specialRanges)
+      IpHandler.specialRanges = IP_SPECIAL_RANGES.map(range => ({ range, cidr: this.parseCIDR(range.cidr) }))
+    return IpHandler.specialRanges
   }
 
   // Helper method to parse IPv4 addresses into numeric octets
@@ -0,0 +1,130 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it } from 'vitest'
+import { OperationError, ParseError, ValidationError } from '../../../errors'
+import { DomainHandler } from './domain-handler'
+import { PublicSuffixList } from './public-suffix-list'
+
+// Excerpt of public_suffix_list.dat with the rules the official test vectors use
+const LIST = `
+// ===BEGIN ICANN DOMAINS===
+com
+uk
+co.uk
+jp
+ac.jp
+*.kobe.jp
+!city.kobe.jp
+*.ck
+!www.ck
+us
+ak.us
+k12.ak.us
+公司.cn
+cn
+// ===END ICANN DOMAINS===
+// ===BEGIN PRIVATE DOMAINS===
+github.io
+*.compute.amazonaws.com
+blogspot.co.uk
+// ===END PRIVATE DOMAINS===
+`
+
+describe('publicSuffixList', () => {
+  const list = PublicSuffixList.parse(LIST)
+
+  it('counts the rules of each section', () => {
+    expect(list.stats).toEqual({ icann: 14, private: 3, total: 17 })
+  })
+
+  // From https://raw.githubusercontent.com/publicsuffix/list/master/tests/test_psl.txt
+  it.each([
+    ['com', undefined],
+    ['example.com', 'example.com'],
+    ['b.example.com', 'example.com'],
+    ['uk.com', 'uk.com'],
+    ['example.co.uk', 'example.co.uk'],
+    ['b.example.co.uk', 'example.co.uk'],
+    ['test.ac.jp', 'test.ac.jp'],
+    ['kobe.jp', 'kobe.jp'],
+    ['c.kobe.jp', undefined],
+    ['b.c.kobe.jp', 'b.c.kobe.jp'],
+    ['a.b.c.kobe.jp', 'b.c.kobe.jp'],
+    ['city.kobe.jp', 'city.kobe.jp'],
+    ['www.city.kobe.jp', 'city.kobe.jp'],
+    ['ck', undefined],
+    ['test.ck', undefined],
+    ['b.test.ck', 'b.test.ck'],
+    ['www.ck', 'www.ck'],
+    ['www.www.ck', 'www.ck'],
+    ['k12.ak.us', undefined],
+    ['test.k12.ak.us', 'test.k12.ak.us'],
+    ['www.test.k12.ak.us', 'test.k12.ak.us'],
+    ['食狮.公司.cn', 'xn--85x722f.xn--55qx5d.cn'],
+    ['www.食狮.公司.cn', 'xn--85x722f.xn--55qx5d.cn'],
+    ['example.unlisted', 'example.unlisted'],
+    ['WWW.Example.COM.', 'example.com'],
+  ])('gives %s the registrable domain %s', (domain, expected) => {
+    expect(list.getRegistrableDomain(domain)).toBe(expected)
+  })
+
+  it('describes the rule that decided the suffix', () => {
+    expect(list.lookup('a.b.c.kobe.jp')).toEqual({
+      domain: 'a.b.c.kobe.jp',
+      publicSuffix: 'c.kobe.jp',
+      registrableDomain: 'b.c.kobe.jp',
+      subdomain: 'a',
+      isListed: true,
+      isIcann: true,
+      isPrivate: false,
+      rule: { rule: '*.kobe.jp', type: 'wildcard', section: 'icann', line: 8 },
+    })
+    expect(list.lookup('www.city.kobe.jp').rule).toMatchObject({ rule: '!city.kobe.jp', type: 'exception' })
+    expect(list.lookup('example.unlisted')).toMatchObject({ publicSuffix: 'unlisted', isListed: false, isIcann: false })
+  })
+
+  it('leaves the private section out in icann mode', () => {
+    expect(list.lookup('me.github.io')).toMatchObject({ publicSuffix: 'github.io', registrableDomain: 'me.github.io', isPrivate: true })
+    expect(list.lookup('me.github.io', 'icann')).toMatchObject({ publicSuffix: 'io', registrableDomain: 'github.io', isListed: false })
+    expect(list.getPublicSuffix('ec2-1.us-east-1.compute.amazonaws.com')).toBe('us-east-1.compute.amazonaws.com')
+    expect(list.getPublicSuffix('ec2-1.us-east-1.compute.amazonaws.com', 'icann')).toBe('com')
+    expect(list.isPublicSuffix('blogspot.co.uk')).toBe(true)
+    expect(list.isPublicSuffix('blogspot.co.uk', 'icann')).toBe(false)
+  })
+
+  it('rejects invalid domains and rules', () => {
+    expect(() => list.lookup('a..example.com')).toThrow(ValidationError)
+    expect(() => list.lookup('')).toThrow(ValidationError)
+    expect(() => PublicSuffixList.parse('com\nbad..rule\n')).toThrow(ParseError)
+  })
+
+  describe('files and the default list', () => {
+    let dir: string | undefined
+
+    afterEach(async () => {
+      PublicSuffixList.setDefault(undefined)
+      if (dir) {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('loads a list from disk', async () => {
+      dir = await mkdtemp(join(tmpdir(), 'psl-'))
+      await writeFile(join(dir, 'public_suffix_list.dat'), LIST)
+
+      const loaded = await PublicSuffixList.load(join(dir, 'public_suffix_list.dat'))
+      expect(loaded.stats.total).toBe(17)
+      await expect(PublicSuffixList.load(join(dir, 'missing.dat'))).rejects.toThrow(OperationError)
+    })
+
+    it('splits domains with the given or default list', () => {
+      const handler = new DomainHandler({ publicSuffixList: list })
+      expect(handler.parse('a.b.c.kobe.jp')).toMatchObject({ sld: 'b', tld: 'c.kobe.jp', subdomain: 'a' })
+
+      PublicSuffixList.setDefault(list)
+      expect(new DomainHandler().getRootDomain('www.me.github.io')).toBe('me.github.io')
+      expect(new DomainHandler({ suffixMode: 'icann' }).getRootDomain('www.me.github.io')).toBe('github.io')
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import type { PublicSuffixMode, PublicSuffixResult, PublicSuffixRule } from '../types/psl'
+import { readFile } from 'node:fs/promises'
+import { domainToASCII } from 'node:url'
+import { ErrorCode, OperationError, ParseError, ValidationError } from '../../../errors'
+import { SuffixTrie } from './suffix-trie'
+
+// Section markers of public_suffix_list.dat
+const PRIVATE_SECTION_START = '===BEGIN PRIVATE DOMAINS==='
+const PRIVATE_SECTION_END = '===END PRIVATE DOMAINS==='
+
+// Offline copy of the Public Suffix List (https://publicsuffix.org/list/),
+// compiled into a trie. Lists are loaded from a string or a local
+// public_suffix_list.dat; nothing is fetched over the network
+export class PublicSuffixList {
+  // List used by DomainHandler instances that were not given one
+  private static defaultList: PublicSuffixList | undefined
+
+  private readonly trie = new SuffixTrie()
+  private icannRules = 0
+  private privateRules = 0
+
+  // Use PublicSuffixList.parse or PublicSuffixList.load
+  private constructor() {}
+
+  // Compiles the contents of a public_suffix_list.dat file
+  public static parse(content: string): PublicSuffixList {
+    const list = new PublicSuffixList()
+    let section: PublicSuffixRule['section'] = 'icann'
+
+    content.split(/\r?\n/).forEach((raw, index) => {
+      const line = raw.trim()
+      if (line.startsWith('//')) {
+        if (line.includes(PRIVATE_SECTION_START))
+          section = 'private'
+        else if (line.includes(PRIVATE_SECTION_END))
+          section = 'icann'
+        return
+      }
+
+      // Only the text up to the first whitespace is the rule
+      const text = line.split(/\s/)[0]
+      if (text)
+        list.addRule(text, section, index + 1)
+    })
+
+    return list
+  }
+
+  // Reads and compiles a public_suffix_list.dat file
+  public static async load(path: string): Promise<PublicSuffixList> {
+    let content: string
+    try {
+      content = await readFile(path, 'utf8')
+    }
+    catch (error) {
+      throw new OperationError(
+        `Failed to read Public Suffix List from ${path}`,
+        ErrorCode.OPERATION_FAILED,
+        { path },
+        error instanceof Error ? error : undefined,
+      )
+    }
+    return PublicSuffixList.parse(content)
+  }
+
+  // Sets the list used by DomainHandler instances created without one;
+  // pass undefined to go back to the suffixes bundled with parse-domain
+  public static setDefault(list: PublicSuffixList | undefined): void {
+    PublicSuffixList.defaultList = list
+  }
+
+  // Returns the list set with setDefault, if any
+  public static getDefault(): PublicSuffixList | undefined {
+    return PublicSuffixList.defaultList
+  }
+
+  // Number of rules per section
+  public get stats(): { icann: number, private: number, total: number } {
+    return { icann: this.icannRules, private: this.privateRules, total: this.icannRules + this.privateRules }
+  }
+
+  // Looks up the public suffix and registrable domain of a domain. Domains no
+  // rule covers fall back to the implicit "*" rule: their TLD is the suffix
+  public lookup(domain: string, mode: PublicSuffixMode = 'all'): PublicSuffixResult {
+    const ascii = this.toASCII(domain)
+    if (!ascii) {
+      throw new ValidationError(
+        `Invalid domain: ${domain}`,
+        ErrorCode.INVALID_HOSTNAME,
+      )
+    }
+
+    const labels = ascii.split('.')
+    const match = this.trie.match(labels, mode)
+    // An exception rule on a bare TLD would leave an empty suffix
+    const length = Math.max(match?.length ?? 1, 1)
+
+    const publicSuffix = labels.slice(-length).join('.')
+    const registrableDomain = labels.length > length ? labels.slice(-length - 1).join('.') : undefined
+    const subdomain = labels.length > length + 1 ? labels.slice(0, -length - 1).join('.') : undefined
+
+    return {
+      domain: ascii,
+      publicSuffix,
+      ...(registrableDomain ? { registrableDomain } : {}),
+      ...(subdomain ? { subdomain } : {}),
+      isListed: !!match,
+      isIcann: match?.rule.section === 'icann',
+      isPrivate: match?.rule.section === 'private',
+      ...(match ? { rule: { ...match.rule } } : {}),
+    }
+  }
+
+  // Returns the public suffix of a domain
+  public getPublicSuffix(domain: string, mode: PublicSuffixMode = 'all'): string {
+    return this.lookup(domain, mode).publicSuffix
+  }
+
+  // Returns the registrable domain (public suffix plus one label), or
+  // undefined when the domain is itself a public suffix
+  public getRegistrableDomain(domain: string, mode: PublicSuffixMode = 'all'): string | undefined {
+    return this.lookup(domain, mode).registrableDomain
+  }
+
+  // Checks whether a domain is itself a public suffix
+  public isPublicSuffix(domain: string, mode: PublicSuffixMode = 'all'): boolean {
+    return this.lookup(domain, mode).registrableDomain === undefined
+  }
+
+  // Adds one rule line
+  private addRule(text: string, section: PublicSuffixRule['section'], line: number): void {
+    const exception = text.startsWith('!')
+    const body = exception ? text.slice(1) : text
+    const wildcard = body.startsWith('*.')
+
+    // Rules are matched against ASCII domains, so IDN rules are stored as punycode
+    const ascii = this.toASCII(wildcard ? body.slice(2) : body)
+    if (!ascii) {
+      throw new ParseError(
+        `Invalid Public Suffix List rule on line ${line}: ${text}`,
+        ErrorCode.PARSE_ERROR,
+        { rule: text, line },
+      )
+    }
+
+    const rule: PublicSuffixRule = {
+      rule: text,
+      type: exception ? 'exception' : wildcard ? 'wildcard' : 'normal',
+      section,
+      line,
+    }
+    const labels = ascii.split('.')
+    this.trie.insert(wildcard ? ['*', ...labels] : labels, rule)
+
+    if (section === 'icann')
+      this.icannRules++
+    else
+      this.privateRules++
+  }
+
+  // Lowercases, drops the trailing dot and converts to punycode; returns
+  // undefined when the result is not a valid domain
+  private toASCII(domain: string): string | undefined {
+    const trimmed = domain.trim().replace(/\.$/, '')
+    if (!trimmed || trimmed.startsWith('.') || trimmed.includes('..'))
+      return undefined
+
+    const ascii = domainToASCII(trimmed)
+    return ascii || undefined
+  }
+}
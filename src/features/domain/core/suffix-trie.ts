@@ -0,0 +1,64 @@
+import type { PublicSuffixMode, PublicSuffixRule } from '../types/psl'
+
+interface SuffixNode {
+  children: Map<string, SuffixNode>
+  rule?: PublicSuffixRule
+}
+
+// Public Suffix List rules keyed by their labels from the TLD down. Wildcard
+// rules live under a "*" child and exception rules under their own labels
+export class SuffixTrie {
+  private readonly root: SuffixNode = { children: new Map() }
+
+  // Number of rules in the trie
+  public size = 0
+
+  // Adds a rule given as its labels, TLD last ("*" for a wildcard label)
+  public insert(labels: string[], rule: PublicSuffixRule): void {
+    let node = this.root
+    for (const label of [...labels].reverse()) {
+      let child = node.children.get(label)
+      if (!child) {
+        child = { children: new Map() }
+        node.children.set(label, child)
+      }
+      node = child
+    }
+
+    if (!node.rule)
+      this.size++
+    node.rule = rule
+  }
+
+  // Finds the prevailing rule for a domain given as labels, TLD last, and the
+  // number of labels of its public suffix. Exception rules win over every
+  // other rule, otherwise the rule matching the most labels does
+  public match(labels: string[], mode: PublicSuffixMode): { rule: PublicSuffixRule, length: number } | undefined {
+    const reversed = [...labels].reverse()
+    const allowed = (rule: PublicSuffixRule | undefined): rule is PublicSuffixRule =>
+      !!rule && (mode === 'all' || rule.section === 'icann')
+
+    let best: { rule: PublicSuffixRule, length: number } | undefined
+    let node: SuffixNode | undefined = this.root
+
+    for (let depth = 0; depth < reversed.length && node; depth++) {
+      // A wildcard under this node matches any one further label
+      const wildcard = node.children.get('*')
+      if (allowed(wildcard?.rule) && (!best || depth + 1 > best.length))
+        best = { rule: wildcard.rule, length: depth + 1 }
+
+      node = node.children.get(reversed[depth])
+      if (!node || !allowed(node.rule))
+        continue
+
+      // The suffix of an exception rule is the rule minus its leftmost label
+      if (node.rule.type === 'exception')
+        return { rule: node.rule, length: depth }
+
+      if (!best || depth + 1 > best.length)
+        best = { rule: node.rule, length: depth + 1 }
+    }
+
+    return best
+  }
+}
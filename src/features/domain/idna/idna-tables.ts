@@ -0,0 +1,139 @@
+import type { IdnaStatus } from '../types/idna'
+import {
+  IDNA_BIDI_DATA,
+  IDNA_JOINING_DATA,
+  IDNA_MAPPING_DATA,
+  IDNA_VIRAMA_DATA,
+} from './idna-data'
+
+// Status letters used in the generated mapping data
+const STATUS_BY_CODE: Record<string, IdnaStatus> = {
+  V: 'valid',
+  M: 'mapped',
+  D: 'deviation',
+  I: 'ignored',
+  X: 'disallowed',
+  S: 'disallowed_STD3_valid',
+  T: 'disallowed_STD3_mapped',
+}
+
+// Bidi_Class letters used in the generated data; X stands for every class
+// the bidi rule never allows (B, S, WS, LRE, ...)
+const BIDI_BY_CODE: Record<string, string> = {
+  L: 'L',
+  R: 'R',
+  A: 'AL',
+  N: 'AN',
+  E: 'EN',
+  S: 'ES',
+  C: 'CS',
+  T: 'ET',
+  O: 'ON',
+  B: 'BN',
+  M: 'NSM',
+  X: 'X',
+}
+
+// Sorted range starts and the value of each range
+interface RangeTable<T> {
+  starts: number[]
+  values: T[]
+}
+
+// Unicode properties needed by UTS #46, decoded from the generated data on first use
+export class IdnaTables {
+  private static instance: IdnaTables | undefined
+
+  private readonly mapping: RangeTable<{ status: IdnaStatus, mapping?: string }>
+  private readonly bidi: RangeTable<string>
+  private readonly joining: RangeTable<string>
+  private readonly virama: Set<number>
+
+  private constructor() {
+    this.mapping = this.decodeMapping(IDNA_MAPPING_DATA)
+    this.bidi = this.decodeRuns(IDNA_BIDI_DATA, code => BIDI_BY_CODE[code])
+    this.joining = this.decodeRuns(IDNA_JOINING_DATA, code => code)
+    this.virama = new Set(IDNA_VIRAMA_DATA.split(',').map(value => Number.parseInt(value, 36)))
+  }
+
+  // Returns the shared tables, decoding them the first time
+  public static get(): IdnaTables {
+    if (!IdnaTables.instance)
+      IdnaTables.instance = new IdnaTables()
+    return IdnaTables.instance
+  }
+
+  // IDNA mapping status of a code point and the string it maps to
+  public getStatus(codePoint: number): { status: IdnaStatus, mapping?: string } {
+    return this.find(this.mapping, codePoint)
+  }
+
+  // Bidi_Class of a code point
+  public getBidiClass(codePoint: number): string {
+    return this.find(this.bidi, codePoint)
+  }
+
+  // Joining_Type of a code point (U when it does not join)
+  public getJoiningType(codePoint: number): string {
+    return this.find(this.joining, codePoint)
+  }
+
+  // Whether a code point has Canonical_Combining_Class=Virama
+  public isVirama(codePoint: number): boolean {
+    return this.virama.has(codePoint)
+  }
+
+  // Binary search for the range holding a code point
+  private find<T>(table: RangeTable<T>, codePoint: number): T {
+    let low = 0
+    let high = table.starts.length - 1
+    while (low < high) {
+      const middle = (low + high + 1) >> 1
+      if (table.starts[middle] <= codePoint)
+        low = middle
+      else
+        high = middle - 1
+    }
+    return table.values[low]
+  }
+
+  // Decodes ",<start delta><status>[<mapped code points>]" entries
+  private decodeMapping(data: string): RangeTable<{ status: IdnaStatus, mapping?: string }> {
+    const table: RangeTable<{ status: IdnaStatus, mapping?: string }> = { starts: [], values: [] }
+    let start = 0
+
+    for (const entry of data.split(',')) {
+      const match = /^([\da-z]+)([A-Z])(.*)$/.exec(entry)
+      if (!match)
+        continue
+
+      start += Number.parseInt(match[1], 36)
+      const status = STATUS_BY_CODE[match[2]]
+      const mapping = match[3]
+        ? String.fromCodePoint(...match[3].split(' ').map(value => Number.parseInt(value, 36)))
+        : ''
+
+      table.starts.push(start)
+      table.values.push(status === 'mapped' || status === 'deviation' || status === 'disallowed_STD3_mapped'
+        ? { status, mapping }
+        : { status })
+    }
+
+    return table
+  }
+
+  // Decodes "<length><code>" runs
+  private decodeRuns<T>(data: string, toValue: (code: string) => T): RangeTable<T> {
+    const table: RangeTable<T> = { starts: [], values: [] }
+    const pattern = /([\da-z]+)([A-Z])/g
+    let start = 0
+
+    for (let match = pattern.exec(data); match; match = pattern.exec(data)) {
+      table.starts.push(start)
+      table.values.push(toValue(match[2]))
+      start += Number.parseInt(match[1], 36)
+    }
+
+    return table
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../../errors'
+import { Idna } from './idna'
+
+describe('idna', () => {
+  const idna = new Idna()
+
+  // Rows taken from or modelled on the UTS #46 conformance file IdnaTestV2.txt:
+  // source, nontransitional ToASCII, transitional ToASCII, ToUnicode
+  it.each([
+    ['faß.de', 'xn--fa-hia.de', 'fass.de', 'faß.de'],
+    ['Bücher.DE', 'xn--bcher-kva.de', 'xn--bcher-kva.de', 'bücher.de'],
+    ['βόλος.com', 'xn--nxasmm1c.com', 'xn--nxasmq6b.com', 'βόλος.com'],
+    ['ශ්‍රී.com', 'xn--10cl1a0b660p.com', 'xn--10cl1a0b.com', 'ශ්‍රී.com'],
+    ['نامه‌ای.com', 'xn--mgba3gch31f060k.com', 'xn--mgba3gch31f.com', 'نامه‌ای.com'],
+    ['ΣΑΣ.gr', 'xn--mxa9ab.gr', 'xn--mxa9ab.gr', 'σασ.gr'],
+    ['a。b．c', 'a.b.c', 'a.b.c', 'a.b.c'],
+    ['①.com', '1.com', '1.com', '1.com'],
+    ['ſ.com', 's.com', 's.com', 's.com'],
+    ['a­b.com', 'ab.com', 'ab.com', 'ab.com'],
+    ['l·l.com', 'xn--ll-0ea.com', 'xn--ll-0ea.com', 'l·l.com'],
+    ['a.אב', 'a.xn--4dbc', 'a.xn--4dbc', 'a.אב'],
+    ['Xn--Zca.xn--zca', 'xn--zca.xn--zca', 'xn--zca.xn--zca', 'ß.ß'],
+    ['xn--ls8h.la', 'xn--ls8h.la', 'xn--ls8h.la', '💩.la'],
+  ])('maps %s', (source, ascii, transitional, unicode) => {
+    expect(idna.toASCII(source)).toBe(ascii)
+    expect(idna.toASCII(source, { transitionalProcessing: true })).toBe(transitional)
+    expect(idna.toUnicode(source)).toBe(unicode)
+  })
+
+  it.each([
+    ['a‌b', ['contextj']],
+    ['a·l.com', ['contexto']],
+    ['̈.com', ['leading-combining-mark']],
+    ['-a.com', ['hyphen-start']],
+    ['a-.com', ['hyphen-end']],
+    ['ab--c.com', ['hyphen-3-4']],
+    ['a..b', ['empty-label']],
+    ['a_b.com', ['disallowed-character']],
+    ['⒈.com', ['disallowed-character']],
+    ['xn--a.com', ['disallowed-character']],
+    ['אa.com', ['bidi']],
+    ['ا١۱.com', ['contexto', 'contexto', 'bidi']],
+    [`${'a'.repeat(64)}.com`, ['label-too-long']],
+  ])('rejects %s', (source, codes) => {
+    const result = idna.process(source)
+
+    expect(result.isValid).toBe(false)
+    expect(result.errors.map(error => error.code)).toEqual(codes)
+  })
+
+  it('lets transitional processing drop joiners instead of rejecting them', () => {
+    expect(idna.process('a‌b', { transitionalProcessing: true })).toMatchObject({ ascii: 'ab', isValid: true })
+  })
+
+  it('reports where each error is', () => {
+    expect(idna.process('ok.a_b').errors).toEqual([expect.objectContaining({
+      code: 'disallowed-character',
+      label: 1,
+      labelText: 'a_b',
+      position: 1,
+      codePoint: 0x5F,
+    })])
+  })
+
+  it('turns checks off on request', () => {
+    expect(idna.process('a_b.com', { useSTD3ASCIIRules: false }).isValid).toBe(true)
+    expect(idna.process('ab--c.com', { checkHyphens: false }).isValid).toBe(true)
+    expect(new Idna({ verifyDnsLength: false }).toASCII('a..b')).toBe('a..b')
+  })
+
+  it('throws ValidationError with every error', () => {
+    expect(() => idna.toASCII('-a.com')).toThrow(ValidationError)
+    expect(() => idna.toASCII('-a.com')).toThrow('starts with a hyphen')
+    // ToUnicode does not verify DNS lengths
+    expect(idna.toUnicode('a..b')).toBe('a..b')
+  })
+})
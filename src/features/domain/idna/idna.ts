@@ -0,0 +1,400 @@
+import type { IdnaError, IdnaLabel, IdnaOptions, IdnaResult } from '../types/idna'
+import { ValidationError } from '../../../errors'
+import { ErrorCode } from '../../../errors/types'
+import { IdnaOptionsSchema } from '../types/idna'
+import { IdnaTables } from './idna-tables'
+import { Punycode } from './punycode'
+
+type ResolvedIdnaOptions = Required<IdnaOptions>
+
+type LabelError = Omit<IdnaError, 'label' | 'labelText'>
+
+// A label while it is processed, before errors learn their label index
+interface WorkingLabel extends Omit<IdnaLabel, 'errors'> {
+  errors: LabelError[]
+}
+
+// Bidi classes allowed in right-to-left and left-to-right labels (RFC 5893 section 2)
+const RTL_ALLOWED = new Set(['R', 'AL', 'AN', 'EN', 'ES', 'CS', 'ET', 'ON', 'BN', 'NSM'])
+const LTR_ALLOWED = new Set(['L', 'EN', 'ES', 'CS', 'ET', 'ON', 'BN', 'NSM'])
+
+const ZWNJ = 0x200C
+const ZWJ = 0x200D
+
+// Maximum DNS lengths in octets
+const MAX_LABEL_LENGTH = 63
+const MAX_DOMAIN_LENGTH = 253
+
+// UTS #46 (Unicode IDNA Compatibility Processing): maps, normalizes and
+// validates domain names and converts them between Unicode and ASCII
+export class Idna {
+  private readonly options: ResolvedIdnaOptions
+  private readonly tables = IdnaTables.get()
+  private readonly punycode = new Punycode()
+
+  constructor(options: IdnaOptions = {}) {
+    this.options = IdnaOptionsSchema.parse(options)
+  }
+
+  // Runs UTS #46 processing and reports every error label by label
+  public process(domain: string, options: IdnaOptions = {}): IdnaResult {
+    const opts: ResolvedIdnaOptions = { ...this.options, ...IdnaOptionsSchema.partial().parse(options) }
+
+    // Steps 1 and 2: map, then normalize to NFC
+    const mapped = this.map(domain, opts).normalize('NFC')
+
+    // Steps 3 and 4: break into labels, decode "xn--" labels and validate each
+    const working = mapped.split('.').map(label => this.processLabel(label, opts))
+
+    if (opts.checkBidi)
+      this.checkBidiDomain(working)
+
+    const ascii = working.map(label => label.ascii).join('.')
+    const domainErrors = opts.verifyDnsLength ? this.checkDnsLength(working, ascii) : []
+
+    const labels: IdnaLabel[] = working.map((label, index) => ({
+      ...label,
+      errors: label.errors.map(error => ({ ...error, label: index, labelText: label.unicode })),
+    }))
+    const errors = [...labels.flatMap(label => label.errors), ...domainErrors]
+
+    return {
+      input: domain,
+      unicode: labels.map(label => label.unicode).join('.'),
+      ascii,
+      labels,
+      errors,
+      isValid: errors.length === 0,
+    }
+  }
+
+  // UTS #46 ToASCII; throws with the per-label errors when the domain is invalid
+  public toASCII(domain: string, options: IdnaOptions = {}): string {
+    const result = this.process(domain, options)
+    this.assertValid(result)
+    return result.ascii
+  }
+
+  // UTS #46 ToUnicode; throws with the per-label errors when the domain is invalid
+  public toUnicode(domain: string, options: IdnaOptions = {}): string {
+    const result = this.process(domain, { verifyDnsLength: false, ...options })
+    this.assertValid(result)
+    return result.unicode
+  }
+
+  // Throws a ValidationError carrying the errors of a failed result
+  private assertValid(result: IdnaResult): void {
+    if (result.isValid)
+      return
+
+    const [first] = result.errors
+    throw new ValidationError(
+      `Invalid domain name ${JSON.stringify(result.input)}: ${first.message}`,
+      ErrorCode.INVALID_HOSTNAME,
+      { domain: result.input, errors: result.errors },
+    )
+  }
+
+  // Applies the mapping table; disallowed code points are kept so that
+  // validation reports them with their label
+  private map(domain: string, opts: ResolvedIdnaOptions): string {
+    let output = ''
+
+    for (const char of domain) {
+      const { status, mapping } = this.tables.getStatus(char.codePointAt(0) ?? 0)
+      switch (status) {
+        case 'mapped':
+          output += mapping
+          break
+        case 'deviation':
+          output += opts.transitionalProcessing ? mapping : char
+          break
+        case 'ignored':
+          break
+        case 'disallowed_STD3_mapped':
+          output += opts.useSTD3ASCIIRules ? char : mapping
+          break
+        default:
+          output += char
+      }
+    }
+
+    return output
+  }
+
+  // Decodes an "xn--" label when needed, validates it and computes both forms
+  private processLabel(label: string, opts: ResolvedIdnaOptions): WorkingLabel {
+    const result: WorkingLabel = { input: label, unicode: label, ascii: label, errors: [] }
+    const { errors } = result
+
+    if (label.startsWith('xn--')) {
+      if (!this.isAscii(label)) {
+        errors.push({ code: 'invalid-ace-label', message: `Label "${label}" mixes the "xn--" prefix with non-ASCII characters` })
+        return result
+      }
+
+      let decoded: string
+      try {
+        decoded = this.punycode.decode(label.slice(4))
+      }
+      catch {
+        errors.push({ code: 'invalid-punycode', message: `Label "${label}" is not valid Punycode` })
+        return result
+      }
+
+      result.unicode = decoded
+      if (!decoded || this.isAscii(decoded)) {
+        errors.push({ code: 'invalid-ace-label', message: `Label "${label}" decodes to an empty or ASCII-only label` })
+      }
+
+      // Decoded labels are always held to nontransitional validity
+      errors.push(...this.validateLabel(decoded, { ...opts, transitionalProcessing: false }, true))
+      return result
+    }
+
+    errors.push(...this.validateLabel(label, opts, false))
+
+    if (!this.isAscii(label)) {
+      try {
+        result.ascii = `xn--${this.punycode.encode(label)}`
+      }
+      catch {
+        errors.push({ code: 'invalid-punycode', message: `Label "${label}" cannot be encoded as Punycode` })
+      }
+    }
+
+    return result
+  }
+
+  // Checks the UTS #46 validity criteria (section 4.1) for one label
+  private validateLabel(label: string, opts: ResolvedIdnaOptions, decoded: boolean): LabelError[] {
+    const errors: LabelError[] = []
+    if (!label)
+      return errors
+
+    const codePoints = Array.from(label, char => char.codePointAt(0) ?? 0)
+
+    if (decoded && label.normalize('NFC') !== label)
+      errors.push({ code: 'not-nfc', message: `Label "${label}" is not in Normalization Form C` })
+
+    if (opts.checkHyphens) {
+      if (label.slice(2, 4) === '--')
+        errors.push({ code: 'hyphen-3-4', message: `Label "${label}" has hyphens in the third and fourth positions` })
+      if (label.startsWith('-'))
+        errors.push({ code: 'hyphen-start', message: `Label "${label}" starts with a hyphen` })
+      if (label.endsWith('-'))
+        errors.push({ code: 'hyphen-end', message: `Label "${label}" ends with a hyphen` })
+    }
+    else if (label.startsWith('xn--')) {
+      errors.push({ code: 'ace-prefix', message: `Label "${label}" starts with "xn--"` })
+    }
+
+    if (decoded && label.includes('.'))
+      errors.push({ code: 'full-stop', message: `Label "${label}" contains a full stop` })
+
+    if (/^\p{M}/u.test(label))
+      errors.push({ code: 'leading-combining-mark', message: `Label "${label}" starts with a combining mark`, position: 0, codePoint: codePoints[0] })
+
+    codePoints.forEach((codePoint, position) => {
+      const { status } = this.tables.getStatus(codePoint)
+      const allowed = status === 'valid'
+        || (status === 'deviation' && !opts.transitionalProcessing)
+        || (status === 'disallowed_STD3_valid' && !opts.useSTD3ASCIIRules)
+      if (!allowed) {
+        errors.push({
+          code: 'disallowed-character',
+          message: `Label "${label}" contains disallowed character ${this.formatCodePoint(codePoint)} at position ${position}`,
+          position,
+          codePoint,
+        })
+      }
+    })
+
+    if (opts.checkJoiners)
+      errors.push(...this.checkContextJ(label, codePoints))
+    if (opts.checkContextO)
+      errors.push(...this.checkContextO(label, codePoints))
+
+    return errors
+  }
+
+  // RFC 5892 appendix A.1 and A.2: ZWNJ and ZWJ only after a virama, and
+  // ZWNJ also between joining characters
+  private checkContextJ(label: string, codePoints: number[]): LabelError[] {
+    const errors: LabelError[] = []
+
+    codePoints.forEach((codePoint, position) => {
+      if (codePoint !== ZWNJ && codePoint !== ZWJ)
+        return
+      if (position > 0 && this.tables.isVirama(codePoints[position - 1]))
+        return
+      if (codePoint === ZWNJ && this.isJoiningContext(codePoints, position))
+        return
+
+      errors.push({
+        code: 'contextj',
+        message: `Label "${label}" has ${this.formatCodePoint(codePoint)} at position ${position} outside a joining context`,
+        position,
+        codePoint,
+      })
+    })
+
+    return errors
+  }
+
+  // (Joining_Type:{L,D})(Joining_Type:T)* ZWNJ (Joining_Type:T)*(Joining_Type:{R,D})
+  private isJoiningContext(codePoints: number[], position: number): boolean {
+    let before = position - 1
+    while (before >= 0 && this.tables.getJoiningType(codePoints[before]) === 'T')
+      before--
+    let after = position + 1
+    while (after < codePoints.length && this.tables.getJoiningType(codePoints[after]) === 'T')
+      after++
+
+    const left = before >= 0 ? this.tables.getJoiningType(codePoints[before]) : undefined
+    const right = after < codePoints.length ? this.tables.getJoiningType(codePoints[after]) : undefined
+    return (left === 'L' || left === 'D') && (right === 'R' || right === 'D')
+  }
+
+  // RFC 5892 appendix A.3 to A.9
+  private checkContextO(label: string, codePoints: number[]): LabelError[] {
+    const errors: LabelError[] = []
+    const chars = Array.from(label)
+    const hasArabicIndic = codePoints.some(codePoint => codePoint >= 0x0660 && codePoint <= 0x0669)
+    const hasExtendedArabicIndic = codePoints.some(codePoint => codePoint >= 0x06F0 && codePoint <= 0x06F9)
+
+    codePoints.forEach((codePoint, position) => {
+      let valid = true
+      let rule = ''
+
+      if (codePoint === 0x00B7) {
+        // MIDDLE DOT only between two "l"s, as in Catalan
+        valid = codePoints[position - 1] === 0x006C && codePoints[position + 1] === 0x006C
+        rule = 'must sit between two "l" characters'
+      }
+      else if (codePoint === 0x0375) {
+        // GREEK LOWER NUMERAL SIGN only before a Greek character
+        valid = position + 1 < chars.length && /\p{Script=Greek}/u.test(chars[position + 1])
+        rule = 'must be followed by a Greek character'
+      }
+      else if (codePoint === 0x05F3 || codePoint === 0x05F4) {
+        // HEBREW PUNCTUATION GERESH and GERSHAYIM only after a Hebrew character
+        valid = position > 0 && /\p{Script=Hebrew}/u.test(chars[position - 1])
+        rule = 'must follow a Hebrew character'
+      }
+      else if (codePoint === 0x30FB) {
+        // KATAKANA MIDDLE DOT only in labels with Hiragana, Katakana or Han
+        valid = chars.some(char => char !== '・' && /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}]/u.test(char))
+        rule = 'needs a Hiragana, Katakana or Han character in the label'
+      }
+      else if (codePoint >= 0x0660 && codePoint <= 0x0669) {
+        valid = !hasExtendedArabicIndic
+        rule = 'cannot be mixed with Extended Arabic-Indic digits'
+      }
+      else if (codePoint >= 0x06F0 && codePoint <= 0x06F9) {
+        valid = !hasArabicIndic
+        rule = 'cannot be mixed with Arabic-Indic digits'
+      }
+
+      if (!valid) {
+        errors.push({
+          code: 'contexto',
+          message: `Label "${label}" has ${this.formatCodePoint(codePoint)} at position ${position}, which ${rule}`,
+          position,
+          codePoint,
+        })
+      }
+    })
+
+    return errors
+  }
+
+  // RFC 5893: once any label holds right-to-left characters, every label
+  // must satisfy the bidi rule
+  private checkBidiDomain(labels: WorkingLabel[]): void {
+    const classes = labels.map(label => Array.from(label.unicode, char => this.tables.getBidiClass(char.codePointAt(0) ?? 0)))
+    const isBidiDomain = classes.some(labelClasses => labelClasses.some(bidiClass => bidiClass === 'R' || bidiClass === 'AL' || bidiClass === 'AN'))
+    if (!isBidiDomain)
+      return
+
+    labels.forEach((label, index) => {
+      const reason = this.checkBidiLabel(classes[index])
+      if (reason)
+        label.errors.push({ code: 'bidi', message: `Label "${label.unicode}" breaks the bidi rule: ${reason}` })
+    })
+  }
+
+  // Returns why a label breaks the bidi rule, if it does
+  private checkBidiLabel(classes: string[]): string | undefined {
+    if (classes.length === 0)
+      return undefined
+
+    // Rule 1: the first character decides the direction
+    const first = classes[0]
+    if (first !== 'L' && first !== 'R' && first !== 'AL')
+      return 'it must start with a left-to-right or right-to-left character'
+
+    // The last character that is not a nonspacing mark
+    let end = classes.length - 1
+    while (end > 0 && classes[end] === 'NSM')
+      end--
+    const last = classes[end]
+
+    if (first === 'L') {
+      // Rules 5 and 6
+      if (classes.some(bidiClass => !LTR_ALLOWED.has(bidiClass)))
+        return 'a left-to-right label contains right-to-left characters'
+      if (last !== 'L' && last !== 'EN')
+        return 'a left-to-right label must end with a left-to-right character or a digit'
+      return undefined
+    }
+
+    // Rules 2 to 4
+    if (classes.some(bidiClass => !RTL_ALLOWED.has(bidiClass)))
+      return 'a right-to-left label contains left-to-right characters'
+    if (last !== 'R' && last !== 'AL' && last !== 'EN' && last !== 'AN')
+      return 'a right-to-left label must end with a right-to-left character or a digit'
+    if (classes.includes('EN') && classes.includes('AN'))
+      return 'a right-to-left label cannot mix European and Arabic digits'
+    return undefined
+  }
+
+  // DNS length limits on the ASCII form; the root label after a trailing dot is allowed
+  private checkDnsLength(labels: WorkingLabel[], ascii: string): IdnaError[] {
+    const errors: IdnaError[] = []
+    const hasRoot = labels.length > 1 && labels[labels.length - 1].ascii === ''
+    const length = hasRoot ? ascii.length - 1 : ascii.length
+
+    labels.forEach((label, index) => {
+      if (label.ascii === '' && !(hasRoot && index === labels.length - 1))
+        label.errors.push({ code: 'empty-label', message: 'Domain has an empty label' })
+      else if (label.ascii.length > MAX_LABEL_LENGTH)
+        label.errors.push({ code: 'label-too-long', message: `Label "${label.ascii}" is longer than ${MAX_LABEL_LENGTH} characters` })
+    })
+
+    if (length > MAX_DOMAIN_LENGTH) {
+      errors.push({
+        code: 'domain-too-long',
+        message: `Domain is longer than ${MAX_DOMAIN_LENGTH} characters in ASCII`,
+        label: -1,
+        labelText: '',
+      })
+    }
+
+    return errors
+  }
+
+  // Whether every code unit is below U+0080
+  private isAscii(input: string): boolean {
+    for (let index = 0; index < input.length; index++) {
+      if (input.charCodeAt(index) > 0x7F)
+        return false
+    }
+    return true
+  }
+
+  // Formats a code point as U+XXXX
+  private formatCodePoint(codePoint: number): string {
+    return `U+${codePoint.toString(16).toUpperCase().padStart(4, '0')}`
+  }
+}
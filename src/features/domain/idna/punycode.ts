@@ -0,0 +1,164 @@
+import { ValidationError } from '../../../errors'
+import { ErrorCode } from '../../../errors/types'
+
+// Bootstring parameters for Punycode (RFC 3492 section 5)
+const BASE = 36
+const T_MIN = 1
+const T_MAX = 26
+const SKEW = 38
+const DAMP = 700
+const INITIAL_BIAS = 72
+const INITIAL_N = 0x80
+const DELIMITER = '-'
+const MAX_INT = 0x7FFFFFFF
+
+// Punycode (RFC 3492) encoding of single labels, without the "xn--" prefix
+export class Punycode {
+  // Encodes a Unicode label
+  public encode(input: string): string {
+    const codePoints = Array.from(input, char => char.codePointAt(0) ?? 0)
+    let output = codePoints.filter(codePoint => codePoint < 0x80).map(codePoint => String.fromCharCode(codePoint)).join('')
+    const basicLength = output.length
+    let handled = basicLength
+    if (basicLength > 0)
+      output += DELIMITER
+
+    let n = INITIAL_N
+    let delta = 0
+    let bias = INITIAL_BIAS
+
+    while (handled < codePoints.length) {
+      // The smallest code point not handled yet
+      const next = Math.min(...codePoints.filter(codePoint => codePoint >= n))
+      if (next - n > Math.floor((MAX_INT - delta) / (handled + 1)))
+        throw this.overflow(input, ErrorCode.ENCODING_ERROR)
+      delta += (next - n) * (handled + 1)
+      n = next
+
+      for (const codePoint of codePoints) {
+        if (codePoint < n && ++delta > MAX_INT)
+          throw this.overflow(input, ErrorCode.ENCODING_ERROR)
+        if (codePoint !== n)
+          continue
+
+        // Write delta as a variable-length integer
+        let q = delta
+        for (let k = BASE; ; k += BASE) {
+          const t = this.threshold(k, bias)
+          if (q < t)
+            break
+          output += this.digit(t + ((q - t) % (BASE - t)))
+          q = Math.floor((q - t) / (BASE - t))
+        }
+        output += this.digit(q)
+        bias = this.adapt(delta, handled + 1, handled === basicLength)
+        delta = 0
+        handled++
+      }
+
+      delta++
+      n++
+    }
+
+    return output
+  }
+
+  // Decodes a Punycode label
+  public decode(input: string): string {
+    const delimiter = input.lastIndexOf(DELIMITER)
+    const output: number[] = []
+
+    for (let i = 0; i < Math.max(delimiter, 0); i++) {
+      const codePoint = input.charCodeAt(i)
+      if (codePoint >= 0x80)
+        throw this.invalid(input, 'non-basic code point before the delimiter')
+      output.push(codePoint)
+    }
+
+    let n = INITIAL_N
+    let i = 0
+    let bias = INITIAL_BIAS
+
+    for (let index = delimiter > 0 ? delimiter + 1 : 0; index < input.length;) {
+      // Read a variable-length integer into i
+      const oldI = i
+      let weight = 1
+      for (let k = BASE; ; k += BASE) {
+        if (index >= input.length)
+          throw this.invalid(input, 'truncated input')
+        const digit = this.digitValue(input.charCodeAt(index++))
+        if (digit >= BASE)
+          throw this.invalid(input, 'invalid digit')
+        if (digit > Math.floor((MAX_INT - i) / weight))
+          throw this.overflow(input, ErrorCode.DECODING_ERROR)
+        i += digit * weight
+
+        const t = this.threshold(k, bias)
+        if (digit < t)
+          break
+        if (weight > Math.floor(MAX_INT / (BASE - t)))
+          throw this.overflow(input, ErrorCode.DECODING_ERROR)
+        weight *= BASE - t
+      }
+
+      const length = output.length + 1
+      bias = this.adapt(i - oldI, length, oldI === 0)
+      if (Math.floor(i / length) > MAX_INT - n)
+        throw this.overflow(input, ErrorCode.DECODING_ERROR)
+      n += Math.floor(i / length)
+      i %= length
+
+      if (n > 0x10FFFF || (n >= 0xD800 && n <= 0xDFFF))
+        throw this.invalid(input, `invalid code point U+${n.toString(16).toUpperCase()}`)
+      output.splice(i++, 0, n)
+    }
+
+    return String.fromCodePoint(...output)
+  }
+
+  // Bias adaptation (RFC 3492 section 6.1)
+  private adapt(delta: number, length: number, first: boolean): number {
+    delta = first ? Math.floor(delta / DAMP) : delta >> 1
+    delta += Math.floor(delta / length)
+
+    let k = 0
+    while (delta > ((BASE - T_MIN) * T_MAX) >> 1) {
+      delta = Math.floor(delta / (BASE - T_MIN))
+      k += BASE
+    }
+    return k + Math.floor(((BASE - T_MIN + 1) * delta) / (delta + SKEW))
+  }
+
+  private threshold(k: number, bias: number): number {
+    return k <= bias ? T_MIN : k >= bias + T_MAX ? T_MAX : k - bias
+  }
+
+  // 0-25 are a-z, 26-35 are 0-9
+  private digit(value: number): string {
+    return String.fromCharCode(value < 26 ? 0x61 + value : 0x16 + value)
+  }
+
+  private digitValue(charCode: number): number {
+    if (charCode >= 0x30 && charCode <= 0x39)
+      return charCode - 0x16
+    if (charCode >= 0x41 && charCode <= 0x5A)
+      return charCode - 0x41
+    if (charCode >= 0x61 && charCode <= 0x7A)
+      return charCode - 0x61
+    return BASE
+  }
+
+  private invalid(input: string, reason: string): ValidationError {
+    return new ValidationError(
+      `Invalid Punycode "${input}": ${reason}`,
+      ErrorCode.DECODING_ERROR,
+    )
+  }
+
+  private overflow(input: string, code: ErrorCode): ValidationError {
+    return new ValidationError(
+      `Punycode overflow for "${input}"`,
+      code,
+    )
+  }
+}
@@ -1,19 +1,33 @@
+// Confusable exports
+export { ConfusableDetector } from './confusables/confusable-detector'
 // Constants
-export { DOMAIN_CONSTANTS, SUSPICIOUS_TLDS } from './constants'
+export { DOMAIN_CONSTANTS, IDNA_LOOKUP_OPTIONS, IP_SPECIAL_RANGES, KEYBOARD_LAYOUTS, SUSPICIOUS_TLDS, TYPOSQUAT_TLDS, UNICODE_SCRIPTS } from './constants'
 // Core exports
 export { DomainHandler } from './core/domain-handler'
-export { DomainParser } from './core/domain-parser'
 
+export { DomainParser } from './core/domain-parser'
 export { IpHandler } from './core/ip-handler'
+export { PublicSuffixList } from './core/public-suffix-list'
+// IDNA exports
+export { Idna } from './idna/idna'
 // Security exports
 export { DomainSecurity } from './security/domain-security'
 
 export { PhishingDetector } from './security/phishing'
 export { ReputationChecker } from './security/reputation-checker'
+export { TyposquatGenerator } from './security/typosquat-generator'
 // Types exports
+export * from './types/confusables'
+
 export * from './types/domain'
 
+export * from './types/idna'
+
+export * from './types/psl'
+
 export * from './types/security'
+
+export * from './types/typosquat'
 // Utils exports
 export { DomainOperations } from './utils/domain-operations'
 
@@ -1,3 +1,6 @@
+import type { Blocklist } from '../../blocklist/blocklist'
+import type { ConfusableAnalysis } from '../types/confusables'
+import type { TyposquatCandidate, TyposquatOptions } from '../types/typosquat'
 import { isIP } from 'node:net'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
@@ -5,17 +8,20 @@ import { SUSPICIOUS_TLDS } from '../constants'
 import { DomainHandler } from '../core/domain-handler'
 import { PhishingDetector } from './phishing'
 import { ReputationChecker } from './reputation-checker'
+import { TyposquatGenerator } from './typosquat-generator'
 
 export class DomainSecurity {
   private readonly domainHandler: DomainHandler
   private readonly phishingDetector: PhishingDetector
   private readonly reputationChecker: ReputationChecker
+  private readonly typosquatGenerator: TyposquatGenerator
   private readonly suspiciousTLDs = SUSPICIOUS_TLDS // List of TLDs known for abuse
 
   constructor() {
     this.domainHandler = new DomainHandler()
     this.phishingDetector = new PhishingDetector(this.domainHandler)
     this.reputationChecker = new ReputationChecker(this.domainHandler)
+    this.typosquatGenerator = new TyposquatGenerator(this.domainHandler)
   }
 
   // Determines if a domain meets basic security criteria
@@ -66,7 +72,7 @@ export class DomainSecurity {
   }
 
   // Delegates blacklist checking to the reputation checker
-  public isBlacklisted(domain: string, blacklist: string[]): boolean {
+  public isBlacklisted(domain: string, blacklist: string[] | Blocklist): boolean {
     return this.reputationChecker.isBlacklisted(domain, blacklist)
   }
 
@@ -75,6 +81,16 @@ export class DomainSecurity {
     return this.phishingDetector.isPotentialPhishing(domain, targetDomain)
   }
 
+  // Delegates homoglyph analysis to the phishing detector
+  public analyzeConfusables(domain: string): ConfusableAnalysis {
+    return this.phishingDetector.analyzeConfusables(domain)
+  }
+
+  // Delegates typosquat generation to the typosquat generator
+  public generateTyposquats(domain: string, options: TyposquatOptions = {}): TyposquatCandidate[] {
+    return this.typosquatGenerator.generate(domain, options)
+  }
+
   // Determines if an IP address is unsafe for general use
   private isUnsafeIP(ip: string): boolean {
     // Validate that the input is actually an IP address
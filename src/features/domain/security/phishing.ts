@@ -1,13 +1,23 @@
 import type { DomainHandler } from '../core/domain-handler'
+import type { ConfusableAnalysis } from '../types/confusables'
 import { isIP } from 'node:net'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
+import { ConfusableDetector } from '../confusables/confusable-detector'
 
 export class PhishingDetector {
   private readonly domainHandler: DomainHandler
+  private readonly confusableDetector: ConfusableDetector
 
   constructor(domainHandler: DomainHandler) {
     this.domainHandler = domainHandler
+    this.confusableDetector = new ConfusableDetector()
+  }
+
+  // Looks for mixed-script labels, whole-script confusables and characters
+  // imitating other scripts in the Unicode form of a domain
+  public analyzeConfusables(domain: string): ConfusableAnalysis {
+    return this.confusableDetector.analyze(this.toUnicode(this.domainHandler.normalize(domain)))
   }
 
   // Determines if a domain might be attempting to impersonate a target domain
@@ -35,7 +45,13 @@ export class PhishingDetector {
       const targetRoot = this.domainHandler.getRootDomain(normalizedTarget)
       const domainRoot = this.domainHandler.getRootDomain(normalizedDomain)
 
-      // Case 2: Domain is very similar to target (small edit distance)
+      // Case 2: Domain looks the same as the target once rendered
+      // Examples: pаypal.com (Cyrillic "а"), rnicrosoft.com for microsoft.com
+      if (this.confusableDetector.areConfusable(this.toUnicode(domainRoot), this.toUnicode(targetRoot)).confusable) {
+        return true
+      }
+
+      // Case 3: Domain is very similar to target (small edit distance)
       // Examples: paypa1.com, paaypal.com for target paypal.com
       if (this.calculateLevenshteinDistance(targetRoot, domainRoot) <= 2) {
         return true
@@ -59,6 +75,16 @@ export class PhishingDetector {
     }
   }
 
+  // Converts Punycode labels back to Unicode so that skeletons see the real characters
+  private toUnicode(domain: string): string {
+    try {
+      return this.domainHandler.fromPunycode(domain)
+    }
+    catch {
+      return domain
+    }
+  }
+
   // Calculates the Levenshtein distance (edit distance) between two strings
   private calculateLevenshteinDistance(a: string, b: string): number {
     // Initialize the distance matrix
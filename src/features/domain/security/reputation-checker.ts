@@ -1,3 +1,4 @@
+import type { Blocklist } from '../../blocklist/blocklist'
 import type { DomainHandler } from '../core/domain-handler'
 import { isIP } from 'node:net'
 import { ValidationError } from '../../../errors'
@@ -64,12 +65,17 @@ export class ReputationChecker {
     }
   }
 
-  // Checks if a domain is blacklisted based on a list of blocked domains
-  public isBlacklisted(domain: string, blacklist: string[]): boolean {
+  // Checks if a domain is blacklisted based on a list of blocked domains or a loaded blocklist
+  public isBlacklisted(domain: string, blacklist: string[] | Blocklist): boolean {
     try {
       // Normalize the domain for consistent comparison
       const normalizedDomain = this.domainHandler.normalize(domain)
 
+      // Loaded blocklists are indexed, so there is no need to walk their rules
+      if (!Array.isArray(blacklist)) {
+        return blacklist.isBlocked(normalizedDomain)
+      }
+
       // For IP addresses, check for exact match in blacklist
       if (isIP(normalizedDomain)) {
         return blacklist.includes(normalizedDomain)
@@ -0,0 +1,72 @@
+import type { TyposquatTechnique } from '../types/typosquat'
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../../errors'
+import { DomainHandler } from '../core/domain-handler'
+import { TyposquatGenerator } from './typosquat-generator'
+
+describe('typosquatGenerator', () => {
+  const generator = new TyposquatGenerator(new DomainHandler())
+  const variants = (domain: string, technique: TyposquatTechnique): string[] =>
+    generator.generate(domain, { techniques: [technique], keyboards: ['qwerty'], tlds: ['com', 'co.uk', 'net'] })
+      .map(candidate => candidate.domain)
+
+  it.each<[TyposquatTechnique, string[]]>([
+    ['omission', ['b.co.uk', 'a.co.uk']],
+    ['transposition', ['ba.co.uk']],
+    ['repetition', ['aab.co.uk', 'abb.co.uk']],
+    ['keyboard-adjacency', ['qb.co.uk', 'wb.co.uk', 'sb.co.uk', 'zb.co.uk', 'av.co.uk', 'ag.co.uk', 'ah.co.uk', 'an.co.uk']],
+    ['bitsquatting', ['cb.co.uk', 'eb.co.uk', 'ib.co.uk', 'qb.co.uk', 'ac.co.uk', 'af.co.uk', 'aj.co.uk', 'ar.co.uk']],
+    ['hyphenation', ['a-b.co.uk']],
+    ['vowel-swap', ['eb.co.uk', 'ib.co.uk', 'ob.co.uk', 'ub.co.uk']],
+    ['subdomain-split', ['a.b.co.uk']],
+    ['tld-swap', ['ab.com', 'ab.net']],
+  ])('varies the registrable label with %s', (technique, expected) => {
+    expect(variants('www.ab.co.uk', technique)).toEqual(expected)
+  })
+
+  it('types neighbouring keys before and after each character', () => {
+    expect(variants('ab.com', 'insertion')).toEqual(expect.arrayContaining(['qab.com', 'aqb.com', 'abv.com', 'avb.com']))
+  })
+
+  it('swaps characters for lookalikes and gives them in both forms', () => {
+    const candidates = generator.generate('mom.com', { techniques: ['homoglyph'] })
+
+    expect(candidates).toContainEqual({ domain: 'xn--mm-fmc.com', unicode: 'mоm.com', technique: 'homoglyph' })
+    // Two characters for one
+    expect(candidates.map(candidate => candidate.domain)).toContain('rnom.com')
+    expect(candidates.every(candidate => candidate.domain !== 'mom.com')).toBe(true)
+  })
+
+  it('keeps each candidate once, with the first technique that made it', () => {
+    const candidates = generator.generate('google.com')
+
+    expect(new Set(candidates.map(candidate => candidate.domain)).size).toBe(candidates.length)
+    expect(candidates.find(candidate => candidate.domain === 'gogle.com')?.technique).toBe('omission')
+    expect(candidates.map(candidate => candidate.domain)).not.toContain('google.com')
+  })
+
+  it('rejects IP addresses and bare suffixes', () => {
+    expect(() => generator.generate('127.0.0.1')).toThrow(ValidationError)
+    expect(() => generator.generate('com')).toThrow(ValidationError)
+  })
+
+  it('records which candidates are registered', async () => {
+    const candidates = generator.generate('abc.com', { techniques: ['omission'] })
+    const checked = await generator.check(candidates, {
+      concurrency: 2,
+      lookup: async (hostname) => {
+        if (hostname === 'bc.com')
+          return ['192.0.2.1']
+        if (hostname === 'ac.com')
+          throw Object.assign(new Error('queryA ENOTFOUND ac.com'), { code: 'ENOTFOUND' })
+        throw new Error('timeout')
+      },
+    })
+
+    expect(checked).toEqual([
+      { domain: 'bc.com', unicode: 'bc.com', technique: 'omission', registered: true, addresses: ['192.0.2.1'] },
+      { domain: 'ac.com', unicode: 'ac.com', technique: 'omission', registered: false, addresses: [] },
+      { domain: 'ab.com', unicode: 'ab.com', technique: 'omission', error: 'timeout' },
+    ])
+  })
+})
@@ -0,0 +1,216 @@
+import type { DomainHandler } from '../core/domain-handler'
+import type {
+  KeyboardLayout,
+  TyposquatCandidate,
+  TyposquatCheckOptions,
+  TyposquatOptions,
+  TyposquatTechnique,
+} from '../types/typosquat'
+import { isIP } from 'node:net'
+import { ValidationError } from '../../../errors'
+import { ErrorCode } from '../../../errors/types'
+import { ConfusableDetector } from '../confusables/confusable-detector'
+import { KEYBOARD_LAYOUTS, TYPOSQUAT_TLDS } from '../constants'
+import { Idna } from '../idna/idna'
+import { IdnaTables } from '../idna/idna-tables'
+import { TyposquatOptionsSchema, TyposquatTechniqueSchema } from '../types/typosquat'
+
+const VOWELS = ['a', 'e', 'i', 'o', 'u']
+
+// Generates likely impersonations of a domain, dnstwist-style. Variants are
+// built from the registrable label, so "www.google.co.uk" yields candidates
+// such as "gogle.co.uk" and "google.com"
+export class TyposquatGenerator {
+  private readonly domainHandler: DomainHandler
+  private readonly confusableDetector: ConfusableDetector
+  private readonly idna: Idna // Registration rules, so that only names a registry would accept are kept
+
+  constructor(domainHandler: DomainHandler) {
+    this.domainHandler = domainHandler
+    this.confusableDetector = new ConfusableDetector()
+    this.idna = new Idna()
+  }
+
+  // Generates candidates labeled with the technique that produced them,
+  // deduplicated by their IDNA ASCII form
+  public generate(domain: string, options: TyposquatOptions = {}): TyposquatCandidate[] {
+    const { techniques, keyboards, tlds } = TyposquatOptionsSchema.parse(options)
+    const { label, suffix, ascii } = this.split(domain)
+    const chars = Array.from(label)
+
+    const candidates = new Map<string, TyposquatCandidate>()
+    for (const technique of techniques ?? TyposquatTechniqueSchema.options) {
+      const variants = technique === 'tld-swap'
+        ? (tlds ?? TYPOSQUAT_TLDS).filter(tld => tld !== suffix).map(tld => `${label}.${tld}`)
+        : this.mutate(technique, chars, keyboards).map(variant => `${variant}.${suffix}`)
+
+      for (const variant of variants) {
+        const result = this.idna.process(variant)
+        // Names a registry would refuse, the original itself and repeats are dropped
+        if (!result.isValid || result.ascii === ascii || candidates.has(result.ascii))
+          continue
+        candidates.set(result.ascii, { domain: result.ascii, unicode: result.unicode, technique })
+      }
+    }
+
+    return [...candidates.values()]
+  }
+
+  // Looks up every candidate with the caller's DNS function and records
+  // whether it resolves. Lookups run options.concurrency at a time
+  public async check(candidates: TyposquatCandidate[], options: TyposquatCheckOptions): Promise<TyposquatCandidate[]> {
+    const concurrency = Math.max(1, options.concurrency ?? 10)
+    const results: TyposquatCandidate[] = Array.from({ length: candidates.length })
+    let next = 0
+
+    const worker = async (): Promise<void> => {
+      while (next < candidates.length) {
+        const index = next++
+        results[index] = await this.lookup(candidates[index], options)
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, candidates.length) }, () => worker()))
+    return results
+  }
+
+  // Resolves one candidate; "no such name" answers mean unregistered, other
+  // failures leave the registration unknown
+  private async lookup(candidate: TyposquatCandidate, options: TyposquatCheckOptions): Promise<TyposquatCandidate> {
+    try {
+      const addresses = await options.lookup(candidate.domain)
+      return { ...candidate, registered: addresses.length > 0, addresses }
+    }
+    catch (error) {
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === 'ENOTFOUND' || code === 'ENODATA')
+        return { ...candidate, registered: false, addresses: [] }
+      return { ...candidate, error: error instanceof Error ? error.message : String(error) }
+    }
+  }
+
+  // Splits a domain into its registrable label (in Unicode) and public suffix
+  private split(domain: string): { label: string, suffix: string, ascii: string } {
+    const normalized = this.domainHandler.normalize(domain)
+    if (isIP(normalized)) {
+      throw new ValidationError(
+        'Cannot generate typosquats for an IP address',
+        ErrorCode.INVALID_OPERATION,
+      )
+    }
+
+    const info = this.domainHandler.parse(normalized)
+    const registrable = info.parts.find(part => part.isRegistrable)
+    const suffix = info.parts.find(part => part.isPublicSuffix)
+    if (!registrable || !suffix) {
+      throw new ValidationError(
+        `Domain has no registrable part: ${domain}`,
+        ErrorCode.INVALID_HOSTNAME,
+      )
+    }
+
+    return {
+      label: this.domainHandler.fromPunycode(registrable.name),
+      suffix: suffix.name,
+      ascii: `${registrable.name}.${suffix.name}`,
+    }
+  }
+
+  // Label variants for every technique except tld-swap
+  private mutate(technique: TyposquatTechnique, chars: string[], keyboards: KeyboardLayout[]): string[] {
+    const variants: string[] = []
+    const replace = (index: number, length: number, value: string): void => {
+      variants.push([...chars.slice(0, index), value, ...chars.slice(index + length)].join(''))
+    }
+    const neighbours = (char: string): string[] =>
+      [...new Set(keyboards.flatMap(layout => Array.from(KEYBOARD_LAYOUTS[layout][char] ?? '')))]
+
+    chars.forEach((char, index) => {
+      switch (technique) {
+        case 'omission':
+          replace(index, 1, '')
+          break
+        case 'insertion':
+          for (const key of neighbours(char)) {
+            replace(index, 1, key + char)
+            replace(index, 1, char + key)
+          }
+          break
+        case 'transposition':
+          if (index + 1 < chars.length && chars[index + 1] !== char)
+            replace(index, 2, chars[index + 1] + char)
+          break
+        case 'repetition':
+          replace(index, 1, char + char)
+          break
+        case 'keyboard-adjacency':
+          for (const key of neighbours(char))
+            replace(index, 1, key)
+          break
+        case 'bitsquatting':
+          for (const flipped of this.flipBits(char))
+            replace(index, 1, flipped)
+          break
+        case 'homoglyph':
+          for (const glyph of this.getHomoglyphs(char))
+            replace(index, 1, glyph)
+          // Two-character sequences that read as one ("rn" for "m")
+          if (index + 1 < chars.length) {
+            for (const glyph of this.confusableDetector.getConfusables(char + chars[index + 1]).filter(source => this.isValidGlyph(source)))
+              replace(index, 2, glyph)
+          }
+          break
+        case 'hyphenation':
+          if (index > 0 && char !== '-' && chars[index - 1] !== '-')
+            replace(index, 1, `-${char}`)
+          break
+        case 'vowel-swap':
+          if (VOWELS.includes(char)) {
+            for (const vowel of VOWELS.filter(vowel => vowel !== char))
+              replace(index, 1, vowel)
+          }
+          break
+        case 'subdomain-split':
+          if (index > 0 && char !== '-' && chars[index - 1] !== '-')
+            replace(index, 1, `.${char}`)
+          break
+      }
+    })
+
+    return variants
+  }
+
+  // Characters that differ from an ASCII letter, digit or hyphen by one bit
+  private flipBits(char: string): string[] {
+    const code = char.charCodeAt(0)
+    if (char.length !== 1 || code > 0x7F)
+      return []
+
+    const flipped: string[] = []
+    for (let bit = 0; bit < 8; bit++) {
+      const candidate = String.fromCharCode(code ^ (1 << bit))
+      if (/^[a-z0-9-]$/.test(candidate))
+        flipped.push(candidate)
+    }
+    return flipped
+  }
+
+  // Lookalikes of a character: its prototype when that is plain ASCII ("rn"
+  // for "m") and every other character sharing that prototype
+  private getHomoglyphs(char: string): string[] {
+    const prototype = this.confusableDetector.skeleton(char)
+    const glyphs = new Set(this.confusableDetector.getConfusables(prototype))
+    if (/^[a-z0-9-]+$/.test(prototype))
+      glyphs.add(prototype)
+    glyphs.delete(char)
+
+    return [...glyphs].filter(glyph => this.isValidGlyph(glyph))
+  }
+
+  // Keeps lookalikes that IDNA leaves as they are; mapped characters such as
+  // fullwidth letters would fold back to the original or to another letter
+  private isValidGlyph(glyph: string): boolean {
+    const tables = IdnaTables.get()
+    return Array.from(glyph).every(char => tables.getStatus(char.codePointAt(0) ?? 0).status === 'valid')
+  }
+}
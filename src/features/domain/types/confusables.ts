@@ -0,0 +1,53 @@
+import { z } from 'zod'
+
+// Why a character was flagged
+export const ConfusableReasonSchema = z.enum([
+  'mixed-script', // Its label mixes scripts that are not normally used together
+  'whole-script', // Its label is written entirely in a script that imitates another one
+])
+
+export type ConfusableReason = z.infer<typeof ConfusableReasonSchema>
+
+export const SuspiciousCharacterSchema = z.object({
+  char: z.string(), // The character
+  codePoint: z.number(), // Its code point
+  position: z.number(), // 0-based code point offset in the input
+  label: z.number(), // 0-based index of the label holding it
+  prototype: z.string(), // What it looks like, from confusables.txt
+  scripts: z.array(z.string()), // Its Script_Extensions; empty for Common and Inherited characters
+  reason: ConfusableReasonSchema, // Why it was flagged
+})
+
+export type SuspiciousCharacter = z.infer<typeof SuspiciousCharacterSchema>
+
+export const ConfusableLabelSchema = z.object({
+  label: z.string(), // The label
+  skeleton: z.string(), // UTS #39 skeleton of the label
+  scripts: z.array(z.string()), // Scripts used, ignoring Common and Inherited characters
+  resolvedScripts: z.array(z.string()).nullable(), // Resolved script set; null when it holds every script
+  isMixedScript: z.boolean(), // Whether the resolved script set is empty
+  wholeScriptConfusable: z.string().optional(), // Script the label imitates as a whole, e.g. Cyrillic "аре" imitating Latin
+})
+
+export type ConfusableLabel = z.infer<typeof ConfusableLabelSchema>
+
+export const ConfusableAnalysisSchema = z.object({
+  input: z.string(), // The analyzed text
+  skeleton: z.string(), // UTS #39 skeleton of the text
+  labels: z.array(ConfusableLabelSchema), // Per-label results, split at "."
+  suspiciousCharacters: z.array(SuspiciousCharacterSchema), // Non-ASCII characters that imitate others
+  isMixedScript: z.boolean(), // Whether any label mixes scripts
+  isWholeScriptConfusable: z.boolean(), // Whether any label imitates another script as a whole
+  isSuspicious: z.boolean(), // Whether any of the above was found
+})
+
+export type ConfusableAnalysis = z.infer<typeof ConfusableAnalysisSchema>
+
+export const ConfusableComparisonSchema = z.object({
+  confusable: z.boolean(), // Whether the two strings have the same skeleton
+  type: z.enum(['none', 'identical', 'single-script', 'mixed-script', 'whole-script']), // UTS #39 section 4 classification
+  skeleton: z.string(), // Skeleton of the first string
+  otherSkeleton: z.string(), // Skeleton of the second string
+})
+
+export type ConfusableComparison = z.infer<typeof ConfusableComparisonSchema>
@@ -23,6 +23,57 @@ export const DomainInfoSchema = z.object({
 // TypeScript type derived from the domain info schema
 export type DomainInfo = z.infer<typeof DomainInfoSchema>
 
+export const IpRangeCategorySchema = z.enum([
+  'this-network',
+  'unspecified',
+  'private',
+  'shared',
+  'loopback',
+  'link-local',
+  'protocol-assignments',
+  'anycast',
+  'nat64',
+  'documentation',
+  'as112',
+  'amt',
+  '6to4',
+  'teredo',
+  'benchmarking',
+  'multicast',
+  'reserved',
+  'broadcast',
+  'ipv4-mapped',
+  'discard',
+  'orchid',
+  'srv6',
+  'unique-local',
+])
+
+export type IpRangeCategory = z.infer<typeof IpRangeCategorySchema>
+
+export const IpSpecialRangeSchema = z.object({
+  cidr: z.string(), // Registry block in CIDR notation
+  name: z.string(), // Registry name of the block
+  category: IpRangeCategorySchema, // Kind of block
+  rfc: z.string(), // Defining document
+  globallyReachable: z.boolean(), // Whether addresses in the block are reachable on the internet
+})
+
+export type IpSpecialRange = z.infer<typeof IpSpecialRangeSchema>
+
+export const IpCidrSchema = z.object({
+  cidr: z.string(), // Normalized notation, e.g. "10.0.0.0/8"
+  version: z.enum(['v4', 'v6']), // IPv4 or IPv6
+  prefix: z.number(), // Prefix length
+  network: z.string(), // First address of the range
+  last: z.string(), // Last address of the range
+  first: z.bigint(), // First address as a number
+  lastValue: z.bigint(), // Last address as a number
+  size: z.bigint(), // Number of addresses in the range
+})
+
+export type IpCidr = z.infer<typeof IpCidrSchema>
+
 export const IpAddressSchema = z.object({
   address: z.string(), // The actual IP address string
   version: z.enum(['v4', 'v6']), // IPv4 or IPv6
@@ -30,6 +81,13 @@ export const IpAddressSchema = z.object({
   isLoopback: z.boolean(), // Whether a loopback address (e.g., 127.0.0.1)
   isMulticast: z.boolean(), // Whether a multicast address
   subnet: z.string().optional(), // CIDR notation of subnet if available
+  normalized: z.string(), // Canonical notation (dotted decimal, or RFC 5952 for IPv6)
+  expanded: z.string(), // Full notation without compression (eight groups for IPv6)
+  value: z.bigint(), // Address as a number
+  isLinkLocal: z.boolean(), // Whether a link-local address
+  isGlobal: z.boolean(), // Whether reachable on the internet according to the special-purpose registries
+  mappedIPv4: z.string().optional(), // IPv4 address carried by a mapped, compatible or NAT64 IPv6 address
+  ranges: z.array(IpSpecialRangeSchema), // Special-purpose blocks containing the address, most specific first
 })
 
 export type IpAddress = z.infer<typeof IpAddressSchema>
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+
+// Status of a code point in the UTS #46 IDNA mapping table
+export const IdnaStatusSchema = z.enum([
+  'valid', // Allowed as is
+  'mapped', // Replaced by its mapping
+  'deviation', // Mapped in transitional processing, kept in nontransitional processing
+  'ignored', // Removed
+  'disallowed', // Never allowed
+  'disallowed_STD3_valid', // Allowed unless STD3 ASCII rules apply
+  'disallowed_STD3_mapped', // Mapped unless STD3 ASCII rules apply
+])
+
+export type IdnaStatus = z.infer<typeof IdnaStatusSchema>
+
+// Reasons a label fails UTS #46 processing
+export const IdnaErrorCodeSchema = z.enum([
+  'disallowed-character', // A code point whose status is not allowed
+  'invalid-punycode', // An "xn--" label that does not decode, or a label that does not encode
+  'invalid-ace-label', // An "xn--" label with non-ASCII code points or that decodes to ASCII only
+  'ace-prefix', // A label starting with "xn--" when hyphen checks are off
+  'hyphen-start', // A label starting with "-"
+  'hyphen-end', // A label ending with "-"
+  'hyphen-3-4', // A label with "--" in the third and fourth positions
+  'full-stop', // A decoded label containing "."
+  'leading-combining-mark', // A label starting with a combining mark
+  'not-nfc', // A decoded label that is not in Normalization Form C
+  'contextj', // A zero width joiner or non-joiner outside the contexts of RFC 5892
+  'contexto', // A CONTEXTO code point outside the contexts of RFC 5892
+  'bidi', // A label breaking the bidi rule of RFC 5893
+  'empty-label', // An empty label
+  'label-too-long', // A label over 63 octets in ASCII
+  'domain-too-long', // A domain over 253 octets in ASCII
+])
+
+export type IdnaErrorCode = z.infer<typeof IdnaErrorCodeSchema>
+
+export const IdnaErrorSchema = z.object({
+  code: IdnaErrorCodeSchema, // Kind of error
+  message: z.string(), // Human readable description
+  label: z.number(), // 0-based index of the label, or -1 for the whole domain
+  labelText: z.string(), // The label after mapping and decoding
+  position: z.number().optional(), // 0-based code point offset in the label
+  codePoint: z.number().optional(), // Offending code point
+})
+
+export type IdnaError = z.infer<typeof IdnaErrorSchema>
+
+export const IdnaOptionsSchema = z.object({
+  useSTD3ASCIIRules: z.boolean().default(true), // Only letters, digits and hyphens in ASCII
+  checkHyphens: z.boolean().default(true), // Reject hyphens at label ends and in positions 3-4
+  checkBidi: z.boolean().default(true), // Apply the RFC 5893 bidi rule to bidi domains
+  checkJoiners: z.boolean().default(true), // Apply the RFC 5892 CONTEXTJ rules
+  checkContextO: z.boolean().default(true), // Apply the RFC 5892 CONTEXTO rules
+  transitionalProcessing: z.boolean().default(false), // Map deviation characters (ß, ς, ZWJ, ZWNJ) as IDNA2003 did
+  verifyDnsLength: z.boolean().default(true), // Enforce DNS label and domain lengths and reject empty labels
+})
+
+export type IdnaOptions = z.input<typeof IdnaOptionsSchema>
+
+export const IdnaLabelSchema = z.object({
+  input: z.string(), // The label after mapping and normalization
+  unicode: z.string(), // Unicode form ("xn--" labels decoded)
+  ascii: z.string(), // ASCII form (non-ASCII labels encoded)
+  errors: z.array(IdnaErrorSchema), // Errors found in this label
+})
+
+export type IdnaLabel = z.infer<typeof IdnaLabelSchema>
+
+export const IdnaResultSchema = z.object({
+  input: z.string(), // The domain as given
+  unicode: z.string(), // Result of ToUnicode
+  ascii: z.string(), // Result of ToASCII
+  labels: z.array(IdnaLabelSchema), // Per-label results
+  errors: z.array(IdnaErrorSchema), // Every error, label by label, then domain-wide ones
+  isValid: z.boolean(), // Whether no error was found
+})
+
+export type IdnaResult = z.infer<typeof IdnaResultSchema>
@@ -0,0 +1,38 @@
+import type { PublicSuffixList } from '../core/public-suffix-list'
+import { z } from 'zod'
+
+// Which sections of the Public Suffix List take part in a lookup
+export const PublicSuffixModeSchema = z.enum([
+  'icann', // Only suffixes delegated by ICANN registries (com, co.uk, ...)
+  'all', // ICANN suffixes plus privately operated ones (github.io, herokuapp.com, ...)
+])
+
+export type PublicSuffixMode = z.infer<typeof PublicSuffixModeSchema>
+
+export const PublicSuffixRuleSchema = z.object({
+  rule: z.string(), // Rule as written in the list, e.g. "*.ck" or "!www.ck"
+  type: z.enum(['normal', 'wildcard', 'exception']), // Kind of rule
+  section: z.enum(['icann', 'private']), // List section the rule comes from
+  line: z.number(), // 1-based line number in the list
+})
+
+export type PublicSuffixRule = z.infer<typeof PublicSuffixRuleSchema>
+
+export const PublicSuffixResultSchema = z.object({
+  domain: z.string(), // Looked-up domain in lowercase ASCII
+  publicSuffix: z.string(), // Public suffix of the domain
+  registrableDomain: z.string().optional(), // Public suffix plus one label; absent when the domain is a public suffix
+  subdomain: z.string().optional(), // Labels left of the registrable domain
+  isListed: z.boolean(), // Whether a rule matched, rather than the implicit "*" rule
+  isIcann: z.boolean(), // Whether the matching rule is in the ICANN section
+  isPrivate: z.boolean(), // Whether the matching rule is in the private section
+  rule: PublicSuffixRuleSchema.optional(), // Rule that decided the suffix
+})
+
+export type PublicSuffixResult = z.infer<typeof PublicSuffixResultSchema>
+
+// Options selecting the Public Suffix List used for domain parsing
+export interface PublicSuffixOptions {
+  publicSuffixList?: PublicSuffixList // List to use instead of the default set with PublicSuffixList.setDefault
+  suffixMode?: PublicSuffixMode // Sections taking part in lookups; defaults to 'all'
+}
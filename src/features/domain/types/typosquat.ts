@@ -0,0 +1,51 @@
+import { z } from 'zod'
+
+// How a typosquat candidate was derived from the original domain
+export const TyposquatTechniqueSchema = z.enum([
+  'omission', // A character left out (gogle.com)
+  'insertion', // A neighbouring key typed next to a character (googlre.com)
+  'transposition', // Two adjacent characters swapped (gogole.com)
+  'repetition', // A character typed twice (gooogle.com)
+  'keyboard-adjacency', // A character replaced with a neighbouring key (goofle.com)
+  'bitsquatting', // A single bit flipped in a character (foogle.com)
+  'homoglyph', // Characters replaced with lookalikes from confusables.txt (gооgle.com, rn for m)
+  'hyphenation', // A hyphen inserted between characters (goo-gle.com)
+  'vowel-swap', // A vowel replaced with another vowel (guugle.com)
+  'subdomain-split', // A dot inserted between characters (goo.gle.com)
+  'tld-swap', // The public suffix replaced (google.net)
+])
+
+export type TyposquatTechnique = z.infer<typeof TyposquatTechniqueSchema>
+
+export const KeyboardLayoutSchema = z.enum(['qwerty', 'qwertz', 'azerty'])
+
+export type KeyboardLayout = z.infer<typeof KeyboardLayoutSchema>
+
+export const TyposquatOptionsSchema = z.object({
+  techniques: z.array(TyposquatTechniqueSchema).optional(), // Techniques to apply; defaults to all of them
+  keyboards: z.array(KeyboardLayoutSchema).default(['qwerty', 'qwertz', 'azerty']), // Layouts for insertion and keyboard-adjacency
+  tlds: z.array(z.string()).optional(), // Suffixes for tld-swap; defaults to TYPOSQUAT_TLDS
+})
+
+export type TyposquatOptions = z.input<typeof TyposquatOptionsSchema>
+
+export const TyposquatCandidateSchema = z.object({
+  domain: z.string(), // Candidate in ASCII (Punycode) form
+  unicode: z.string(), // Candidate in Unicode form
+  technique: TyposquatTechniqueSchema, // First technique that produced it
+  registered: z.boolean().optional(), // Whether the lookup found addresses; absent until checked or when the lookup failed
+  addresses: z.array(z.string()).optional(), // Addresses returned by the lookup
+  error: z.string().optional(), // Lookup error other than "no such name"
+})
+
+export type TyposquatCandidate = z.infer<typeof TyposquatCandidateSchema>
+
+// Resolves a hostname to its addresses; an empty array or an ENOTFOUND or
+// ENODATA rejection means the name is not registered
+export type TyposquatLookup = (hostname: string) => Promise<string[]>
+
+// Options for checking candidates for registration
+export interface TyposquatCheckOptions {
+  lookup: TyposquatLookup // Caller-supplied DNS lookup
+  concurrency?: number // Lookups in flight at once; defaults to 10
+}
@@ -1,6 +1,7 @@
 import type { DomainInfo, IpAddress } from '../types/domain'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
+import { ConfusableDetector } from '../confusables/confusable-detector'
 
 export interface IDomainHandler {
   parse: (domain: string) => DomainInfo // Parses a domain string into structured information
@@ -11,6 +12,8 @@ export interface IDomainHandler {
 }
 
 export class DomainOperations {
+  private readonly confusableDetector = new ConfusableDetector()
+
   constructor(private readonly domainHandler: IDomainHandler) {}
 
   // Extracts the root domain (registrable part + TLD) from a domain string
@@ -143,72 +146,24 @@ export class DomainOperations {
     return domain.endsWith(`.${parentDomain}`)
   }
 
-  // Checks if two domains use visually similar characters (homoglyphs)
+  // Checks if two domains look alike once rendered (UTS #39 skeletons match)
   private isHomoglyphAttack(domain1: string, domain2: string): boolean {
-    // Dictionary of characters and their visually similar alternatives
-    const homoglyphs: Record<string, string[]> = {
-      a: ['а', 'ą', 'à', 'á', 'â', 'ã', 'ä', 'å', 'ɑ'],
-      b: ['d', 'lb', 'ib', 'ʙ', 'Ь', 'ß', 'ɓ'],
-      c: ['ϲ', 'с', 'ƈ'],
-      d: ['b', 'cl', 'dl', 'ԁ', 'ɗ'],
-      e: ['е', 'ē', 'ĕ', 'ė', 'ę', 'ё', 'є', 'ə', 'ɇ'],
-      g: ['q', 'ɢ', 'ɡ', 'ց'],
-      h: ['һ', 'հ', 'Ꮒ'],
-      i: ['1', 'l', '|', 'í', 'ï', 'ı', 'ɩ'],
-      j: ['ј', 'ʝ'],
-      k: ['κ', 'к', 'ⲕ', 'ḳ'],
-      l: ['1', 'i', '|', 'ⅼ', 'ӏ', 'ḷ'],
-      m: ['n', 'nn', 'rn', 'rr', 'ṃ'],
-      n: ['m', 'r', 'ń', 'ņ', 'ṇ', 'ṅ'],
-      o: ['0', 'о', 'ο', 'ө', 'ō', 'ȯ', 'ọ', 'ỏ', 'ơ'],
-      p: ['р', 'ρ', 'ṗ', 'ṕ'],
-      q: ['g', 'զ'],
-      r: ['ʀ', 'ɼ', 'ɽ'],
-      s: ['ѕ', 'ś', 'ṣ', 'ṡ'],
-      t: ['τ', 'т', 'ţ', 'ṭ', 'ț'],
-      u: ['μ', 'υ', 'ц', 'ù', 'ú', 'û', 'ü', 'ǔ', 'ụ'],
-      v: ['ν', 'v', 'ѵ'],
-      w: ['vv', 'ѡ', 'ԝ', 'ẁ', 'ẃ', 'ẅ'],
-      x: ['х', 'ҳ', 'ẋ'],
-      y: ['ү', 'ƴ', 'ỷ', 'ỵ', 'ỳ', 'ý'],
-      z: ['ʐ', 'ż', 'ź', 'ʐ', 'ᴢ'],
-    }
+    // Compare the Unicode forms, since Punycode hides the characters
+    const comparison = this.confusableDetector.areConfusable(
+      this.toUnicode(domain1),
+      this.toUnicode(domain2),
+    )
+    return comparison.confusable && comparison.type !== 'identical'
+  }
 
-    // Domains must be the same length for homoglyph comparison
-    if (domain1.length !== domain2.length) {
-      return false
+  // Converts Punycode labels back to Unicode, keeping the input if that fails
+  private toUnicode(domain: string): string {
+    try {
+      return this.domainHandler.fromPunycode(domain)
     }
-
-    let homoglyphCount = 0
-
-    // Compare each character position
-    for (let i = 0; i < domain1.length; i++) {
-      if (domain1[i] === domain2[i]) {
-        continue
-      }
-
-      let isHomoglyph = false
-
-      // Check if the characters at this position are known homoglyphs
-      for (const [char, variants] of Object.entries(homoglyphs)) {
-        if (
-          (domain1[i] === char && variants.includes(domain2[i]))
-          || (domain2[i] === char && variants.includes(domain1[i]))
-        ) {
-          isHomoglyph = true
-          homoglyphCount++
-          break
-        }
-      }
-
-      // If any character difference is not a homoglyph, it's not a homoglyph attack
-      if (!isHomoglyph) {
-        return false
-      }
+    catch {
+      return domain
     }
-
-    // It's a homoglyph attack if at least one homoglyph was found
-    return homoglyphCount > 0
   }
 
   // Checks if two domains differ only in their TLD
@@ -266,7 +221,12 @@ export class DomainOperations {
     let reason: string | undefined
 
     // Check for common typosquatting patterns
-    if (levenshtein === 1) {
+    if (this.isHomoglyphAttack(root1, root2)) {
+      // Visually similar characters (e.g., using Cyrillic "о" instead of Latin "o")
+      typosquatting = true
+      reason = 'Use of visually similar characters'
+    }
+    else if (levenshtein === 1) {
       // One character difference (addition, deletion, or substitution)
       typosquatting = true
       reason = 'One character substitution, addition, or deletion'
@@ -276,11 +236,6 @@ export class DomainOperations {
       typosquatting = true
       reason = 'Adjacent character transposition'
     }
-    else if (this.isHomoglyphAttack(root1, root2)) {
-      // Visually similar characters (e.g., using Cyrillic "о" instead of Latin "o")
-      typosquatting = true
-      reason = 'Use of visually similar characters'
-    }
     else if (this.isTLDVariation(normalized1, normalized2)) {
       // Same domain name but different TLD (e.g., example.com vs example.net)
       typosquatting = true
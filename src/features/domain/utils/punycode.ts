@@ -1,27 +1,17 @@
-import punycode from 'node:punycode'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
+import { IDNA_LOOKUP_OPTIONS } from '../constants'
+import { Idna } from '../idna/idna'
 
 export class PunycodeUtils {
+  // UTS #46 processor with the lookup settings browsers use
+  private readonly idna = new Idna(IDNA_LOOKUP_OPTIONS)
+
   // Converts a Unicode domain to its Punycode representation (for DNS compatibility)
   public toPunycode(domain: string): string {
     try {
-      // Split the domain into its component parts (by dots)
-      const parts = domain.split('.')
-
-      // Process each part separately
-      const punycodeparts = parts.map((part) => {
-        // Check if the part contains any non-ASCII characters
-        if (/[^\x00-\x7F]/.test(part)) {
-          // Convert non-ASCII parts to Punycode format with xn-- prefix
-          return `xn--${punycode.encode(part)}`
-        }
-        // Leave ASCII parts unchanged
-        return part
-      })
-
-      // Rejoin the parts with dots
-      return punycodeparts.join('.')
+      // Map, normalize and validate the domain, then encode non-ASCII labels with the xn-- prefix
+      return this.idna.toASCII(domain)
     }
     catch (error) {
       // Handle errors during encoding
@@ -42,22 +32,8 @@ export class PunycodeUtils {
   // Converts a Punycode domain back to its Unicode representation
   public fromPunycode(domain: string): string {
     try {
-      // Split the domain into its component parts
-      const parts = domain.split('.')
-
-      // Process each part separately
-      const unicodeParts = parts.map((part) => {
-        // Check if the part is in Punycode format (starts with xn--)
-        if (part.startsWith('xn--')) {
-          // Convert Punycode parts back to Unicode, removing the xn-- prefix
-          return punycode.decode(part.slice(4))
-        }
-        // Leave non-Punycode parts unchanged
-        return part
-      })
-
-      // Rejoin the parts with dots
-      return unicodeParts.join('.')
+      // Decode xn-- labels and validate the result the same way toPunycode does
+      return this.idna.toUnicode(domain)
     }
     catch (error) {
       // Handle errors during decoding
@@ -1,20 +1,22 @@
+import type { IdnaResult } from '../types/idna'
 import { isIP } from 'node:net'
-import punycode from 'node:punycode'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
 import { DOMAIN_CONSTANTS } from '../constants'
 import { DomainHandler } from '../core/domain-handler'
+import { Idna } from '../idna/idna'
 import { PunycodeValidator } from './punycode'
 
 export class DomainValidator {
   private readonly domainHandler: DomainHandler
   private readonly punycodeValidator: PunycodeValidator
+  private readonly idna = new Idna() // UTS #46 with STD3 rules, hyphen, bidi, joiner and DNS length checks
   private readonly maxLength = DOMAIN_CONSTANTS.MAX_DOMAIN_LENGTH // Maximum length for entire domain
   private readonly maxLabelLength = DOMAIN_CONSTANTS.MAX_LABEL_LENGTH // Maximum length for each domain label
 
   constructor() {
     this.domainHandler = new DomainHandler()
-    this.punycodeValidator = new PunycodeValidator(this.domainHandler)
+    this.punycodeValidator = new PunycodeValidator(this.domainHandler, this)
   }
 
   // Main validation method for domain names
@@ -30,18 +32,14 @@ export class DomainValidator {
         return false
       }
 
-      // Check for valid characters in domain name
-      if (!this.validateCharacters(domain)) {
+      // Check characters and labels with full UTS #46 processing
+      const idna = this.validateIdna(domain)
+      if (!idna.isValid) {
         return false
       }
 
-      // Validate individual domain labels (parts between dots)
-      if (!this.validateLabels(domain)) {
-        return false
-      }
-
-      // Attempt to parse the domain (will throw if invalid)
-      this.domainHandler.parse(domain)
+      // Attempt to parse the ASCII form of the domain (will throw if invalid)
+      this.domainHandler.parse(idna.ascii)
 
       return true
     }
@@ -56,61 +54,9 @@ export class DomainValidator {
     return domain.length > 0 && domain.length <= this.maxLength
   }
 
-  // Validates that domain contains only allowed characters
-  private validateCharacters(domain: string): boolean {
-    // For ASCII domains, check for allowed characters directly
-    if (/^[a-z0-9.-]+$/i.test(domain)) {
-      return true
-    }
-
-    // For IDNs (internationalized domain names), convert to Punycode and validate
-    try {
-      const punycodeVersion = this.domainHandler.toPunycode(domain)
-      return /^[a-z0-9.-]+$/i.test(punycodeVersion)
-    }
-    catch {
-      return false
-    }
-  }
-
-  // Validates individual domain labels (parts between dots)
-  private validateLabels(domain: string): boolean {
-    const labels = domain.split('.')
-
-    // Domain must have at least one label
-    if (labels.length < 1) {
-      return false
-    }
-
-    for (const label of labels) {
-      // Check label length constraints
-      if (label.length === 0 || label.length > this.maxLabelLength) {
-        return false
-      }
-
-      // For ASCII labels, validate format directly
-      if (/^[a-z0-9-]+$/i.test(label)) {
-        // Labels cannot start or end with hyphen
-        if (label.startsWith('-') || label.endsWith('-')) {
-          return false
-        }
-      }
-      else {
-        // For IDN labels, check length after Punycode encoding
-        try {
-          const punycodeLabel = punycode.encode(label)
-          // Account for "xn--" prefix in final length calculation
-          if (punycodeLabel.length > this.maxLabelLength - 4) {
-            return false
-          }
-        }
-        catch {
-          return false
-        }
-      }
-    }
-
-    return true
+  // Runs UTS #46 processing and returns the per-label errors, if any
+  public validateIdna(domain: string): IdnaResult {
+    return this.idna.process(domain)
   }
 
   // Delegate Punycode validation to the specialized validator
@@ -1,5 +1,4 @@
 import type { DomainHandler } from '../core/domain-handler'
-import punycode from 'node:punycode'
 import { ValidationError } from '../../../errors'
 import { ErrorCode } from '../../../errors/types'
 import { DomainValidator } from './domain-validator'
@@ -8,9 +7,10 @@ export class PunycodeValidator {
   private readonly domainHandler: DomainHandler
   private readonly domainValidator: DomainValidator
 
-  constructor(domainHandler: DomainHandler) {
+  // Accepts the owning validator so the two don't construct each other endlessly
+  constructor(domainHandler: DomainHandler, domainValidator?: DomainValidator) {
     this.domainHandler = domainHandler
-    this.domainValidator = new DomainValidator()
+    this.domainValidator = domainValidator ?? new DomainValidator()
   }
 
   // Validates if a domain name with Punycode parts is correctly formatted
@@ -26,15 +26,17 @@ export class PunycodeValidator {
         return this.domainValidator.validate(domain)
       }
 
+      // Punycode labels must decode to valid IDNA labels
+      if (!this.validatePunycodeFormat(domain)) {
+        return false
+      }
+
       // Convert Punycode domain to Unicode for validation
       const unicodeDomain = this.domainHandler.fromPunycode(domain)
       const normalizedDomain = this.domainHandler.normalize(unicodeDomain)
 
-      // Validate both the Unicode form and the Punycode format itself
-      return (
-        this.domainValidator.validate(normalizedDomain)
-        && this.validatePunycodeFormat(domain)
-      )
+      // Validate the Unicode form as well
+      return this.domainValidator.validate(normalizedDomain)
     }
     catch (error) {
       // Handle validation errors
@@ -52,36 +54,11 @@ export class PunycodeValidator {
     }
   }
 
-  // Checks that Punycode-encoded parts of a domain follow proper formatting rules
+  // Checks that Punycode-encoded parts of a domain decode to valid IDNA labels
   private validatePunycodeFormat(domain: string): boolean {
-    const labels = domain.split('.')
-
-    for (const label of labels) {
-      // Only check labels that use Punycode encoding
-      if (label.startsWith('xn--')) {
-        try {
-          // Decode the Punycode part (without the xn-- prefix)
-          const decoded = punycode.decode(label.slice(4))
-
-          // Ensure the decoded string isn't empty
-          if (decoded.length === 0) {
-            return false
-          }
-
-          // Verify that the decoded string contains at least one non-ASCII character
-          // (otherwise, there's no reason to use Punycode encoding)
-          if (!/[^\u0000-\u007F]/.test(decoded)) {
-            return false
-          }
-        }
-        catch {
-          // If decoding fails, the Punycode format is invalid
-          return false
-        }
-      }
-    }
+    const result = this.domainValidator.validateIdna(domain)
 
-    // All Punycode labels passed validation
-    return true
+    // Only check labels that use Punycode encoding
+    return result.labels.every(label => !label.input.startsWith('xn--') || label.errors.length === 0)
   }
 }
@@ -0,0 +1,43 @@
+import type { PatternComponent } from './types'
+
+/**
+ * Components in URL order; a component inherits from the base URL only
+ * when every component before it was left out
+ */
+export const PATTERN_COMPONENTS: readonly PatternComponent[] = [
+  'protocol',
+  'username',
+  'password',
+  'hostname',
+  'port',
+  'pathname',
+  'search',
+  'hash',
+]
+
+/**
+ * Special schemes and their default ports (null for file)
+ */
+export const SPECIAL_SCHEME_PORTS: Record<string, string | null> = {
+  ftp: '21',
+  file: null,
+  http: '80',
+  https: '443',
+  ws: '80',
+  wss: '443',
+}
+
+/**
+ * Regexp source for "*"
+ */
+export const FULL_WILDCARD_REGEXP = '.*'
+
+/**
+ * Characters with a meaning in pattern syntax
+ */
+export const PATTERN_SYNTAX_CHARS = /[+*?:{}()\\]/g
+
+/**
+ * Characters escaped when fixed text is turned into a regexp
+ */
+export const REGEXP_SYNTAX_CHARS = /[.+*?^${}()[\]|/\\]/g
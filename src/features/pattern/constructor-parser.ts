@@ -0,0 +1,223 @@
+import type { PatternComponent, PatternToken, UrlPatternInit } from './types'
+import { PatternTokenizer } from './pattern-tokenizer'
+
+type ParserState = 'init' | 'authority' | 'done' | PatternComponent
+
+/**
+ * Tells whether a protocol pattern can match a special scheme (http, https, ...)
+ */
+export type SpecialSchemeCheck = (protocolPattern: string) => boolean
+
+const AUTHORITY_STATES: ParserState[] = ['protocol', 'authority', 'username', 'password']
+const BEFORE_PATHNAME: ParserState[] = [...AUTHORITY_STATES, 'hostname', 'port']
+
+/**
+ * Splits a pattern string such as "https://*.example.com/users/:id" into components.
+ * Follows the constructor string parser of the WHATWG URLPattern spec.
+ */
+export class ConstructorStringParser {
+  private readonly tokenizer = new PatternTokenizer()
+
+  /**
+   * Parses a pattern string into a component init
+   * @param {string} input - The pattern string
+   * @param {SpecialSchemeCheck} matchesSpecialScheme - Checks the protocol component
+   * @returns {UrlPatternInit} Components found in the string
+   */
+  public parse(input: string, matchesSpecialScheme: SpecialSchemeCheck): UrlPatternInit {
+    const tokens = this.tokenizer.tokenize(input, 'lenient')
+    const result: UrlPatternInit = {}
+    let state = 'init' as ParserState
+    let tokenIndex = 0
+    let tokenIncrement = 1
+    let componentStart = 0
+    let groupDepth = 0
+    let ipv6BracketDepth = 0
+    let protocolIsSpecial = false
+
+    const tokenAt = (index: number): PatternToken =>
+      tokens[Math.min(index, tokens.length - 1)]
+    const isNonSpecialChar = (index: number, value: string): boolean => {
+      const token = tokenAt(index)
+      return token.value === value
+        && (token.type === 'char' || token.type === 'escaped-char' || token.type === 'invalid-char')
+    }
+    const componentString = (): string =>
+      input.slice(tokenAt(componentStart).index, tokens[tokenIndex].index)
+    const isSearchPrefix = (): boolean => {
+      if (isNonSpecialChar(tokenIndex, '?')) {
+        return true
+      }
+      if (tokens[tokenIndex].value !== '?') {
+        return false
+      }
+      const previous = tokenAt(tokenIndex - 1).type
+      return previous !== 'name' && previous !== 'regexp' && previous !== 'close' && previous !== 'asterisk'
+    }
+    const rewind = (): void => {
+      tokenIndex = componentStart
+      tokenIncrement = 0
+    }
+    const changeState = (next: ParserState, skip: number): void => {
+      if (state !== 'init' && state !== 'authority' && state !== 'done') {
+        result[state] = componentString()
+      }
+
+      if (state !== 'init' && next !== 'done') {
+        if (AUTHORITY_STATES.includes(state) && ['port', 'pathname', 'search', 'hash'].includes(next)) {
+          result.hostname ??= ''
+        }
+        if (BEFORE_PATHNAME.includes(state) && (next === 'search' || next === 'hash')) {
+          result.pathname ??= protocolIsSpecial ? '/' : ''
+        }
+        if ([...BEFORE_PATHNAME, 'pathname'].includes(state) && next === 'hash') {
+          result.search ??= ''
+        }
+      }
+
+      state = next
+      tokenIndex += skip
+      componentStart = tokenIndex
+      tokenIncrement = 0
+    }
+
+    while (tokenIndex < tokens.length) {
+      tokenIncrement = 1
+      const token = tokens[tokenIndex]
+
+      if (token.type === 'end') {
+        if (state === 'init') {
+          rewind()
+          if (isNonSpecialChar(tokenIndex, '#')) {
+            changeState('hash', 1)
+          }
+          else if (isSearchPrefix()) {
+            changeState('search', 1)
+          }
+          else {
+            changeState('pathname', 0)
+          }
+          tokenIndex += tokenIncrement
+          continue
+        }
+
+        if (state === 'authority') {
+          rewind()
+          state = 'hostname'
+          tokenIndex += tokenIncrement
+          continue
+        }
+
+        changeState('done', 0)
+        break
+      }
+
+      if (token.type === 'open') {
+        groupDepth++
+        tokenIndex += tokenIncrement
+        continue
+      }
+
+      if (groupDepth > 0) {
+        if (token.type === 'close') {
+          groupDepth--
+        }
+        else {
+          tokenIndex += tokenIncrement
+          continue
+        }
+      }
+
+      switch (state) {
+        case 'init':
+          if (isNonSpecialChar(tokenIndex, ':')) {
+            rewind()
+            state = 'protocol'
+          }
+          break
+        case 'protocol':
+          if (isNonSpecialChar(tokenIndex, ':')) {
+            protocolIsSpecial = matchesSpecialScheme(componentString())
+            if (isNonSpecialChar(tokenIndex + 1, '/') && isNonSpecialChar(tokenIndex + 2, '/')) {
+              changeState('authority', 3)
+            }
+            else {
+              changeState(protocolIsSpecial ? 'authority' : 'pathname', 1)
+            }
+          }
+          break
+        case 'authority':
+          if (isNonSpecialChar(tokenIndex, '@')) {
+            rewind()
+            state = 'username'
+          }
+          else if (isNonSpecialChar(tokenIndex, '/') || isSearchPrefix() || isNonSpecialChar(tokenIndex, '#')) {
+            rewind()
+            state = 'hostname'
+          }
+          break
+        case 'username':
+          if (isNonSpecialChar(tokenIndex, ':')) {
+            changeState('password', 1)
+          }
+          else if (isNonSpecialChar(tokenIndex, '@')) {
+            changeState('hostname', 1)
+          }
+          break
+        case 'password':
+          if (isNonSpecialChar(tokenIndex, '@')) {
+            changeState('hostname', 1)
+          }
+          break
+        case 'hostname':
+          if (isNonSpecialChar(tokenIndex, '[')) {
+            ipv6BracketDepth++
+          }
+          else if (isNonSpecialChar(tokenIndex, ']')) {
+            ipv6BracketDepth--
+          }
+          else if (isNonSpecialChar(tokenIndex, ':') && ipv6BracketDepth === 0) {
+            changeState('port', 1)
+          }
+          else if (isNonSpecialChar(tokenIndex, '/')) {
+            changeState('pathname', 0)
+          }
+          else if (isSearchPrefix()) {
+            changeState('search', 1)
+          }
+          else if (isNonSpecialChar(tokenIndex, '#')) {
+            changeState('hash', 1)
+          }
+          break
+        case 'port':
+          if (isNonSpecialChar(tokenIndex, '/')) {
+            changeState('pathname', 0)
+          }
+          else if (isSearchPrefix()) {
+            changeState('search', 1)
+          }
+          else if (isNonSpecialChar(tokenIndex, '#')) {
+            changeState('hash', 1)
+          }
+          break
+        case 'pathname':
+          if (isSearchPrefix()) {
+            changeState('search', 1)
+          }
+          else if (isNonSpecialChar(tokenIndex, '#')) {
+            changeState('hash', 1)
+          }
+          break
+        case 'search':
+          if (isNonSpecialChar(tokenIndex, '#')) {
+            changeState('hash', 1)
+          }
+          break
+      }
+
+      tokenIndex += tokenIncrement
+    }
+
+    return result
+  }
+}
@@ -0,0 +1,10 @@
+// Constants
+export * from './constants'
+// Core exports
+export { ConstructorStringParser } from './constructor-parser'
+export { PatternParser } from './pattern-parser'
+export type { PatternEncoder } from './pattern-parser'
+export { PatternTokenizer } from './pattern-tokenizer'
+// Type exports
+export * from './types'
+export { UrlPattern } from './url-pattern'
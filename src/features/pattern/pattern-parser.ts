@@ -0,0 +1,295 @@
+import type {
+  CompiledComponent,
+  PatternCompileOptions,
+  PatternModifier,
+  PatternPart,
+  PatternToken,
+} from './types'
+import { ErrorCode, ParseError } from '../../errors'
+import { FULL_WILDCARD_REGEXP, REGEXP_SYNTAX_CHARS } from './constants'
+import { PatternTokenizer } from './pattern-tokenizer'
+
+/**
+ * Callback canonicalizing fixed text of a component
+ */
+export type PatternEncoder = (value: string) => string
+
+const MODIFIERS: Record<string, PatternModifier> = {
+  '?': 'optional',
+  '*': 'zero-or-more',
+  '+': 'one-or-more',
+}
+
+export class PatternParser {
+  private readonly tokenizer = new PatternTokenizer()
+
+  /**
+   * Parses and compiles a component pattern
+   * @param {string} pattern - The component pattern
+   * @param {PatternCompileOptions} options - Delimiter, prefix and case options
+   * @param {PatternEncoder} encode - Canonicalizes fixed text
+   * @returns {CompiledComponent} The compiled component
+   * @throws {ParseError} If the pattern is invalid
+   */
+  public compile(
+    pattern: string,
+    options: PatternCompileOptions,
+    encode: PatternEncoder,
+  ): CompiledComponent {
+    const parts = this.parse(pattern, options, encode)
+    const { source, groupNames } = this.generateRegExp(parts, options)
+
+    let regexp: RegExp
+    try {
+      regexp = new RegExp(source, options.ignoreCase ? 'ui' : 'u')
+    }
+    catch (error) {
+      throw new ParseError(
+        `Invalid pattern: ${pattern}`,
+        ErrorCode.PARSE_ERROR,
+        { pattern },
+        error instanceof Error ? error : undefined,
+      )
+    }
+
+    return {
+      pattern,
+      regexp,
+      groupNames,
+      hasRegExpGroups: parts.some(part => part.type === 'regexp'),
+    }
+  }
+
+  /**
+   * Parses a component pattern into parts
+   * @param {string} pattern - The component pattern
+   * @param {PatternCompileOptions} options - Delimiter and prefix options
+   * @param {PatternEncoder} encode - Canonicalizes fixed text
+   * @returns {PatternPart[]} The parts
+   * @throws {ParseError} If the pattern is invalid
+   */
+  public parse(
+    pattern: string,
+    options: PatternCompileOptions,
+    encode: PatternEncoder,
+  ): PatternPart[] {
+    const tokens = this.tokenizer.tokenize(pattern)
+    const segmentWildcard = this.segmentWildcardRegExp(options)
+    const parts: PatternPart[] = []
+    const names = new Set<string>()
+    let pendingFixed = ''
+    let index = 0
+    let nextNumericName = 0
+
+    const tryConsume = (type: PatternToken['type']): PatternToken | undefined => {
+      if (tokens[index].type !== type) {
+        return undefined
+      }
+      return tokens[index++]
+    }
+    const consumeRequired = (type: PatternToken['type']): PatternToken => {
+      const token = tryConsume(type)
+      if (!token) {
+        throw new ParseError(
+          `Invalid pattern: expected ${type} at position ${tokens[index].index}`,
+          ErrorCode.PARSE_ERROR,
+          { pattern, position: tokens[index].index },
+        )
+      }
+      return token
+    }
+    const consumeText = (): string => {
+      let text = ''
+      let token = tryConsume('char') ?? tryConsume('escaped-char')
+      while (token) {
+        text += token.value
+        token = tryConsume('char') ?? tryConsume('escaped-char')
+      }
+      return text
+    }
+    const tryConsumeRegExpOrWildcard = (name?: PatternToken): PatternToken | undefined => {
+      const token = tryConsume('regexp')
+      return token ?? (name ? undefined : tryConsume('asterisk'))
+    }
+    const tryConsumeModifier = (): PatternToken | undefined =>
+      tryConsume('other-modifier') ?? tryConsume('asterisk')
+    const flushPendingFixed = (): void => {
+      if (pendingFixed) {
+        parts.push(this.fixedPart(encode(pendingFixed), 'none'))
+        pendingFixed = ''
+      }
+    }
+
+    const addPart = (
+      prefix: string,
+      nameToken: PatternToken | undefined,
+      regexpToken: PatternToken | undefined,
+      suffix: string,
+      modifierToken: PatternToken | undefined,
+    ): void => {
+      const modifier = modifierToken ? MODIFIERS[modifierToken.value] : 'none'
+
+      if (!nameToken && !regexpToken && modifier === 'none') {
+        pendingFixed += prefix
+        return
+      }
+
+      flushPendingFixed()
+
+      if (!nameToken && !regexpToken) {
+        if (prefix) {
+          parts.push(this.fixedPart(encode(prefix), modifier))
+        }
+        return
+      }
+
+      let regexpValue = !regexpToken
+        ? segmentWildcard
+        : regexpToken.type === 'asterisk' ? FULL_WILDCARD_REGEXP : regexpToken.value
+      let type: PatternPart['type'] = 'regexp'
+
+      if (regexpValue === segmentWildcard) {
+        type = 'segment-wildcard'
+        regexpValue = ''
+      }
+      else if (regexpValue === FULL_WILDCARD_REGEXP) {
+        type = 'full-wildcard'
+        regexpValue = ''
+      }
+
+      const name = nameToken ? nameToken.value : String(nextNumericName++)
+      if (names.has(name)) {
+        throw new ParseError(
+          `Invalid pattern: duplicate group name "${name}"`,
+          ErrorCode.PARSE_ERROR,
+          { pattern, name },
+        )
+      }
+      names.add(name)
+
+      parts.push({
+        type,
+        value: regexpValue,
+        modifier,
+        name,
+        prefix: encode(prefix),
+        suffix: encode(suffix),
+      })
+    }
+
+    while (index < tokens.length) {
+      const charToken = tryConsume('char')
+      const nameToken = tryConsume('name')
+      const regexpToken = tryConsumeRegExpOrWildcard(nameToken)
+
+      if (nameToken || regexpToken) {
+        let prefix = charToken?.value ?? ''
+        if (prefix !== options.prefix) {
+          pendingFixed += prefix
+          prefix = ''
+        }
+        flushPendingFixed()
+        addPart(prefix, nameToken, regexpToken, '', tryConsumeModifier())
+        continue
+      }
+
+      const fixedToken = charToken ?? tryConsume('escaped-char')
+      if (fixedToken) {
+        pendingFixed += fixedToken.value
+        continue
+      }
+
+      if (tryConsume('open')) {
+        const prefix = consumeText()
+        const groupName = tryConsume('name')
+        const groupRegexp = tryConsumeRegExpOrWildcard(groupName)
+        const suffix = consumeText()
+        consumeRequired('close')
+        addPart(prefix, groupName, groupRegexp, suffix, tryConsumeModifier())
+        continue
+      }
+
+      flushPendingFixed()
+      consumeRequired('end')
+    }
+
+    return parts
+  }
+
+  /**
+   * Builds the regexp source and group name list for parsed parts
+   * @private
+   */
+  private generateRegExp(
+    parts: PatternPart[],
+    options: PatternCompileOptions,
+  ): { source: string, groupNames: string[] } {
+    const groupNames: string[] = []
+    let source = '^'
+
+    for (const part of parts) {
+      const modifier = this.modifierSuffix(part.modifier)
+
+      if (part.type === 'fixed-text') {
+        source += part.modifier === 'none'
+          ? this.escapeRegExp(part.value)
+          : `(?:${this.escapeRegExp(part.value)})${modifier}`
+        continue
+      }
+
+      groupNames.push(part.name)
+
+      const value = part.type === 'segment-wildcard'
+        ? this.segmentWildcardRegExp(options)
+        : part.type === 'full-wildcard' ? FULL_WILDCARD_REGEXP : part.value
+      const repeated = part.modifier === 'zero-or-more' || part.modifier === 'one-or-more'
+
+      if (!part.prefix && !part.suffix) {
+        source += repeated
+          ? `((?:${value})${modifier})`
+          : `(${value})${modifier}`
+        continue
+      }
+
+      const prefix = this.escapeRegExp(part.prefix)
+      const suffix = this.escapeRegExp(part.suffix)
+
+      if (!repeated) {
+        source += `(?:${prefix}(${value})${suffix})${modifier}`
+        continue
+      }
+
+      source += `(?:${prefix}((?:${value})(?:${suffix}${prefix}(?:${value}))*)${suffix})`
+      if (part.modifier === 'zero-or-more') {
+        source += '?'
+      }
+    }
+
+    return { source: `${source}$`, groupNames }
+  }
+
+  private fixedPart(value: string, modifier: PatternModifier): PatternPart {
+    return { type: 'fixed-text', value, modifier, name: '', prefix: '', suffix: '' }
+  }
+
+  private segmentWildcardRegExp(options: PatternCompileOptions): string {
+    return `[^${this.escapeRegExp(options.delimiter)}]+?`
+  }
+
+  private modifierSuffix(modifier: PatternModifier): string {
+    switch (modifier) {
+      case 'optional':
+        return '?'
+      case 'zero-or-more':
+        return '*'
+      case 'one-or-more':
+        return '+'
+      default:
+        return ''
+    }
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(REGEXP_SYNTAX_CHARS, '\\$&')
+  }
+}
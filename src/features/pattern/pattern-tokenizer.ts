@@ -0,0 +1,156 @@
+import type { PatternToken, TokenizePolicy } from './types'
+import { ErrorCode, ParseError } from '../../errors'
+
+const NAME_START = /[$_\p{ID_Start}]/u
+const NAME_PART = /[$\u200C\u200D\p{ID_Continue}]/u
+
+export class PatternTokenizer {
+  /**
+   * Splits a pattern string into tokens
+   * @param {string} input - The pattern string
+   * @param {TokenizePolicy} [policy] - Throw on invalid input, or emit invalid-char tokens
+   * @returns {PatternToken[]} The tokens, ending with an end token
+   * @throws {ParseError} If the input is invalid and the policy is strict
+   */
+  public tokenize(input: string, policy: TokenizePolicy = 'strict'): PatternToken[] {
+    const chars = Array.from(input)
+    const offsets = this.offsets(chars)
+    const tokens: PatternToken[] = []
+    let index = 0
+
+    const push = (type: PatternToken['type'], start: number, next: number, value: string): void => {
+      tokens.push({ type, index: offsets[start], value })
+      index = next
+    }
+    const fail = (start: number, next: number, message: string): void => {
+      if (policy === 'strict') {
+        throw new ParseError(
+          `Invalid pattern: ${message} at position ${offsets[start]}`,
+          ErrorCode.PARSE_ERROR,
+          { pattern: input, position: offsets[start] },
+        )
+      }
+      push('invalid-char', start, next, chars.slice(start, next).join(''))
+    }
+
+    while (index < chars.length) {
+      const char = chars[index]
+
+      if (char === '*') {
+        push('asterisk', index, index + 1, char)
+        continue
+      }
+
+      if (char === '+' || char === '?') {
+        push('other-modifier', index, index + 1, char)
+        continue
+      }
+
+      if (char === '\\') {
+        if (index === chars.length - 1) {
+          fail(index, index + 1, 'Trailing backslash')
+          continue
+        }
+        push('escaped-char', index, index + 2, chars[index + 1])
+        continue
+      }
+
+      if (char === '{') {
+        push('open', index, index + 1, char)
+        continue
+      }
+
+      if (char === '}') {
+        push('close', index, index + 1, char)
+        continue
+      }
+
+      if (char === ':') {
+        let end = index + 1
+        while (end < chars.length && (end === index + 1 ? NAME_START : NAME_PART).test(chars[end])) {
+          end++
+        }
+        if (end === index + 1) {
+          fail(index, index + 1, 'Missing group name after ":"')
+          continue
+        }
+        push('name', index, end, chars.slice(index + 1, end).join(''))
+        continue
+      }
+
+      if (char === '(') {
+        const end = this.findRegexpEnd(chars, index)
+        if (typeof end === 'string') {
+          fail(index, index + 1, end)
+          continue
+        }
+        push('regexp', index, end + 1, chars.slice(index + 1, end).join(''))
+        continue
+      }
+
+      push('char', index, index + 1, char)
+    }
+
+    tokens.push({ type: 'end', index: input.length, value: '' })
+    return tokens
+  }
+
+  /**
+   * Finds the ")" closing a regexp group
+   * @returns {number | string} Index of the closing parenthesis, or an error message
+   * @private
+   */
+  private findRegexpEnd(chars: string[], start: number): number | string {
+    let depth = 1
+    let index = start + 1
+
+    if (chars[index] === '?') {
+      return 'Regexp groups cannot start with "?"'
+    }
+
+    while (index < chars.length) {
+      const char = chars[index]
+
+      if (!/^[\x20-\x7E]$/.test(char)) {
+        return 'Regexp groups may only contain printable ASCII'
+      }
+
+      if (char === '\\') {
+        if (index === chars.length - 1 || !/^[\x20-\x7E]$/.test(chars[index + 1])) {
+          return 'Invalid escape in regexp group'
+        }
+        index += 2
+        continue
+      }
+
+      if (char === ')') {
+        depth--
+        if (depth === 0) {
+          return index === start + 1 ? 'Empty regexp group' : index
+        }
+      }
+      else if (char === '(') {
+        depth++
+        if (chars[index + 1] !== '?') {
+          return 'Nested regexp groups must be non-capturing'
+        }
+      }
+
+      index++
+    }
+
+    return 'Unclosed regexp group'
+  }
+
+  /**
+   * UTF-16 offset of every code point, plus the end of the string
+   * @private
+   */
+  private offsets(chars: string[]): number[] {
+    const offsets = [0]
+    for (const char of chars) {
+      offsets.push(offsets[offsets.length - 1] + char.length)
+    }
+    return offsets
+  }
+}
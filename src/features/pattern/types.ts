@@ -0,0 +1,122 @@
+import { z } from 'zod'
+
+/**
+ * URL components a pattern is made of, in URL order
+ */
+export type PatternComponent =
+  | 'protocol'
+  | 'username'
+  | 'password'
+  | 'hostname'
+  | 'port'
+  | 'pathname'
+  | 'search'
+  | 'hash'
+
+/**
+ * Token produced by PatternTokenizer
+ */
+export interface PatternToken {
+  type:
+    | 'open'
+    | 'close'
+    | 'regexp'
+    | 'name'
+    | 'char'
+    | 'escaped-char'
+    | 'other-modifier'
+    | 'asterisk'
+    | 'end'
+    | 'invalid-char'
+  /** Position of the token in the input */
+  index: number
+  value: string
+}
+
+/**
+ * How the tokenizer reacts to invalid input: throw, or emit invalid-char tokens
+ */
+export type TokenizePolicy = 'strict' | 'lenient'
+
+/**
+ * Modifier following a part
+ */
+export type PatternModifier = 'none' | 'optional' | 'zero-or-more' | 'one-or-more'
+
+/**
+ * A parsed piece of a component pattern
+ */
+export interface PatternPart {
+  type: 'fixed-text' | 'regexp' | 'segment-wildcard' | 'full-wildcard'
+  /** Fixed text, or the regexp source for regexp parts */
+  value: string
+  modifier: PatternModifier
+  /** Group name; unnamed groups get increasing numbers */
+  name: string
+  prefix: string
+  suffix: string
+}
+
+/**
+ * Options controlling how a component pattern is parsed and compiled
+ */
+export interface PatternCompileOptions {
+  /** Character that ends a segment wildcard ("/" for paths, "." for hostnames) */
+  delimiter: string
+  /** Character automatically treated as a group prefix */
+  prefix: string
+  ignoreCase: boolean
+}
+
+/**
+ * Compiled component pattern
+ */
+export interface CompiledComponent {
+  pattern: string
+  regexp: RegExp
+  groupNames: string[]
+  hasRegExpGroups: boolean
+}
+
+/**
+ * Pattern input given component by component
+ */
+export const UrlPatternInitSchema = z.object({
+  protocol: z.string().optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+  hostname: z.string().optional(),
+  port: z.string().optional(),
+  pathname: z.string().optional(),
+  search: z.string().optional(),
+  hash: z.string().optional(),
+  baseURL: z.string().optional(),
+})
+
+export type UrlPatternInit = z.infer<typeof UrlPatternInitSchema>
+
+export const UrlPatternOptionsSchema = z.object({
+  ignoreCase: z.boolean().default(false),
+})
+
+export type UrlPatternOptions = z.input<typeof UrlPatternOptionsSchema>
+
+/**
+ * Anything a pattern can be matched against
+ */
+export type UrlPatternInput = string | URL | UrlPatternInit
+
+/**
+ * Match result for a single component
+ */
+export interface UrlPatternComponentResult {
+  input: string
+  groups: Record<string, string | undefined>
+}
+
+/**
+ * Result of UrlPattern.exec()
+ */
+export type UrlPatternResult = {
+  inputs: [UrlPatternInput] | [UrlPatternInput, string]
+} & Record<PatternComponent, UrlPatternComponentResult>
@@ -0,0 +1,434 @@
+import type { PatternEncoder } from './pattern-parser'
+import type {
+  CompiledComponent,
+  PatternCompileOptions,
+  PatternComponent,
+  UrlPatternComponentResult,
+  UrlPatternInit,
+  UrlPatternInput,
+  UrlPatternOptions,
+  UrlPatternResult,
+} from './types'
+import { ErrorCode, ParseError, ValidationError } from '../../errors'
+import {
+  PATTERN_COMPONENTS,
+  PATTERN_SYNTAX_CHARS,
+  SPECIAL_SCHEME_PORTS,
+} from './constants'
+import { ConstructorStringParser } from './constructor-parser'
+import { PatternParser } from './pattern-parser'
+import { UrlPatternInitSchema, UrlPatternOptionsSchema } from './types'
+
+type ComponentValues = Partial<Record<PatternComponent, string>>
+
+/**
+ * UrlPattern - URL matcher following the WHATWG URLPattern spec
+ *
+ * Supports named groups (:id), regexp groups ((\\d+)), wildcards (*),
+ * modifiers (?, *, +) and {} groups, per component.
+ * @class UrlPattern
+ */
+export class UrlPattern {
+  private static readonly parser = new PatternParser()
+  private static readonly constructorParser = new ConstructorStringParser()
+
+  private readonly components: Record<PatternComponent, CompiledComponent>
+
+  /**
+   * Creates an instance of UrlPattern
+   * @param {string | UrlPatternInit} [input] - Pattern string or per-component patterns
+   * @param {string | UrlPatternOptions} [baseURLOrOptions] - Base URL for relative pattern strings, or options
+   * @param {UrlPatternOptions} [options] - Options when a base URL is given
+   * @throws {ParseError} If a component pattern is invalid
+   * @throws {ValidationError} If a relative pattern string has no base URL
+   */
+  constructor(
+    input: string | UrlPatternInit = {},
+    baseURLOrOptions?: string | UrlPatternOptions,
+    options?: UrlPatternOptions,
+  ) {
+    const baseURL = typeof baseURLOrOptions === 'string' ? baseURLOrOptions : undefined
+    const { ignoreCase } = UrlPatternOptionsSchema.parse(
+      (typeof baseURLOrOptions === 'string' ? options : baseURLOrOptions) ?? {},
+    )
+
+    const init = typeof input === 'string'
+      ? this.parseConstructorString(input, baseURL)
+      : UrlPatternInitSchema.parse(input)
+
+    const processed = UrlPattern.processInit(init, 'pattern')
+    for (const component of PATTERN_COMPONENTS) {
+      processed[component] ??= '*'
+    }
+    if (
+      processed.protocol! in SPECIAL_SCHEME_PORTS
+      && SPECIAL_SCHEME_PORTS[processed.protocol!] === processed.port
+    ) {
+      processed.port = ''
+    }
+
+    const defaults: PatternCompileOptions = { delimiter: '', prefix: '', ignoreCase: false }
+    const caseAware: PatternCompileOptions = { ...defaults, ignoreCase }
+    const compile = (component: PatternComponent, options: PatternCompileOptions, encode: PatternEncoder): CompiledComponent =>
+      UrlPattern.parser.compile(processed[component]!, options, encode)
+
+    const protocol = compile('protocol', defaults, UrlPattern.encodeProtocol)
+    const isSpecial = UrlPattern.matchesSpecialScheme(protocol)
+    const hostname = processed.hostname!
+    const isIPv6 = /^(?:\[|\{\[|\\\[)/.test(hostname)
+
+    this.components = {
+      protocol,
+      username: compile('username', defaults, UrlPattern.encodeUsername),
+      password: compile('password', defaults, UrlPattern.encodePassword),
+      hostname: compile(
+        'hostname',
+        { ...defaults, delimiter: '.' },
+        isIPv6 ? UrlPattern.encodeIPv6Hostname : UrlPattern.encodeHostname,
+      ),
+      port: compile('port', defaults, UrlPattern.encodePort),
+      pathname: isSpecial
+        ? compile('pathname', { delimiter: '/', prefix: '/', ignoreCase }, UrlPattern.encodePathname)
+        : compile('pathname', caseAware, UrlPattern.encodeOpaquePathname),
+      search: compile('search', caseAware, UrlPattern.encodeSearch),
+      hash: compile('hash', caseAware, UrlPattern.encodeHash),
+    }
+  }
+
+  public get protocol(): string {
+    return this.components.protocol.pattern
+  }
+
+  public get username(): string {
+    return this.components.username.pattern
+  }
+
+  public get password(): string {
+    return this.components.password.pattern
+  }
+
+  public get hostname(): string {
+    return this.components.hostname.pattern
+  }
+
+  public get port(): string {
+    return this.components.port.pattern
+  }
+
+  public get pathname(): string {
+    return this.components.pathname.pattern
+  }
+
+  public get search(): string {
+    return this.components.search.pattern
+  }
+
+  public get hash(): string {
+    return this.components.hash.pattern
+  }
+
+  /** Whether any component uses a custom regexp group */
+  public get hasRegExpGroups(): boolean {
+    return PATTERN_COMPONENTS.some(component => this.components[component].hasRegExpGroups)
+  }
+
+  /**
+   * Checks whether a URL matches the pattern
+   * @param {UrlPatternInput} [input] - URL string, URL object or components
+   * @param {string} [baseURL] - Base URL for relative input strings
+   * @returns {boolean} True if every component matches
+   */
+  public test(input: UrlPatternInput = {}, baseURL?: string): boolean {
+    return this.exec(input, baseURL) !== null
+  }
+
+  /**
+   * Matches a URL and returns the captured groups of every component
+   * @param {UrlPatternInput} [input] - URL string, URL object or components
+   * @param {string} [baseURL] - Base URL for relative input strings
+   * @returns {UrlPatternResult | null} Captured groups, or null if the URL does not match
+   */
+  public exec(input: UrlPatternInput = {}, baseURL?: string): UrlPatternResult | null {
+    const values = this.inputValues(input, baseURL)
+    if (!values) {
+      return null
+    }
+
+    const result = {
+      inputs: baseURL === undefined ? [input] : [input, baseURL],
+    } as UrlPatternResult
+
+    for (const component of PATTERN_COMPONENTS) {
+      const match = this.components[component].regexp.exec(values[component] ?? '')
+      if (!match) {
+        return null
+      }
+
+      const groups: UrlPatternComponentResult['groups'] = {}
+      this.components[component].groupNames.forEach((name, index) => {
+        groups[name] = match[index + 1]
+      })
+      result[component] = { input: values[component] ?? '', groups }
+    }
+
+    return result
+  }
+
+  /**
+   * Splits a pattern string into components and checks it can stand on its own
+   * @private
+   */
+  private parseConstructorString(input: string, baseURL?: string): UrlPatternInit {
+    const init = UrlPattern.constructorParser.parse(input, (protocol) => {
+      try {
+        return UrlPattern.matchesSpecialScheme(
+          UrlPattern.parser.compile(protocol, { delimiter: '', prefix: '', ignoreCase: false }, UrlPattern.encodeProtocol),
+        )
+      }
+      catch {
+        return false
+      }
+    })
+
+    if (init.protocol === undefined && baseURL === undefined) {
+      throw new ValidationError(
+        `Relative pattern "${input}" requires a base URL`,
+        ErrorCode.INVALID_URL,
+        { pattern: input },
+      )
+    }
+
+    return baseURL === undefined ? init : { ...init, baseURL }
+  }
+
+  /**
+   * Component values of a URL to match against
+   * @returns {ComponentValues | null} The values, or null if the input is not a valid URL
+   * @private
+   */
+  private inputValues(input: UrlPatternInput, baseURL?: string): ComponentValues | null {
+    if (typeof input === 'object' && !(input instanceof URL)) {
+      if (baseURL !== undefined) {
+        throw new ValidationError(
+          'A base URL cannot be combined with component input',
+          ErrorCode.INVALID_OPERATION,
+        )
+      }
+      try {
+        return UrlPattern.processInit(UrlPatternInitSchema.parse(input), 'url')
+      }
+      catch {
+        return null
+      }
+    }
+
+    let url: URL
+    try {
+      url = new URL(input, baseURL)
+    }
+    catch {
+      return null
+    }
+
+    return UrlPattern.urlValues(url)
+  }
+
+  /**
+   * Fills in components from the base URL and strips component delimiters,
+   * per "process a URLPatternInit". Patterns keep base URL values as escaped text;
+   * URLs get every value canonicalized.
+   * @private
+   */
+  private static processInit(init: UrlPatternInit, type: 'pattern' | 'url'): ComponentValues {
+    const result: ComponentValues = {}
+    let base: URL | undefined
+
+    if (init.baseURL !== undefined) {
+      try {
+        base = new URL(init.baseURL)
+      }
+      catch (error) {
+        throw new ValidationError(
+          `Invalid base URL: ${init.baseURL}`,
+          ErrorCode.INVALID_URL,
+          { baseURL: init.baseURL },
+          error instanceof Error ? error : undefined,
+        )
+      }
+
+      const baseValues = UrlPattern.urlValues(base)
+      const escape = (value: string): string => type === 'pattern' ? UrlPattern.escapePattern(value) : value
+      const missing = (...components: PatternComponent[]): boolean =>
+        components.every(component => init[component] === undefined)
+
+      if (missing('protocol'))
+        result.protocol = escape(baseValues.protocol!)
+      if (type === 'url' && missing('protocol', 'hostname', 'port', 'username'))
+        result.username = escape(baseValues.username!)
+      if (type === 'url' && missing('protocol', 'hostname', 'port', 'username', 'password'))
+        result.password = escape(baseValues.password!)
+      if (missing('protocol', 'hostname'))
+        result.hostname = escape(baseValues.hostname!)
+      if (missing('protocol', 'hostname', 'port'))
+        result.port = escape(baseValues.port!)
+      if (missing('protocol', 'hostname', 'port', 'pathname'))
+        result.pathname = escape(baseValues.pathname!)
+      if (missing('protocol', 'hostname', 'port', 'pathname', 'search'))
+        result.search = escape(baseValues.search!)
+      if (missing('protocol', 'hostname', 'port', 'pathname', 'search', 'hash'))
+        result.hash = escape(baseValues.hash!)
+    }
+
+    const canonical = (value: string, encode: PatternEncoder): string =>
+      type === 'url' ? encode(value) : value
+
+    if (init.protocol !== undefined)
+      result.protocol = canonical(init.protocol.replace(/:$/, ''), UrlPattern.encodeProtocol)
+    if (init.username !== undefined)
+      result.username = canonical(init.username, UrlPattern.encodeUsername)
+    if (init.password !== undefined)
+      result.password = canonical(init.password, UrlPattern.encodePassword)
+    if (init.hostname !== undefined)
+      result.hostname = canonical(init.hostname, UrlPattern.encodeHostname)
+    if (init.port !== undefined)
+      result.port = canonical(init.port, UrlPattern.encodePort)
+    if (init.pathname !== undefined) {
+      let pathname = init.pathname
+      if (base && base.pathname.startsWith('/') && !UrlPattern.isAbsolutePathname(pathname, type)) {
+        const basePath = type === 'pattern' ? UrlPattern.escapePattern(base.pathname) : base.pathname
+        const slash = basePath.lastIndexOf('/')
+        if (slash !== -1) {
+          pathname = basePath.slice(0, slash + 1) + pathname
+        }
+      }
+      result.pathname = canonical(pathname, UrlPattern.encodePathname)
+    }
+    if (init.search !== undefined)
+      result.search = canonical(init.search.replace(/^\?/, ''), UrlPattern.encodeSearch)
+    if (init.hash !== undefined)
+      result.hash = canonical(init.hash.replace(/^#/, ''), UrlPattern.encodeHash)
+
+    if (type === 'url') {
+      for (const component of PATTERN_COMPONENTS) {
+        result[component] ??= ''
+      }
+    }
+
+    return result
+  }
+
+  private static urlValues(url: URL): ComponentValues {
+    return {
+      protocol: url.protocol.slice(0, -1),
+      username: url.username,
+      password: url.password,
+      hostname: url.hostname,
+      port: url.port,
+      pathname: url.pathname,
+      search: url.search.replace(/^\?/, ''),
+      hash: url.hash.replace(/^#/, ''),
+    }
+  }
+
+  private static isAbsolutePathname(pathname: string, type: 'pattern' | 'url'): boolean {
+    if (pathname.startsWith('/')) {
+      return true
+    }
+    return type === 'pattern' && (pathname.startsWith('\\/') || pathname.startsWith('{/'))
+  }
+
+  private static matchesSpecialScheme(protocol: CompiledComponent): boolean {
+    return Object.keys(SPECIAL_SCHEME_PORTS).some(scheme => protocol.regexp.test(scheme))
+  }
+
+  private static escapePattern(value: string): string {
+    return value.replace(PATTERN_SYNTAX_CHARS, '\\$&')
+  }
+
+  // Component canonicalization, applied to fixed text of patterns and to component input
+
+  private static encodeProtocol(value: string): string {
+    if (!value) {
+      return ''
+    }
+    if (!/^[a-z][a-z0-9+\-.]*$/i.test(value)) {
+      throw UrlPattern.invalid('protocol', value)
+    }
+    return value.toLowerCase()
+  }
+
+  private static encodeUsername(value: string): string {
+    const url = new URL('http://dummy.test')
+    url.username = value
+    return url.username
+  }
+
+  private static encodePassword(value: string): string {
+    const url = new URL('http://dummy.test')
+    url.password = value
+    return url.password
+  }
+
+  private static encodeHostname(value: string): string {
+    if (!value) {
+      return ''
+    }
+    if (/[\s#%/:<>?@[\\\]^|]/.test(value)) {
+      throw UrlPattern.invalid('hostname', value)
+    }
+    const url = new URL('http://dummy.test')
+    url.hostname = value
+    return url.hostname
+  }
+
+  private static encodeIPv6Hostname(value: string): string {
+    if (!/^[\da-f:[\]]*$/i.test(value)) {
+      throw UrlPattern.invalid('hostname', value)
+    }
+    return value.toLowerCase()
+  }
+
+  private static encodePort(value: string): string {
+    if (!/^\d*$/.test(value) || (value && Number(value) > 65535)) {
+      throw UrlPattern.invalid('port', value)
+    }
+    return value ? String(Number(value)) : ''
+  }
+
+  private static encodePathname(value: string): string {
+    if (!value) {
+      return ''
+    }
+    const leadingSlash = value.startsWith('/')
+    const url = new URL('http://dummy.test')
+    url.pathname = leadingSlash ? value : `/-${value}`
+    return leadingSlash ? url.pathname : url.pathname.slice(2)
+  }
+
+  private static encodeOpaquePathname(value: string): string {
+    if (!value) {
+      return ''
+    }
+    return new URL(`dummy:${value.replace(/[?#]/g, encodeURIComponent)}`).pathname
+  }
+
+  private static encodeSearch(value: string): string {
+    const url = new URL('http://dummy.test')
+    url.search = value
+    return url.search.slice(1)
+  }
+
+  private static encodeHash(value: string): string {
+    const url = new URL('http://dummy.test')
+    url.hash = value
+    return url.hash.slice(1)
+  }
+
+  private static invalid(component: PatternComponent, value: string): ParseError {
+    return new ParseError(
+      `Invalid ${component} in pattern: ${value}`,
+      ErrorCode.PARSE_ERROR,
+      { component, value },
+    )
+  }
+}
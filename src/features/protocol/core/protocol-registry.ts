@@ -1,6 +1,6 @@
 import type { ProtocolFullInfo } from '../types/protocol'
-import { ValidationError } from '../../errors'
-import { ErrorCode } from '../../errors/types'
+import { ValidationError } from '../../../errors'
+import { ErrorCode } from '../../../errors/types'
 import { ProtocolCategory } from '../types/protocol'
 
 export class ProtocolRegistry {
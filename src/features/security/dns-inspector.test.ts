@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { OperationError } from '../../errors'
+import { DnsInspector } from './dns-inspector'
+import { InMemoryDnsResolver } from './dns-resolver'
+
+const servfail = (): Error => Object.assign(new Error('queryMx ESERVFAIL example.com'), { code: 'ESERVFAIL' })
+const hang = async (): Promise<never> => new Promise(() => {})
+
+describe('dnsInspector', () => {
+  it('collects the records of a name', async () => {
+    const resolver = new InMemoryDnsResolver({
+      'example.com': {
+        a: ['93.184.215.14'],
+        aaaa: ['2606:2800:21f:cb07:6820:80da:af6b:8b2c'],
+        mx: [{ exchange: 'mail.example.com', priority: 10 }],
+        txt: [['v=spf1 ', '-all']],
+      },
+    })
+    const result = await new DnsInspector(resolver).inspect('example.com.')
+
+    expect(result).toEqual({
+      hostname: 'example.com',
+      records: {
+        a: ['93.184.215.14'],
+        aaaa: ['2606:2800:21f:cb07:6820:80da:af6b:8b2c'],
+        cname: [],
+        mx: [{ exchange: 'mail.example.com', priority: 10 }],
+        txt: ['v=spf1 -all'],
+      },
+      findings: [],
+    })
+  })
+
+  it('follows CNAME chains to the address records', async () => {
+    const resolver = new InMemoryDnsResolver({
+      'www.example.com': { cname: 'shop.example.net' },
+      'shop.example.net': { cname: 'edge.cdn.example' },
+      'edge.cdn.example': { a: ['203.0.113.10'] },
+    })
+    const result = await new DnsInspector(resolver).inspect('www.example.com')
+
+    expect(result.records.cname).toEqual(['shop.example.net', 'edge.cdn.example'])
+    expect(result.records.a).toEqual(['203.0.113.10'])
+    expect(result.findings).toEqual([])
+  })
+
+  it('stops following a CNAME chain at the configured depth', async () => {
+    const resolver = new InMemoryDnsResolver({
+      'a.example': { cname: 'b.example' },
+      'b.example': { cname: 'c.example' },
+      'c.example': { cname: 'd.example' },
+      'd.example': { a: ['203.0.113.10'] },
+    })
+    const result = await new DnsInspector(resolver).inspect('a.example', { maxCnameDepth: 2 })
+
+    expect(result.records.cname).toEqual(['b.example', 'c.example'])
+  })
+
+  it('reports a CNAME pointing at a name that does not exist', async () => {
+    const resolver = new InMemoryDnsResolver({
+      'blog.example.com': { cname: 'example-blog.herokuapp.com' },
+    })
+    const result = await new DnsInspector(resolver).inspect('blog.example.com')
+
+    expect(result.records.cname).toEqual(['example-blog.herokuapp.com'])
+    expect(result.findings).toMatchObject([{ code: 'dangling-cname', riskLevel: 'high' }])
+  })
+
+  it('maps ENOTFOUND to an nxdomain finding', async () => {
+    const result = await new DnsInspector(new InMemoryDnsResolver()).inspect('missing.example')
+
+    expect(result.findings).toMatchObject([{ code: 'nxdomain', riskLevel: 'high' }])
+  })
+
+  it('tells a name without addresses from one that does not exist', async () => {
+    const resolver = new InMemoryDnsResolver({
+      'example.com': { mx: [{ exchange: 'mail.example.com', priority: 10 }] },
+    })
+    const result = await new DnsInspector(resolver).inspect('example.com')
+
+    expect(result.findings).toMatchObject([{ code: 'no-address', riskLevel: 'medium' }])
+  })
+
+  it('fails when the address lookups end in SERVFAIL', async () => {
+    // The fake answers a CNAME loop with ESERVFAIL, as a recursive resolver does
+    const resolver = new InMemoryDnsResolver({
+      'a.example': { cname: 'b.example' },
+      'b.example': { cname: 'a.example' },
+    })
+    const inspection = new DnsInspector(resolver).inspect('a.example')
+
+    await expect(inspection).rejects.toThrow(OperationError)
+    await expect(inspection).rejects.toMatchObject({ cause: { code: 'ESERVFAIL' } })
+  })
+
+  it('reports other failed lookups without failing', async () => {
+    const resolver = Object.assign(new InMemoryDnsResolver({ 'example.com': { a: ['93.184.215.14'] } }), {
+      resolveMx: async () => Promise.reject(servfail()),
+    })
+    const result = await new DnsInspector(resolver).inspect('example.com')
+
+    expect(result.records.a).toEqual(['93.184.215.14'])
+    expect(result.findings).toMatchObject([{ code: 'lookup-failed', riskLevel: 'low', message: expect.stringContaining('MX lookup failed') }])
+  })
+
+  it('times out lookups that do not answer', async () => {
+    const resolver = Object.assign(new InMemoryDnsResolver({ 'example.com': { a: ['93.184.215.14'] } }), {
+      resolveTxt: hang,
+    })
+    const result = await new DnsInspector(resolver).inspect('example.com', { timeoutMs: 50 })
+
+    expect(result.findings).toMatchObject([{ code: 'lookup-failed', message: expect.stringContaining('timed out after 50 ms') }])
+  })
+
+  it('fails when no address lookup answers in time', async () => {
+    const resolver = Object.assign(new InMemoryDnsResolver(), { resolve4: hang, resolve6: hang })
+
+    await expect(new DnsInspector(resolver).inspect('example.com', { timeoutMs: 50 }))
+      .rejects
+      .toThrow('DNS lookup for example.com failed: DNS lookup timed out after 50 ms')
+  })
+
+  it('flags names resolving to internal addresses', async () => {
+    const resolver = new InMemoryDnsResolver({
+      'internal.example.com': { a: ['127.0.0.1', '10.0.0.5'] },
+    })
+    const result = await new DnsInspector(resolver).inspect('internal.example.com')
+
+    expect(result.findings.map(finding => finding.code)).toEqual(['loopback-address', 'private-address'])
+  })
+})
@@ -0,0 +1,234 @@
+import type {
+  DnsFinding,
+  DnsInspectionOptions,
+  DnsInspectionResult,
+  DnsRecords,
+  DnsResolver,
+} from './types'
+import { isIP } from 'node:net'
+import { ErrorCode, OperationError } from '../../errors'
+import { IpHandler } from '../domain/core/ip-handler'
+import { SECURITY_RISK_SEVERITY, SecurityRiskLevel } from './types'
+
+/**
+ * Error codes meaning the name does not exist, and that it has no records of the type
+ */
+const NXDOMAIN_CODES = new Set(['ENOTFOUND', 'NXDOMAIN'])
+const NODATA_CODES = new Set(['ENODATA'])
+
+/**
+ * Outcome of a single lookup
+ */
+type LookupOutcome<T> =
+  | { status: 'found', records: T[] }
+  | { status: 'nxdomain' | 'nodata' }
+  | { status: 'error', error: Error }
+
+/**
+ * Inspects the DNS records of a hostname
+ * @class DnsInspector
+ */
+export class DnsInspector {
+  /**
+   * Handler for IP address classification
+   * @private
+   * @readonly
+   */
+  private readonly ipHandler = new IpHandler()
+
+  /**
+   * Creates an instance of DnsInspector
+   * @param {DnsResolver} resolver - Resolver used for lookups
+   */
+  constructor(private readonly resolver: DnsResolver) {}
+
+  /**
+   * Looks up A, AAAA, CNAME, MX and TXT records and reports on them
+   * @param {string} hostname - Hostname or IP address literal
+   * @param {DnsInspectionOptions} [options] - Inspection options
+   * @returns {Promise<DnsInspectionResult>} The inspection result
+   * @throws {OperationError} If no address lookup got an answer
+   */
+  public async inspect(
+    hostname: string,
+    options: DnsInspectionOptions = {},
+  ): Promise<DnsInspectionResult> {
+    const host = hostname.replace(/^\[(.*)\]$/, '$1').replace(/\.$/, '')
+    const timeoutMs = options.timeoutMs ?? 5000
+
+    // IP literals are classified as they are
+    const version = isIP(host)
+    if (version !== 0) {
+      const records: DnsRecords = {
+        a: version === 4 ? [host] : [],
+        aaaa: version === 6 ? [host] : [],
+        cname: [],
+        mx: [],
+        txt: [],
+      }
+      return { hostname: host, records, findings: this.checkAddresses(records) }
+    }
+
+    const [a, aaaa, cname, mx, txt] = await Promise.all([
+      this.lookup(() => this.resolver.resolve4(host), timeoutMs),
+      this.lookup(() => this.resolver.resolve6(host), timeoutMs),
+      this.lookup(() => this.resolver.resolveCname(host), timeoutMs),
+      this.lookup(() => this.resolver.resolveMx(host), timeoutMs),
+      this.lookup(() => this.resolver.resolveTxt(host), timeoutMs),
+    ])
+
+    if (a.status === 'error' && aaaa.status === 'error') {
+      throw new OperationError(
+        `DNS lookup for ${host} failed: ${a.error.message}`,
+        ErrorCode.OPERATION_FAILED,
+        { hostname: host },
+        a.error,
+      )
+    }
+
+    const records: DnsRecords = {
+      a: a.status === 'found' ? a.records : [],
+      aaaa: aaaa.status === 'found' ? aaaa.records : [],
+      cname: cname.status === 'found' ? cname.records.slice(0, 1) : [],
+      mx: mx.status === 'found' ? mx.records : [],
+      txt: txt.status === 'found' ? txt.records.map(chunks => chunks.join('')) : [],
+    }
+
+    const findings = this.checkAddresses(records)
+    const hasAddress = records.a.length > 0 || records.aaaa.length > 0
+
+    if (records.cname.length > 0) {
+      const chain = await this.followCname(records.cname[0], options.maxCnameDepth ?? 8, timeoutMs)
+      records.cname = chain.names
+
+      if (chain.dangling && !hasAddress) {
+        findings.push({
+          code: 'dangling-cname',
+          riskLevel: SecurityRiskLevel.HIGH,
+          message: `CNAME target ${chain.names[chain.names.length - 1]} does not exist (possible subdomain takeover)`,
+        })
+      }
+    }
+
+    if (!hasAddress && !findings.some(finding => finding.code === 'dangling-cname')) {
+      const nxdomain = [a, aaaa, cname].every(outcome => outcome.status === 'nxdomain')
+      findings.push(nxdomain
+        ? {
+            code: 'nxdomain',
+            riskLevel: SecurityRiskLevel.HIGH,
+            message: `${host} does not exist`,
+          }
+        : {
+            code: 'no-address',
+            riskLevel: SecurityRiskLevel.MEDIUM,
+            message: `${host} has no A or AAAA records`,
+          })
+    }
+
+    for (const [type, outcome] of Object.entries({ mx, txt })) {
+      if (outcome.status === 'error') {
+        findings.push({
+          code: 'lookup-failed',
+          riskLevel: SecurityRiskLevel.LOW,
+          message: `${type.toUpperCase()} lookup failed: ${outcome.error.message}`,
+        })
+      }
+    }
+
+    return {
+      hostname: host,
+      records,
+      findings: findings.sort((x, y) => SECURITY_RISK_SEVERITY[y.riskLevel] - SECURITY_RISK_SEVERITY[x.riskLevel]),
+    }
+  }
+
+  /**
+   * Flags loopback and private addresses, which point a public name at
+   * internal hosts (DNS rebinding)
+   * @private
+   */
+  private checkAddresses(records: DnsRecords): DnsFinding[] {
+    const findings: DnsFinding[] = []
+
+    for (const address of [...records.a, ...records.aaaa]) {
+      if (this.ipHandler.isLoopbackIP(address)) {
+        findings.push({
+          code: 'loopback-address',
+          riskLevel: SecurityRiskLevel.HIGH,
+          message: `Resolves to loopback address ${address}`,
+        })
+      }
+      else if (this.ipHandler.isPrivateIP(address)) {
+        findings.push({
+          code: 'private-address',
+          riskLevel: SecurityRiskLevel.HIGH,
+          message: `Resolves to private address ${address}`,
+        })
+      }
+    }
+
+    return findings
+  }
+
+  /**
+   * Follows a CNAME chain and reports whether its last name is missing
+   * @private
+   */
+  private async followCname(
+    target: string,
+    maxDepth: number,
+    timeoutMs: number,
+  ): Promise<{ names: string[], dangling: boolean }> {
+    const names = [target]
+
+    while (names.length < maxDepth) {
+      const next = await this.lookup(() => this.resolver.resolveCname(names[names.length - 1]), timeoutMs)
+      if (next.status !== 'found' || names.includes(next.records[0])) {
+        break
+      }
+      names.push(next.records[0])
+    }
+
+    const last = names[names.length - 1]
+    const [a, aaaa] = await Promise.all([
+      this.lookup(() => this.resolver.resolve4(last), timeoutMs),
+      this.lookup(() => this.resolver.resolve6(last), timeoutMs),
+    ])
+
+    return { names, dangling: a.status === 'nxdomain' && aaaa.status === 'nxdomain' }
+  }
+
+  /**
+   * Runs a lookup with a timeout and classifies its outcome
+   * @private
+   */
+  private async lookup<T>(query: () => Promise<T[]>, timeoutMs: number): Promise<LookupOutcome<T>> {
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    try {
+      const records = await Promise.race([
+        query(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(Object.assign(new Error(`DNS lookup timed out after ${timeoutMs} ms`), { code: 'ETIMEOUT' })),
+            timeoutMs,
+          )
+        }),
+      ])
+      return records.length > 0 ? { status: 'found', records } : { status: 'nodata' }
+    }
+    catch (error) {
+      const code = (error as { code?: string }).code
+      if (code && NXDOMAIN_CODES.has(code)) {
+        return { status: 'nxdomain' }
+      }
+      if (code && NODATA_CODES.has(code)) {
+        return { status: 'nodata' }
+      }
+      return { status: 'error', error: error instanceof Error ? error : new Error(String(error)) }
+    }
+    finally {
+      clearTimeout(timer)
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { InMemoryDnsResolver } from './dns-resolver'
+
+describe('inMemoryDnsResolver', () => {
+  const resolver = new InMemoryDnsResolver({
+    'www.example.com': { cname: 'example.com' },
+    'example.com': { a: ['93.184.215.14'], mx: [{ exchange: 'mail.example.com', priority: 10 }] },
+    'loop-a.example': { cname: 'loop-b.example' },
+    'loop-b.example': { cname: 'loop-a.example' },
+  })
+
+  it('follows CNAMEs for address lookups but not for CNAME lookups', async () => {
+    expect(await resolver.resolve4('WWW.example.com.')).toEqual(['93.184.215.14'])
+    expect(await resolver.resolveCname('www.example.com')).toEqual(['example.com'])
+  })
+
+  it('throws errors shaped like node:dns', async () => {
+    await expect(resolver.resolve4('missing.example')).rejects.toMatchObject({ code: 'ENOTFOUND', syscall: 'queryA' })
+    await expect(resolver.resolve6('example.com')).rejects.toMatchObject({ code: 'ENODATA', syscall: 'queryAaaa' })
+    await expect(resolver.resolveCname('example.com')).rejects.toMatchObject({ code: 'ENODATA' })
+    await expect(resolver.resolve4('loop-a.example')).rejects.toMatchObject({ code: 'ESERVFAIL' })
+  })
+
+  it('answers changed records', async () => {
+    const zone = new InMemoryDnsResolver({ 'example.org': { a: ['203.0.113.1'] } })
+    zone.setRecords('example.org', { a: ['203.0.113.2'] })
+    expect(await zone.resolve4('example.org')).toEqual(['203.0.113.2'])
+
+    zone.deleteRecords('example.org')
+    await expect(zone.resolve4('example.org')).rejects.toMatchObject({ code: 'ENOTFOUND' })
+  })
+})
@@ -0,0 +1,158 @@
+import type { DnsMxRecord, DnsResolver, InMemoryDnsRecords } from './types'
+import { Resolver } from 'node:dns/promises'
+
+/**
+ * Creates an error shaped like the ones thrown by node:dns
+ * @param {string} code - DNS error code
+ * @param {string} syscall - Lookup that failed
+ * @param {string} hostname - Hostname that was looked up
+ * @returns {Error} The error
+ */
+function dnsError(code: string, syscall: string, hostname: string): Error {
+  return Object.assign(new Error(`${syscall} ${code} ${hostname}`), { code, syscall, hostname })
+}
+
+/**
+ * DNS resolver backed by node:dns
+ * @class NodeDnsResolver
+ */
+export class NodeDnsResolver implements DnsResolver {
+  /**
+   * Underlying node:dns resolver
+   * @private
+   * @readonly
+   */
+  private readonly resolver: Resolver
+
+  /**
+   * Creates an instance of NodeDnsResolver
+   * @param {object} [options] - Resolver options
+   * @param {number} [options.timeoutMs] - Timeout per query attempt in milliseconds
+   * @param {number} [options.tries] - Attempts per nameserver
+   * @param {string[]} [options.servers] - Nameservers to use instead of the system ones
+   */
+  constructor(options: { timeoutMs?: number, tries?: number, servers?: string[] } = {}) {
+    this.resolver = new Resolver({ timeout: options.timeoutMs ?? -1, tries: options.tries ?? 4 })
+    if (options.servers) {
+      this.resolver.setServers(options.servers)
+    }
+  }
+
+  public async resolve4(hostname: string): Promise<string[]> {
+    return this.resolver.resolve4(hostname)
+  }
+
+  public async resolve6(hostname: string): Promise<string[]> {
+    return this.resolver.resolve6(hostname)
+  }
+
+  public async resolveCname(hostname: string): Promise<string[]> {
+    return this.resolver.resolveCname(hostname)
+  }
+
+  public async resolveMx(hostname: string): Promise<DnsMxRecord[]> {
+    return this.resolver.resolveMx(hostname)
+  }
+
+  public async resolveTxt(hostname: string): Promise<string[][]> {
+    return this.resolver.resolveTxt(hostname)
+  }
+}
+
+/**
+ * DNS resolver answering from a fixed record table, for tests and offline use.
+ * Address lookups follow CNAMEs the way a recursive resolver does
+ * @class InMemoryDnsResolver
+ */
+export class InMemoryDnsResolver implements DnsResolver {
+  /**
+   * Records by lowercase hostname
+   * @private
+   * @readonly
+   */
+  private readonly zones = new Map<string, InMemoryDnsRecords>()
+
+  /**
+   * Creates an instance of InMemoryDnsResolver
+   * @param {Record<string, InMemoryDnsRecords>} [records] - Records by hostname
+   */
+  constructor(records: Record<string, InMemoryDnsRecords> = {}) {
+    for (const [hostname, entry] of Object.entries(records)) {
+      this.setRecords(hostname, entry)
+    }
+  }
+
+  /**
+   * Replaces the records of a hostname
+   * @param {string} hostname - The hostname
+   * @param {InMemoryDnsRecords} records - Its records
+   */
+  public setRecords(hostname: string, records: InMemoryDnsRecords): void {
+    this.zones.set(this.normalize(hostname), records)
+  }
+
+  /**
+   * Removes a hostname so that lookups fail with ENOTFOUND
+   * @param {string} hostname - The hostname
+   */
+  public deleteRecords(hostname: string): void {
+    this.zones.delete(this.normalize(hostname))
+  }
+
+  public async resolve4(hostname: string): Promise<string[]> {
+    return this.lookup(hostname, 'queryA', entry => entry.a, true)
+  }
+
+  public async resolve6(hostname: string): Promise<string[]> {
+    return this.lookup(hostname, 'queryAaaa', entry => entry.aaaa, true)
+  }
+
+  public async resolveCname(hostname: string): Promise<string[]> {
+    return this.lookup(hostname, 'queryCname', entry => entry.cname === undefined ? undefined : [entry.cname], false)
+  }
+
+  public async resolveMx(hostname: string): Promise<DnsMxRecord[]> {
+    return this.lookup(hostname, 'queryMx', entry => entry.mx, true)
+  }
+
+  public async resolveTxt(hostname: string): Promise<string[][]> {
+    return this.lookup(hostname, 'queryTxt', entry => entry.txt, true)
+  }
+
+  /**
+   * Looks up one record type, following CNAMEs when asked to
+   * @private
+   */
+  private lookup<T>(
+    hostname: string,
+    syscall: string,
+    select: (entry: InMemoryDnsRecords) => T[] | undefined,
+    followCname: boolean,
+  ): T[] {
+    let name = this.normalize(hostname)
+
+    // Bounded so that CNAME loops end like they do on a real resolver
+    for (let depth = 0; depth < 16; depth++) {
+      const entry = this.zones.get(name)
+      if (!entry) {
+        throw dnsError('ENOTFOUND', syscall, hostname)
+      }
+
+      const records = select(entry)
+      if (records?.length) {
+        return records
+      }
+
+      if (!followCname || entry.cname === undefined) {
+        throw dnsError('ENODATA', syscall, hostname)
+      }
+      name = this.normalize(entry.cname)
+    }
+
+    throw dnsError('ESERVFAIL', syscall, hostname)
+  }
+
+  private normalize(hostname: string): string {
+    return hostname.toLowerCase().replace(/\.$/, '')
+  }
+}
@@ -0,0 +1,120 @@
+import type { IncomingMessage } from 'node:http'
+import type { LookupFunction } from 'node:net'
+import type { HttpClient, HttpRequestOptions, HttpResponse } from './types'
+import { Buffer } from 'node:buffer'
+import { request as httpRequest } from 'node:http'
+import { request as httpsRequest } from 'node:https'
+import { ErrorCode, OperationError } from '../../errors'
+
+/**
+ * HTTP client backed by node:http and node:https. It never follows
+ * redirects and only reads the start of HTML bodies
+ * @class NodeHttpClient
+ */
+export class NodeHttpClient implements HttpClient {
+  /**
+   * Creates an instance of NodeHttpClient
+   * @param {object} [options] - Client options
+   * @param {number} [options.maxBodyBytes] - Bytes of an HTML body to read
+   * @param {boolean} [options.rejectUnauthorized] - Whether to reject untrusted TLS certificates
+   */
+  constructor(private readonly options: { maxBodyBytes?: number, rejectUnauthorized?: boolean } = {}) {}
+
+  /**
+   * Sends a request
+   * @param {string} url - The URL
+   * @param {HttpRequestOptions} options - Request options
+   * @returns {Promise<HttpResponse>} The response
+   * @throws {OperationError} If the request fails or times out
+   */
+  public async request(url: string, options: HttpRequestOptions): Promise<HttpResponse> {
+    const target = new URL(url)
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest
+    const maxBodyBytes = this.options.maxBodyBytes ?? 65_536
+
+    return new Promise((resolve, reject) => {
+      const req = send(target, {
+        method: options.method,
+        headers: options.headers,
+        timeout: options.timeoutMs,
+        rejectUnauthorized: this.options.rejectUnauthorized ?? true,
+        // The Host header and TLS server name still come from the URL
+        lookup: options.pinnedAddress ? this.pinnedLookup(options.pinnedAddress, options.family ?? 4) : undefined,
+      }, (res) => {
+        const response: HttpResponse = {
+          status: res.statusCode ?? 0,
+          headers: this.flattenHeaders(res),
+        }
+
+        if (options.method === 'HEAD' || !/html/i.test(response.headers['content-type'] ?? '')) {
+          res.resume()
+          resolve(response)
+          return
+        }
+
+        const chunks: Buffer[] = []
+        let size = 0
+        const finish = (): void => {
+          response.body = Buffer.concat(chunks).subarray(0, maxBodyBytes).toString('utf8')
+          resolve(response)
+        }
+
+        res.on('data', (chunk: Buffer) => {
+          chunks.push(chunk)
+          size += chunk.length
+          if (size >= maxBodyBytes) {
+            finish()
+            res.destroy()
+          }
+        })
+        res.on('end', finish)
+        res.on('error', finish)
+      })
+
+      req.on('timeout', () => {
+        req.destroy(new OperationError(
+          `Request to ${url} timed out after ${options.timeoutMs} ms`,
+          ErrorCode.OPERATION_FAILED,
+          { url, timeoutMs: options.timeoutMs },
+        ))
+      })
+      req.on('error', (error) => {
+        reject(error instanceof OperationError
+          ? error
+          : new OperationError(
+            `Request to ${url} failed: ${error.message}`,
+            ErrorCode.OPERATION_FAILED,
+            { url },
+            error,
+          ))
+      })
+      req.end()
+    })
+  }
+
+  /**
+   * Answers every lookup with the pinned address
+   * @param {string} address - The pinned address
+   * @param {4 | 6} family - Its IP version
+   * @returns {LookupFunction} A lookup for http.request
+   * @private
+   */
+  private pinnedLookup(address: string, family: 4 | 6): LookupFunction {
+    return (_hostname, lookupOptions, callback) => {
+      if (lookupOptions.all) {
+        callback(null, [{ address, family }])
+      }
+      else {
+        callback(null, address, family)
+      }
+    }
+  }
+
+  private flattenHeaders(res: IncomingMessage): Record<string, string | undefined> {
+    const headers: Record<string, string | undefined> = {}
+    for (const [name, value] of Object.entries(res.headers)) {
+      headers[name] = Array.isArray(value) ? value.join(', ') : value
+    }
+    return headers
+  }
+}
@@ -1,4 +1,14 @@
+export * from './dns-inspector'
+export * from './dns-resolver'
+export * from './http-client'
+export * from './injection-scanner'
+export * from './open-redirect-detector'
+export * from './redirect-tracer'
+export * from './safe-browsing-client'
+export * from './safe-browsing-transport'
+export * from './safe-browsing-url'
 export * from './security-checker'
 export * from './security-sanitizer'
-export * from './types'
+export * from './ssrf-guard'
+export * from './tls-inspector'
 export * from './types'
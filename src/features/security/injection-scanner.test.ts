@@ -0,0 +1,79 @@
+import { Buffer } from 'node:buffer'
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../errors'
+import { InjectionScanner } from './injection-scanner'
+
+describe('injectionScanner', () => {
+  const scanner = new InjectionScanner()
+
+  it('finds script tags in query values', () => {
+    const result = scanner.scan('https://shop.example/search?q=<script>alert(1)</script>')
+
+    expect(result).toMatchObject({ confidence: 0.95, riskLevel: 'high' })
+    expect(result.findings[0]).toMatchObject({ component: 'query.q', category: 'xss', evidence: '<script>alert(1)</script>', decodings: [] })
+  })
+
+  it.each([
+    ['double percent-encoding', 'https://shop.example/?q=%253Cscript%253Ealert(1)%253C%252Fscript%253E', ['percent'], 0.95],
+    ['HTML entities', 'https://shop.example/?q=%26lt%3Bscript%26gt%3Balert(1)%26lt%3B%2Fscript%26gt%3B', ['html-entities'], 0.99],
+    ['base64', `https://shop.example/?p=${Buffer.from('<script>alert(1)</script>').toString('base64')}`, ['base64'], 0.99],
+  ])('looks through %s', (_, url, decodings, confidence) => {
+    expect(scanner.scan(url).findings[0]).toMatchObject({ category: 'xss', decodings, confidence })
+  })
+
+  it('decodes JavaScript escapes in single values', () => {
+    const result = scanner.scanValue('\\u003cscript\\u003ealert(1)\\u003c/script\\u003e', 'form.comment')
+
+    expect(result.findings[0]).toMatchObject({ component: 'form.comment', decodings: ['unicode-escapes'], confidence: 0.99 })
+  })
+
+  it('finds script protocols the way browsers read them', () => {
+    const result = scanner.scan('https://shop.example/?next=%20jav%09ascript:alert(1)')
+
+    expect(result.findings).toEqual([expect.objectContaining({
+      category: 'suspicious-protocol',
+      pattern: 'javascript:',
+      evidence: 'javascript:alert(1)',
+      confidence: 0.9,
+    })])
+  })
+
+  it('rates content protocols lower than script protocols', () => {
+    expect(scanner.scan('https://shop.example/?u=data:text/html,hi')).toMatchObject({ confidence: 0.6, riskLevel: 'medium' })
+  })
+
+  it('finds SQL injection', () => {
+    const result = scanner.scan('https://shop.example/item?id=1\' UNION SELECT password FROM users--')
+
+    expect(result).toMatchObject({ riskLevel: 'high', findings: [{ category: 'sql-injection', evidence: 'UNION SELECT' }] })
+  })
+
+  it('finds attribute payloads split across parameters', () => {
+    const result = scanner.scan('https://shop.example/?img=x%22%20onerror%3Dalert(1)')
+
+    expect(result.findings[0]).toMatchObject({ category: 'xss', evidence: ' onerror=alert(1)', confidence: 0.7 })
+    expect(result.riskLevel).toBe('medium')
+  })
+
+  it.each([
+    'https://shop.example/?name=O\'Brien',
+    'https://shop.example/blog/2024/05/hello-world?utm_source=news&page=2#comments',
+    'https://shop.example/?q=tom%20%26%20jerry',
+    'https://shop.example/?email=a%40b.example&redirect=%2Faccount',
+  ])('reports nothing for %s', (url) => {
+    expect(scanner.scan(url)).toEqual({ findings: [], confidence: 0, riskLevel: 'none' })
+  })
+
+  it('keeps weak matches below the minimum confidence out', () => {
+    expect(scanner.scanValue('it\'s fine').findings).toEqual([])
+    expect(scanner.scanValue('it\'s fine', 'value', { minConfidence: 0.1 })).toMatchObject({ confidence: 0.2, riskLevel: 'low' })
+  })
+
+  it('limits the scan to the requested categories', () => {
+    expect(scanner.scanValue('1\' OR \'1\'=\'1', 'form.id', { categories: ['xss'] }).findings).toEqual([])
+  })
+
+  it('rejects invalid URLs', () => {
+    expect(() => scanner.scan('not a url')).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,348 @@
+import type {
+  InjectionCategory,
+  InjectionDecoding,
+  InjectionFinding,
+  InjectionScannerOptions,
+  InjectionScanResult,
+} from './types'
+import { Buffer } from 'node:buffer'
+import { REGEX, SECURITY } from '../../core/constants'
+import { ErrorCode, ValidationError } from '../../errors'
+import { SecurityRiskLevel } from './types'
+
+interface InjectionRule {
+  category: InjectionCategory
+  pattern: RegExp
+  confidence: number
+}
+
+interface DecodedVariant {
+  value: string
+  decodings: InjectionDecoding[]
+}
+
+/**
+ * Base confidence of each pattern set, in the order of the constants.
+ * The first SQL pattern matches any quote or comment, so it is weak on its own
+ */
+const XSS_CONFIDENCE = [0.95, 0.8, 0.75, 0.75, 0.7]
+const SQL_INJECTION_CONFIDENCE = [0.2, 0.4, 0.7, 0.85, 0.9]
+const SUSPICIOUS_PATTERN_CONFIDENCE = 0.5
+
+/**
+ * Confidence of values starting with a suspicious protocol; script
+ * protocols run code, the others only load content
+ */
+const SCRIPT_PROTOCOLS = ['javascript:', 'vbscript:', 'jscript:', 'livescript:', 'mocha:']
+
+/**
+ * Named character references decoded besides numeric ones
+ */
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  apos: '\'',
+  colon: ':',
+  equals: '=',
+  gt: '>',
+  lpar: '(',
+  lt: '<',
+  newline: '\n',
+  quot: '"',
+  rpar: ')',
+  sol: '/',
+  tab: '\t',
+}
+
+/**
+ * Most decoded variants kept per value
+ */
+const MAX_VARIANTS = 64
+
+/**
+ * Scans URL components and arbitrary input for XSS, SQL injection and
+ * script protocol payloads, looking through layers of encoding
+ * @class InjectionScanner
+ */
+export class InjectionScanner {
+  /**
+   * Patterns from the constants, without the global flag so that matching
+   * has no state
+   * @private
+   * @readonly
+   */
+  private readonly rules: InjectionRule[] = [
+    ...REGEX.XSS_PATTERNS.map((pattern, index) => this.rule('xss', pattern, XSS_CONFIDENCE[index] ?? 0.7)),
+    ...REGEX.SQL_INJECTION.map((pattern, index) => this.rule('sql-injection', pattern, SQL_INJECTION_CONFIDENCE[index] ?? 0.4)),
+    ...SECURITY.SUSPICIOUS_PATTERNS.map(pattern => this.rule('suspicious-pattern', pattern, SUSPICIOUS_PATTERN_CONFIDENCE)),
+  ]
+
+  /**
+   * Decoders tried on every variant, in order
+   * @private
+   * @readonly
+   */
+  private readonly decoders: Array<[InjectionDecoding, (value: string) => string | undefined]> = [
+    ['percent', value => this.decodePercent(value)],
+    ['html-entities', value => this.decodeHtmlEntities(value)],
+    ['unicode-escapes', value => this.decodeUnicodeEscapes(value)],
+    ['base64', value => this.decodeBase64(value)],
+  ]
+
+  /**
+   * Creates an instance of InjectionScanner
+   * @param {InjectionScannerOptions} [options] - Default scanning options
+   */
+  constructor(private readonly options: InjectionScannerOptions = {}) {}
+
+  /**
+   * Scans the credentials, path, query values and fragment of a URL
+   * @param {string} url - The URL
+   * @param {InjectionScannerOptions} [options] - Options overriding the defaults
+   * @returns {InjectionScanResult} Findings for all components
+   * @throws {ValidationError} If the URL is invalid
+   */
+  public scan(url: string, options?: InjectionScannerOptions): InjectionScanResult {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    }
+    catch {
+      throw new ValidationError(`Invalid URL: ${url}`, ErrorCode.INVALID_URL, { url })
+    }
+
+    const components: Array<[string, string]> = [
+      ['username', parsed.username],
+      ['password', parsed.password],
+      ['pathname', parsed.pathname],
+    ]
+    parsed.searchParams.forEach((value, name) => components.push([`query.${name}`, value]))
+    components.push(['hash', parsed.hash.slice(1)])
+
+    const opts = { ...this.options, ...options }
+    const findings = components
+      .filter(([, value]) => value)
+      .flatMap(([component, value]) => this.scanComponent(value, component, opts))
+
+    // Payloads containing "&" are split across parameters, so the raw query
+    // is scanned too. Its findings only count when they span parameters and
+    // no single parameter explains them; "name=value" alone is not a payload
+    const covered = new Set(findings.map(finding => `${finding.category}\u0000${finding.pattern}`))
+    // The leading "&" keeps the first parameter name from reading as the
+    // start of an attribute such as "onload="
+    const search = this.scanComponent(`&${parsed.search.slice(1)}`, 'search', opts)
+      .filter(finding => finding.evidence.includes('&') && !covered.has(`${finding.category}\u0000${finding.pattern}`))
+
+    return this.toResult([...findings, ...search])
+  }
+
+  /**
+   * Scans a single value, such as a form field or header
+   * @param {string} value - The value
+   * @param {string} [component] - Name reported with the findings
+   * @param {InjectionScannerOptions} [options] - Options overriding the defaults
+   * @returns {InjectionScanResult} Findings for the value
+   */
+  public scanValue(value: string, component = 'value', options?: InjectionScannerOptions): InjectionScanResult {
+    return this.toResult(this.scanComponent(value, component, { ...this.options, ...options }))
+  }
+
+  /**
+   * Matches every decoded variant of a value and keeps the most confident
+   * finding per pattern
+   * @private
+   */
+  private scanComponent(value: string, component: string, options: InjectionScannerOptions): InjectionFinding[] {
+    const categories = options.categories
+    const minConfidence = options.minConfidence ?? 0.3
+    const best = new Map<string, InjectionFinding>()
+
+    const record = (finding: InjectionFinding): void => {
+      if ((categories && !categories.includes(finding.category)) || finding.confidence < minConfidence) {
+        return
+      }
+      const key = `${finding.category}\u0000${finding.pattern}`
+      const existing = best.get(key)
+      if (!existing || finding.confidence > existing.confidence) {
+        best.set(key, finding)
+      }
+    }
+
+    for (const variant of this.getVariants(value.slice(0, options.maxLength ?? 8192), options.maxDepth ?? 3)) {
+      for (const rule of this.rules) {
+        const match = rule.pattern.exec(variant.value)
+        if (match) {
+          record({
+            component,
+            category: rule.category,
+            pattern: rule.pattern.source,
+            evidence: this.excerpt(match[0]),
+            decodings: variant.decodings,
+            confidence: this.score(rule.confidence, variant.decodings),
+          })
+        }
+      }
+
+      // Browsers ignore leading spaces and embedded tabs and newlines in the scheme
+      const normalized = this.trimLeadingControls(variant.value.replace(/[\t\n\r]/g, '')).toLowerCase()
+      const protocol = SECURITY.SUSPICIOUS_PROTOCOLS.find(candidate => normalized.startsWith(candidate))
+      if (protocol) {
+        record({
+          component,
+          category: 'suspicious-protocol',
+          pattern: protocol,
+          evidence: this.excerpt(normalized),
+          decodings: variant.decodings,
+          confidence: this.score(SCRIPT_PROTOCOLS.includes(protocol) ? 0.9 : protocol === 'data:' ? 0.6 : 0.4, variant.decodings),
+        })
+      }
+    }
+
+    return Array.from(best.values())
+  }
+
+  /**
+   * Returns the value and every distinct result of applying up to maxDepth
+   * decoders to it
+   * @private
+   */
+  private getVariants(value: string, maxDepth: number): DecodedVariant[] {
+    const variants: DecodedVariant[] = [{ value, decodings: [] }]
+    const seen = new Set([value])
+    let frontier = variants
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const next: DecodedVariant[] = []
+      for (const variant of frontier) {
+        for (const [name, decode] of this.decoders) {
+          const decoded = decode(variant.value)
+          if (decoded === undefined || seen.has(decoded) || variants.length >= MAX_VARIANTS) {
+            continue
+          }
+          seen.add(decoded)
+          const entry = { value: decoded, decodings: [...variant.decodings, name] }
+          variants.push(entry)
+          next.push(entry)
+        }
+      }
+      frontier = next
+    }
+
+    return variants
+  }
+
+  /**
+   * Raises the confidence of strong matches that were hidden behind encoding
+   * @private
+   */
+  private score(base: number, decodings: InjectionDecoding[]): number {
+    const boost = base >= 0.5 ? decodings.filter(decoding => decoding !== 'percent').length * 0.05 : 0
+    return Math.min(0.99, Math.round((base + boost) * 100) / 100)
+  }
+
+  private toResult(findings: InjectionFinding[]): InjectionScanResult {
+    findings.sort((a, b) => b.confidence - a.confidence)
+    const confidence = findings[0]?.confidence ?? 0
+
+    let riskLevel = SecurityRiskLevel.NONE
+    if (confidence >= 0.8) {
+      riskLevel = SecurityRiskLevel.HIGH
+    }
+    else if (confidence >= 0.5) {
+      riskLevel = SecurityRiskLevel.MEDIUM
+    }
+    else if (confidence > 0) {
+      riskLevel = SecurityRiskLevel.LOW
+    }
+
+    return { findings, confidence, riskLevel }
+  }
+
+  private rule(category: InjectionCategory, pattern: RegExp, confidence: number): InjectionRule {
+    return { category, pattern: new RegExp(pattern.source, pattern.flags.replace('g', '')), confidence }
+  }
+
+  /**
+   * Decodes percent escapes, byte by byte when the value is not valid UTF-8
+   * @private
+   */
+  private decodePercent(value: string): string | undefined {
+    if (!/%[\da-f]{2}/i.test(value)) {
+      return undefined
+    }
+    try {
+      return decodeURIComponent(value)
+    }
+    catch {
+      return value.replace(/%([\da-f]{2})/gi, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)))
+    }
+  }
+
+  /**
+   * Decodes numeric and common named character references, with or
+   * without the closing semicolon as browsers do
+   * @private
+   */
+  private decodeHtmlEntities(value: string): string | undefined {
+    if (!value.includes('&')) {
+      return undefined
+    }
+    return value.replace(/&(?:#x([\da-f]+)|#(\d+)|([a-z]+));?/gi, (entity, hex?: string, decimal?: string, name?: string) => {
+      if (name !== undefined) {
+        return HTML_ENTITIES[name.toLowerCase()] ?? entity
+      }
+      return this.fromCodePoint(hex === undefined ? Number.parseInt(decimal ?? '', 10) : Number.parseInt(hex, 16)) ?? entity
+    })
+  }
+
+  /**
+   * Decodes JavaScript "\u0041", "\u{41}" and "\x41" escapes
+   * @private
+   */
+  private decodeUnicodeEscapes(value: string): string | undefined {
+    if (!value.includes('\\')) {
+      return undefined
+    }
+    return value.replace(/\\u\{([\da-f]{1,6})\}|\\u([\da-f]{4})|\\x([\da-f]{2})/gi, (escape, braced?: string, u?: string, x?: string) =>
+      this.fromCodePoint(Number.parseInt(braced ?? u ?? x ?? '', 16)) ?? escape)
+  }
+
+  /**
+   * Replaces base64 blobs that decode to printable text with that text
+   * @private
+   */
+  private decodeBase64(value: string): string | undefined {
+    let changed = false
+    const decoded = value.replace(/[\w+/-]{16,}={0,2}/g, (blob) => {
+      const text = Buffer.from(blob.replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8')
+      let printable = 0
+      for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i)
+        if ((code >= 32 && code < 127) || code === 9 || code === 10 || code === 13) {
+          printable++
+        }
+      }
+      if (text.length < 8 || printable / text.length < 0.9) {
+        return blob
+      }
+      changed = true
+      return text
+    })
+    return changed ? decoded : undefined
+  }
+
+  private fromCodePoint(codePoint: number): string | undefined {
+    return Number.isInteger(codePoint) && codePoint >= 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : undefined
+  }
+
+  private trimLeadingControls(value: string): string {
+    let start = 0
+    while (start < value.length && value.charCodeAt(start) <= 32) {
+      start++
+    }
+    return value.slice(start)
+  }
+
+  private excerpt(text: string): string {
+    return text.length > 120 ? `${text.slice(0, 117)}...` : text
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import { SecurityError, ValidationError } from '../../errors'
+import { OpenRedirectDetector } from './open-redirect-detector'
+import { SecuritySanitizer } from './security-sanitizer'
+
+describe('openRedirectDetector', () => {
+  const detector = new OpenRedirectDetector()
+
+  it('passes targets on the same origin', () => {
+    const result = detector.analyze('https://shop.example/login?next=/account&returnUrl=https://shop.example/cart')
+
+    expect(result).toMatchObject({ vulnerable: false, riskLevel: 'none' })
+    expect(result.findings.map(finding => finding.reason)).toEqual(['same-origin', 'same-origin'])
+  })
+
+  it('rates cross-origin targets medium, and high when obfuscated', () => {
+    const plain = detector.analyze('https://shop.example/login?redirect=https://evil.example/')
+    const encoded = detector.analyze('https://shop.example/login?redirect=https%253A%252F%252Fevil.example%252F')
+    const relative = detector.analyze('https://shop.example/login?next=//evil.example/')
+
+    expect(plain.findings).toMatchObject([{ reason: 'cross-origin', riskLevel: 'medium', encodingDepth: 0 }])
+    // searchParams takes off the first layer
+    expect(encoded.findings).toMatchObject([{ target: 'https://evil.example/', riskLevel: 'high', encodingDepth: 1 }])
+    expect(relative.findings).toMatchObject([{ protocolRelative: true, riskLevel: 'high' }])
+  })
+
+  it('rates dangerous schemes high, after leading control characters', () => {
+    const result = detector.analyze('https://shop.example/?url=%09javascript:alert(1)')
+
+    expect(result).toMatchObject({ vulnerable: true, riskLevel: 'high' })
+    expect(result.findings[0]).toMatchObject({ reason: 'dangerous-scheme', target: 'javascript:alert(1)' })
+  })
+
+  it('reads parameters from query-like fragments', () => {
+    const result = detector.analyze('https://app.example/#/login?returnUrl=https://evil.example/')
+
+    expect(result.findings).toMatchObject([{ location: 'fragment', reason: 'cross-origin' }])
+  })
+
+  it('inspects unlisted parameters only when their value is a URL', () => {
+    expect(detector.analyze('https://shop.example/?ref=https://evil.example/').findings).toHaveLength(1)
+    expect(detector.analyze('https://shop.example/?ref=evil.example').findings).toHaveLength(0)
+    expect(detector.analyze('https://shop.example/?ref=https://evil.example/', { inspectAllParams: false }).findings).toHaveLength(0)
+  })
+
+  it('follows redirect parameters inside targets', () => {
+    const inner = encodeURIComponent('https://evil.example/')
+    const result = detector.analyze(`https://shop.example/?next=${encodeURIComponent(`https://shop.example/out?to=${inner}`)}`)
+
+    expect(result.findings.map(finding => [finding.chain.join('.'), finding.reason])).toEqual([
+      ['next', 'same-origin'],
+      ['next.to', 'cross-origin'],
+    ])
+  })
+
+  it('trusts allowed destinations', () => {
+    const allowedDestinations = ['https://auth.example', '*.partner.example', 'cdn.example']
+
+    expect(detector.isAllowedDestination('https://auth.example/cb', allowedDestinations)).toBe(true)
+    expect(detector.isAllowedDestination('http://auth.example/cb', allowedDestinations)).toBe(false)
+    expect(detector.isAllowedDestination('https://a.partner.example/', allowedDestinations)).toBe(true)
+    expect(detector.isAllowedDestination('https://partner.example.evil.example/', allowedDestinations)).toBe(false)
+    expect(detector.isAllowedDestination('javascript://cdn.example/', allowedDestinations)).toBe(false)
+    expect(detector.analyze('https://shop.example/?next=https://cdn.example/x', { allowedDestinations }))
+      .toMatchObject({ vulnerable: false, findings: [{ reason: 'allowed' }] })
+  })
+
+  it('rejects invalid URLs', () => {
+    expect(() => detector.analyze('not a url')).toThrow(ValidationError)
+  })
+})
+
+describe('securitySanitizer.createSafeRedirectUrl', () => {
+  it('refuses targets outside the allowed destinations', () => {
+    const sanitizer = new SecuritySanitizer({ allowedRedirectDestinations: ['partner.example'] })
+
+    expect(sanitizer.createSafeRedirectUrl('https://shop.example/go', 'https://partner.example/x'))
+      .toMatch(/^https:\/\/shop\.example\/go\?redirect_to=https/)
+    expect(() => sanitizer.createSafeRedirectUrl('https://shop.example/go', 'https://evil.example/')).toThrow(SecurityError)
+    expect(() => sanitizer.createSafeRedirectUrl('https://shop.example/go', 'javascript:alert(1)')).toThrow('dangerous protocol')
+  })
+})
@@ -0,0 +1,226 @@
+import type { OpenRedirectFinding, OpenRedirectOptions, OpenRedirectReason, OpenRedirectResult } from './types'
+import { SECURITY } from '../../core/constants'
+import { ErrorCode, ValidationError } from '../../errors'
+import { SECURITY_RISK_SEVERITY, SecurityRiskLevel } from './types'
+
+/**
+ * Values that are URLs even when the parameter name says nothing about redirects
+ */
+const URL_VALUE_PATTERN = /^(?:https?:|javascript:|data:|vbscript:|[/\\]{2})/i
+
+/**
+ * Finds query and fragment parameters that carry redirect targets and
+ * decides whether each target leaves the site
+ * @class OpenRedirectDetector
+ */
+export class OpenRedirectDetector {
+  /**
+   * Creates an instance of OpenRedirectDetector
+   * @param {OpenRedirectOptions} [options] - Default analysis options
+   */
+  constructor(private readonly options: OpenRedirectOptions = {}) {}
+
+  /**
+   * Analyzes the redirect parameters of a URL, following targets that
+   * carry redirect parameters of their own
+   * @param {string} url - The URL
+   * @param {OpenRedirectOptions} [options] - Options overriding the defaults
+   * @returns {OpenRedirectResult} The parameters found and their risk
+   * @throws {ValidationError} If the URL is invalid
+   */
+  public analyze(url: string, options?: OpenRedirectOptions): OpenRedirectResult {
+    const opts = { ...this.options, ...options }
+
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    }
+    catch {
+      throw new ValidationError(`Invalid URL: ${url}`, ErrorCode.INVALID_URL, { url })
+    }
+
+    const findings: OpenRedirectFinding[] = []
+    this.inspect(parsed, parsed.origin, [], 0, findings, {
+      params: new Set((opts.params ?? SECURITY.OPEN_REDIRECT_PARAMS).map(param => param.toLowerCase())),
+      inspectAllParams: opts.inspectAllParams ?? true,
+      allowedDestinations: opts.allowedDestinations ?? [],
+      maxDepth: opts.maxDepth ?? 3,
+    })
+
+    const riskLevel = findings.reduce(
+      (worst, finding) => SECURITY_RISK_SEVERITY[finding.riskLevel] > SECURITY_RISK_SEVERITY[worst] ? finding.riskLevel : worst,
+      SecurityRiskLevel.NONE,
+    )
+
+    return {
+      url,
+      findings,
+      vulnerable: riskLevel !== SecurityRiskLevel.NONE,
+      riskLevel,
+    }
+  }
+
+  /**
+   * Checks whether a target is one of the trusted destinations
+   * @param {string | URL} target - The target URL
+   * @param {string[]} allowedDestinations - Origins, hostnames or "*.domain" patterns
+   * @returns {boolean} Whether the target is trusted
+   */
+  public isAllowedDestination(target: string | URL, allowedDestinations: string[]): boolean {
+    let parsed: URL
+    try {
+      parsed = typeof target === 'string' ? new URL(target) : target
+    }
+    catch {
+      return false
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return false
+    }
+
+    const hostname = parsed.hostname.toLowerCase()
+    return allowedDestinations.some((destination) => {
+      const entry = destination.trim().toLowerCase()
+      if (entry.includes('://')) {
+        try {
+          return new URL(entry).origin === parsed.origin
+        }
+        catch {
+          return false
+        }
+      }
+      if (entry.startsWith('*.')) {
+        return hostname.endsWith(entry.slice(1))
+      }
+      return hostname === entry
+    })
+  }
+
+  /**
+   * Analyzes the parameters of one URL in the chain
+   * @private
+   */
+  private inspect(
+    url: URL,
+    origin: string,
+    chain: string[],
+    depth: number,
+    findings: OpenRedirectFinding[],
+    opts: Required<Omit<OpenRedirectOptions, 'params'>> & { params: Set<string> },
+  ): void {
+    for (const { name, value, location } of this.getParams(url)) {
+      const decoded = this.decode(value, opts.maxDepth)
+      const candidate = this.trimLeadingControls(decoded.value)
+      if (!candidate || (!opts.params.has(name.toLowerCase()) && !(opts.inspectAllParams && URL_VALUE_PATTERN.test(candidate)))) {
+        continue
+      }
+
+      let target: URL | undefined
+      try {
+        target = new URL(candidate, url)
+      }
+      catch {
+        continue
+      }
+
+      const protocolRelative = /^[/\\]{2}/.test(candidate) || (/^https?:/i.test(candidate) && candidate.includes('\\'))
+      const reason = this.classify(target, origin, opts.allowedDestinations)
+      findings.push({
+        chain: [...chain, name],
+        location,
+        value,
+        target: target.href,
+        encodingDepth: decoded.depth,
+        protocolRelative,
+        reason,
+        riskLevel: this.getRiskLevel(reason, decoded.depth > 0 || protocolRelative),
+      })
+
+      if (reason !== 'dangerous-scheme' && depth + 1 < opts.maxDepth) {
+        this.inspect(target, origin, [...chain, name], depth + 1, findings, opts)
+      }
+    }
+  }
+
+  /**
+   * Returns the parameters of the query and of a query-like fragment,
+   * such as "#/login?next=..."
+   * @private
+   */
+  private getParams(url: URL): Array<{ name: string, value: string, location: 'query' | 'fragment' }> {
+    const params: Array<{ name: string, value: string, location: 'query' | 'fragment' }> = []
+    url.searchParams.forEach((value, name) => params.push({ name, value, location: 'query' }))
+
+    const fragment = url.hash.slice(1)
+    const fragmentQuery = fragment.includes('?') ? fragment.slice(fragment.indexOf('?') + 1) : fragment
+    if (fragmentQuery.includes('=')) {
+      new URLSearchParams(fragmentQuery).forEach((value, name) => params.push({ name, value, location: 'fragment' }))
+    }
+
+    return params
+  }
+
+  private classify(target: URL, origin: string, allowedDestinations: string[]): OpenRedirectReason {
+    if ((SECURITY.SUSPICIOUS_PROTOCOLS as readonly string[]).includes(target.protocol)) {
+      return 'dangerous-scheme'
+    }
+    if (target.origin === origin) {
+      return 'same-origin'
+    }
+    return this.isAllowedDestination(target, allowedDestinations) ? 'allowed' : 'cross-origin'
+  }
+
+  /**
+   * Cross-origin targets that hide behind extra encoding or browser
+   * quirks are more likely an attack than a feature
+   * @private
+   */
+  private getRiskLevel(reason: OpenRedirectReason, obfuscated: boolean): SecurityRiskLevel {
+    switch (reason) {
+      case 'dangerous-scheme':
+        return SecurityRiskLevel.HIGH
+      case 'cross-origin':
+        return obfuscated ? SecurityRiskLevel.HIGH : SecurityRiskLevel.MEDIUM
+      default:
+        return SecurityRiskLevel.NONE
+    }
+  }
+
+  /**
+   * Percent-decodes a value until it stops changing, at most maxDepth times
+   * @private
+   */
+  private decode(value: string, maxDepth: number): { value: string, depth: number } {
+    let current = value
+    let depth = 0
+
+    while (depth < maxDepth && /%[\da-f]{2}/i.test(current)) {
+      let next: string
+      try {
+        next = decodeURIComponent(current)
+      }
+      catch {
+        break
+      }
+      if (next === current) {
+        break
+      }
+      current = next
+      depth++
+    }
+
+    return { value: current, depth }
+  }
+
+  /**
+   * Drops the leading spaces and control characters browsers ignore in URLs
+   * @private
+   */
+  private trimLeadingControls(value: string): string {
+    let start = 0
+    while (start < value.length && value.charCodeAt(start) <= 32) {
+      start++
+    }
+    return value.slice(start)
+  }
+}
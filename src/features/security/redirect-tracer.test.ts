@@ -0,0 +1,184 @@
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { createServer } from 'node:http'
+import { createServer as createHttpsServer } from 'node:https'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { SecurityError } from '../../errors'
+import { CA_SIGNED } from './__fixtures__/certificates'
+import { InMemoryDnsResolver } from './dns-resolver'
+import { NodeHttpClient } from './http-client'
+import { RedirectTracer } from './redirect-tracer'
+import { SecurityChecker } from './security-checker'
+import { SsrfGuard } from './ssrf-guard'
+
+// Redirect scenarios by path; both servers answer the same way
+function route(req: IncomingMessage, res: ServerResponse, origins: { http: string }): void {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost')
+  const redirect = (location: string, status = 302): void => {
+    res.writeHead(status, { location }).end()
+  }
+
+  const chain = /^\/chain\/(\d+)$/.exec(pathname)
+  if (chain) {
+    const left = Number(chain[1])
+    return left === 0 ? void res.writeHead(200).end() : redirect(`/chain/${left - 1}`)
+  }
+
+  switch (pathname) {
+    case '/relative/start':
+      return redirect('next?step=1', 301)
+    case '/relative/next':
+      return redirect('../final', 307)
+    case '/loop/a':
+      return redirect('b')
+    case '/loop/b':
+      return redirect('/loop/a')
+    case '/meta':
+      res.writeHead(200, { 'content-type': 'text/html' })
+      return void res.end('<html><head><meta http-equiv="refresh" content="0; url=/final?a=1&amp;b=2"></head></html>')
+    case '/downgrade':
+      return redirect(`${origins.http}/final`, 301)
+    case '/metadata':
+      return redirect('http://169.254.169.254/latest/meta-data/')
+    case '/internal':
+      return redirect('http://10.0.0.1/admin')
+    case '/named':
+      return redirect(`http://app.example.test:${new URL(origins.http).port}/final`)
+    case '/final':
+      return void res.writeHead(200, { 'content-type': 'text/plain' }).end('done')
+    default:
+      res.writeHead(404).end()
+  }
+}
+
+describe('redirectTracer', () => {
+  const origins = { http: '', https: '' }
+  const servers = [
+    createServer((req, res) => route(req, res, origins)),
+    createHttpsServer(CA_SIGNED, (req, res) => route(req, res, origins)),
+  ]
+  // The servers use a certificate from the test CA
+  const tracer = new RedirectTracer(new NodeHttpClient({ rejectUnauthorized: false }))
+
+  beforeAll(async () => {
+    for (const server of servers) {
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    }
+    origins.http = `http://127.0.0.1:${(servers[0].address() as AddressInfo).port}`
+    origins.https = `https://127.0.0.1:${(servers[1].address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    for (const server of servers) {
+      server.closeAllConnections()
+      await new Promise<void>(resolve => server.close(() => resolve()))
+    }
+  })
+
+  it('resolves relative Location headers against the current URL', async () => {
+    const trace = await tracer.trace(`${origins.http}/relative/start`)
+
+    expect(trace.hops.map(hop => [hop.status, hop.location])).toEqual([
+      [301, `${origins.http}/relative/next?step=1`],
+      [307, `${origins.http}/final`],
+      [200, undefined],
+    ])
+    expect(trace).toMatchObject({ finalUrl: `${origins.http}/final`, redirectCount: 2, loop: false, limitReached: false })
+  })
+
+  it('follows meta refresh tags', async () => {
+    const trace = await tracer.trace(`${origins.http}/meta`)
+
+    expect(trace.hops[0]).toMatchObject({ redirectType: 'meta-refresh', location: `${origins.http}/final?a=1&b=2` })
+    expect(trace.finalUrl).toBe(`${origins.http}/final?a=1&b=2`)
+  })
+
+  it('stops at the hop limit', async () => {
+    const trace = await tracer.trace(`${origins.http}/chain/10`, { maxRedirects: 3 })
+
+    expect(trace).toMatchObject({ redirectCount: 3, limitReached: true, finalUrl: `${origins.http}/chain/7` })
+    expect(trace.hops).toHaveLength(4)
+  })
+
+  it('detects redirect loops', async () => {
+    const trace = await tracer.trace(`${origins.http}/loop/a`)
+
+    expect(trace).toMatchObject({ loop: true, redirectCount: 1, limitReached: false })
+    expect(trace.hops.map(hop => hop.url)).toEqual([`${origins.http}/loop/a`, `${origins.http}/loop/b`])
+  })
+
+  it('flags redirects from HTTPS to HTTP', async () => {
+    const trace = await tracer.trace(`${origins.https}/downgrade`)
+
+    expect(trace.hops[0]).toMatchObject({ status: 301, downgrade: true, crossDomain: false })
+    expect(trace.hops[1]).toMatchObject({ url: `${origins.http}/final`, status: 200 })
+  })
+
+  describe('with an SSRF guard', () => {
+    // The test servers themselves are on the loopback interface
+    const guarded = new RedirectTracer(new NodeHttpClient(), new SsrfGuard({ allowLoopback: true }))
+
+    it('refuses redirects to cloud metadata before requesting them', async () => {
+      const trace = await guarded.trace(`${origins.http}/metadata`)
+
+      expect(trace).toMatchObject({
+        finalUrl: `${origins.http}/metadata`,
+        redirectCount: 1,
+        refusedUrl: 'http://169.254.169.254/latest/meta-data/',
+        error: expect.stringContaining('cloud-metadata'),
+      })
+      expect(trace.hops).toHaveLength(1)
+    })
+
+    it('refuses redirects to private addresses', async () => {
+      const trace = await guarded.trace(`${origins.http}/internal`)
+
+      expect(trace.refusedUrl).toBe('http://10.0.0.1/admin')
+      expect(trace.error).toContain('private')
+    })
+
+    it('connects to the address the guard vetted', async () => {
+      // app.example.test only resolves through the guard's resolver, so the
+      // request succeeds only if the client reuses the pinned address
+      const resolver = new InMemoryDnsResolver({ 'app.example.test': { a: ['127.0.0.1'] } })
+      const pinned = new RedirectTracer(new NodeHttpClient(), new SsrfGuard({ allowLoopback: true, resolver }))
+      const trace = await pinned.trace(`${origins.http}/named`)
+
+      expect(trace.error).toBeUndefined()
+      expect(trace.hops.at(-1)).toMatchObject({ url: `http://app.example.test:${new URL(origins.http).port}/final`, status: 200 })
+    })
+
+    it('refuses a starting URL the policy does not allow', async () => {
+      const strict = new RedirectTracer(new NodeHttpClient(), new SsrfGuard())
+
+      await expect(strict.trace(`${origins.http}/final`)).rejects.toThrow(SecurityError)
+    })
+
+    it('reports refused hops as a failed redirect check', async () => {
+      const checker = new SecurityChecker({ ssrfGuard: new SsrfGuard({ allowLoopback: true }) })
+      const { checks } = await checker.checkUrl(`${origins.http}/metadata`, {
+        checkSsl: false,
+        checkDns: false,
+        checkBlacklist: false,
+        checkInjection: false,
+      })
+
+      expect(checks.redirects).toMatchObject({
+        passed: false,
+        riskLevel: 'high',
+        details: expect.stringContaining('Redirect to http://169.254.169.254/latest/meta-data/ refused'),
+      })
+    })
+
+    it('checks hops with the default policy when no guard is given', async () => {
+      const { checks } = await new SecurityChecker().checkUrl(`${origins.http}/final`, {
+        checkSsl: false,
+        checkDns: false,
+        checkBlacklist: false,
+        checkInjection: false,
+      })
+
+      expect(checks.redirects).toMatchObject({ passed: false, details: expect.stringContaining('loopback') })
+    })
+  })
+})
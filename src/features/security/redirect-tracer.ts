@@ -0,0 +1,238 @@
+import type { SsrfGuard } from './ssrf-guard'
+import type {
+  HttpClient,
+  HttpResponse,
+  RedirectHop,
+  RedirectTraceOptions,
+  RedirectTraceResult,
+  RedirectType,
+  SsrfValidationResult,
+} from './types'
+import { ErrorCode, OperationError } from '../../errors'
+import { DomainHandler } from '../domain/core/domain-handler'
+import { NodeHttpClient } from './http-client'
+
+/**
+ * Status codes that carry a Location to follow
+ */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308])
+
+/**
+ * <meta http-equiv="refresh"> tags and their content attribute
+ */
+const META_REFRESH_PATTERN = /<meta\s[^>]*?http-equiv\s*=\s*["']?refresh[^>]*>/i
+const CONTENT_ATTRIBUTE_PATTERN = /\bcontent\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i
+
+/**
+ * Follows HTTP and refresh redirects and records every hop
+ * @class RedirectTracer
+ */
+export class RedirectTracer {
+  /**
+   * Handler used to find registrable domains
+   * @private
+   * @readonly
+   */
+  private readonly domainHandler = new DomainHandler()
+
+  /**
+   * Creates an instance of RedirectTracer
+   * @param {HttpClient} [client] - Client used for requests
+   * @param {SsrfGuard} [ssrfGuard] - Policy every hop must pass before it is requested
+   */
+  constructor(
+    private readonly client: HttpClient = new NodeHttpClient(),
+    private readonly ssrfGuard?: SsrfGuard,
+  ) {}
+
+  /**
+   * Follows the redirect chain starting at a URL
+   * @param {string} url - The starting URL
+   * @param {RedirectTraceOptions} [options] - Trace options
+   * @returns {Promise<RedirectTraceResult>} The hops and how the chain ended
+   * @throws {OperationError} If the first request fails
+   * @throws {SecurityError} If the SSRF policy refuses the starting URL
+   */
+  public async trace(url: string, options: RedirectTraceOptions = {}): Promise<RedirectTraceResult> {
+    const maxRedirects = options.maxRedirects ?? 5
+    const hops: RedirectHop[] = []
+    const visited = new Set<string>()
+    const result: RedirectTraceResult = {
+      url,
+      finalUrl: url,
+      hops,
+      redirectCount: 0,
+      loop: false,
+      limitReached: false,
+    }
+
+    let current = new URL(url).href
+    for (;;) {
+      // Checked before the request, so that a redirect cannot reach an
+      // address the first URL could not
+      let pinned: SsrfValidationResult | undefined
+      if (this.ssrfGuard) {
+        try {
+          pinned = await this.ssrfGuard.validate(current)
+        }
+        catch (error) {
+          if (hops.length === 0) {
+            throw error
+          }
+          result.refusedUrl = current
+          result.error = error instanceof Error ? error.message : String(error)
+          break
+        }
+      }
+
+      visited.add(current)
+      result.finalUrl = current
+
+      let response: HttpResponse
+      try {
+        response = await this.client.request(current, {
+          method: 'GET',
+          headers: {
+            'user-agent': options.userAgent ?? 'UrlMage/1.0',
+            'accept': 'text/html,*/*;q=0.8',
+          },
+          timeoutMs: options.timeoutMs ?? 5000,
+          // Connect to the vetted address, so that DNS cannot rebind in between
+          pinnedAddress: pinned?.pinnedAddress,
+          family: pinned?.family,
+        })
+      }
+      catch (error) {
+        if (hops.length === 0) {
+          throw error instanceof OperationError
+            ? error
+            : new OperationError(
+              `Request to ${current} failed`,
+              ErrorCode.OPERATION_FAILED,
+              { url: current },
+              error instanceof Error ? error : undefined,
+            )
+        }
+        result.error = error instanceof Error ? error.message : String(error)
+        break
+      }
+
+      const next = this.findRedirect(current, response)
+      const hop: RedirectHop = {
+        url: current,
+        status: response.status,
+        downgrade: false,
+        crossDomain: false,
+      }
+      hops.push(hop)
+
+      if (!next) {
+        break
+      }
+
+      hop.location = next.location
+      hop.redirectType = next.type
+      hop.downgrade = current.startsWith('https:') && !next.location.startsWith('https:')
+      hop.crossDomain = this.getSite(current) !== this.getSite(next.location)
+
+      if (!/^https?:/.test(next.location)) {
+        result.error = `Redirect to unsupported protocol: ${next.location}`
+        break
+      }
+      if (visited.has(next.location)) {
+        result.loop = true
+        break
+      }
+      if (result.redirectCount >= maxRedirects) {
+        result.limitReached = true
+        break
+      }
+
+      result.redirectCount++
+      current = next.location
+    }
+
+    return result
+  }
+
+  /**
+   * Finds where a response points to, if anywhere
+   * @private
+   */
+  private findRedirect(
+    url: string,
+    response: HttpResponse,
+  ): { location: string, type: RedirectType } | undefined {
+    const resolve = (target: string): string | undefined => {
+      try {
+        return new URL(target, url).href
+      }
+      catch {
+        return undefined
+      }
+    }
+
+    if (REDIRECT_STATUSES.has(response.status) && response.headers.location) {
+      const location = resolve(response.headers.location)
+      return location ? { location, type: 'http' } : undefined
+    }
+
+    const header = response.headers.refresh
+    const headerTarget = header ? this.parseRefresh(header) : undefined
+    if (headerTarget) {
+      const location = resolve(headerTarget)
+      return location ? { location, type: 'refresh-header' } : undefined
+    }
+
+    const tag = response.body ? META_REFRESH_PATTERN.exec(response.body)?.[0] : undefined
+    const content = tag ? CONTENT_ATTRIBUTE_PATTERN.exec(tag) : null
+    const metaTarget = content ? this.parseRefresh(content[1] ?? content[2] ?? content[3]) : undefined
+    if (metaTarget) {
+      const location = resolve(this.decodeEntities(metaTarget))
+      return location ? { location, type: 'meta-refresh' } : undefined
+    }
+
+    return undefined
+  }
+
+  /**
+   * Extracts the URL from a refresh value such as "0; url=/next"
+   * @private
+   */
+  private parseRefresh(value: string): string | undefined {
+    const separator = value.search(/[;,]/)
+    if (separator === -1) {
+      return undefined
+    }
+
+    const target = value
+      .slice(separator + 1)
+      .trim()
+      .replace(/^url\s*=\s*/i, '')
+      .replace(/^(["'])(.*)\1$/, '$2')
+      .trim()
+
+    return target || undefined
+  }
+
+  private decodeEntities(value: string): string {
+    return value
+      .replace(/&amp;/g, '&')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, '\'')
+  }
+
+  /**
+   * Returns the registrable domain of a URL, or its hostname when there is none
+   * @private
+   */
+  private getSite(url: string): string {
+    const { hostname } = new URL(url)
+    try {
+      return this.domainHandler.getRootDomain(hostname)
+    }
+    catch {
+      return hostname
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import type { AddressInfo } from 'node:net'
+import type { SafeBrowsingFetchResponse, SafeBrowsingFindResponse } from './types'
+import { Buffer } from 'node:buffer'
+import { createServer } from 'node:http'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { SafeBrowsingClient } from './safe-browsing-client'
+import { HttpSafeBrowsingTransport, LocalSafeBrowsingTransport } from './safe-browsing-transport'
+
+const MALWARE = { threatType: 'MALWARE' as const }
+
+// A Safe Browsing server on localhost, backed by LocalSafeBrowsingTransport
+async function startMockServer(backend: LocalSafeBrowsingTransport, wait: { update: string, find: string }) {
+  const calls: string[] = []
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = []
+    req.on('data', (chunk: Buffer) => chunks.push(chunk))
+    req.on('end', async () => {
+      const body = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+      const method = new URL(req.url ?? '/', 'http://localhost').pathname.split('/').pop()
+      calls.push(method ?? '')
+
+      let response: SafeBrowsingFetchResponse | SafeBrowsingFindResponse
+      if (method === 'threatListUpdates:fetch')
+        response = { ...await backend.fetchUpdates(body), minimumWaitDuration: wait.update }
+      else if (method === 'fullHashes:find')
+        response = { ...await backend.findFullHashes(body), minimumWaitDuration: wait.find }
+      else
+        return res.writeHead(404).end()
+
+      res.writeHead(200, { 'content-type': 'application/json' }).end(JSON.stringify(response))
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  return {
+    calls,
+    baseUrl: `http://127.0.0.1:${port}/v4`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  }
+}
+
+describe('safeBrowsingClient', () => {
+  let backend: LocalSafeBrowsingTransport
+  let server: Awaited<ReturnType<typeof startMockServer>>
+  let clock: number
+  const wait = { update: '0s', find: '0s' }
+
+  const createClient = (): SafeBrowsingClient => new SafeBrowsingClient(
+    new HttpSafeBrowsingTransport({ apiKey: 'test', baseUrl: server.baseUrl, timeoutMs: 2000 }),
+    { lists: [{ threatType: 'MALWARE', platformType: 'ANY_PLATFORM', threatEntryType: 'URL' }], now: () => clock },
+  )
+
+  beforeEach(async () => {
+    clock = 1_000_000
+    wait.update = '0s'
+    wait.find = '0s'
+    backend = new LocalSafeBrowsingTransport([{ ...MALWARE, urls: ['evil.example/'] }], { cacheSeconds: 300 })
+    server = await startMockServer(backend, wait)
+  })
+
+  afterEach(async () => {
+    await server.close()
+  })
+
+  it('downloads the prefix database and applies partial updates', async () => {
+    const client = createClient()
+
+    const first = await client.update()
+    expect(first.lists[0]).toMatchObject({ responseType: 'FULL_UPDATE', additions: 1, checksumMismatch: false })
+    expect(client.getDatabaseInfo()[0].size).toBe(1)
+
+    backend.addUrls(MALWARE, ['bad.example/download'])
+    const second = await client.update()
+    expect(second.lists[0]).toMatchObject({ responseType: 'PARTIAL_UPDATE', additions: 1, size: 2 })
+  })
+
+  it('only asks for full hashes on prefix hits', async () => {
+    const client = createClient()
+    await client.update()
+
+    expect(await client.lookup('http://example.com/')).toEqual([])
+    expect(server.calls).not.toContain('fullHashes:find')
+
+    const matches = await client.lookup('http://evil.example/some/page.html')
+    expect(matches).toHaveLength(1)
+    expect(matches[0]).toMatchObject({ threatType: 'MALWARE', expression: 'evil.example/' })
+    expect(server.calls.filter(call => call === 'fullHashes:find')).toHaveLength(1)
+  })
+
+  it('answers from the cache until it expires', async () => {
+    const client = createClient()
+    await client.update()
+    expect(await client.lookup('http://evil.example/')).toHaveLength(1)
+
+    // Delisted on the server, but the local database still holds the prefix
+    backend.removeUrls(MALWARE, ['evil.example/'])
+    clock += 299_000
+    expect(await client.lookup('http://evil.example/')).toHaveLength(1)
+    expect(server.calls.filter(call => call === 'fullHashes:find')).toHaveLength(1)
+
+    clock += 2_000
+    expect(await client.lookup('http://evil.example/')).toEqual([])
+    expect(server.calls.filter(call => call === 'fullHashes:find')).toHaveLength(2)
+  })
+
+  it('waits as long as the server asks between updates', async () => {
+    wait.update = '60s'
+    const client = createClient()
+
+    await client.update()
+    const skipped = await client.update()
+    expect(skipped.updated).toBe(false)
+    expect(skipped.nextUpdateAt).toBe(clock + 60_000)
+    expect(server.calls).toEqual(['threatListUpdates:fetch'])
+
+    expect((await client.update(true)).updated).toBe(true)
+    clock += 60_000
+    expect((await client.update()).updated).toBe(true)
+    expect(server.calls).toHaveLength(3)
+  })
+
+  it('waits as long as the server asks between full hash requests', async () => {
+    wait.find = '30s'
+    backend.addUrls(MALWARE, ['other.example/'])
+    const client = createClient()
+    await client.update()
+
+    expect(await client.lookup('http://evil.example/')).toHaveLength(1)
+    // A prefix hit during the wait goes unanswered rather than to the server
+    expect(await client.lookup('http://other.example/')).toEqual([])
+    expect(server.calls.filter(call => call === 'fullHashes:find')).toHaveLength(1)
+
+    clock += 30_000
+    expect(await client.lookup('http://other.example/')).toHaveLength(1)
+    expect(server.calls.filter(call => call === 'fullHashes:find')).toHaveLength(2)
+  })
+})
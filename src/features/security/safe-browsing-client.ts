@@ -0,0 +1,340 @@
+import type {
+  SafeBrowsingClientInfo,
+  SafeBrowsingClientOptions,
+  SafeBrowsingListDescriptor,
+  SafeBrowsingListUpdate,
+  SafeBrowsingMatch,
+  SafeBrowsingThreatMatch,
+  SafeBrowsingTransport,
+  SafeBrowsingUpdateResult,
+} from './types'
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+import { ErrorCode, ParseError } from '../../errors'
+import { SafeBrowsingUrl } from './safe-browsing-url'
+
+interface PrefixList {
+  descriptor: SafeBrowsingListDescriptor
+  state: string
+  /** Hex prefixes, sorted as the server sorts them */
+  prefixes: string[]
+  /** Same prefixes, for lookups */
+  index: Set<string>
+  /** Hex lengths of the prefixes */
+  lengths: Set<number>
+}
+
+interface CachedHash {
+  matches: SafeBrowsingThreatMatch[]
+  expiresAt: number
+}
+
+/**
+ * Lists checked when none are configured
+ */
+const DEFAULT_SAFE_BROWSING_LISTS: SafeBrowsingListDescriptor[] = [
+  { threatType: 'MALWARE', platformType: 'ANY_PLATFORM', threatEntryType: 'URL' },
+  { threatType: 'SOCIAL_ENGINEERING', platformType: 'ANY_PLATFORM', threatEntryType: 'URL' },
+  { threatType: 'UNWANTED_SOFTWARE', platformType: 'ANY_PLATFORM', threatEntryType: 'URL' },
+]
+
+/**
+ * Safe Browsing v4 Update API client. It keeps a local database of hash
+ * prefixes and only asks the server for full hashes when a URL hits one
+ * @class SafeBrowsingClient
+ */
+export class SafeBrowsingClient {
+  /**
+   * Local prefix database by list key
+   * @private
+   * @readonly
+   */
+  private readonly lists = new Map<string, PrefixList>()
+
+  /**
+   * Found full hashes by hex hash
+   * @private
+   * @readonly
+   */
+  private readonly positiveCache = new Map<string, CachedHash>()
+
+  /**
+   * Expiry of prefixes the server reported no full hashes for, by hex prefix
+   * @private
+   * @readonly
+   */
+  private readonly negativeCache = new Map<string, number>()
+
+  /**
+   * Canonicalizer for looked-up URLs
+   * @private
+   * @readonly
+   */
+  private readonly urls = new SafeBrowsingUrl()
+
+  /**
+   * Earliest time of the next update request
+   * @private
+   */
+  private nextUpdateAt = 0
+
+  /**
+   * Earliest time of the next full hash request
+   * @private
+   */
+  private nextFindAt = 0
+
+  /**
+   * Creates an instance of SafeBrowsingClient
+   * @param {SafeBrowsingTransport} transport - Transport for API requests
+   * @param {SafeBrowsingClientOptions} [options] - Client options
+   */
+  constructor(
+    private readonly transport: SafeBrowsingTransport,
+    private readonly options: SafeBrowsingClientOptions = {},
+  ) {
+    for (const descriptor of options.lists ?? DEFAULT_SAFE_BROWSING_LISTS) {
+      this.lists.set(this.key(descriptor), { descriptor, state: '', prefixes: [], index: new Set(), lengths: new Set() })
+    }
+  }
+
+  /**
+   * Brings the local prefix database up to date. Does nothing while the
+   * minimum wait the server asked for lasts, unless forced
+   * @param {boolean} [force] - Whether to ignore the minimum wait
+   * @returns {Promise<SafeBrowsingUpdateResult>} What changed
+   * @throws {OperationError} If the transport fails
+   * @throws {ParseError} If an update does not apply to the local list
+   */
+  public async update(force = false): Promise<SafeBrowsingUpdateResult> {
+    if (!force && this.now() < this.nextUpdateAt) {
+      return { updated: false, lists: [], nextUpdateAt: this.nextUpdateAt }
+    }
+
+    const response = await this.transport.fetchUpdates({
+      client: this.getClientInfo(),
+      listUpdateRequests: Array.from(this.lists.values(), list => ({
+        ...list.descriptor,
+        state: list.state,
+        constraints: {
+          maxDatabaseEntries: this.options.maxDatabaseEntries,
+          supportedCompressions: ['RAW'],
+        },
+      })),
+    })
+
+    const lists: SafeBrowsingUpdateResult['lists'] = []
+    for (const update of response.listUpdateResponses ?? []) {
+      const list = this.lists.get(this.key(update))
+      if (list) {
+        lists.push({ ...list.descriptor, responseType: update.responseType, ...this.applyUpdate(list, update) })
+      }
+    }
+
+    this.nextUpdateAt = this.now() + this.parseDuration(response.minimumWaitDuration)
+    return { updated: true, lists, nextUpdateAt: this.nextUpdateAt }
+  }
+
+  /**
+   * Looks a URL up. Only expressions whose hash prefix is in the local
+   * database are sent to the server, and answers are cached for as long
+   * as the server allows
+   * @param {string} url - The URL
+   * @returns {Promise<SafeBrowsingMatch[]>} Lists the URL is on
+   * @throws {OperationError} If the transport fails
+   */
+  public async lookup(url: string): Promise<SafeBrowsingMatch[]> {
+    const now = this.now()
+    const hits = this.urls.getExpressions(url).flatMap((expression) => {
+      const hash = this.urls.hash(expression)
+      const prefix = this.findPrefix(hash)
+      return prefix ? [{ expression, hash: hash.toString('hex'), prefix }] : []
+    })
+
+    const pending = hits.filter(hit => !this.isCached(hit.hash, hit.prefix, now))
+    if (pending.length > 0 && now >= this.nextFindAt) {
+      await this.findFullHashes(Array.from(new Set(pending.map(hit => hit.prefix))))
+    }
+
+    const matches: SafeBrowsingMatch[] = []
+    for (const hit of hits) {
+      const cached = this.positiveCache.get(hit.hash)
+      // Expired answers only count again once the server repeats them
+      if (!cached || cached.expiresAt <= now) {
+        continue
+      }
+      for (const match of cached.matches) {
+        matches.push({
+          threatType: match.threatType,
+          platformType: match.platformType,
+          threatEntryType: match.threatEntryType,
+          expression: hit.expression,
+          hash: hit.hash,
+        })
+      }
+    }
+    return matches
+  }
+
+  /**
+   * Returns the state and size of every list in the local database
+   * @returns {Array<SafeBrowsingListDescriptor & { state: string, size: number }>} The lists
+   */
+  public getDatabaseInfo(): Array<SafeBrowsingListDescriptor & { state: string, size: number }> {
+    return Array.from(this.lists.values(), list => ({
+      ...list.descriptor,
+      state: list.state,
+      size: list.prefixes.length,
+    }))
+  }
+
+  /**
+   * Applies removals and additions to a list and verifies its checksum. A
+   * list that fails verification is cleared so that the next update is full
+   * @private
+   */
+  private applyUpdate(
+    list: PrefixList,
+    update: SafeBrowsingListUpdate,
+  ): { additions: number, removals: number, size: number, checksumMismatch: boolean } {
+    let prefixes = update.responseType === 'FULL_UPDATE' ? [] : list.prefixes
+
+    const removed = new Set<number>()
+    for (const removal of update.removals ?? []) {
+      this.assertRaw(removal.compressionType)
+      removal.rawIndices?.indices?.forEach(index => removed.add(index))
+    }
+    if (removed.size > 0) {
+      prefixes = prefixes.filter((_, index) => !removed.has(index))
+    }
+
+    const added: string[] = []
+    for (const addition of update.additions ?? []) {
+      this.assertRaw(addition.compressionType)
+      const { prefixSize = 4, rawHashes = '' } = addition.rawHashes ?? {}
+      const bytes = Buffer.from(rawHashes, 'base64')
+      for (let offset = 0; offset + prefixSize <= bytes.length; offset += prefixSize) {
+        added.push(bytes.subarray(offset, offset + prefixSize).toString('hex'))
+      }
+    }
+    prefixes = prefixes.concat(added).sort()
+
+    const checksum = createHash('sha256').update(prefixes.join(''), 'hex').digest('base64')
+    const checksumMismatch = update.checksum !== undefined && update.checksum.sha256 !== checksum
+    if (checksumMismatch) {
+      prefixes = []
+    }
+
+    list.prefixes = prefixes
+    list.index = new Set(prefixes)
+    list.lengths = new Set(prefixes.map(prefix => prefix.length))
+    list.state = checksumMismatch ? '' : update.newClientState
+    return { additions: added.length, removals: removed.size, size: prefixes.length, checksumMismatch }
+  }
+
+  /**
+   * Asks the server for the full hashes behind some prefixes and caches the answer
+   * @private
+   */
+  private async findFullHashes(prefixes: string[]): Promise<void> {
+    const lists = Array.from(this.lists.values(), list => list.descriptor)
+    const response = await this.transport.findFullHashes({
+      client: this.getClientInfo(),
+      clientStates: Array.from(this.lists.values(), list => list.state),
+      threatInfo: {
+        threatTypes: Array.from(new Set(lists.map(list => list.threatType))),
+        platformTypes: Array.from(new Set(lists.map(list => list.platformType))),
+        threatEntryTypes: Array.from(new Set(lists.map(list => list.threatEntryType))),
+        threatEntries: prefixes.map(prefix => ({ hash: Buffer.from(prefix, 'hex').toString('base64') })),
+      },
+    })
+
+    const now = this.now()
+    const negativeExpiry = now + this.parseDuration(response.negativeCacheDuration)
+    prefixes.forEach(prefix => this.negativeCache.set(prefix, negativeExpiry))
+
+    // The answer replaces everything cached under the requested prefixes,
+    // so hashes the server no longer returns stop matching
+    for (const hash of this.positiveCache.keys()) {
+      if (prefixes.some(prefix => hash.startsWith(prefix))) {
+        this.positiveCache.delete(hash)
+      }
+    }
+
+    const found = new Map<string, CachedHash>()
+    for (const match of response.matches ?? []) {
+      const hash = Buffer.from(match.threat.hash, 'base64').toString('hex')
+      const entry = found.get(hash) ?? { matches: [], expiresAt: Number.POSITIVE_INFINITY }
+      entry.matches.push(match)
+      entry.expiresAt = Math.min(entry.expiresAt, now + this.parseDuration(match.cacheDuration))
+      found.set(hash, entry)
+    }
+    found.forEach((entry, hash) => this.positiveCache.set(hash, entry))
+
+    this.nextFindAt = now + this.parseDuration(response.minimumWaitDuration)
+  }
+
+  /**
+   * Returns the hex prefix of a hash found in any list
+   * @private
+   */
+  private findPrefix(hash: Buffer): string | undefined {
+    const hex = hash.toString('hex')
+    for (const list of this.lists.values()) {
+      // Lists hold prefixes of a handful of lengths, so try each length once
+      for (const length of list.lengths) {
+        const prefix = hex.slice(0, length)
+        if (list.index.has(prefix)) {
+          return prefix
+        }
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Whether the answer for a full hash is known without asking the server
+   * @private
+   */
+  private isCached(hash: string, prefix: string, now: number): boolean {
+    const positive = this.positiveCache.get(hash)
+    if (positive && positive.expiresAt > now) {
+      return true
+    }
+    return (this.negativeCache.get(prefix) ?? 0) > now
+  }
+
+  /**
+   * Parses a protobuf JSON duration such as "300.5s" into milliseconds
+   * @private
+   */
+  private parseDuration(duration?: string): number {
+    const match = duration ? /^(\d+(?:\.\d+)?)s$/.exec(duration) : null
+    return match ? Math.round(Number.parseFloat(match[1]) * 1000) : 0
+  }
+
+  private assertRaw(compressionType?: string): void {
+    if (compressionType !== undefined && compressionType !== 'RAW') {
+      throw new ParseError(
+        `Unsupported Safe Browsing compression: ${compressionType}`,
+        ErrorCode.PARSE_ERROR,
+        { compressionType },
+      )
+    }
+  }
+
+  private getClientInfo(): SafeBrowsingClientInfo {
+    return {
+      clientId: this.options.clientId ?? 'urlmage',
+      clientVersion: this.options.clientVersion ?? '1.0.0',
+    }
+  }
+
+  private now(): number {
+    return this.options.now ? this.options.now() : Date.now()
+  }
+
+  private key(list: SafeBrowsingListDescriptor): string {
+    return `${list.threatType}/${list.platformType}/${list.threatEntryType}`
+  }
+}
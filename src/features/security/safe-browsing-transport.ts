@@ -0,0 +1,292 @@
+import type {
+  LocalSafeBrowsingList,
+  SafeBrowsingFetchRequest,
+  SafeBrowsingFetchResponse,
+  SafeBrowsingFindRequest,
+  SafeBrowsingFindResponse,
+  SafeBrowsingListDescriptor,
+  SafeBrowsingListUpdate,
+  SafeBrowsingThreatMatch,
+  SafeBrowsingTransport,
+} from './types'
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+import { request as httpRequest } from 'node:http'
+import { request as httpsRequest } from 'node:https'
+import { ErrorCode, OperationError } from '../../errors'
+import { SafeBrowsingUrl } from './safe-browsing-url'
+
+/**
+ * Transport that talks to the Safe Browsing v4 REST API, or to any server
+ * speaking its JSON protocol
+ * @class HttpSafeBrowsingTransport
+ */
+export class HttpSafeBrowsingTransport implements SafeBrowsingTransport {
+  /**
+   * Creates an instance of HttpSafeBrowsingTransport
+   * @param {object} options - Transport options
+   * @param {string} options.apiKey - API key sent as the "key" parameter
+   * @param {string} [options.baseUrl] - API root, e.g. a local mock server
+   * @param {number} [options.timeoutMs] - Timeout per request in milliseconds
+   */
+  constructor(private readonly options: { apiKey: string, baseUrl?: string, timeoutMs?: number }) {}
+
+  public async fetchUpdates(request: SafeBrowsingFetchRequest): Promise<SafeBrowsingFetchResponse> {
+    return this.post('threatListUpdates:fetch', request)
+  }
+
+  public async findFullHashes(request: SafeBrowsingFindRequest): Promise<SafeBrowsingFindResponse> {
+    return this.post('fullHashes:find', request)
+  }
+
+  /**
+   * Posts a JSON body and parses the JSON response
+   * @private
+   */
+  private async post<T>(method: string, body: unknown): Promise<T> {
+    const baseUrl = (this.options.baseUrl ?? 'https://safebrowsing.googleapis.com/v4').replace(/\/+$/, '')
+    const target = new URL(`${baseUrl}/${method}`)
+    target.searchParams.set('key', this.options.apiKey)
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest
+    const payload = JSON.stringify(body)
+    const timeoutMs = this.options.timeoutMs ?? 10_000
+
+    return new Promise((resolve, reject) => {
+      const fail = (message: string, cause?: Error): OperationError => new OperationError(
+        `Safe Browsing ${method} failed: ${message}`,
+        ErrorCode.OPERATION_FAILED,
+        { method },
+        cause,
+      )
+
+      const req = send(target, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'content-length': Buffer.byteLength(payload),
+        },
+        timeout: timeoutMs,
+      }, (res) => {
+        const chunks: Buffer[] = []
+        res.on('data', (chunk: Buffer) => chunks.push(chunk))
+        res.on('error', error => reject(fail(error.message, error)))
+        res.on('end', () => {
+          const text = Buffer.concat(chunks).toString('utf8')
+          const status = res.statusCode ?? 0
+          if (status < 200 || status >= 300) {
+            reject(fail(`HTTP ${status} ${text.slice(0, 200)}`.trim()))
+            return
+          }
+
+          try {
+            resolve((text ? JSON.parse(text) : {}) as T)
+          }
+          catch (error) {
+            reject(fail('response is not JSON', error instanceof Error ? error : undefined))
+          }
+        })
+      })
+
+      req.on('timeout', () => req.destroy(fail(`timed out after ${timeoutMs} ms`)))
+      req.on('error', error => reject(error instanceof OperationError ? error : fail(error.message, error)))
+      req.end(payload)
+    })
+  }
+}
+
+interface LocalList {
+  descriptor: SafeBrowsingListDescriptor
+  /** Full hashes by expression */
+  hashes: Map<string, Buffer>
+  version: number
+  /** Sorted hex prefixes served at each version */
+  snapshots: Map<number, string[]>
+}
+
+/**
+ * Stand-in for the Safe Browsing servers that serves lists built from
+ * local URLs. It speaks the same protocol, including partial updates and
+ * checksums, so clients can be exercised without network access
+ * @class LocalSafeBrowsingTransport
+ */
+export class LocalSafeBrowsingTransport implements SafeBrowsingTransport {
+  /**
+   * Lists by descriptor key
+   * @private
+   * @readonly
+   */
+  private readonly lists = new Map<string, LocalList>()
+
+  /**
+   * Canonicalizer for list entries
+   * @private
+   * @readonly
+   */
+  private readonly urls = new SafeBrowsingUrl()
+
+  /**
+   * Number of requests received, by method
+   */
+  public readonly requests = { fetchUpdates: 0, findFullHashes: 0 }
+
+  /**
+   * Creates an instance of LocalSafeBrowsingTransport
+   * @param {LocalSafeBrowsingList[]} [lists] - Initial list entries
+   * @param {object} [options] - Transport options
+   * @param {number} [options.prefixSize] - Bytes per served hash prefix
+   * @param {number} [options.cacheSeconds] - Cache and negative cache duration of found hashes
+   */
+  constructor(
+    lists: LocalSafeBrowsingList[] = [],
+    private readonly options: { prefixSize?: number, cacheSeconds?: number } = {},
+  ) {
+    for (const list of lists) {
+      this.addUrls(list, list.urls)
+    }
+  }
+
+  /**
+   * Adds entries to a list, creating it if needed
+   * @param {Partial<SafeBrowsingListDescriptor> & { threatType: string }} list - The list
+   * @param {string[]} urls - URLs or expressions such as "evil.example/"
+   */
+  public addUrls(list: Partial<SafeBrowsingListDescriptor> & { threatType: string }, urls: string[]): void {
+    const local = this.getList(list)
+    for (const url of urls) {
+      const expression = this.toExpression(url)
+      local.hashes.set(expression, this.urls.hash(expression))
+    }
+    this.publish(local)
+  }
+
+  /**
+   * Removes entries from a list
+   * @param {Partial<SafeBrowsingListDescriptor> & { threatType: string }} list - The list
+   * @param {string[]} urls - URLs or expressions added earlier
+   */
+  public removeUrls(list: Partial<SafeBrowsingListDescriptor> & { threatType: string }, urls: string[]): void {
+    const local = this.getList(list)
+    for (const url of urls) {
+      local.hashes.delete(this.toExpression(url))
+    }
+    this.publish(local)
+  }
+
+  public async fetchUpdates(request: SafeBrowsingFetchRequest): Promise<SafeBrowsingFetchResponse> {
+    this.requests.fetchUpdates++
+    const listUpdateResponses: SafeBrowsingListUpdate[] = []
+
+    for (const { threatType, platformType, threatEntryType, state } of request.listUpdateRequests) {
+      const local = this.lists.get(this.key({ threatType, platformType, threatEntryType }))
+      if (!local) {
+        continue
+      }
+
+      const current = local.snapshots.get(local.version) ?? []
+      const previous = local.snapshots.get(Number(state))
+      const response: SafeBrowsingListUpdate = {
+        threatType,
+        platformType,
+        threatEntryType,
+        responseType: previous ? 'PARTIAL_UPDATE' : 'FULL_UPDATE',
+        newClientState: String(local.version),
+        checksum: { sha256: this.checksum(current) },
+      }
+
+      const base = previous ?? []
+      const kept = new Set(current)
+      const removed = base.flatMap((prefix, index) => kept.has(prefix) ? [] : [index])
+      const had = new Set(base)
+      const added = current.filter(prefix => !had.has(prefix))
+
+      if (removed.length > 0) {
+        response.removals = [{ compressionType: 'RAW', rawIndices: { indices: removed } }]
+      }
+      if (added.length > 0) {
+        response.additions = [{
+          compressionType: 'RAW',
+          rawHashes: {
+            prefixSize: this.options.prefixSize ?? 4,
+            rawHashes: Buffer.from(added.join(''), 'hex').toString('base64'),
+          },
+        }]
+      }
+      listUpdateResponses.push(response)
+    }
+
+    return { listUpdateResponses, minimumWaitDuration: '0s' }
+  }
+
+  public async findFullHashes(request: SafeBrowsingFindRequest): Promise<SafeBrowsingFindResponse> {
+    this.requests.findFullHashes++
+    const { threatTypes, platformTypes, threatEntryTypes, threatEntries } = request.threatInfo
+    const prefixes = threatEntries.map(entry => Buffer.from(entry.hash, 'base64'))
+    const cacheDuration = `${this.options.cacheSeconds ?? 300}s`
+    const matches: SafeBrowsingThreatMatch[] = []
+
+    for (const { descriptor, hashes } of this.lists.values()) {
+      if (
+        !threatTypes.includes(descriptor.threatType)
+        || !platformTypes.includes(descriptor.platformType)
+        || !threatEntryTypes.includes(descriptor.threatEntryType)
+      ) {
+        continue
+      }
+
+      for (const hash of hashes.values()) {
+        if (prefixes.some(prefix => hash.subarray(0, prefix.length).equals(prefix))) {
+          matches.push({ ...descriptor, threat: { hash: hash.toString('base64') }, cacheDuration })
+        }
+      }
+    }
+
+    return { matches, negativeCacheDuration: cacheDuration }
+  }
+
+  /**
+   * Returns a list, creating it if needed
+   * @private
+   */
+  private getList(list: Partial<SafeBrowsingListDescriptor> & { threatType: string }): LocalList {
+    const descriptor: SafeBrowsingListDescriptor = {
+      threatType: list.threatType,
+      platformType: list.platformType ?? 'ANY_PLATFORM',
+      threatEntryType: list.threatEntryType ?? 'URL',
+    }
+    const key = this.key(descriptor)
+
+    let local = this.lists.get(key)
+    if (!local) {
+      local = { descriptor, hashes: new Map(), version: 0, snapshots: new Map() }
+      this.lists.set(key, local)
+    }
+    return local
+  }
+
+  /**
+   * Stores the current prefixes of a list as a new version
+   * @private
+   */
+  private publish(list: LocalList): void {
+    const prefixSize = this.options.prefixSize ?? 4
+    const prefixes = new Set(Array.from(list.hashes.values(), hash => hash.subarray(0, prefixSize).toString('hex')))
+    list.version++
+    list.snapshots.set(list.version, Array.from(prefixes).sort())
+  }
+
+  /**
+   * Turns a URL into the most specific expression it is listed under
+   * @private
+   */
+  private toExpression(url: string): string {
+    return this.urls.canonicalize(url).replace(/^[a-z][\w+.-]*:\/\//i, '')
+  }
+
+  private checksum(prefixes: string[]): string {
+    return createHash('sha256').update(prefixes.join(''), 'hex').digest('base64')
+  }
+
+  private key(list: SafeBrowsingListDescriptor): string {
+    return `${list.threatType}/${list.platformType}/${list.threatEntryType}`
+  }
+}
@@ -0,0 +1,201 @@
+import { Buffer } from 'node:buffer'
+import { createHash } from 'node:crypto'
+import { IpHandler } from '../domain/core/ip-handler'
+
+/**
+ * Percent escapes, decoded until none are left
+ */
+const PERCENT_ESCAPE_PATTERN = /%([\da-f]{2})/gi
+
+/**
+ * URL canonicalization and lookup expressions as defined by the
+ * Safe Browsing v4 API
+ * @class SafeBrowsingUrl
+ */
+export class SafeBrowsingUrl {
+  /**
+   * Handler used to read numeric IPv4 hosts
+   * @private
+   * @readonly
+   */
+  private readonly ipHandler = new IpHandler()
+
+  /**
+   * Canonicalizes a URL the way Safe Browsing does before hashing
+   * @param {string} url - The URL; "http://" is assumed when there is no scheme
+   * @returns {string} The canonical URL
+   */
+  public canonicalize(url: string): string {
+    const { scheme, host, path, query } = this.split(url)
+    return `${scheme}://${host}${path}${query === undefined ? '' : `?${query}`}`
+  }
+
+  /**
+   * Returns the host suffix / path prefix expressions to look up for a URL,
+   * most specific first
+   * @param {string} url - The URL
+   * @returns {string[]} Up to 30 expressions such as "a.b.example/1/"
+   */
+  public getExpressions(url: string): string[] {
+    const { host, path, query } = this.split(url)
+    const expressions = new Set<string>()
+
+    for (const suffix of this.getHostSuffixes(host)) {
+      for (const prefix of this.getPathPrefixes(path, query)) {
+        expressions.add(`${suffix}${prefix}`)
+      }
+    }
+
+    return Array.from(expressions)
+  }
+
+  /**
+   * Hashes an expression with SHA-256
+   * @param {string} expression - The expression
+   * @returns {Buffer} The 32-byte hash
+   */
+  public hash(expression: string): Buffer {
+    return createHash('sha256').update(expression, 'latin1').digest()
+  }
+
+  /**
+   * Splits a URL into its canonical scheme, host, path and query
+   * @private
+   */
+  private split(url: string): { scheme: string, host: string, path: string, query?: string } {
+    // Work on bytes so that escapes of non-ASCII characters decode and re-encode losslessly
+    let rest = Buffer.from(url.trim(), 'utf8').toString('latin1').replace(/[\t\n\r]/g, '')
+
+    const hashIndex = rest.indexOf('#')
+    if (hashIndex !== -1) {
+      rest = rest.slice(0, hashIndex)
+    }
+
+    const schemeMatch = /^([a-z][\w+.-]*):\/\//i.exec(rest)
+    const scheme = schemeMatch ? schemeMatch[1].toLowerCase() : 'http'
+    rest = schemeMatch ? rest.slice(schemeMatch[0].length) : rest
+
+    const authorityEnd = rest.search(/[/?]/)
+    const authority = authorityEnd === -1 ? rest : rest.slice(0, authorityEnd)
+    rest = authorityEnd === -1 ? '' : rest.slice(authorityEnd)
+
+    const queryIndex = rest.indexOf('?')
+    const rawPath = queryIndex === -1 ? rest : rest.slice(0, queryIndex)
+    const rawQuery = queryIndex === -1 ? undefined : rest.slice(queryIndex + 1)
+
+    return {
+      scheme,
+      host: this.escape(this.canonicalizeHost(authority)),
+      path: this.escape(this.canonicalizePath(this.unescape(rawPath))),
+      query: rawQuery === undefined ? undefined : this.escape(this.unescape(rawQuery)),
+    }
+  }
+
+  /**
+   * Drops credentials and port, trims and collapses dots, lowercases and
+   * rewrites numeric IPv4 hosts as four decimal parts
+   * @private
+   */
+  private canonicalizeHost(authority: string): string {
+    const hostPort = authority.slice(authority.lastIndexOf('@') + 1)
+    const host = this.unescape(hostPort.replace(/:\d*$/, ''))
+      .replace(/^\.+|\.+$/g, '')
+      .replace(/\.{2,}/g, '.')
+      .toLowerCase()
+
+    return this.ipHandler.normalizeIPv4(host) ?? host
+  }
+
+  /**
+   * Resolves "." and ".." segments and collapses repeated slashes
+   * @private
+   */
+  private canonicalizePath(path: string): string {
+    const segments: string[] = []
+    const parts = path.split('/')
+
+    parts.forEach((part, index) => {
+      if (part === '..') {
+        segments.pop()
+      }
+      else if (part !== '.' && part !== '') {
+        segments.push(part)
+      }
+
+      // A path ending in a dot segment names a directory
+      if (index === parts.length - 1 && segments.length > 0 && (part === '.' || part === '..')) {
+        segments.push('')
+      }
+    })
+
+    const trailingSlash = path.endsWith('/') && segments.length > 0 && segments[segments.length - 1] !== ''
+    return `/${segments.join('/')}${trailingSlash ? '/' : ''}`
+  }
+
+  /**
+   * Returns the exact host and, for names, up to four parent domains built
+   * from the last five labels, never the TLD alone
+   * @private
+   */
+  private getHostSuffixes(host: string): string[] {
+    if (/^\d+(?:\.\d+){3}$/.test(host) || host.startsWith('[')) {
+      return [host]
+    }
+
+    const labels = host.split('.')
+    const suffixes = [host]
+    for (let start = Math.max(1, labels.length - 5); start <= labels.length - 2; start++) {
+      suffixes.push(labels.slice(start).join('.'))
+    }
+    return suffixes
+  }
+
+  /**
+   * Returns the path with and without the query, then up to four directory
+   * prefixes starting at the root
+   * @private
+   */
+  private getPathPrefixes(path: string, query?: string): string[] {
+    const prefixes = query === undefined ? [path] : [`${path}?${query}`, path]
+    const directories = path.split('/').slice(1, -1)
+
+    let prefix = '/'
+    prefixes.push(prefix)
+    for (const directory of directories.slice(0, 3)) {
+      prefix += `${directory}/`
+      prefixes.push(prefix)
+    }
+
+    return Array.from(new Set(prefixes))
+  }
+
+  /**
+   * Decodes percent escapes until none are left
+   * @private
+   */
+  private unescape(value: string): string {
+    let current = value
+    for (;;) {
+      const next = current.replace(PERCENT_ESCAPE_PATTERN, (_, hex: string) => String.fromCharCode(Number.parseInt(hex, 16)))
+      if (next === current) {
+        return current
+      }
+      current = next
+    }
+  }
+
+  /**
+   * Escapes control characters, spaces, non-ASCII bytes, "#" and "%"
+   * @private
+   */
+  private escape(value: string): string {
+    let escaped = ''
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i)
+      escaped += code <= 32 || code >= 127 || code === 35 || code === 37
+        ? `%${code.toString(16).toUpperCase().padStart(2, '0')}`
+        : value[i]
+    }
+    return escaped
+  }
+}
@@ -1,10 +1,24 @@
+import type { Blocklist } from '../blocklist/blocklist'
+import type { SafeBrowsingClient } from './safe-browsing-client'
 import type {
+  DnsInspectionResult,
+  RedirectTraceResult,
+  SecurityCheckerOptions,
   SecurityCheckResult,
   SecurityScanOptions,
   SecurityScanResult,
+  TlsInspectionResult,
 } from './types'
 import { ErrorCode, SecurityError } from '../../errors'
+import { DnsInspector } from './dns-inspector'
+import { NodeDnsResolver } from './dns-resolver'
+import { InjectionScanner } from './injection-scanner'
+import { OpenRedirectDetector } from './open-redirect-detector'
+import { RedirectTracer } from './redirect-tracer'
+import { SsrfGuard } from './ssrf-guard'
+import { TlsInspector } from './tls-inspector'
 import {
+  SECURITY_RISK_SEVERITY,
   SecurityRiskLevel,
 } from './types'
 
@@ -26,6 +40,70 @@ export class SecurityChecker {
     checkSsl: true,
     checkDns: true,
     checkBlacklist: true,
+    checkInjection: true,
+  }
+
+  /**
+   * Inspector used for the SSL check
+   * @private
+   * @readonly
+   */
+  private readonly tlsInspector: TlsInspector
+
+  /**
+   * Inspector used for the DNS check
+   * @private
+   * @readonly
+   */
+  private readonly dnsInspector: DnsInspector
+
+  /**
+   * Tracer used for the redirect check
+   * @private
+   * @readonly
+   */
+  private readonly redirectTracer: RedirectTracer
+
+  /**
+   * Feeds used for the blacklist check
+   * @private
+   * @readonly
+   */
+  private readonly blocklist?: Blocklist
+
+  /**
+   * Client used for the Safe Browsing check
+   * @private
+   * @readonly
+   */
+  private readonly safeBrowsing?: SafeBrowsingClient
+
+  /**
+   * Detector used for the open redirect check
+   * @private
+   * @readonly
+   */
+  private readonly openRedirectDetector: OpenRedirectDetector
+
+  /**
+   * Scanner used for the injection check
+   * @private
+   * @readonly
+   */
+  private readonly injectionScanner: InjectionScanner
+
+  /**
+   * Creates an instance of SecurityChecker
+   * @param {SecurityCheckerOptions} [options] - TLS inspector, DNS resolver, HTTP client, SSRF guard, blocklist and Safe Browsing client to use
+   */
+  constructor(options: SecurityCheckerOptions = {}) {
+    this.tlsInspector = options.tlsInspector ?? new TlsInspector()
+    this.dnsInspector = new DnsInspector(options.dnsResolver ?? new NodeDnsResolver())
+    this.redirectTracer = new RedirectTracer(options.httpClient, options.ssrfGuard ?? new SsrfGuard())
+    this.blocklist = options.blocklist
+    this.safeBrowsing = options.safeBrowsing
+    this.openRedirectDetector = new OpenRedirectDetector(options.openRedirect)
+    this.injectionScanner = new InjectionScanner(options.injection)
   }
 
   /**
@@ -47,22 +125,27 @@ export class SecurityChecker {
       const parsed = new URL(url)
 
       // Basic URL checks
-      checks.protocol = this.checkProtocol(parsed)
-      checks.domain = await this.checkDomain(parsed, opts)
-      checks.port = this.checkPort(parsed)
-      checks.path = this.checkPath(parsed)
-      checks.query = this.checkQuery(parsed)
+      Object.assign(checks, await this.runStaticChecks(parsed))
 
       // Additional security checks
+      if (opts.checkInjection) {
+        checks.injection = this.checkInjection(parsed)
+      }
       if (opts.checkSsl) {
-        checks.ssl = await this.checkSsl(parsed)
+        checks.ssl = await this.checkSsl(parsed, opts)
       }
       if (opts.checkDns) {
-        checks.dns = await this.checkDns(parsed)
+        checks.dns = await this.checkDns(parsed, opts)
       }
       if (opts.checkBlacklist) {
         checks.blacklist = await this.checkBlacklist(parsed)
       }
+      if (opts.checkBlacklist && this.safeBrowsing) {
+        checks.safeBrowsing = await this.checkSafeBrowsing(parsed, this.safeBrowsing)
+      }
+      if (opts.followRedirects && /^https?:$/.test(parsed.protocol)) {
+        checks.redirects = await this.checkRedirects(parsed, opts)
+      }
 
       // Calculate overall risk level
       const riskLevel = this.calculateRiskLevel(checks)
@@ -92,6 +175,23 @@ export class SecurityChecker {
     }
   }
 
+  /**
+   * Runs the checks that only look at the URL itself
+   * @param {URL} parsed - The parsed URL object
+   * @returns {Promise<Record<string, SecurityCheckResult>>} Results by check name
+   * @private
+   */
+  private async runStaticChecks(parsed: URL): Promise<Record<string, SecurityCheckResult>> {
+    return {
+      protocol: this.checkProtocol(parsed),
+      domain: await this.checkDomain(parsed),
+      port: this.checkPort(parsed),
+      path: this.checkPath(parsed),
+      query: this.checkQuery(parsed),
+      openRedirect: this.checkOpenRedirect(parsed),
+    }
+  }
+
   /**
    * Checks if the URL protocol is secure
    * @param {URL} parsed - The parsed URL object
@@ -128,14 +228,10 @@ export class SecurityChecker {
   /**
    * Checks the domain for security issues
    * @param {URL} parsed - The parsed URL object
-   * @param {Required<SecurityScanOptions>} options - Scan options
    * @returns {Promise<SecurityCheckResult>} Results of the domain security check
    * @private
    */
-  private async checkDomain(
-    parsed: URL,
-    options: Required<SecurityScanOptions>,
-  ): Promise<SecurityCheckResult> {
+  private async checkDomain(parsed: URL): Promise<SecurityCheckResult> {
     try {
       // Basic domain checks
       if (
@@ -157,23 +253,6 @@ export class SecurityChecker {
         }
       }
 
-      // DNS check if enabled
-      if (options.checkDns) {
-        try {
-          await this.resolveDns(parsed.hostname)
-        }
-        catch (error) {
-          if (error instanceof Error) {
-            return {
-              passed: false,
-              riskLevel: SecurityRiskLevel.HIGH,
-              details: `DNS resolution failed: ${error.message}`,
-            }
-          }
-          throw error
-        }
-      }
-
       return {
         passed: true,
         riskLevel: SecurityRiskLevel.NONE,
@@ -295,13 +374,73 @@ export class SecurityChecker {
     }
   }
 
+  /**
+   * Scans the URL components for injection payloads
+   * @param {URL} parsed - The parsed URL object
+   * @returns {SecurityCheckResult} Results of the injection check
+   * @private
+   */
+  private checkInjection(parsed: URL): SecurityCheckResult {
+    const result = this.injectionScanner.scan(parsed.href)
+    if (result.findings.length === 0) {
+      return {
+        passed: true,
+        riskLevel: SecurityRiskLevel.NONE,
+        details: 'No injection payloads detected',
+      }
+    }
+
+    const details = result.findings.map(finding =>
+      `${finding.category} in ${finding.component}: ${finding.evidence} (confidence ${finding.confidence})`)
+
+    return {
+      passed: false,
+      riskLevel: result.riskLevel,
+      details: details.join('; '),
+      data: { findings: result.findings, confidence: result.confidence },
+    }
+  }
+
+  /**
+   * Checks redirect parameters for targets outside the site
+   * @param {URL} parsed - The parsed URL object
+   * @returns {SecurityCheckResult} Results of the open redirect check
+   * @private
+   */
+  private checkOpenRedirect(parsed: URL): SecurityCheckResult {
+    const result = this.openRedirectDetector.analyze(parsed.href)
+    if (!result.vulnerable) {
+      return {
+        passed: true,
+        riskLevel: SecurityRiskLevel.NONE,
+        details: 'No open redirect parameters detected',
+        data: { findings: result.findings },
+      }
+    }
+
+    const details = result.findings
+      .filter(finding => finding.riskLevel !== SecurityRiskLevel.NONE)
+      .map(finding => `Parameter "${finding.chain.join(' > ')}" redirects to ${finding.reason === 'dangerous-scheme' ? 'a dangerous URL' : 'another site'}: ${finding.target}`)
+
+    return {
+      passed: false,
+      riskLevel: result.riskLevel,
+      details: details.join('; '),
+      data: { findings: result.findings },
+    }
+  }
+
   /**
    * Checks SSL certificate validity
    * @param {URL} parsed - The parsed URL object
+   * @param {Required<SecurityScanOptions>} options - Scanning options
    * @returns {Promise<SecurityCheckResult>} Results of the SSL security check
    * @private
    */
-  private async checkSsl(parsed: URL): Promise<SecurityCheckResult> {
+  private async checkSsl(
+    parsed: URL,
+    options: Required<SecurityScanOptions>,
+  ): Promise<SecurityCheckResult> {
     if (parsed.protocol !== 'https:') {
       return {
         passed: false,
@@ -311,13 +450,12 @@ export class SecurityChecker {
     }
 
     try {
-      // Here you would implement actual SSL certificate validation
-      // For now, we just check if HTTPS is used
-      return {
-        passed: true,
-        riskLevel: SecurityRiskLevel.NONE,
-        details: 'SSL checks passed',
-      }
+      const inspection = await this.tlsInspector.inspect(
+        parsed.hostname,
+        parsed.port ? Number(parsed.port) : 443,
+        { timeoutMs: options.timeoutMs },
+      )
+      return this.toSslCheckResult(inspection)
     }
     catch (error) {
       if (error instanceof Error) {
@@ -332,20 +470,47 @@ export class SecurityChecker {
   }
 
   /**
-   * Checks DNS resolution for the hostname
-   * @param {URL} parsed - The parsed URL object
-   * @returns {Promise<SecurityCheckResult>} Results of the DNS security check
+   * Maps TLS findings to a check result; low-risk findings alone still pass
+   * @param {TlsInspectionResult} inspection - The TLS inspection result
+   * @returns {SecurityCheckResult} The SSL check result
    * @private
    */
-  private async checkDns(parsed: URL): Promise<SecurityCheckResult> {
-    try {
-      await this.resolveDns(parsed.hostname)
+  private toSslCheckResult(inspection: TlsInspectionResult): SecurityCheckResult {
+    const [worst] = inspection.findings
+    if (!worst) {
       return {
         passed: true,
         riskLevel: SecurityRiskLevel.NONE,
-        details: 'DNS checks passed',
+        details: `SSL checks passed (${inspection.protocol}, ${inspection.cipher.standardName || inspection.cipher.name}, certificate valid for ${inspection.certificate.daysRemaining} days)`,
+        data: { ...inspection },
       }
     }
+
+    return {
+      passed: SECURITY_RISK_SEVERITY[worst.riskLevel] < SECURITY_RISK_SEVERITY[SecurityRiskLevel.MEDIUM],
+      riskLevel: worst.riskLevel,
+      details: inspection.findings.map(finding => finding.message).join('; '),
+      data: { ...inspection },
+    }
+  }
+
+  /**
+   * Checks DNS resolution for the hostname
+   * @param {URL} parsed - The parsed URL object
+   * @param {Required<SecurityScanOptions>} options - Scanning options
+   * @returns {Promise<SecurityCheckResult>} Results of the DNS security check
+   * @private
+   */
+  private async checkDns(
+    parsed: URL,
+    options: Required<SecurityScanOptions>,
+  ): Promise<SecurityCheckResult> {
+    try {
+      const inspection = await this.dnsInspector.inspect(parsed.hostname, {
+        timeoutMs: options.timeoutMs,
+      })
+      return this.toDnsCheckResult(inspection)
+    }
     catch (error) {
       if (error instanceof Error) {
         return {
@@ -358,6 +523,33 @@ export class SecurityChecker {
     }
   }
 
+  /**
+   * Maps DNS findings to a check result; low-risk findings alone still pass
+   * @param {DnsInspectionResult} inspection - The DNS inspection result
+   * @returns {SecurityCheckResult} The DNS check result
+   * @private
+   */
+  private toDnsCheckResult(inspection: DnsInspectionResult): SecurityCheckResult {
+    const [worst] = inspection.findings
+    const data = { records: inspection.records, findings: inspection.findings }
+
+    if (!worst) {
+      return {
+        passed: true,
+        riskLevel: SecurityRiskLevel.NONE,
+        details: 'DNS checks passed',
+        data,
+      }
+    }
+
+    return {
+      passed: SECURITY_RISK_SEVERITY[worst.riskLevel] < SECURITY_RISK_SEVERITY[SecurityRiskLevel.MEDIUM],
+      riskLevel: worst.riskLevel,
+      details: inspection.findings.map(finding => finding.message).join('; '),
+      data,
+    }
+  }
+
   /**
    * Checks if the domain is on any blacklists
    * @param {URL} parsed - The parsed URL object
@@ -365,13 +557,36 @@ export class SecurityChecker {
    * @private
    */
   private async checkBlacklist(parsed: URL): Promise<SecurityCheckResult> {
-    try {
-      // Here you would implement actual blacklist checking
-      // For now, we just return a pass
+    if (!this.blocklist) {
       return {
         passed: true,
         riskLevel: SecurityRiskLevel.NONE,
-        details: 'Blacklist checks passed',
+        details: 'No blocklists configured',
+      }
+    }
+
+    try {
+      const matches = this.blocklist.match(parsed.href)
+      if (matches.length === 0) {
+        return {
+          passed: true,
+          riskLevel: SecurityRiskLevel.NONE,
+          details: 'Blacklist checks passed',
+        }
+      }
+
+      // A listed URL or a named threat is a known payload, not just a bad neighbourhood
+      const critical = matches.some(match => match.type === 'url' || match.threat !== undefined)
+      const reasons = matches.map(match => [
+        `Blocked by feed "${match.feed}" rule "${match.rule}" (line ${match.line})`,
+        match.threat ? ` as ${match.threat}` : '',
+      ].join(''))
+
+      return {
+        passed: false,
+        riskLevel: critical ? SecurityRiskLevel.CRITICAL : SecurityRiskLevel.HIGH,
+        details: reasons.join('; '),
+        data: { matches },
       }
     }
     catch (error) {
@@ -386,6 +601,149 @@ export class SecurityChecker {
     }
   }
 
+  /**
+   * Looks the URL up in Safe Browsing, refreshing the local database first
+   * when the server allows it
+   * @param {URL} parsed - The parsed URL object
+   * @param {SafeBrowsingClient} client - The Safe Browsing client
+   * @returns {Promise<SecurityCheckResult>} Results of the Safe Browsing check
+   * @private
+   */
+  private async checkSafeBrowsing(parsed: URL, client: SafeBrowsingClient): Promise<SecurityCheckResult> {
+    try {
+      await client.update()
+      const matches = await client.lookup(parsed.href)
+      if (matches.length === 0) {
+        return {
+          passed: true,
+          riskLevel: SecurityRiskLevel.NONE,
+          details: 'Not listed by Safe Browsing',
+        }
+      }
+
+      return {
+        passed: false,
+        riskLevel: SecurityRiskLevel.CRITICAL,
+        details: matches
+          .map(match => `Listed by Safe Browsing as ${match.threatType} (${match.expression})`)
+          .join('; '),
+        data: { matches },
+      }
+    }
+    catch (error) {
+      if (error instanceof Error) {
+        return {
+          passed: false,
+          riskLevel: SecurityRiskLevel.MEDIUM,
+          details: `Safe Browsing check failed: ${error.message}`,
+        }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Follows the redirect chain and checks every hop
+   * @param {URL} parsed - The parsed URL object
+   * @param {Required<SecurityScanOptions>} options - Scanning options
+   * @returns {Promise<SecurityCheckResult>} Results of the redirect check
+   * @private
+   */
+  private async checkRedirects(
+    parsed: URL,
+    options: Required<SecurityScanOptions>,
+  ): Promise<SecurityCheckResult> {
+    try {
+      const trace = await this.redirectTracer.trace(parsed.href, {
+        maxRedirects: options.maxRedirects,
+        timeoutMs: options.timeoutMs,
+        userAgent: options.userAgent,
+      })
+      return await this.toRedirectCheckResult(trace)
+    }
+    catch (error) {
+      if (error instanceof Error) {
+        return {
+          passed: false,
+          riskLevel: SecurityRiskLevel.HIGH,
+          details: `Redirect check failed: ${error.message}`,
+        }
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Runs the static checks on every hop after the first and maps the
+   * chain's problems to a check result
+   * @param {RedirectTraceResult} trace - The traced redirect chain
+   * @returns {Promise<SecurityCheckResult>} The redirect check result
+   * @private
+   */
+  private async toRedirectCheckResult(trace: RedirectTraceResult): Promise<SecurityCheckResult> {
+    const issues: Array<{ riskLevel: SecurityRiskLevel, message: string }> = []
+    const hops = []
+
+    for (const [index, hop] of trace.hops.entries()) {
+      const checks = await this.runStaticChecks(new URL(hop.url))
+      hops.push({ ...hop, checks })
+
+      if (index > 0) {
+        for (const [name, check] of Object.entries(checks)) {
+          if (!check.passed) {
+            issues.push({ riskLevel: check.riskLevel, message: `Hop ${index} (${hop.url}) failed ${name} check: ${check.details}` })
+          }
+        }
+      }
+      if (hop.downgrade) {
+        issues.push({ riskLevel: SecurityRiskLevel.HIGH, message: `Hop ${index} downgrades to ${hop.location}` })
+      }
+      if (hop.crossDomain) {
+        issues.push({ riskLevel: SecurityRiskLevel.LOW, message: `Hop ${index} leaves the site for ${hop.location}` })
+      }
+      if (hop.redirectType && hop.redirectType !== 'http') {
+        issues.push({ riskLevel: SecurityRiskLevel.LOW, message: `Hop ${index} redirects through a ${hop.redirectType}` })
+      }
+    }
+
+    if (trace.loop) {
+      issues.push({ riskLevel: SecurityRiskLevel.MEDIUM, message: 'Redirect loop detected' })
+    }
+    if (trace.limitReached) {
+      issues.push({ riskLevel: SecurityRiskLevel.MEDIUM, message: `More than ${trace.redirectCount} redirects` })
+    }
+    if (trace.refusedUrl) {
+      issues.push({ riskLevel: SecurityRiskLevel.HIGH, message: `Redirect to ${trace.refusedUrl} refused: ${trace.error}` })
+    }
+    else if (trace.error) {
+      issues.push({ riskLevel: SecurityRiskLevel.MEDIUM, message: trace.error })
+    }
+
+    const data = { ...trace, hops }
+    if (issues.length === 0) {
+      return {
+        passed: true,
+        riskLevel: SecurityRiskLevel.NONE,
+        details: trace.redirectCount === 0
+          ? 'No redirects'
+          : `${trace.redirectCount} redirects to ${trace.finalUrl}`,
+        data,
+      }
+    }
+
+    const riskLevel = issues.reduce(
+      (max, issue) => SECURITY_RISK_SEVERITY[issue.riskLevel] > SECURITY_RISK_SEVERITY[max] ? issue.riskLevel : max,
+      SecurityRiskLevel.NONE,
+    )
+
+    return {
+      passed: SECURITY_RISK_SEVERITY[riskLevel] < SECURITY_RISK_SEVERITY[SecurityRiskLevel.MEDIUM],
+      riskLevel,
+      details: issues.map(issue => issue.message).join('; '),
+      data,
+    }
+  }
+
   /**
    * Calculates the overall risk level from individual check results
    * @param {Record<string, SecurityCheckResult>} checks - All security check results
@@ -398,39 +756,11 @@ export class SecurityChecker {
     let maxRisk = SecurityRiskLevel.NONE
 
     for (const check of Object.values(checks)) {
-      if (!check.passed && check.riskLevel > maxRisk) {
+      if (!check.passed && SECURITY_RISK_SEVERITY[check.riskLevel] > SECURITY_RISK_SEVERITY[maxRisk]) {
         maxRisk = check.riskLevel
       }
     }
 
     return maxRisk
   }
-
-  /**
-   * Resolves DNS for a hostname
-   * @param {string} hostname - The hostname to resolve
-   * @returns {Promise<void>} Resolves when DNS lookup is successful
-   * @throws {SecurityError} If DNS resolution fails
-   * @private
-   */
-  private async resolveDns(hostname: string): Promise<void> {
-    try {
-      // Here you would implement actual DNS resolution
-      // For now, we just check if it's not an IP address
-      if (/^\d+\.\d+\.\d+\.\d+$/.test(hostname)) {
-        throw new Error('IP address used as hostname')
-      }
-    }
-    catch (error) {
-      // This solution is temporary
-      // Im so tired to fix this today
-      // I'm going to come back to this later
-      const errorMessage
-        = error instanceof Error
-          ? `DNS resolution failed: ${error.message}`
-          : 'DNS resolution failed: Unknown error'
-
-      throw new SecurityError(errorMessage, ErrorCode.SECURITY_RISK)
-    }
-  }
 }
@@ -1,5 +1,10 @@
 import type { AllowedProtocol, SecuritySanitizerOptions } from './types'
+import { isIP } from 'node:net'
 import { ErrorCode, SecurityError } from '../../errors'
+import { IDNA_LOOKUP_OPTIONS } from '../domain/constants'
+import { Idna } from '../domain/idna/idna'
+import { OpenRedirectDetector } from './open-redirect-detector'
+import { SecurityRiskLevel } from './types'
 
 export class SecuritySanitizer {
   /**
@@ -21,8 +26,23 @@ export class SecuritySanitizer {
     removeWWW: false,
     forceHttps: false,
     customSanitizer: (url: string) => url,
+    allowedRedirectDestinations: [],
   }
 
+  /**
+   * Detector used to vet redirect targets
+   * @private
+   * @readonly
+   */
+  private readonly openRedirectDetector = new OpenRedirectDetector()
+
+  /**
+   * UTS #46 processor used to encode hostnames
+   * @private
+   * @readonly
+   */
+  private readonly idna = new Idna(IDNA_LOOKUP_OPTIONS)
+
   /**
    * Creates an instance of SecuritySanitizer
    * @param {SecuritySanitizerOptions} [options] - Custom sanitization options
@@ -109,6 +129,19 @@ export class SecuritySanitizer {
         parsed.pathname = parsed.pathname.replace(/\/$/, '')
       }
 
+      // Map, validate and encode the hostname with UTS #46
+      if (opts.encodeUnicode && parsed.hostname && !isIP(parsed.hostname.replace(/^\[(.*)\]$/, '$1'))) {
+        const idna = this.idna.process(parsed.hostname)
+        if (!idna.isValid) {
+          throw new SecurityError(
+            `Invalid internationalized hostname: ${idna.errors[0].message}`,
+            ErrorCode.INVALID_HOSTNAME,
+            { hostname: parsed.hostname, errors: idna.errors },
+          )
+        }
+        parsed.hostname = idna.ascii
+      }
+
       // Get sanitized URL
       let sanitized = parsed.toString()
 
@@ -145,11 +178,12 @@ export class SecuritySanitizer {
   }
 
   /**
-   * Creates a safe redirect URL by embedding the target URL as a query parameter
+   * Creates a safe redirect URL by embedding the target URL as a query parameter.
+   * The target must stay on the base URL's origin or be an allowed redirect destination
    * @param {string} baseUrl - The base URL to redirect through
    * @param {string} targetUrl - The target URL to redirect to
    * @returns {string} A sanitized URL that safely redirects to the target
-   * @throws {SecurityError} If the redirect URL creation fails
+   * @throws {SecurityError} If the target fails open redirect analysis or the redirect URL creation fails
    */
   public createSafeRedirectUrl(baseUrl: string, targetUrl: string): string {
     try {
@@ -161,6 +195,19 @@ export class SecuritySanitizer {
       const redirect = new URL(base.toString())
       redirect.searchParams.set('redirect_to', target.toString())
 
+      // Refuse targets the open redirect analysis would flag
+      const analysis = this.openRedirectDetector.analyze(redirect.toString(), {
+        allowedDestinations: this.options?.allowedRedirectDestinations ?? this.defaultOptions.allowedRedirectDestinations,
+      })
+      const rejected = analysis.findings.find(finding => finding.riskLevel !== SecurityRiskLevel.NONE)
+      if (rejected) {
+        throw new SecurityError(
+          `Refusing to redirect to ${rejected.target}: ${rejected.reason === 'dangerous-scheme' ? 'dangerous protocol' : 'destination is not allowed'}`,
+          ErrorCode.OPEN_REDIRECT,
+          { target: rejected.target, parameter: rejected.chain.join('.') },
+        )
+      }
+
       // Sanitize final URL
       return this.sanitize(redirect.toString())
     }
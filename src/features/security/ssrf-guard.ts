@@ -0,0 +1,278 @@
+import type { SsrfPolicyOptions, SsrfValidationResult, SsrfViolationReason } from './types'
+import { isIP } from 'node:net'
+import { ErrorCode, SecurityError, ValidationError } from '../../errors'
+import { DomainParser } from '../domain/core/domain-parser'
+import { IpHandler } from '../domain/core/ip-handler'
+import { ProtocolHandler } from '../protocol/core/protocol-handler'
+import { NodeDnsResolver } from './dns-resolver'
+
+/**
+ * Instance metadata endpoints of the major cloud providers
+ */
+const CLOUD_METADATA_ADDRESSES = new Set([
+  '169.254.169.254',
+  'fd00:ec2::254',
+  '169.254.170.2',
+  '100.100.100.200',
+  '192.0.0.192',
+])
+
+/**
+ * Hosts refused when no deny list is configured
+ */
+const DEFAULT_DENIED_HOSTS = ['localhost', '*.localhost', 'metadata.google.internal']
+
+/**
+ * Outbound URL policy for server-side fetches. Hostnames are resolved and
+ * every address is checked before the request is made; callers connect to
+ * the returned pinned address so a later lookup cannot point elsewhere
+ * @class SsrfGuard
+ */
+export class SsrfGuard {
+  /**
+   * Handler used to classify addresses
+   * @private
+   * @readonly
+   */
+  private readonly ipHandler = new IpHandler()
+
+  /**
+   * Parser used to normalize hostnames
+   * @private
+   * @readonly
+   */
+  private readonly domainParser = new DomainParser()
+
+  /**
+   * Handler used for default ports
+   * @private
+   * @readonly
+   */
+  private readonly protocolHandler = new ProtocolHandler()
+
+  /**
+   * Creates an instance of SsrfGuard
+   * @param {SsrfPolicyOptions} [options] - The policy
+   */
+  constructor(private readonly options: SsrfPolicyOptions = {}) {}
+
+  /**
+   * Checks a URL against the policy and resolves the address to connect to
+   * @param {string} url - The URL
+   * @returns {Promise<SsrfValidationResult>} The URL and its pinned address
+   * @throws {ValidationError} If the URL is invalid
+   * @throws {SecurityError} If the URL or any address it resolves to is refused
+   */
+  public async validate(url: string): Promise<SsrfValidationResult> {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    }
+    catch {
+      throw new ValidationError(`Invalid URL: ${url}`, ErrorCode.INVALID_URL, { url })
+    }
+
+    const allowedProtocols = this.options.allowedProtocols ?? ['http:', 'https:']
+    if (!allowedProtocols.includes(parsed.protocol)) {
+      throw this.violation('protocol', `Protocol not allowed: ${parsed.protocol}`, { url })
+    }
+
+    const port = parsed.port ? Number(parsed.port) : this.protocolHandler.getDefaultPort(parsed.protocol) ?? 0
+    if (this.options.allowedPorts && !this.options.allowedPorts.includes(port)) {
+      throw this.violation('port', `Port not allowed: ${port}`, { url, port })
+    }
+
+    // URL already reads decimal, octal and hex IPv4 hosts for http(s); other schemes keep them verbatim
+    const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1')
+    const literal = this.ipHandler.normalizeIP(hostname)
+    const host = literal ?? this.domainParser.normalize(hostname)
+
+    if (this.matchesHost(host, this.options.deniedHosts ?? DEFAULT_DENIED_HOSTS)) {
+      throw this.violation('denied-host', `Host not allowed: ${host}`, { url, host })
+    }
+    const trusted = this.matchesHost(host, this.options.allowedHosts ?? [])
+
+    const addresses = literal ? [literal] : await this.resolve(host)
+    if (addresses.length === 0) {
+      throw this.violation('unresolvable', `Host does not resolve: ${host}`, { url, host })
+    }
+
+    // Every address must pass: a name with one public and one private record
+    // could otherwise be answered differently when the request connects
+    for (const address of addresses) {
+      const reason = this.checkAddress(address)
+      // Trusted hosts still never reach cloud metadata or the local host through 0.0.0.0
+      if (reason && (reason === 'cloud-metadata' || reason === 'unspecified' || !trusted)) {
+        const message = literal
+          ? `Address not allowed: ${address} (${reason})`
+          : `Host ${host} resolves to a forbidden address: ${address} (${reason})`
+        throw this.violation(reason, message, {
+          url,
+          host,
+          address,
+        })
+      }
+    }
+
+    const pinnedAddress = addresses.find(address => isIP(address) === 4) ?? addresses[0]
+    return {
+      url: parsed.href,
+      hostname,
+      port,
+      addresses,
+      pinnedAddress,
+      family: isIP(pinnedAddress) === 4 ? 4 : 6,
+    }
+  }
+
+  /**
+   * Checks a URL against the policy without throwing
+   * @param {string} url - The URL
+   * @returns {Promise<boolean>} Whether the URL may be fetched
+   */
+  public async isAllowed(url: string): Promise<boolean> {
+    try {
+      await this.validate(url)
+      return true
+    }
+    catch {
+      return false
+    }
+  }
+
+  /**
+   * Returns why an address is refused, e.g. for checking the address a
+   * socket actually connected to
+   * @param {string} address - An IP address in any notation
+   * @returns {SsrfViolationReason | undefined} The reason, or undefined if the address is allowed
+   */
+  public checkAddress(address: string): SsrfViolationReason | undefined {
+    const ip = this.ipHandler.normalizeIP(address)
+    if (!ip) {
+      return 'unresolvable'
+    }
+
+    const mapped = this.ipHandler.getMappedIPv4(ip)
+    if (CLOUD_METADATA_ADDRESSES.has(ip) || (mapped && CLOUD_METADATA_ADDRESSES.has(mapped))) {
+      return 'cloud-metadata'
+    }
+    if (mapped && !this.options.allowIPv4Mapped) {
+      return 'ipv4-mapped'
+    }
+
+    const target = mapped ?? ip
+    // Connecting to 0.0.0.0 or :: reaches the local host, whatever the policy allows
+    if (this.isUnspecified(target)) {
+      return 'unspecified'
+    }
+    if (this.ipHandler.isLoopbackIP(target)) {
+      return this.options.allowLoopback ? undefined : 'loopback'
+    }
+    // Link-local ranges are part of the private ranges too, so they are decided first
+    if (this.ipHandler.isLinkLocalIP(target)) {
+      return this.options.allowLinkLocal ? undefined : 'link-local'
+    }
+    if (this.ipHandler.isPrivateIP(target)) {
+      return this.options.allowPrivate ? undefined : 'private'
+    }
+    if (this.ipHandler.isMulticastIP(target)) {
+      return this.options.allowMulticast ? undefined : 'multicast'
+    }
+
+    // 6to4 relays deliver to the IPv4 address inside the prefix
+    const embedded = this.get6to4IPv4(target)
+    const embeddedReason = embedded ? this.checkAddress(embedded) : undefined
+    if (embeddedReason) {
+      return embeddedReason
+    }
+    if (!this.ipHandler.parseIP(target).isGlobal || this.isSiteLocal(target)) {
+      return 'reserved'
+    }
+    return undefined
+  }
+
+  /**
+   * 0.0.0.0/8 and ::
+   * @private
+   */
+  private isUnspecified(ip: string): boolean {
+    const octets = this.ipHandler.parseIPv4(ip)
+    if (octets) {
+      return octets[0] === 0
+    }
+    return this.ipHandler.expandIPv6(ip)?.every(group => group === 0) ?? false
+  }
+
+  /**
+   * fec0::/10, deprecated by RFC 3879 and absent from the special-purpose registry
+   * @private
+   */
+  private isSiteLocal(ip: string): boolean {
+    const groups = this.ipHandler.expandIPv6(ip)
+    return !!groups && (groups[0] & 0xFFC0) === 0xFEC0
+  }
+
+  /**
+   * IPv4 address carried by a 6to4 address (2002::/16); NAT64 addresses are
+   * already read by getMappedIPv4
+   * @private
+   */
+  private get6to4IPv4(ip: string): string | undefined {
+    const groups = this.ipHandler.expandIPv6(ip)
+    if (!groups || groups[0] !== 0x2002) {
+      return undefined
+    }
+    return [groups[1] >> 8, groups[1] & 0xFF, groups[2] >> 8, groups[2] & 0xFF].join('.')
+  }
+
+  /**
+   * Resolves A and AAAA records; lookups that fail count as no records
+   * @private
+   */
+  private async resolve(host: string): Promise<string[]> {
+    const resolver = this.options.resolver ?? new NodeDnsResolver()
+    const timeoutMs = this.options.timeoutMs ?? 5000
+
+    const lookup = async (query: () => Promise<string[]>): Promise<string[]> => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      try {
+        return await Promise.race([
+          query(),
+          new Promise<string[]>((resolve) => {
+            timer = setTimeout(() => resolve([]), timeoutMs)
+          }),
+        ])
+      }
+      catch {
+        return []
+      }
+      finally {
+        clearTimeout(timer)
+      }
+    }
+
+    const [ipv4, ipv6] = await Promise.all([
+      lookup(() => resolver.resolve4(host)),
+      lookup(() => resolver.resolve6(host)),
+    ])
+    return [...ipv4, ...ipv6].map(address => this.ipHandler.normalizeIP(address) ?? address)
+  }
+
+  /**
+   * Matches a host against hostnames, "*.domain" patterns and IP addresses
+   * @private
+   */
+  private matchesHost(host: string, patterns: string[]): boolean {
+    return patterns.some((pattern) => {
+      const entry = pattern.trim().toLowerCase()
+      if (entry.startsWith('*.')) {
+        return host.endsWith(entry.slice(1))
+      }
+      return host === (this.ipHandler.normalizeIP(entry) ?? entry.replace(/\.$/, ''))
+    })
+  }
+
+  private violation(reason: SsrfViolationReason, message: string, details: Record<string, unknown>): SecurityError {
+    return new SecurityError(message, ErrorCode.SECURITY_RISK, { reason, ...details })
+  }
+}
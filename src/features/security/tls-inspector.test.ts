@@ -0,0 +1,100 @@
+import type { AddressInfo, Socket } from 'node:net'
+import type { SecureContextOptions } from 'node:tls'
+import { createServer as createTcpServer } from 'node:net'
+import { createServer } from 'node:tls'
+import { afterEach, describe, expect, it } from 'vitest'
+import { OperationError } from '../../errors'
+import { CA_SIGNED, SELF_SIGNED, TEST_CA } from './__fixtures__/certificates'
+import { SecurityChecker } from './security-checker'
+import { TlsInspector } from './tls-inspector'
+
+describe('tlsInspector', () => {
+  let close: (() => Promise<void>) | undefined
+
+  async function listen(server: ReturnType<typeof createServer> | ReturnType<typeof createTcpServer>): Promise<number> {
+    const sockets = new Set<Socket>()
+    server.on('connection', (socket: Socket) => sockets.add(socket))
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    close = () => new Promise<void>((resolve) => {
+      server.close(() => resolve())
+      sockets.forEach(socket => socket.destroy())
+    })
+    return (server.address() as AddressInfo).port
+  }
+
+  const startServer = async (options: SecureContextOptions): Promise<number> =>
+    listen(createServer(options, socket => socket.end()))
+
+  afterEach(async () => {
+    await close?.()
+    close = undefined
+  })
+
+  it('reports an untrusted self-signed certificate', async () => {
+    const port = await startServer(SELF_SIGNED)
+    const result = await new TlsInspector().inspect('127.0.0.1', port)
+
+    expect(result).toMatchObject({
+      authorized: false,
+      authorizationError: 'DEPTH_ZERO_SELF_SIGNED_CERT',
+      hostnameMatch: true,
+      certificate: { subject: 'localhost', issuer: 'localhost', keyType: 'EC', keyBits: 256, selfSigned: true },
+    })
+    expect(result.findings.map(finding => finding.code)).toEqual(['self-signed'])
+  })
+
+  it('recognizes a trusted self-signed certificate', async () => {
+    const port = await startServer(SELF_SIGNED)
+    const result = await new TlsInspector({ ca: SELF_SIGNED.cert }).inspect('127.0.0.1', port)
+
+    expect(result.authorized).toBe(true)
+    expect(result.certificate.selfSigned).toBe(true)
+    expect(result.findings).toEqual([])
+  })
+
+  it('does not call a certificate self-signed when its chain cannot be built', async () => {
+    const port = await startServer(CA_SIGNED)
+    const result = await new TlsInspector().inspect('127.0.0.1', port)
+
+    expect(result.authorized).toBe(false)
+    expect(result.certificate).toMatchObject({ issuer: 'Test CA', selfSigned: false })
+    expect(result.findings.map(finding => finding.code)).toEqual(['untrusted-chain'])
+  })
+
+  it('passes a certificate signed by a trusted CA', async () => {
+    const port = await startServer(CA_SIGNED)
+    const result = await new TlsInspector({ ca: TEST_CA }).inspect('127.0.0.1', port)
+
+    expect(result).toMatchObject({ authorized: true, hostnameMatch: true, protocol: 'TLSv1.3' })
+    expect(result.certificate.selfSigned).toBe(false)
+    expect(result.certificate.subjectAltNames).toEqual(['localhost', '127.0.0.1'])
+    expect(result.certificate.daysRemaining).toBeGreaterThan(30)
+    expect(result.findings).toEqual([])
+  })
+
+  it('flags keys below the configured size', async () => {
+    const port = await startServer(CA_SIGNED)
+    const result = await new TlsInspector({ ca: TEST_CA, minEcKeyBits: 384 }).inspect('127.0.0.1', port)
+
+    expect(result.findings).toMatchObject([{ code: 'weak-key', riskLevel: 'medium' }])
+  })
+
+  it('times out on a server that never completes the handshake', async () => {
+    const port = await listen(createTcpServer(() => {}))
+
+    await expect(new TlsInspector({ timeoutMs: 100 }).inspect('127.0.0.1', port)).rejects.toThrow(OperationError)
+  })
+
+  it('attaches the inspection to failed SSL checks', async () => {
+    const port = await startServer(SELF_SIGNED)
+    const checker = new SecurityChecker()
+    const { checks } = await checker.checkUrl(`https://127.0.0.1:${port}/`, {
+      checkDns: false,
+      checkBlacklist: false,
+      followRedirects: false,
+    })
+
+    expect(checks.ssl).toMatchObject({ passed: false, riskLevel: 'high' })
+    expect(checks.ssl.data).toMatchObject({ certificate: { selfSigned: true } })
+  })
+})
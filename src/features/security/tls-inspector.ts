@@ -0,0 +1,283 @@
+import type { Certificate, DetailedPeerCertificate, TLSSocket } from 'node:tls'
+import type {
+  TlsCertificateInfo,
+  TlsFinding,
+  TlsInspectionResult,
+  TlsInspectorOptions,
+} from './types'
+import { isIP } from 'node:net'
+import { checkServerIdentity, connect } from 'node:tls'
+import { ErrorCode, OperationError } from '../../errors'
+import { SECURITY_RISK_SEVERITY, SecurityRiskLevel } from './types'
+
+/**
+ * Protocol versions considered weak, with their risk level
+ */
+const WEAK_PROTOCOLS: Record<string, SecurityRiskLevel> = {
+  'SSLv2': SecurityRiskLevel.CRITICAL,
+  'SSLv3': SecurityRiskLevel.HIGH,
+  'TLSv1': SecurityRiskLevel.MEDIUM,
+  'TLSv1.1': SecurityRiskLevel.MEDIUM,
+}
+
+/**
+ * Cipher suite fragments that indicate a weak cipher
+ */
+const WEAK_CIPHER_PATTERN = /NULL|EXPORT|anon|RC4|DES|MD5/i
+
+/**
+ * OpenSSL verification errors already covered by the validity-period findings
+ */
+const VALIDITY_ERRORS = new Set(['CERT_HAS_EXPIRED', 'CERT_NOT_YET_VALID'])
+
+/**
+ * Inspects the certificate and connection parameters of a TLS server
+ * @class TlsInspector
+ */
+export class TlsInspector {
+  /**
+   * Default options for inspection
+   * @private
+   * @readonly
+   */
+  private readonly defaultOptions: Required<Omit<TlsInspectorOptions, 'ca'>> & Pick<TlsInspectorOptions, 'ca'> = {
+    ca: undefined,
+    expiryWarningDays: 30,
+    minRsaKeyBits: 2048,
+    minEcKeyBits: 256,
+    timeoutMs: 5000,
+  }
+
+  /**
+   * Creates an instance of TlsInspector
+   * @param {TlsInspectorOptions} [options] - Inspection options
+   */
+  constructor(options?: TlsInspectorOptions) {
+    this.defaultOptions = { ...this.defaultOptions, ...options }
+  }
+
+  /**
+   * Connects to a TLS server and reports on its certificate and connection
+   * @param {string} host - Hostname or IP address
+   * @param {number} [port] - Port
+   * @param {TlsInspectorOptions} [options] - Options overriding the defaults
+   * @returns {Promise<TlsInspectionResult>} The inspection result
+   * @throws {OperationError} If the connection fails or times out
+   */
+  public async inspect(
+    host: string,
+    port: number = 443,
+    options?: TlsInspectorOptions,
+  ): Promise<TlsInspectionResult> {
+    const opts = { ...this.defaultOptions, ...options }
+    const bareHost = host.replace(/^\[(.*)\]$/, '$1')
+    const socket = await this.handshake(bareHost, port, opts)
+
+    try {
+      const peer = socket.getPeerCertificate(true)
+      if (!peer || Object.keys(peer).length === 0) {
+        throw new OperationError(
+          `${bareHost}:${port} did not present a certificate`,
+          ErrorCode.OPERATION_FAILED,
+          { host: bareHost, port },
+        )
+      }
+
+      const authorizationError = socket.authorizationError
+        ? String(socket.authorizationError)
+        : undefined
+      const certificate = this.describeCertificate(peer, authorizationError)
+      const identityError = checkServerIdentity(bareHost, peer)
+      const cipher = socket.getCipher()
+      const result: TlsInspectionResult = {
+        host: bareHost,
+        port,
+        authorized: socket.authorized,
+        authorizationError,
+        hostnameMatch: identityError === undefined,
+        protocol: socket.getProtocol(),
+        cipher: {
+          name: cipher.name,
+          standardName: cipher.standardName,
+          version: cipher.version,
+        },
+        certificate,
+        findings: [],
+      }
+
+      result.findings = this.collectFindings(result, opts)
+      return result
+    }
+    finally {
+      socket.destroy()
+    }
+  }
+
+  /**
+   * Opens the TLS connection without rejecting untrusted certificates
+   * @private
+   */
+  private async handshake(
+    host: string,
+    port: number,
+    options: TlsInspectorOptions,
+  ): Promise<TLSSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = connect({
+        host,
+        port,
+        ca: options.ca,
+        servername: isIP(host) ? undefined : host,
+        rejectUnauthorized: false,
+        // Hostname verification is reported separately
+        checkServerIdentity: () => undefined,
+      })
+
+      socket.setTimeout(options.timeoutMs ?? this.defaultOptions.timeoutMs)
+      socket.once('secureConnect', () => {
+        socket.setTimeout(0)
+        resolve(socket)
+      })
+      socket.once('timeout', () => {
+        socket.destroy()
+        reject(new OperationError(
+          `TLS handshake with ${host}:${port} timed out after ${options.timeoutMs} ms`,
+          ErrorCode.OPERATION_FAILED,
+          { host, port, timeoutMs: options.timeoutMs },
+        ))
+      })
+      socket.once('error', (error) => {
+        reject(new OperationError(
+          `TLS connection to ${host}:${port} failed: ${error.message}`,
+          ErrorCode.OPERATION_FAILED,
+          { host, port },
+          error,
+        ))
+      })
+    })
+  }
+
+  /**
+   * Summarizes the peer certificate
+   * @private
+   */
+  private describeCertificate(peer: DetailedPeerCertificate, authorizationError?: string): TlsCertificateInfo {
+    const validFrom = new Date(peer.valid_from)
+    const validTo = new Date(peer.valid_to)
+    const issuer = peer.issuerCertificate
+
+    return {
+      subject: this.firstValue(peer.subject?.CN),
+      issuer: this.firstValue(peer.issuer?.CN),
+      subjectAltNames: (peer.subjectaltname ?? '')
+        .split(', ')
+        .filter(Boolean)
+        .map(name => name.replace(/^(?:DNS|IP Address):/, '')),
+      validFrom,
+      validTo,
+      daysRemaining: Math.floor((validTo.getTime() - Date.now()) / 86_400_000),
+      serialNumber: peer.serialNumber,
+      fingerprint256: peer.fingerprint256,
+      keyType: peer.modulus ? 'RSA' : (peer.asn1Curve || peer.nistCurve) ? 'EC' : undefined,
+      keyBits: peer.bits,
+      // A missing issuer only means the chain could not be built; a trusted
+      // self-signed certificate is its own issuer in the chain
+      selfSigned: authorizationError === 'DEPTH_ZERO_SELF_SIGNED_CERT'
+        || (this.sameName(peer.subject, peer.issuer) && issuer?.fingerprint256 === peer.fingerprint256),
+    }
+  }
+
+  /**
+   * Turns the connection details into findings, most severe first
+   * @private
+   */
+  private collectFindings(
+    result: TlsInspectionResult,
+    options: TlsInspectorOptions,
+  ): TlsFinding[] {
+    const { certificate, protocol, cipher } = result
+    const findings: TlsFinding[] = []
+    const now = Date.now()
+
+    if (certificate.validTo.getTime() < now) {
+      findings.push({
+        code: 'expired',
+        riskLevel: SecurityRiskLevel.HIGH,
+        message: `Certificate expired on ${certificate.validTo.toISOString()}`,
+      })
+    }
+    else if (certificate.daysRemaining < (options.expiryWarningDays ?? 0)) {
+      findings.push({
+        code: 'expiring-soon',
+        riskLevel: SecurityRiskLevel.LOW,
+        message: `Certificate expires in ${certificate.daysRemaining} days`,
+      })
+    }
+
+    if (certificate.validFrom.getTime() > now) {
+      findings.push({
+        code: 'not-yet-valid',
+        riskLevel: SecurityRiskLevel.HIGH,
+        message: `Certificate is not valid before ${certificate.validFrom.toISOString()}`,
+      })
+    }
+
+    if (!result.hostnameMatch) {
+      findings.push({
+        code: 'hostname-mismatch',
+        riskLevel: SecurityRiskLevel.HIGH,
+        message: `Certificate does not cover ${result.host}`,
+      })
+    }
+
+    if (!result.authorized && !VALIDITY_ERRORS.has(result.authorizationError ?? '')) {
+      findings.push(certificate.selfSigned
+        ? {
+            code: 'self-signed',
+            riskLevel: SecurityRiskLevel.HIGH,
+            message: 'Certificate is self-signed and not trusted',
+          }
+        : {
+            code: 'untrusted-chain',
+            riskLevel: SecurityRiskLevel.HIGH,
+            message: `Certificate chain is not trusted: ${result.authorizationError ?? 'unknown error'}`,
+          })
+    }
+
+    if (protocol && WEAK_PROTOCOLS[protocol]) {
+      findings.push({
+        code: 'weak-protocol',
+        riskLevel: WEAK_PROTOCOLS[protocol],
+        message: `Weak protocol version ${protocol}`,
+      })
+    }
+
+    if (WEAK_CIPHER_PATTERN.test(cipher.name)) {
+      findings.push({
+        code: 'weak-cipher',
+        riskLevel: SecurityRiskLevel.MEDIUM,
+        message: `Weak cipher suite ${cipher.standardName || cipher.name}`,
+      })
+    }
+
+    const minBits = certificate.keyType === 'EC' ? options.minEcKeyBits : options.minRsaKeyBits
+    if (certificate.keyBits !== undefined && minBits !== undefined && certificate.keyBits < minBits) {
+      findings.push({
+        code: 'weak-key',
+        riskLevel: certificate.keyBits < minBits / 2 ? SecurityRiskLevel.HIGH : SecurityRiskLevel.MEDIUM,
+        message: `${certificate.keyType ?? 'Public'} key is ${certificate.keyBits} bits, below ${minBits}`,
+      })
+    }
+
+    return findings.sort((a, b) => SECURITY_RISK_SEVERITY[b.riskLevel] - SECURITY_RISK_SEVERITY[a.riskLevel])
+  }
+
+  private sameName(a: Certificate | undefined, b: Certificate | undefined): boolean {
+    const entries = (name: Certificate | undefined): string => JSON.stringify(Object.entries(name ?? {}).sort())
+    return !!a && entries(a) === entries(b)
+  }
+
+  private firstValue(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value
+  }
+}
@@ -1,3 +1,8 @@
+import type { Blocklist } from '../blocklist/blocklist'
+import type { SafeBrowsingClient } from './safe-browsing-client'
+import type { SsrfGuard } from './ssrf-guard'
+import type { TlsInspector } from './tls-inspector'
+
 /**
  * Security risk levels for URL analysis
  * @enum {string}
@@ -19,6 +24,18 @@ export enum SecurityRiskLevel {
   CRITICAL = 'critical',
 }
 
+/**
+ * Numeric severity of each risk level, for comparing levels
+ * @type {Record<SecurityRiskLevel, number>}
+ */
+export const SECURITY_RISK_SEVERITY: Record<SecurityRiskLevel, number> = {
+  [SecurityRiskLevel.NONE]: 0,
+  [SecurityRiskLevel.LOW]: 1,
+  [SecurityRiskLevel.MEDIUM]: 2,
+  [SecurityRiskLevel.HIGH]: 3,
+  [SecurityRiskLevel.CRITICAL]: 4,
+}
+
 /**
  * Options for security scanning of URLs
  * @interface SecurityScanOptions
@@ -44,6 +61,9 @@ export interface SecurityScanOptions {
 
   /** Whether to check URL against blacklists */
   checkBlacklist?: boolean
+
+  /** Whether to scan URL components for injection payloads */
+  checkInjection?: boolean
 }
 
 /**
@@ -59,6 +79,9 @@ export interface SecurityCheckResult {
 
   /** Detailed information about the check result */
   details: string
+
+  /** Structured data gathered by the check, such as DNS records */
+  data?: Record<string, unknown>
 }
 
 /**
@@ -79,6 +102,56 @@ export interface SecurityScanResult {
   timestamp: number
 }
 
+/**
+ * Dependencies of the security checker
+ * @interface SecurityCheckerOptions
+ */
+export interface SecurityCheckerOptions {
+  /**
+   * Inspector used for the SSL check
+   * @default new TlsInspector()
+   */
+  tlsInspector?: TlsInspector
+
+  /**
+   * Resolver used for the DNS check
+   * @default new NodeDnsResolver()
+   */
+  dnsResolver?: DnsResolver
+
+  /**
+   * HTTP client used to follow redirects
+   * @default new NodeHttpClient()
+   */
+  httpClient?: HttpClient
+
+  /**
+   * Policy every redirect hop must pass before it is requested
+   * @default new SsrfGuard()
+   */
+  ssrfGuard?: SsrfGuard
+
+  /**
+   * Feeds used for the blacklist check; the check passes when omitted
+   */
+  blocklist?: Blocklist
+
+  /**
+   * Client for the Safe Browsing check, run with the blacklist check; skipped when omitted
+   */
+  safeBrowsing?: SafeBrowsingClient
+
+  /**
+   * Options for the open redirect check
+   */
+  openRedirect?: OpenRedirectOptions
+
+  /**
+   * Options for the injection check
+   */
+  injection?: InjectionScannerOptions
+}
+
 /**
  * Type representing allowed URL protocols
  * Can be common protocols like 'http:' or custom protocol strings
@@ -141,7 +214,9 @@ export interface SecuritySanitizerOptions {
   maxLength?: number
 
   /**
-   * Encode Unicode characters
+   * Encode Unicode characters: the hostname through UTS #46 processing,
+   * which also rejects invalid internationalized hostnames, and the rest
+   * with encodeURI
    * @default true
    */
   encodeUnicode?: boolean
@@ -175,4 +250,907 @@ export interface SecuritySanitizerOptions {
    * @default (url) => url
    */
   customSanitizer?: (url: string) => string
+
+  /**
+   * Destinations createSafeRedirectUrl may point to besides the base URL's
+   * origin, in the forms accepted by OpenRedirectOptions.allowedDestinations
+   * @default []
+   */
+  allowedRedirectDestinations?: string[]
+}
+
+/**
+ * Options for TLS certificate inspection
+ * @interface TlsInspectorOptions
+ */
+export interface TlsInspectorOptions {
+  /**
+   * Trusted CA certificates (PEM) replacing the bundled root store
+   * @default undefined
+   */
+  ca?: string | string[]
+
+  /**
+   * Days before expiry at which a certificate is reported as expiring soon
+   * @default 30
+   */
+  expiryWarningDays?: number
+
+  /**
+   * Minimum RSA/DSA key size in bits
+   * @default 2048
+   */
+  minRsaKeyBits?: number
+
+  /**
+   * Minimum elliptic curve key size in bits
+   * @default 256
+   */
+  minEcKeyBits?: number
+
+  /**
+   * Handshake timeout in milliseconds
+   * @default 5000
+   */
+  timeoutMs?: number
+}
+
+/**
+ * Kind of problem found during TLS inspection
+ * @typedef {string} TlsFindingCode
+ */
+export type TlsFindingCode =
+  | 'expired'
+  | 'not-yet-valid'
+  | 'expiring-soon'
+  | 'hostname-mismatch'
+  | 'self-signed'
+  | 'untrusted-chain'
+  | 'weak-protocol'
+  | 'weak-cipher'
+  | 'weak-key'
+
+/**
+ * A problem found during TLS inspection
+ * @interface TlsFinding
+ */
+export interface TlsFinding {
+  /** Kind of problem */
+  code: TlsFindingCode
+
+  /** Risk level of the problem */
+  riskLevel: SecurityRiskLevel
+
+  /** Human-readable description */
+  message: string
+}
+
+/**
+ * Summary of the peer certificate
+ * @interface TlsCertificateInfo
+ */
+export interface TlsCertificateInfo {
+  /** Subject common name */
+  subject?: string
+
+  /** Issuer common name */
+  issuer?: string
+
+  /** DNS names and IP addresses from the subjectAltName extension */
+  subjectAltNames: string[]
+
+  /** Start of the validity period */
+  validFrom: Date
+
+  /** End of the validity period */
+  validTo: Date
+
+  /** Whole days until expiry (negative once expired) */
+  daysRemaining: number
+
+  /** Serial number (hex) */
+  serialNumber: string
+
+  /** SHA-256 fingerprint */
+  fingerprint256: string
+
+  /** Public key algorithm: 'RSA', 'EC' or undefined when unknown */
+  keyType?: 'RSA' | 'EC'
+
+  /** Public key size in bits */
+  keyBits?: number
+
+  /** Whether the certificate is its own issuer */
+  selfSigned: boolean
+}
+
+/**
+ * Result of a TLS inspection
+ * @interface TlsInspectionResult
+ */
+export interface TlsInspectionResult {
+  /** Host that was contacted */
+  host: string
+
+  /** Port that was contacted */
+  port: number
+
+  /** Whether the chain verified against the trusted CAs */
+  authorized: boolean
+
+  /** Verification error code from OpenSSL, if any */
+  authorizationError?: string
+
+  /** Whether the certificate covers the host */
+  hostnameMatch: boolean
+
+  /** Negotiated protocol version, e.g. 'TLSv1.3' */
+  protocol: string | null
+
+  /** Negotiated cipher suite */
+  cipher: {
+    name: string
+    standardName: string
+    version: string
+  }
+
+  /** Peer certificate summary */
+  certificate: TlsCertificateInfo
+
+  /** Problems found, most severe first */
+  findings: TlsFinding[]
+}
+
+/**
+ * Mail exchanger record
+ * @interface DnsMxRecord
+ */
+export interface DnsMxRecord {
+  /** Mail server hostname */
+  exchange: string
+
+  /** Preference; lower values are preferred */
+  priority: number
+}
+
+/**
+ * DNS lookups used by the security checker. A `node:dns/promises`
+ * Resolver satisfies it; failed lookups reject with an error whose
+ * `code` is a DNS error code such as 'ENOTFOUND' or 'ENODATA'
+ * @interface DnsResolver
+ */
+export interface DnsResolver {
+  resolve4: (hostname: string) => Promise<string[]>
+  resolve6: (hostname: string) => Promise<string[]>
+  resolveCname: (hostname: string) => Promise<string[]>
+  resolveMx: (hostname: string) => Promise<DnsMxRecord[]>
+  resolveTxt: (hostname: string) => Promise<string[][]>
+}
+
+/**
+ * Records served by InMemoryDnsResolver for one hostname
+ * @interface InMemoryDnsRecords
+ */
+export interface InMemoryDnsRecords {
+  /** IPv4 addresses */
+  a?: string[]
+
+  /** IPv6 addresses */
+  aaaa?: string[]
+
+  /** Canonical name; address lookups follow it */
+  cname?: string
+
+  /** Mail exchangers */
+  mx?: DnsMxRecord[]
+
+  /** Text records, as chunk lists */
+  txt?: string[][]
+}
+
+/**
+ * Records found for a hostname
+ * @interface DnsRecords
+ */
+export interface DnsRecords {
+  /** IPv4 addresses */
+  a: string[]
+
+  /** IPv6 addresses */
+  aaaa: string[]
+
+  /** Canonical name chain, starting with the target of the hostname's own CNAME */
+  cname: string[]
+
+  /** Mail exchangers */
+  mx: DnsMxRecord[]
+
+  /** Text records, with their chunks joined */
+  txt: string[]
+}
+
+/**
+ * Kind of problem found during DNS inspection
+ * @typedef {string} DnsFindingCode
+ */
+export type DnsFindingCode =
+  | 'nxdomain'
+  | 'no-address'
+  | 'dangling-cname'
+  | 'private-address'
+  | 'loopback-address'
+  | 'lookup-failed'
+
+/**
+ * A problem found during DNS inspection
+ * @interface DnsFinding
+ */
+export interface DnsFinding {
+  /** Kind of problem */
+  code: DnsFindingCode
+
+  /** Risk level of the problem */
+  riskLevel: SecurityRiskLevel
+
+  /** Human-readable description */
+  message: string
+}
+
+/**
+ * Options for DNS inspection
+ * @interface DnsInspectionOptions
+ */
+export interface DnsInspectionOptions {
+  /**
+   * Timeout for each lookup in milliseconds
+   * @default 5000
+   */
+  timeoutMs?: number
+
+  /**
+   * Maximum length of a CNAME chain to follow
+   * @default 8
+   */
+  maxCnameDepth?: number
+}
+
+/**
+ * Result of a DNS inspection
+ * @interface DnsInspectionResult
+ */
+export interface DnsInspectionResult {
+  /** Hostname that was inspected */
+  hostname: string
+
+  /** Records found */
+  records: DnsRecords
+
+  /** Problems found, most severe first */
+  findings: DnsFinding[]
+}
+
+/**
+ * Options for a single HTTP request
+ * @interface HttpRequestOptions
+ */
+export interface HttpRequestOptions {
+  /** Request method */
+  method: 'GET' | 'HEAD'
+
+  /** Request headers */
+  headers: Record<string, string>
+
+  /** Timeout in milliseconds */
+  timeoutMs: number
+
+  /**
+   * Address to connect to instead of looking the hostname up again, as
+   * pinned by SsrfGuard.validate
+   */
+  pinnedAddress?: string
+
+  /** IP version of the pinned address */
+  family?: 4 | 6
+}
+
+/**
+ * Response returned by an HttpClient. Redirects are not followed
+ * @interface HttpResponse
+ */
+export interface HttpResponse {
+  /** Status code */
+  status: number
+
+  /** Response headers, lowercase names */
+  headers: Record<string, string | undefined>
+
+  /** Start of the body, when it is HTML */
+  body?: string
+}
+
+/**
+ * HTTP client used by the redirect tracer
+ * @interface HttpClient
+ */
+export interface HttpClient {
+  request: (url: string, options: HttpRequestOptions) => Promise<HttpResponse>
+}
+
+/**
+ * How a hop pointed to the next URL
+ * @typedef {string} RedirectType
+ */
+export type RedirectType = 'http' | 'refresh-header' | 'meta-refresh'
+
+/**
+ * One request in a redirect chain
+ * @interface RedirectHop
+ */
+export interface RedirectHop {
+  /** URL that was requested */
+  url: string
+
+  /** Response status code */
+  status: number
+
+  /** Next URL, resolved against this one */
+  location?: string
+
+  /** How the response redirected */
+  redirectType?: RedirectType
+
+  /** Whether the redirect goes from https to a non-https URL */
+  downgrade: boolean
+
+  /** Whether the redirect leaves the registrable domain */
+  crossDomain: boolean
+}
+
+/**
+ * Options for tracing redirects
+ * @interface RedirectTraceOptions
+ */
+export interface RedirectTraceOptions {
+  /**
+   * Maximum number of redirects to follow
+   * @default 5
+   */
+  maxRedirects?: number
+
+  /**
+   * Timeout per request in milliseconds
+   * @default 5000
+   */
+  timeoutMs?: number
+
+  /**
+   * User agent sent with every request
+   * @default 'UrlMage/1.0'
+   */
+  userAgent?: string
+}
+
+/**
+ * Result of tracing a redirect chain
+ * @interface RedirectTraceResult
+ */
+export interface RedirectTraceResult {
+  /** URL the trace started from */
+  url: string
+
+  /** Last URL reached */
+  finalUrl: string
+
+  /** Requests made, in order */
+  hops: RedirectHop[]
+
+  /** Number of redirects followed */
+  redirectCount: number
+
+  /** Whether the chain points back to a URL it already visited */
+  loop: boolean
+
+  /** Whether the chain was cut off at maxRedirects */
+  limitReached: boolean
+
+  /** Why the trace stopped early, if a later request failed or the target is not HTTP(S) */
+  error?: string
+
+  /** Redirect target refused by the SSRF policy, which was not requested */
+  refusedUrl?: string
+}
+
+/**
+ * Safe Browsing threat types
+ * @typedef {string} SafeBrowsingThreatType
+ */
+export type SafeBrowsingThreatType =
+  | 'MALWARE'
+  | 'SOCIAL_ENGINEERING'
+  | 'UNWANTED_SOFTWARE'
+  | 'POTENTIALLY_HARMFUL_APPLICATION'
+  | string
+
+/**
+ * A Safe Browsing threat list
+ * @interface SafeBrowsingListDescriptor
+ */
+export interface SafeBrowsingListDescriptor {
+  /** Kind of threat, e.g. 'MALWARE' */
+  threatType: SafeBrowsingThreatType
+
+  /** Platform the list applies to, e.g. 'ANY_PLATFORM' */
+  platformType: string
+
+  /** Kind of entries, e.g. 'URL' */
+  threatEntryType: string
+}
+
+/**
+ * Client identification sent with every Safe Browsing request
+ * @interface SafeBrowsingClientInfo
+ */
+export interface SafeBrowsingClientInfo {
+  clientId: string
+  clientVersion: string
+}
+
+/**
+ * Body of a threatListUpdates:fetch request
+ * @interface SafeBrowsingFetchRequest
+ */
+export interface SafeBrowsingFetchRequest {
+  client: SafeBrowsingClientInfo
+  listUpdateRequests: Array<SafeBrowsingListDescriptor & {
+    /** State returned by the previous update of the list; empty for a full update */
+    state: string
+    constraints: {
+      maxUpdateEntries?: number
+      maxDatabaseEntries?: number
+      supportedCompressions: string[]
+    }
+  }>
+}
+
+/**
+ * Update of one list in a threatListUpdates:fetch response
+ * @interface SafeBrowsingListUpdate
+ */
+export interface SafeBrowsingListUpdate extends SafeBrowsingListDescriptor {
+  /** FULL_UPDATE replaces the list, PARTIAL_UPDATE patches it */
+  responseType: 'FULL_UPDATE' | 'PARTIAL_UPDATE' | string
+
+  /** Hash prefixes to add */
+  additions?: Array<{
+    compressionType?: string
+    /** Concatenated prefixes of prefixSize bytes, base64 encoded */
+    rawHashes?: { prefixSize: number, rawHashes: string }
+  }>
+
+  /** Indices to remove from the sorted list as it was before the update */
+  removals?: Array<{
+    compressionType?: string
+    rawIndices?: { indices?: number[] }
+  }>
+
+  /** State to send with the next update */
+  newClientState: string
+
+  /** SHA-256 of the sorted, concatenated prefixes after the update, base64 encoded */
+  checksum?: { sha256: string }
+}
+
+/**
+ * Body of a threatListUpdates:fetch response
+ * @interface SafeBrowsingFetchResponse
+ */
+export interface SafeBrowsingFetchResponse {
+  listUpdateResponses?: SafeBrowsingListUpdate[]
+
+  /** Time to wait before the next update, e.g. "300.5s" */
+  minimumWaitDuration?: string
+}
+
+/**
+ * Body of a fullHashes:find request
+ * @interface SafeBrowsingFindRequest
+ */
+export interface SafeBrowsingFindRequest {
+  client: SafeBrowsingClientInfo
+  clientStates: string[]
+  threatInfo: {
+    threatTypes: string[]
+    platformTypes: string[]
+    threatEntryTypes: string[]
+    /** Hash prefixes to look up, base64 encoded */
+    threatEntries: Array<{ hash: string }>
+  }
+}
+
+/**
+ * A full hash in a fullHashes:find response
+ * @interface SafeBrowsingThreatMatch
+ */
+export interface SafeBrowsingThreatMatch extends SafeBrowsingListDescriptor {
+  /** Full SHA-256 hash, base64 encoded */
+  threat: { hash: string }
+
+  /** Time the match may be cached, e.g. "300s" */
+  cacheDuration?: string
+}
+
+/**
+ * Body of a fullHashes:find response
+ * @interface SafeBrowsingFindResponse
+ */
+export interface SafeBrowsingFindResponse {
+  matches?: SafeBrowsingThreatMatch[]
+
+  /** Time to wait before the next find request */
+  minimumWaitDuration?: string
+
+  /** Time the absence of matches for the requested prefixes may be cached */
+  negativeCacheDuration?: string
+}
+
+/**
+ * Transport for the Safe Browsing v4 Update API
+ * @interface SafeBrowsingTransport
+ */
+export interface SafeBrowsingTransport {
+  fetchUpdates: (request: SafeBrowsingFetchRequest) => Promise<SafeBrowsingFetchResponse>
+  findFullHashes: (request: SafeBrowsingFindRequest) => Promise<SafeBrowsingFindResponse>
+}
+
+/**
+ * Options for the Safe Browsing client
+ * @interface SafeBrowsingClientOptions
+ */
+export interface SafeBrowsingClientOptions {
+  /**
+   * Client id sent with every request
+   * @default 'urlmage'
+   */
+  clientId?: string
+
+  /**
+   * Client version sent with every request
+   * @default '1.0.0'
+   */
+  clientVersion?: string
+
+  /**
+   * Lists to keep in the local database
+   * @default MALWARE, SOCIAL_ENGINEERING and UNWANTED_SOFTWARE for ANY_PLATFORM URLs
+   */
+  lists?: SafeBrowsingListDescriptor[]
+
+  /**
+   * Largest number of entries to keep per list
+   */
+  maxDatabaseEntries?: number
+
+  /**
+   * Clock used for update back-off and cache expiry
+   * @default Date.now
+   */
+  now?: () => number
+}
+
+/**
+ * Outcome of updating the local database
+ * @interface SafeBrowsingUpdateResult
+ */
+export interface SafeBrowsingUpdateResult {
+  /** Whether the server was contacted; false while the minimum wait lasts */
+  updated: boolean
+
+  /** Updated lists */
+  lists: Array<SafeBrowsingListDescriptor & {
+    responseType: string
+    additions: number
+    removals: number
+    /** Prefixes held after the update */
+    size: number
+    /** Whether the checksum did not match, in which case the list was cleared */
+    checksumMismatch: boolean
+  }>
+
+  /** Earliest time of the next update, in milliseconds since the epoch */
+  nextUpdateAt: number
+}
+
+/**
+ * A URL expression found on a threat list
+ * @interface SafeBrowsingMatch
+ */
+export interface SafeBrowsingMatch extends SafeBrowsingListDescriptor {
+  /** Expression that matched, e.g. "evil.example/" */
+  expression: string
+
+  /** Full SHA-256 hash of the expression, hex encoded */
+  hash: string
+}
+
+/**
+ * Threat list entries served by LocalSafeBrowsingTransport
+ * @interface LocalSafeBrowsingList
+ */
+export interface LocalSafeBrowsingList extends Partial<SafeBrowsingListDescriptor> {
+  /** Kind of threat, e.g. 'MALWARE' */
+  threatType: SafeBrowsingThreatType
+
+  /** URLs or expressions such as "evil.example/" */
+  urls: string[]
+}
+
+/**
+ * Options for open redirect analysis
+ * @interface OpenRedirectOptions
+ */
+export interface OpenRedirectOptions {
+  /**
+   * Names of parameters that carry redirect targets, compared case-insensitively
+   * @default SECURITY.OPEN_REDIRECT_PARAMS
+   */
+  params?: string[]
+
+  /**
+   * Whether parameters with other names are analyzed when their value is a URL
+   * @default true
+   */
+  inspectAllParams?: boolean
+
+  /**
+   * Trusted destinations besides the URL's own origin: origins such as
+   * "https://example.com", hostnames such as "example.com", or "*.example.com"
+   * for any subdomain
+   * @default []
+   */
+  allowedDestinations?: string[]
+
+  /**
+   * How many times a value is percent-decoded, and how deep redirect
+   * parameters inside targets are followed
+   * @default 3
+   */
+  maxDepth?: number
+}
+
+/**
+ * Why a redirect parameter was flagged
+ * @typedef {string} OpenRedirectReason
+ */
+export type OpenRedirectReason =
+  | 'same-origin'
+  | 'allowed'
+  | 'cross-origin'
+  | 'dangerous-scheme'
+
+/**
+ * A parameter whose value is a redirect target
+ * @interface OpenRedirectFinding
+ */
+export interface OpenRedirectFinding {
+  /** Parameter names from the analyzed URL down to this one */
+  chain: string[]
+
+  /** Whether the parameter is in the query or in a query-like fragment */
+  location: 'query' | 'fragment'
+
+  /** Parameter value as found, after URLSearchParams decoding */
+  value: string
+
+  /** Target after decoding and resolving, if it is a valid URL */
+  target?: string
+
+  /** Number of extra percent-decoding rounds the value needed */
+  encodingDepth: number
+
+  /** Whether the target is protocol-relative or uses backslashes, which browsers read as a host */
+  protocolRelative: boolean
+
+  /** Outcome of the analysis */
+  reason: OpenRedirectReason
+
+  /** Risk of the parameter */
+  riskLevel: SecurityRiskLevel
+}
+
+/**
+ * Result of open redirect analysis
+ * @interface OpenRedirectResult
+ */
+export interface OpenRedirectResult {
+  /** Analyzed URL */
+  url: string
+
+  /** Redirect parameters found, including harmless ones */
+  findings: OpenRedirectFinding[]
+
+  /** Whether any parameter redirects to an untrusted destination */
+  vulnerable: boolean
+
+  /** Highest risk among the findings */
+  riskLevel: SecurityRiskLevel
+}
+
+/**
+ * Kinds of injection payloads
+ * @typedef {string} InjectionCategory
+ */
+export type InjectionCategory = 'xss' | 'sql-injection' | 'suspicious-protocol' | 'suspicious-pattern'
+
+/**
+ * Decoders applied to a value before matching
+ * @typedef {string} InjectionDecoding
+ */
+export type InjectionDecoding = 'percent' | 'html-entities' | 'unicode-escapes' | 'base64'
+
+/**
+ * Options for injection scanning
+ * @interface InjectionScannerOptions
+ */
+export interface InjectionScannerOptions {
+  /**
+   * Decoding rounds applied on top of the raw value
+   * @default 3
+   */
+  maxDepth?: number
+
+  /**
+   * Payload kinds to look for
+   * @default all categories
+   */
+  categories?: InjectionCategory[]
+
+  /**
+   * Findings below this confidence are dropped
+   * @default 0.3
+   */
+  minConfidence?: number
+
+  /**
+   * Longest value scanned; longer values are truncated
+   * @default 8192
+   */
+  maxLength?: number
+}
+
+/**
+ * A payload found in a URL component
+ * @interface InjectionFinding
+ */
+export interface InjectionFinding {
+  /** Where the payload was found, e.g. "pathname" or "query.q" */
+  component: string
+
+  /** Kind of payload */
+  category: InjectionCategory
+
+  /** Source of the pattern that matched */
+  pattern: string
+
+  /** Matched text, after decoding */
+  evidence: string
+
+  /** Decoders applied, in order, before the pattern matched */
+  decodings: InjectionDecoding[]
+
+  /** Likelihood that the value is an attack, between 0 and 1 */
+  confidence: number
+}
+
+/**
+ * Result of scanning a URL or value
+ * @interface InjectionScanResult
+ */
+export interface InjectionScanResult {
+  /** Findings, most confident first */
+  findings: InjectionFinding[]
+
+  /** Highest confidence among the findings, or 0 */
+  confidence: number
+
+  /** Risk derived from the highest confidence */
+  riskLevel: SecurityRiskLevel
+}
+
+/**
+ * Why an outbound URL was refused
+ * @typedef {string} SsrfViolationReason
+ */
+export type SsrfViolationReason =
+  | 'protocol'
+  | 'port'
+  | 'denied-host'
+  | 'cloud-metadata'
+  | 'ipv4-mapped'
+  | 'unspecified'
+  | 'loopback'
+  | 'link-local'
+  | 'private'
+  | 'multicast'
+  | 'reserved'
+  | 'unresolvable'
+
+/**
+ * Outbound request policy
+ * @interface SsrfPolicyOptions
+ */
+export interface SsrfPolicyOptions {
+  /**
+   * Protocols that may be fetched
+   * @default ['http:', 'https:']
+   */
+  allowedProtocols?: string[]
+
+  /**
+   * Ports that may be fetched; any port when omitted
+   */
+  allowedPorts?: number[]
+
+  /**
+   * Hosts that may be fetched whatever they resolve to: hostnames,
+   * "*.domain" patterns or IP addresses. Cloud metadata stays refused
+   * @default []
+   */
+  allowedHosts?: string[]
+
+  /**
+   * Hosts that are always refused, in the same forms as allowedHosts
+   * @default ['localhost', '*.localhost', 'metadata.google.internal']
+   */
+  deniedHosts?: string[]
+
+  /** Whether private ranges (RFC 1918, carrier-grade NAT, unique local) may be fetched */
+  allowPrivate?: boolean
+
+  /** Whether loopback addresses may be fetched */
+  allowLoopback?: boolean
+
+  /** Whether link-local addresses may be fetched */
+  allowLinkLocal?: boolean
+
+  /** Whether multicast addresses may be fetched */
+  allowMulticast?: boolean
+
+  /** Whether IPv6 addresses carrying an IPv4 address may be fetched; the IPv4 part is still checked */
+  allowIPv4Mapped?: boolean
+
+  /**
+   * Resolver for hostnames
+   * @default new NodeDnsResolver()
+   */
+  resolver?: DnsResolver
+
+  /**
+   * Timeout per DNS lookup in milliseconds
+   * @default 5000
+   */
+  timeoutMs?: number
+}
+
+/**
+ * An outbound URL that passed the policy
+ * @interface SsrfValidationResult
+ */
+export interface SsrfValidationResult {
+  /** Normalized URL */
+  url: string
+
+  /** Hostname as written in the URL, without IPv6 brackets */
+  hostname: string
+
+  /** Port to connect to */
+  port: number
+
+  /** Every address the hostname resolved to; all passed the policy */
+  addresses: string[]
+
+  /** Address to connect to, so that a second lookup cannot swap it */
+  pinnedAddress: string
+
+  /** IP version of the pinned address */
+  family: 4 | 6
 }
@@ -1,15 +1,37 @@
-import type { SpecialSiteHandler, SpecialURL } from './types'
+import type { SpecialSiteHandler, SpecialURL, SpecialURLData } from './types'
 import { ValidationError } from '../../../errors'
 
-export abstract class BaseSpecialSiteHandler implements SpecialSiteHandler {
+export abstract class BaseSpecialSiteHandler<T extends SpecialURL = SpecialURL> implements SpecialSiteHandler<T> {
   abstract name: string
   abstract domains: string[]
+  schemes?: string[]
 
-  abstract parse(url: string): SpecialURL
+  abstract parse(url: string): T
+
+  abstract build(data: SpecialURLData<T>): string
+
+  format(url: string): string {
+    return this.build(this.parse(url))
+  }
+
+  buildAppUrl(data: SpecialURLData<T>): string {
+    throw new ValidationError(`No ${this.name} app link for type: ${data.type}`)
+  }
+
+  toAppUrl(url: string): string {
+    return this.buildAppUrl(this.parse(url))
+  }
+
+  toWebUrl(url: string): string {
+    return this.format(url)
+  }
 
   validate(url: string): boolean {
     try {
       const parsedUrl = new URL(url)
+      if (this.isAppUrl(parsedUrl)) {
+        return true
+      }
       return this.domains.some(domain =>
         parsedUrl.hostname === domain
         || parsedUrl.hostname.endsWith(`.${domain}`),
@@ -34,11 +56,58 @@ export abstract class BaseSpecialSiteHandler implements SpecialSiteHandler {
     }
   }
 
+  protected isAppUrl(url: URL): boolean {
+    return this.schemes?.includes(url.protocol) ?? false
+  }
+
   protected getQueryParam(url: URL, param: string): string | undefined {
     return url.searchParams.get(param) ?? undefined
   }
 
   protected getPathSegments(url: URL): string[] {
-    return url.pathname.split('/').filter(Boolean)
+    return url.pathname.split('/').filter(Boolean).map((segment) => {
+      try {
+        return decodeURIComponent(segment)
+      }
+      catch {
+        return segment
+      }
+    })
+  }
+
+  /**
+   * Joins an origin, path segments and query parameters into a URL;
+   * undefined segments and parameters are left out
+   */
+  protected buildUrl(
+    origin: string,
+    segments: Array<string | number | undefined>,
+    query: Record<string, string | number | string[] | undefined> = {},
+    hash?: string,
+  ): string {
+    const path = segments
+      .filter(segment => segment !== undefined)
+      .map(segment => this.encodePathSegment(String(segment)))
+      .join('/')
+
+    const params = new URLSearchParams()
+    for (const [key, value] of Object.entries(query)) {
+      for (const item of Array.isArray(value) ? value : [value]) {
+        if (item !== undefined) {
+          params.append(key, String(item))
+        }
+      }
+    }
+
+    const search = params.toString()
+    return `${origin}${path ? `/${path}` : ''}${search ? `?${search}` : ''}${hash ? `#${hash}` : ''}`
+  }
+
+  /**
+   * Percent-encodes a path segment, keeping the sub-delimiters, "@" and ":"
+   * that paths allow as they are
+   */
+  protected encodePathSegment(segment: string): string {
+    return encodeURIComponent(segment).replace(/%(?:21|24|26|27|28|29|2A|2B|2C|3A|3B|3D|40)/gi, decodeURIComponent)
   }
 }
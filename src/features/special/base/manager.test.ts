@@ -0,0 +1,107 @@
+import type { SpecialURL, SpecialURLData } from './types'
+import { describe, expect, it } from 'vitest'
+import { specialSiteManager } from '..'
+import { ValidationError } from '../../../errors'
+import { BaseSpecialSiteHandler } from './handler'
+import { SpecialSiteManager } from './manager'
+
+interface PageURL extends SpecialURL {
+  type: 'page'
+  path: string
+}
+
+// Accepts any path on its domains and counts how often it parses
+class PageHandler<N extends string> extends BaseSpecialSiteHandler<PageURL> {
+  parsed = 0
+
+  constructor(readonly name: N, public domains: string[], private readonly rejects?: string) {
+    super()
+  }
+
+  parse(url: string): PageURL {
+    this.parsed++
+    const { pathname } = new URL(url)
+    if (pathname === this.rejects) {
+      throw new ValidationError(`Invalid ${this.name} URL: unsupported path ${pathname}`)
+    }
+    return { type: 'page', path: pathname, originalUrl: url, isValid: true }
+  }
+
+  build(data: SpecialURLData<PageURL>): string {
+    return `https://${this.domains[0]}${data.path}`
+  }
+}
+
+describe('specialSiteManager', () => {
+  it('dispatches to the handler listing the host or a parent of it', () => {
+    expect(specialSiteManager.dispatch('https://github.com/a/b')).toMatchObject({ matched: true, site: 'github', data: { type: 'repo' } })
+    expect(specialSiteManager.dispatch('https://www.t.me/durov')).toMatchObject({ matched: true, site: 'telegram' })
+    expect(specialSiteManager.dispatch('https://GITHUB.com./a/b')).toMatchObject({ matched: true, site: 'github' })
+    expect(specialSiteManager.dispatch('tg://resolve?domain=x')).toMatchObject({ matched: true, site: 'telegram' })
+  })
+
+  it('reports why a URL was rejected', () => {
+    expect(specialSiteManager.dispatch('https://t.me/')).toEqual({
+      matched: false,
+      site: 'telegram',
+      reason: 'Invalid telegram URL: unsupported path /',
+    })
+    expect(specialSiteManager.dispatch('https://help.steampowered.com/en/')).toEqual({
+      matched: false,
+      site: 'steam',
+      reason: 'Unsupported steam host: help.steampowered.com',
+    })
+    expect(specialSiteManager.dispatch('https://example.com/')).toEqual({ matched: false, reason: 'No handler for example.com' })
+    expect(specialSiteManager.dispatch('not a url')).toEqual({ matched: false, reason: 'Invalid URL: not a url' })
+    expect(() => specialSiteManager.format('https://t.me/')).toThrow('unsupported path /')
+  })
+
+  it('prefers the longest listed domain', () => {
+    const site = new PageHandler('site', ['example.com'])
+    const docs = new PageHandler('docs', ['docs.example.com'])
+    const manager = new SpecialSiteManager<Record<never, SpecialURL>>().register(site).register(docs)
+
+    expect(manager.dispatch('https://api.docs.example.com/x')).toMatchObject({ matched: true, site: 'docs' })
+    expect(manager.dispatch('https://www.example.com/x')).toMatchObject({ matched: true, site: 'site' })
+  })
+
+  it('falls back to less specific handlers and keeps the first reason', () => {
+    const site = new PageHandler('site', ['example.com'])
+    const docs = new PageHandler('docs', ['docs.example.com'], '/old')
+    const manager = new SpecialSiteManager<Record<never, SpecialURL>>().register(site).register(docs)
+
+    expect(manager.dispatch('https://docs.example.com/old')).toMatchObject({ matched: true, site: 'site' })
+
+    const strict = new SpecialSiteManager<Record<never, SpecialURL>>().register(docs)
+    expect(strict.dispatch('https://docs.example.com/old')).toEqual({
+      matched: false,
+      site: 'docs',
+      reason: 'Invalid docs URL: unsupported path /old',
+    })
+  })
+
+  it('parses each URL once', () => {
+    const site = new PageHandler('site', ['example.com'])
+    const manager = new SpecialSiteManager<Record<never, SpecialURL>>().register(site)
+
+    expect(manager.validate('https://example.com/x')).toBe(true)
+    expect(manager.format('https://example.com/x')).toBe('https://example.com/x')
+    expect(site.parsed).toBe(2)
+  })
+
+  it('replaces a handler registered under the same name', () => {
+    const manager = new SpecialSiteManager<Record<never, SpecialURL>>().register(new PageHandler('site', ['example.com']))
+    expect(manager.validate('https://example.com/x')).toBe(true)
+
+    manager.register(new PageHandler('site', ['example.org']))
+    expect(manager.validate('https://example.com/x')).toBe(false)
+    expect(manager.validate('https://example.org/x')).toBe(true)
+    expect(manager.getAllHandlers()).toHaveLength(1)
+  })
+
+  it('narrows results by site', () => {
+    const result = specialSiteManager.dispatch('https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC')
+
+    expect(result.matched && result.site === 'spotify' ? result.data.id : undefined).toBe('4uLU6hMCjMI75M1A2tKUQC')
+  })
+})
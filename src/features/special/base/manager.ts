@@ -1,65 +1,135 @@
-import type { SpecialSiteHandler, SpecialURL } from './types'
+import type { SpecialSiteDispatch, SpecialSiteHandler, SpecialURL } from './types'
+import { domainToASCII } from 'node:url'
 import { ValidationError } from '../../../errors'
+import { DomainHandler } from '../../domain/core/domain-handler'
 
-export class SpecialSiteManager {
+/**
+ * How a handler claims a URL, from most to least specific: by app link
+ * scheme, by one of its domains, by a parent of one of its domains, or only
+ * by sharing a registrable domain with it
+ */
+type SpecialSiteClaim = 'scheme' | 'host' | 'subdomain' | 'registrable'
+
+interface SpecialSiteCandidate {
+  handler: SpecialSiteHandler
+  claim: SpecialSiteClaim
+}
+
+interface SpecialSiteIndex {
+  /** Handlers by the domains they list */
+  hosts: Map<string, SpecialSiteHandler[]>
+  /** Handlers by the registrable domains of the domains they list */
+  registrable: Map<string, SpecialSiteHandler[]>
+  /** Handlers by app link scheme */
+  schemes: Map<string, SpecialSiteHandler[]>
+}
+
+/**
+ * Dispatches URLs to special-site handlers. Handlers are indexed by host,
+ * registrable domain and scheme, so a lookup walks the labels of the URL's
+ * host instead of trying every handler, and each URL is constructed once.
+ *
+ * The type parameter maps handler names to their result types. register
+ * returns the manager typed with the new handler, so that
+ * `new SpecialSiteManager<Record<never, SpecialURL>>().register(a).register(b)`
+ * dispatches to a union discriminated by `site`
+ */
+export class SpecialSiteManager<S extends Record<string, SpecialURL> = Record<string, SpecialURL>> {
   private readonly handlers: Map<string, SpecialSiteHandler> = new Map()
+  private readonly domainHandler = new DomainHandler()
+  private index?: SpecialSiteIndex
 
-  register(handler: SpecialSiteHandler): void {
-    this.handlers.set(handler.name, handler)
+  /**
+   * Adds a handler, replacing any handler of the same name
+   * @param {SpecialSiteHandler} handler - The handler
+   * @returns {SpecialSiteManager} This manager, typed with the handler's results
+   */
+  register<N extends string, T extends SpecialURL>(
+    handler: SpecialSiteHandler<T> & { name: N },
+  ): SpecialSiteManager<S & Record<N, T>> {
+    // Stored without the result type; a handler is only given back objects it parsed
+    this.handlers.set(handler.name, handler as unknown as SpecialSiteHandler)
+    // Rebuilt on the next lookup
+    this.index = undefined
+    return this as unknown as SpecialSiteManager<S & Record<N, T>>
   }
 
-  parse(url: string): SpecialURL | null {
+  /**
+   * Parses a URL with the most specific handler that accepts it. Handlers
+   * claiming the URL are tried from most to least specific, and a rejection
+   * reports the reason given by the most specific one
+   * @param {string} url - The URL
+   * @returns {SpecialSiteDispatch} The parsed object tagged with its handler's name, or why no handler accepted the URL
+   */
+  dispatch(url: string): SpecialSiteDispatch<S> {
+    let parsedUrl: URL
     try {
-      // const parsedUrl = new URL(url);
+      parsedUrl = new URL(url)
+    }
+    catch {
+      return { matched: false, reason: `Invalid URL: ${url}` }
+    }
 
-      for (const handler of this.handlers.values()) {
-        if (handler.validate(url)) {
-          return handler.parse(url)
-        }
+    const candidates = this.getCandidates(parsedUrl)
+    let rejection: SpecialSiteDispatch<S> | undefined
+    for (const { handler, claim } of candidates) {
+      const site = handler.name as keyof S & string
+      if (claim === 'registrable') {
+        // Another host of the same site, such as help.steampowered.com
+        rejection ??= { matched: false, site, reason: `Unsupported ${handler.name} host: ${parsedUrl.hostname}` }
+        continue
       }
 
-      return null
-    }
-    catch {
-      return null
+      try {
+        const data = handler.parseUrl ? handler.parseUrl(parsedUrl, url) : handler.parse(url)
+        return { matched: true, site, data } as SpecialSiteDispatch<S>
+      }
+      catch (error) {
+        rejection ??= { matched: false, site, reason: error instanceof Error ? error.message : String(error) }
+      }
     }
+
+    return rejection ?? { matched: false, reason: `No handler for ${parsedUrl.hostname || parsedUrl.protocol}` }
   }
 
-  validate(url: string): boolean {
-    try {
-      // const parsedUrl = new URL(url);
+  parse(url: string): S[keyof S & string] | null {
+    const result = this.dispatch(url)
+    return result.matched ? result.data : null
+  }
 
-      for (const handler of this.handlers.values()) {
-        if (handler.validate(url)) {
-          return true
-        }
-      }
+  validate(url: string): boolean {
+    return this.dispatch(url).matched
+  }
 
-      return false
+  normalize(url: string): string {
+    let parsedUrl: URL
+    try {
+      parsedUrl = new URL(url)
     }
     catch {
-      return false
+      throw new ValidationError(`Invalid URL: ${url}`)
     }
+
+    const candidate = this.getCandidates(parsedUrl).find(({ claim }) => claim !== 'registrable')
+    if (!candidate) {
+      throw new ValidationError('No handler found for URL')
+    }
+    return candidate.handler.normalize(url)
   }
 
-  normalize(url: string): string {
-    try {
-      // const parsedUrl = new URL(url);
+  format(url: string): string {
+    const { handler, data } = this.resolve(url)
+    return handler.build(data)
+  }
 
-      for (const handler of this.handlers.values()) {
-        if (handler.validate(url)) {
-          return handler.normalize(url)
-        }
-      }
+  toAppUrl(url: string): string {
+    const { handler, data } = this.resolve(url)
+    return handler.buildAppUrl(data)
+  }
 
-      throw new ValidationError('No handler found for URL')
-    }
-    catch (error) {
-      if (error instanceof ValidationError) {
-        throw error
-      }
-      throw new ValidationError(`Invalid URL: ${url}`)
-    }
+  toWebUrl(url: string): string {
+    const { handler, data } = this.resolve(url)
+    return handler.build(data)
   }
 
   getHandler(name: string): SpecialSiteHandler | undefined {
@@ -69,4 +139,82 @@ export class SpecialSiteManager {
   getAllHandlers(): SpecialSiteHandler[] {
     return Array.from(this.handlers.values())
   }
+
+  /**
+   * Parses a URL and returns the handler that accepted it
+   * @private
+   */
+  private resolve(url: string): { handler: SpecialSiteHandler, data: SpecialURL } {
+    const result = this.dispatch(url)
+    const handler = result.matched ? this.handlers.get(result.site) : undefined
+    if (!result.matched || !handler) {
+      throw new ValidationError(result.matched ? 'No handler found for URL' : result.reason)
+    }
+    return { handler, data: result.data }
+  }
+
+  /**
+   * Handlers claiming a URL, most specific first: scheme handlers, then
+   * handlers listing the host or a parent of it, longest domain first, then
+   * handlers sharing only its registrable domain. Ties keep registration order
+   * @private
+   */
+  private getCandidates(url: URL): SpecialSiteCandidate[] {
+    const index = this.getIndex()
+    const claims = new Map<SpecialSiteHandler, SpecialSiteClaim>()
+    const add = (handlers: SpecialSiteHandler[] | undefined, claim: SpecialSiteClaim): void => {
+      handlers?.forEach(handler => claims.has(handler) || claims.set(handler, claim))
+    }
+
+    add(index.schemes.get(url.protocol), 'scheme')
+
+    const labels = url.hostname.replace(/\.$/, '').split('.').filter(Boolean)
+    const suffixes = labels.map((_, start) => labels.slice(start).join('.'))
+    suffixes.forEach((suffix, start) => add(index.hosts.get(suffix), start === 0 ? 'host' : 'subdomain'))
+    // The registrable domain of a host is one of its suffixes, so no
+    // Public Suffix List lookup is needed per URL
+    suffixes.forEach(suffix => add(index.registrable.get(suffix), 'registrable'))
+
+    return Array.from(claims, ([handler, claim]) => ({ handler, claim }))
+  }
+
+  private getIndex(): SpecialSiteIndex {
+    if (this.index) {
+      return this.index
+    }
+
+    const index: SpecialSiteIndex = { hosts: new Map(), registrable: new Map(), schemes: new Map() }
+    const add = (map: Map<string, SpecialSiteHandler[]>, key: string, handler: SpecialSiteHandler): void => {
+      const handlers = map.get(key) ?? []
+      if (!handlers.includes(handler)) {
+        handlers.push(handler)
+      }
+      map.set(key, handlers)
+    }
+
+    for (const handler of this.handlers.values()) {
+      for (const domain of handler.domains) {
+        // URL hostnames are lowercase punycode
+        const host = domainToASCII(domain) || domain.toLowerCase()
+        add(index.hosts, host, handler)
+        const registrable = this.getRegistrableDomain(host)
+        if (registrable) {
+          add(index.registrable, registrable, handler)
+        }
+      }
+      handler.schemes?.forEach(scheme => add(index.schemes, scheme.toLowerCase(), handler))
+    }
+
+    this.index = index
+    return index
+  }
+
+  private getRegistrableDomain(host: string): string | undefined {
+    try {
+      return this.domainHandler.getRootDomain(host)
+    }
+    catch {
+      return undefined
+    }
+  }
 }
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../../errors'
+import { RoutePattern } from './route-pattern'
+
+describe('routePattern', () => {
+  it('captures parameters and rests', () => {
+    const pattern = new RoutePattern('/:owner/:repo/blob/:branch/*path')
+
+    expect(pattern.params).toEqual(['owner', 'repo', 'branch', 'path'])
+    expect(pattern.match(['a', 'b', 'blob', 'main', 'src', 'x.ts'])).toEqual({ owner: 'a', repo: 'b', branch: 'main', path: 'src/x.ts' })
+    expect(pattern.match(['a', 'b', 'tree', 'main'])).toBeNull()
+    expect(pattern.build({ owner: 'a', repo: 'b', branch: 'main', path: 'src/x.ts' })).toEqual(['a', 'b', 'blob', 'main', 'src', 'x.ts'])
+    expect(pattern.build({ owner: 'a' })).toBeNull()
+  })
+
+  it('leaves out optional parameters only from the end', () => {
+    const pattern = new RoutePattern('/channels/:guildId?/:channelId?')
+
+    expect(pattern.match(['channels'])).toEqual({})
+    expect(pattern.match(['channels', '1'])).toEqual({ guildId: '1' })
+    expect(pattern.build({ guildId: '1' })).toEqual(['channels', '1'])
+    expect(pattern.build({ channelId: '2' })).toBeNull()
+  })
+
+  it('checks constraints when matching and building', () => {
+    const pattern = new RoutePattern('/store/:type(movies|books)/:id(\\d+)?')
+
+    expect(pattern.match(['store', 'books', '7'])).toEqual({ type: 'books', id: '7' })
+    expect(pattern.match(['store', 'apps'])).toBeNull()
+    expect(pattern.match(['store', 'books', 'x'])).toBeNull()
+    expect(pattern.build({ type: 'games' })).toBeNull()
+  })
+
+  it('lets a rest sit between parameters', () => {
+    const pattern = new RoutePattern('/:first/*middle/:last')
+
+    expect(pattern.match(['1', '2', '3', '4'])).toEqual({ first: '1', middle: '2/3', last: '4' })
+    expect(pattern.match(['1', '2'])).toEqual({ first: '1', middle: '', last: '2' })
+  })
+
+  it('skips segments with a bare rest', () => {
+    const pattern = new RoutePattern('/*/settings/*')
+
+    expect(pattern.params).toEqual([])
+    expect(pattern.match(['mail', 'u', '0', 'settings', 'general'])).toEqual({})
+  })
+
+  it('rejects malformed parameters', () => {
+    expect(() => new RoutePattern('/:bad-name')).toThrow(ValidationError)
+  })
+})
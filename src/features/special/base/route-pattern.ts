@@ -0,0 +1,154 @@
+import { ValidationError } from '../../../errors'
+
+type RouteToken =
+  | { kind: 'literal', value: string }
+  | { kind: 'param', name: string, optional: boolean, constraint?: RegExp }
+  | { kind: 'rest', name?: string }
+
+/**
+ * A compiled route path such as "/:owner/:repo/blob/:branch/*path".
+ *
+ * - `literal` matches itself
+ * - `:name` captures one segment, `:name?` may be left out and
+ *   `:name(regex)` only captures segments matching the regex
+ * - `*name` captures any number of segments joined with "/", and a bare
+ *   `*` skips them
+ */
+export class RoutePattern {
+  /** Names of the captured parameters */
+  public readonly params: string[]
+  private readonly tokens: RouteToken[]
+
+  constructor(public readonly source: string) {
+    this.tokens = source.split('/').filter(Boolean).map(segment => this.compile(segment))
+    this.params = this.tokens.flatMap(token => token.kind !== 'literal' && token.name ? [token.name] : [])
+  }
+
+  /**
+   * Matches path segments against the pattern
+   * @param {string[]} segments - Decoded path segments
+   * @returns {Record<string, string> | null} The captured parameters, or null if the path does not match
+   */
+  public match(segments: string[]): Record<string, string> | null {
+    return this.matchFrom(0, segments, 0, {})
+  }
+
+  /**
+   * Fills the pattern from a result object
+   * @param {Record<string, unknown>} values - Result fields
+   * @returns {string[] | null} Path segments, or null if a required parameter is missing or does not fit
+   */
+  public build(values: Record<string, unknown>): string[] | null {
+    const segments: string[] = []
+    let skipped = false
+
+    for (const token of this.tokens) {
+      if (token.kind === 'literal') {
+        if (skipped) {
+          return null
+        }
+        segments.push(token.value)
+        continue
+      }
+
+      const value = token.name === undefined ? undefined : values[token.name]
+      if (token.kind === 'rest') {
+        if (typeof value === 'string' && value) {
+          segments.push(...value.split('/'))
+        }
+        continue
+      }
+
+      if (value === undefined || value === '') {
+        if (!token.optional) {
+          return null
+        }
+        // Later optional parameters cannot be written without this one
+        skipped = true
+        continue
+      }
+      const text = String(value)
+      if (skipped || (token.constraint && !token.constraint.test(text))) {
+        return null
+      }
+      segments.push(text)
+    }
+
+    return segments
+  }
+
+  /**
+   * Tries every way of splitting the remaining segments among the remaining
+   * tokens, so that rests and optional parameters can sit anywhere
+   * @private
+   */
+  private matchFrom(
+    tokenIndex: number,
+    segments: string[],
+    segmentIndex: number,
+    captured: Record<string, string>,
+  ): Record<string, string> | null {
+    const token = this.tokens[tokenIndex]
+    if (!token) {
+      return segmentIndex === segments.length ? captured : null
+    }
+
+    const segment = segments[segmentIndex]
+    switch (token.kind) {
+      case 'literal':
+        return segment === token.value
+          ? this.matchFrom(tokenIndex + 1, segments, segmentIndex + 1, captured)
+          : null
+
+      case 'param': {
+        if (segment !== undefined && (!token.constraint || token.constraint.test(segment))) {
+          const matched = this.matchFrom(tokenIndex + 1, segments, segmentIndex + 1, { ...captured, [token.name]: segment })
+          if (matched) {
+            return matched
+          }
+        }
+        return token.optional ? this.matchFrom(tokenIndex + 1, segments, segmentIndex, captured) : null
+      }
+
+      case 'rest':
+        // Longest first, so that a trailing rest takes everything
+        for (let end = segments.length; end >= segmentIndex; end--) {
+          const rest = segments.slice(segmentIndex, end).join('/')
+          const matched = this.matchFrom(
+            tokenIndex + 1,
+            segments,
+            end,
+            token.name ? { ...captured, [token.name]: rest } : captured,
+          )
+          if (matched) {
+            return matched
+          }
+        }
+        return null
+    }
+  }
+
+  /**
+   * Parses one segment of the pattern source
+   * @private
+   */
+  private compile(segment: string): RouteToken {
+    if (segment.startsWith('*')) {
+      return { kind: 'rest', name: segment.slice(1) || undefined }
+    }
+    if (!segment.startsWith(':')) {
+      return { kind: 'literal', value: segment }
+    }
+
+    const param = /^:(\w+)(?:\((.+)\))?(\?)?$/.exec(segment)
+    if (!param) {
+      throw new ValidationError(`Invalid route parameter "${segment}" in ${this.source}`)
+    }
+    return {
+      kind: 'param',
+      name: param[1],
+      optional: param[3] === '?',
+      constraint: param[2] ? new RegExp(`^(?:${param[2]})$`) : undefined,
+    }
+  }
+}
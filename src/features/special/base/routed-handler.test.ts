@@ -0,0 +1,98 @@
+import type { SpecialRoute } from './types'
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { ValidationError } from '../../../errors'
+import { RoutedSpecialSiteHandler } from './routed-handler'
+import { BaseSpecialURLSchema } from './types'
+
+const TrackerURLSchema = BaseSpecialURLSchema.extend({
+  type: z.enum(['project', 'issue', 'search', 'board']),
+  project: z.string().optional(),
+  number: z.number().optional(),
+  labels: z.array(z.string()).optional(),
+  query: z.string().optional(),
+  line: z.number().optional(),
+  locale: z.string().optional(),
+  archived: z.boolean().optional(),
+  instance: z.string().optional(),
+})
+
+type TrackerURL = z.infer<typeof TrackerURLSchema>
+
+// A made-up issue tracker, as a third party would add one
+class TrackerHandler extends RoutedSpecialSiteHandler<TrackerURL> {
+  readonly name = 'tracker'
+  domains = ['tracker.example']
+  schemes = ['tracker:']
+  schema = TrackerURLSchema
+  sharedQuery = { locale: 'lang' }
+
+  routes: SpecialRoute<TrackerURL>[] = [
+    { type: 'search', path: '/search', query: { query: 'q', labels: 'label' } },
+    { type: 'board', path: '/archive/:project/board', values: { archived: true, instance: 'main' } },
+    { type: 'board', path: '/:project/board', values: { instance: 'main' } },
+    {
+      type: 'issue',
+      path: '/:project/issues/:number(\\d+)',
+      fragment: {
+        parse: hash => ({ line: Number(hash.slice(2)) }),
+        build: ({ line }) => line === undefined ? undefined : `L${line}`,
+      },
+    },
+    { type: 'project', path: '/:project?', required: ['project'] },
+    { type: 'issue', path: '/issue/:project/:number', scheme: 'tracker:' },
+  ]
+}
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('routedSpecialSiteHandler', () => {
+  const handler = new TrackerHandler()
+
+  it.each([
+    ['https://tracker.example/search?lang=de&q=crash&label=bug&label=ui', { type: 'search', query: 'crash', labels: ['bug', 'ui'], locale: 'de' }],
+    ['https://tracker.example/archive/core/board', { type: 'board', project: 'core', archived: true, instance: 'main' }],
+    ['https://tracker.example/core/board', { type: 'board', project: 'core', instance: 'main' }],
+    ['https://tracker.example/core/issues/12#L4', { type: 'issue', project: 'core', number: 12, line: 4 }],
+    ['https://tracker.example/core', { type: 'project', project: 'core' }],
+    ['tracker:issue:core:12', { type: 'issue', project: 'core', number: 12 }],
+  ])('parses %s into typed fields', (url, expected) => {
+    expect(fieldsOf(handler.parse(url))).toEqual(expected)
+  })
+
+  it.each([
+    'https://tracker.example/search?lang=de&q=crash&label=bug&label=ui',
+    'https://tracker.example/archive/core/board',
+    'https://tracker.example/core/board',
+    'https://tracker.example/core/issues/12#L4',
+    'https://tracker.example/core',
+  ])('builds %s back', (url) => {
+    expect(handler.build(handler.parse(url))).toBe(url)
+  })
+
+  it('builds with the route implying the fewest fixed values the object lacks', () => {
+    expect(handler.build({ type: 'board', project: 'core' })).toBe('https://tracker.example/core/board')
+    expect(handler.build({ type: 'board', project: 'core', archived: true })).toBe('https://tracker.example/archive/core/board')
+  })
+
+  it('builds app links from the routes with a scheme', () => {
+    expect(handler.toAppUrl('https://tracker.example/core/issues/12')).toBe('tracker:issue:core:12')
+    expect(handler.toWebUrl('tracker:issue:core:12')).toBe('https://tracker.example/core/issues/12')
+  })
+
+  it('skips routes whose constraint does not hold', () => {
+    expect(() => handler.parse('https://tracker.example/core/issues/latest')).toThrow('unsupported path /core/issues/latest')
+  })
+
+  it('reports why no route matched', () => {
+    expect(() => handler.parse('https://tracker.example/')).toThrow('missing project')
+    expect(() => handler.parse('https://other.example/core')).toThrow(ValidationError)
+    expect(handler.validate('https://tracker.example/core/issues/latest')).toBe(false)
+  })
+
+  it('rejects objects no route can hold', () => {
+    expect(() => handler.build({ type: 'issue', project: 'core' })).toThrow('No tracker URL for type: issue')
+    expect(() => handler.buildAppUrl({ type: 'board', project: 'core' })).toThrow('No tracker app link for type: board')
+    expect(() => handler.build({ type: 'unknown' } as never)).toThrow('Invalid tracker URL structure')
+  })
+})
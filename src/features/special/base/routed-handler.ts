@@ -0,0 +1,317 @@
+import type { z } from 'zod'
+import type { SpecialRoute, SpecialRouteQuery, SpecialURL, SpecialURLData } from './types'
+import { ValidationError } from '../../../errors'
+import { BaseSpecialSiteHandler } from './handler'
+import { RoutePattern } from './route-pattern'
+
+interface CompiledRoute<T extends SpecialURL> {
+  route: SpecialRoute<T>
+  pattern: RoutePattern
+}
+
+/**
+ * A handler defined by a table of routes instead of hand-written parsing.
+ * Parsing takes the first route whose host or scheme, path and required
+ * fields match; building takes the first route that can hold every field
+ * of the object. Path and query values are coerced to the schema's types.
+ */
+export abstract class RoutedSpecialSiteHandler<T extends SpecialURL = SpecialURL> extends BaseSpecialSiteHandler<T> {
+  /** Schema the parsed objects are validated with */
+  abstract schema: z.AnyZodObject
+  /** Routes, tried in order */
+  abstract routes: SpecialRoute<T>[]
+  /** Query parameters read on every web route */
+  sharedQuery?: SpecialRouteQuery<T>
+
+  private compiled?: CompiledRoute<T>[]
+  private fieldTypes?: Map<string, string>
+
+  /**
+   * Parses a web or app URL with the route table
+   * @param {string} url - The URL
+   * @returns {T} The parsed object
+   * @throws {ValidationError} If no route matches or the result does not fit the schema
+   */
+  parse(url: string): T {
+    return this.parseUrl(new URL(this.normalize(url)), url)
+  }
+
+  /**
+   * Parses an already constructed URL with the route table
+   * @param {URL} parsedUrl - The URL
+   * @param {string} url - The URL as given, kept as originalUrl
+   * @returns {T} The parsed object
+   * @throws {ValidationError} If no route matches or the result does not fit the schema
+   */
+  parseUrl(parsedUrl: URL, url: string = parsedUrl.href): T {
+    const app = this.isAppUrl(parsedUrl)
+    const segments = app && this.isOpaque(parsedUrl)
+      ? parsedUrl.pathname.split(':').filter(Boolean).map(segment => this.decode(segment))
+      : this.getPathSegments(parsedUrl)
+
+    let failure: string | undefined
+    for (const { route, pattern } of this.getRoutes()) {
+      if (!this.appliesTo(route, parsedUrl, app)) {
+        continue
+      }
+      const params = pattern.match(segments)
+      if (!params) {
+        continue
+      }
+
+      const fields = this.readFields(route, params, parsedUrl)
+      const missing = route.required?.find(field => fields[field] === undefined)
+      if (missing !== undefined) {
+        failure ??= `missing ${String(missing)}`
+        continue
+      }
+
+      const validated = this.schema.safeParse({ ...fields, originalUrl: url, isValid: true })
+      if (!validated.success) {
+        throw new ValidationError(`Invalid ${this.name} URL structure: ${validated.error.message}`)
+      }
+      return validated.data as T
+    }
+
+    throw new ValidationError(`Invalid ${this.name} URL: ${failure ?? `unsupported path ${parsedUrl.pathname || '/'}`}`)
+  }
+
+  build(data: SpecialURLData<T>): string {
+    return this.buildWith(data, false)
+  }
+
+  override buildAppUrl(data: SpecialURLData<T>): string {
+    return this.buildWith(data, true)
+  }
+
+  override validate(url: string): boolean {
+    if (!super.validate(url)) {
+      return false
+    }
+
+    try {
+      this.parse(url)
+      return true
+    }
+    catch {
+      return false
+    }
+  }
+
+  /**
+   * Builds a web URL or, with `app`, an app link from the first route that fits the object
+   * @private
+   */
+  private buildWith(data: SpecialURLData<T>, app: boolean): string {
+    const validated = this.schema.partial({ originalUrl: true, isValid: true }).safeParse(data)
+    if (!validated.success) {
+      throw new ValidationError(`Invalid ${this.name} URL structure: ${validated.error.message}`)
+    }
+
+    const fields = validated.data as Record<string, unknown>
+    const candidates = this.getRoutes()
+      .filter(({ route }) => (route.scheme !== undefined) === app)
+      .map(compiled => ({ ...compiled, segments: this.fillRoute(compiled, fields) }))
+      .filter((candidate): candidate is CompiledRoute<T> & { segments: string[] } => candidate.segments !== null)
+
+    // Of the routes holding every field, the first implying the fewest values the object lacks
+    const holding = candidates.filter(candidate => this.holdsAll(candidate, fields))
+    const fewest = Math.min(...holding.map(candidate => this.addedValues(candidate, fields)))
+    const chosen = holding.find(candidate => this.addedValues(candidate, fields) === fewest) ?? candidates[0]
+    if (!chosen) {
+      throw new ValidationError(`No ${this.name} ${app ? 'app link' : 'URL'} for type: ${String(fields.type)}`)
+    }
+
+    const { route, segments } = chosen
+    const query: Record<string, string | number | string[] | undefined> = {}
+    for (const [field, param] of Object.entries(this.queryOf(route))) {
+      const value = fields[field]
+      if (value !== undefined) {
+        query[param] = Array.isArray(value) ? value.map(String) : String(value)
+      }
+    }
+    const hash = route.fragment?.build(fields as T)
+
+    if (route.scheme !== undefined && !route.hosts) {
+      // Opaque app links such as "spotify:track:ID"
+      const search = new URLSearchParams(Object.entries(query).flatMap(([key, value]) =>
+        (Array.isArray(value) ? value : [value]).map(item => [key, String(item)]),
+      )).toString()
+      return `${route.scheme}${segments.map(segment => this.encodePathSegment(segment)).join(':')}${search ? `?${search}` : ''}`
+    }
+
+    const host = (route.hosts ?? this.domains)[0]
+    return this.buildUrl(`${route.scheme ?? 'https:'}//${host}`, segments, query, hash)
+  }
+
+  /**
+   * Path segments of a route for an object, or null if the route cannot express it
+   * @private
+   */
+  private fillRoute({ route, pattern }: CompiledRoute<T>, fields: Record<string, unknown>): string[] | null {
+    if (route.type !== undefined ? route.type !== fields.type : !pattern.params.includes('type')) {
+      return null
+    }
+    if (route.required?.some(field => fields[field as string] === undefined)) {
+      return null
+    }
+
+    // Fixed values only need to agree where the URL does not carry the field itself
+    const carried = new Set([...pattern.params, ...Object.keys(this.queryOf(route))])
+    for (const [field, value] of Object.entries(route.values ?? {})) {
+      if (!carried.has(field) && fields[field] !== undefined && fields[field] !== value) {
+        return null
+      }
+    }
+
+    return pattern.build(route.build ? { ...fields, ...route.build(fields as T) } : fields)
+  }
+
+  /**
+   * Whether a route carries every field set on the object
+   * @private
+   */
+  private holdsAll({ route, pattern }: CompiledRoute<T>, fields: Record<string, unknown>): boolean {
+    const held = new Set([
+      'type',
+      'originalUrl',
+      'isValid',
+      ...pattern.params,
+      ...Object.keys(this.queryOf(route)),
+      ...Object.keys(route.values ?? {}),
+      ...this.fragmentFields(route, fields),
+    ])
+    return Object.entries(fields).every(([field, value]) => value === undefined || held.has(field))
+  }
+
+  /**
+   * Number of fixed values parsing the URL of a route would set that the
+   * object does not have, such as a flag only one of two similar paths implies
+   * @private
+   */
+  private addedValues({ route, pattern }: CompiledRoute<T>, fields: Record<string, unknown>): number {
+    const carried = new Set([...pattern.params, ...Object.keys(this.queryOf(route))])
+    return Object.entries(route.values ?? {}).filter(([field, value]) => !carried.has(field) && fields[field] !== value).length
+  }
+
+  /**
+   * Fields the fragment of a route writes and reads back unchanged; a
+   * fragment may hold some fields only in some combinations
+   * @private
+   */
+  private fragmentFields(route: SpecialRoute<T>, fields: Record<string, unknown>): string[] {
+    const hash = route.fragment?.build(fields as T)
+    if (!route.fragment || hash === undefined) {
+      return []
+    }
+    return Object.entries(route.fragment.parse(`#${hash}`))
+      .filter(([field, value]) => value !== undefined && value === fields[field])
+      .map(([field]) => field)
+  }
+
+  /**
+   * Collects the fields of a matched route: fixed values, path parameters,
+   * query parameters, the fragment and derived fields, in that order
+   * @private
+   */
+  private readFields(route: SpecialRoute<T>, params: Record<string, string>, url: URL): Partial<T> {
+    const fields: Record<string, unknown> = { ...route.values }
+    if (route.type !== undefined) {
+      fields.type = route.type
+    }
+
+    for (const [name, value] of Object.entries(params)) {
+      fields[name] = this.coerce(name, value)
+    }
+
+    for (const [field, param] of Object.entries(this.queryOf(route))) {
+      const values = url.searchParams.getAll(param).filter(Boolean)
+      if (values.length > 0) {
+        fields[field] = this.isArrayField(field) ? values : this.coerce(field, values[0])
+      }
+    }
+
+    if (route.fragment && url.hash) {
+      Object.assign(fields, route.fragment.parse(url.hash))
+    }
+
+    return route.parse ? { ...fields, ...route.parse(fields as Partial<T>, url) } : fields as Partial<T>
+  }
+
+  /**
+   * Query parameters of a route; app links do not take the shared ones
+   * @private
+   */
+  private queryOf(route: SpecialRoute<T>): Record<string, string> {
+    const query: SpecialRouteQuery<T> = route.scheme === undefined ? { ...this.sharedQuery, ...route.query } : { ...route.query }
+    return query as Record<string, string>
+  }
+
+  /**
+   * Converts a captured string to the schema type of its field
+   * @private
+   */
+  private coerce(field: string, value: string): unknown {
+    return this.unwrap(field) === 'ZodNumber' ? Number(value) : value
+  }
+
+  private isArrayField(field: string): boolean {
+    return this.unwrap(field) === 'ZodArray'
+  }
+
+  /**
+   * Type name of a schema field, looking through optional and default wrappers
+   * @private
+   */
+  private unwrap(field: string): string | undefined {
+    // Cached, since zod rebuilds the shape of an extended schema on every access
+    if (!this.fieldTypes) {
+      this.fieldTypes = new Map()
+      for (const [name, schema] of Object.entries(this.schema.shape as Record<string, z.ZodTypeAny>)) {
+        let type = schema
+        while ('innerType' in type._def) {
+          type = type._def.innerType as z.ZodTypeAny
+        }
+        this.fieldTypes.set(name, type._def.typeName as string)
+      }
+    }
+    return this.fieldTypes.get(field)
+  }
+
+  /**
+   * Whether a route applies to the host of a web URL or the scheme and action of an app link
+   * @private
+   */
+  private appliesTo(route: SpecialRoute<T>, url: URL, app: boolean): boolean {
+    if (app) {
+      return route.scheme === url.protocol && (!route.hosts || route.hosts.includes(url.hostname))
+    }
+    const hostname = url.hostname.replace(/\.$/, '')
+    return route.scheme === undefined && (route.hosts ?? this.domains).some(host =>
+      hostname === host || hostname.endsWith(`.${host}`),
+    )
+  }
+
+  /**
+   * App links without "//", such as "spotify:track:ID" or "mailto:a@b.c"
+   * @private
+   */
+  private isOpaque(url: URL): boolean {
+    return !url.href.startsWith(`${url.protocol}//`)
+  }
+
+  private decode(segment: string): string {
+    try {
+      return decodeURIComponent(segment)
+    }
+    catch {
+      return segment
+    }
+  }
+
+  private getRoutes(): CompiledRoute<T>[] {
+    // Compiled on first use, since subclasses set their routes after this constructor runs
+    this.compiled ??= this.routes.map(route => ({ route, pattern: new RoutePattern(route.path) }))
+    return this.compiled
+  }
+}
@@ -6,12 +6,36 @@ export interface SpecialURL {
   isValid: boolean
 }
 
-export interface SpecialSiteHandler {
+/**
+ * A parsed object as accepted by `build`; originalUrl and isValid may be left out
+ */
+export type SpecialURLData<T extends SpecialURL = SpecialURL> =
+  Omit<T, 'originalUrl' | 'isValid'> & Partial<Pick<T, 'originalUrl' | 'isValid'>>
+
+export interface SpecialSiteHandler<T extends SpecialURL = SpecialURL> {
   name: string
   domains: string[]
-  parse: (url: string) => SpecialURL
+  parse: (url: string) => T
+  /** Parses a URL the caller has already constructed, without modifying it; lets SpecialSiteManager construct each URL once */
+  parseUrl?: (url: URL, originalUrl: string) => T
   validate: (url: string) => boolean
   normalize: (url: string) => string
+  /** Builds the canonical URL of a parsed object; parse(build(x)) gives x back */
+  build: (data: SpecialURLData<T>) => string
+  /** Rewrites a URL into its canonical form */
+  format: (url: string) => string
+  /** Builds the native app link of a parsed object */
+  buildAppUrl: (data: SpecialURLData<T>) => string
+  /** Rewrites a web or app URL into the native app link */
+  toAppUrl: (url: string) => string
+  /** Rewrites a web or app URL into the canonical web URL */
+  toWebUrl: (url: string) => string
+  /** Schemes of the native app links the handler parses, e.g. "spotify:" */
+  schemes?: string[]
+  /** Query parameters that only identify who shared the link */
+  trackingParams?: string[]
+  /** Query parameters carrying a shared URL, or text that may contain URLs */
+  shareParams?: string[]
 }
 
 export const BaseSpecialURLSchema = z.object({
@@ -19,3 +43,47 @@ export const BaseSpecialURLSchema = z.object({
   originalUrl: z.string(),
   isValid: z.boolean(),
 })
+
+/**
+ * Result fields read from query parameters, by field name
+ */
+export type SpecialRouteQuery<T extends SpecialURL = SpecialURL> =
+  Partial<Record<Exclude<keyof T, 'type' | 'originalUrl' | 'isValid'>, string>>
+
+/**
+ * One URL form of a site, for RoutedSpecialSiteHandler
+ */
+export interface SpecialRoute<T extends SpecialURL = SpecialURL> {
+  /** Result type; may be left out when the path captures `:type` */
+  type?: T['type']
+  /** Path pattern, see RoutePattern */
+  path: string
+  /** Hostnames the route applies to, the first one is used for building; defaults to the handler's domains */
+  hosts?: string[]
+  /** App link scheme such as "tg:"; routes without one match web URLs */
+  scheme?: string
+  /** Result fields read from query parameters */
+  query?: SpecialRouteQuery<T>
+  /** Fixed result fields; query parameters and path parameters override them */
+  values?: Partial<Omit<T, 'type' | 'originalUrl' | 'isValid'>>
+  /** Fields that must be present for the route to match */
+  required?: Array<keyof T>
+  /** Reads and writes fields kept in the URL fragment */
+  fragment?: {
+    parse: (hash: string) => Partial<T>
+    build: (data: T) => string | undefined
+  }
+  /** Derives further fields once the path and query have been read */
+  parse?: (fields: Partial<T>, url: URL) => Partial<T>
+  /** Derives the path parameters `parse` reads back, such as a range built from two fields */
+  build?: (data: T) => Record<string, string | undefined>
+}
+
+/**
+ * Result of SpecialSiteManager.dispatch: the parsed object tagged with the
+ * name of the handler that produced it, or why the URL was rejected. `site`
+ * on a rejection names the handler that claimed the URL's host or scheme
+ */
+export type SpecialSiteDispatch<S extends Record<string, SpecialURL> = Record<string, SpecialURL>> =
+  | { [K in keyof S & string]: { matched: true, site: K, data: S[K] } }[keyof S & string]
+  | { matched: false, site?: keyof S & string, reason: string }
@@ -1,3 +1,4 @@
+import type { SpecialURL } from './base/types'
 import { SpecialSiteManager } from './base/manager'
 import { DiscordHandler } from './sites/discord'
 import { GitHubHandler } from './sites/github'
@@ -8,21 +9,25 @@ import { SteamHandler } from './sites/steam'
 import { TelegramHandler } from './sites/telegram'
 import { WhatsAppHandler } from './sites/whatsapp'
 
-// Create and configure the manager
-const specialSiteManager = new SpecialSiteManager()
-
-// Register all handlers
-specialSiteManager.register(new DiscordHandler())
-specialSiteManager.register(new GitHubHandler())
-specialSiteManager.register(new SpotifyHandler())
-specialSiteManager.register(new SteamHandler())
-specialSiteManager.register(new TelegramHandler())
-specialSiteManager.register(new WhatsAppHandler())
-specialSiteManager.register(new PlayMarketHandler())
-specialSiteManager.register(new MailHandler())
+// Create the manager and register all handlers; chaining keeps the result type of each handler
+const specialSiteManager = new SpecialSiteManager<Record<never, SpecialURL>>()
+  .register(new DiscordHandler())
+  .register(new GitHubHandler())
+  .register(new SpotifyHandler())
+  .register(new SteamHandler())
+  .register(new TelegramHandler())
+  .register(new WhatsAppHandler())
+  .register(new PlayMarketHandler())
+  .register(new MailHandler())
 
 export { specialSiteManager }
 
+// Export base classes
+export { BaseSpecialSiteHandler } from './base/handler'
+export { RoutePattern } from './base/route-pattern'
+export { RoutedSpecialSiteHandler } from './base/routed-handler'
+export { SpecialSiteManager }
+
 // Export base types
 export * from './base/types'
 
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { DiscordHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('discordHandler', () => {
+  const handler = new DiscordHandler()
+
+  it.each([
+    ['https://discord.com/channels/1/2/3', { type: 'channels', guildId: '1', channelId: '2', messageId: '3' }],
+    ['https://discord.com/channels/@me/2', { type: 'channels', guildId: '@me', channelId: '2' }],
+    ['https://discord.com/users/80', { type: 'users', userId: '80' }],
+    ['https://discord.gg/abc', { type: 'invite', inviteCode: 'abc' }],
+  ])('builds %s back without losing fields', (url, expected) => {
+    const parsed = handler.parse(url)
+
+    expect(fieldsOf(parsed)).toEqual(expected)
+    expect(handler.build(parsed)).toBe(url)
+  })
+
+  it('writes invites to the short domain', () => {
+    expect(handler.format('https://discord.com/invite/abc')).toBe('https://discord.gg/abc')
+  })
+
+  it.each([
+    ['https://discord.com/channels/1/2/3', 'discord://-/channels/1/2/3'],
+    ['https://discord.com/users/80', 'discord://-/users/80'],
+    ['https://discord.gg/abc', 'discord://-/invite/abc'],
+  ])('converts %s to %s and back', (web, app) => {
+    expect(handler.toAppUrl(web)).toBe(app)
+    expect(handler.toWebUrl(app)).toBe(web)
+  })
+
+  it('reads app links without the "-" host', () => {
+    expect(fieldsOf(handler.parse('discord:///invite/abc'))).toEqual({ type: 'invite', inviteCode: 'abc' })
+  })
+})
@@ -1,85 +1,25 @@
+import type { SpecialRoute } from '../../base/types'
 import type { DiscordURL } from './types'
-import { ValidationError } from '../../../../errors'
-import { BaseSpecialSiteHandler } from '../../base/handler'
+import { PROTOCOLS } from '../../../../core/constants'
+import { RoutedSpecialSiteHandler } from '../../base/routed-handler'
 import { DiscordURLSchema } from './types'
 
-export class DiscordHandler extends BaseSpecialSiteHandler {
-  name = 'discord'
-  domains = ['discord.com', 'discord.gg']
-
-  parse(url: string): DiscordURL {
-    const normalizedUrl = this.normalize(url)
-    const parsedUrl = new URL(normalizedUrl)
-    const segments = this.getPathSegments(parsedUrl)
-
-    let result: Partial<DiscordURL> = {
-      type: 'channels',
-      originalUrl: url,
-      isValid: true,
-    }
-
-    if (parsedUrl.hostname === 'discord.gg') {
-      result = {
-        ...result,
-        type: 'invite',
-        inviteCode: segments[0],
-      }
-    }
-    else {
-      switch (segments[0]) {
-        case 'channels':
-          if (segments.length >= 2) {
-            result = {
-              ...result,
-              type: 'channels',
-              guildId: segments[1],
-              channelId: segments[2],
-              messageId: segments[3],
-            }
-          }
-          break
-
-        case 'users':
-          result = {
-            ...result,
-            type: 'users',
-            userId: segments[1],
-          }
-          break
-
-        case 'invite':
-          result = {
-            ...result,
-            type: 'invite',
-            inviteCode: segments[1],
-          }
-          break
+// Paths shared by discord.com and "discord://-/..." app links
+const PATHS: SpecialRoute<DiscordURL>[] = [
+  { type: 'channels', path: '/channels/:guildId?/:channelId?/:messageId?' },
+  { type: 'users', path: '/users/:userId?' },
+  { type: 'invite', path: '/invite/:inviteCode?' },
+]
 
-        default:
-          throw new ValidationError(`Invalid Discord URL path: ${parsedUrl.pathname}`)
-      }
-    }
-
-    // Validate with zod schema
-    const validated = DiscordURLSchema.safeParse(result)
-    if (!validated.success) {
-      throw new ValidationError(`Invalid Discord URL structure: ${validated.error.message}`)
-    }
-
-    return validated.data
-  }
-
-  override validate(url: string): boolean {
-    if (!super.validate(url)) {
-      return false
-    }
-
-    try {
-      this.parse(url)
-      return true
-    }
-    catch {
-      return false
-    }
-  }
+export class DiscordHandler extends RoutedSpecialSiteHandler<DiscordURL> {
+  readonly name = 'discord'
+  domains = ['discord.com', 'discord.gg']
+  schemes = [PROTOCOLS.DISCORD]
+  schema = DiscordURLSchema
+
+  routes: SpecialRoute<DiscordURL>[] = [
+    { type: 'invite', path: '/:inviteCode', hosts: ['discord.gg'] },
+    ...PATHS.map(route => ({ ...route, hosts: ['discord.com'] })),
+    ...PATHS.map(route => ({ ...route, scheme: PROTOCOLS.DISCORD, hosts: ['-', ''] })),
+  ]
 }
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../../../errors'
+import { GitHubHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('gitHubHandler', () => {
+  const handler = new GitHubHandler({ enterpriseHosts: ['GHE.Corp.example'] })
+
+  it.each([
+    ['https://github.com/octocat', { type: 'profile', owner: 'octocat' }],
+    ['https://github.com/o/r', { type: 'repo', owner: 'o', repo: 'r' }],
+    ['https://github.com/o/r/blob/main/src/a.ts#L10-L20', { type: 'blob', branch: 'main', path: 'src/a.ts', lineStart: 10, lineEnd: 20 }],
+    ['https://github.com/o/r/tree/main/src', { type: 'tree', branch: 'main', path: 'src' }],
+    ['https://github.com/o/r/commit/abc1234', { type: 'commit', commitHash: 'abc1234' }],
+    ['https://github.com/o/r/compare/main...feature', { type: 'compare', base: 'main', head: 'feature', compareMode: 'three-dot' }],
+    ['https://github.com/o/r/compare/v1..v2', { type: 'compare', base: 'v1', head: 'v2', compareMode: 'two-dot' }],
+    ['https://github.com/o/r/compare/feature', { type: 'compare', head: 'feature' }],
+    ['https://github.com/o/r/issues/5', { type: 'issues', issueNumber: 5 }],
+    ['https://github.com/o/r/pull/7/files', { type: 'pull', pullNumber: 7, pullView: 'files' }],
+    ['https://github.com/o/r/discussions/9', { type: 'discussions', discussionNumber: 9 }],
+    ['https://github.com/o/r/actions', { type: 'actions' }],
+    ['https://github.com/o/r/actions/runs/11', { type: 'actions', runId: 11 }],
+    ['https://github.com/o/r/actions/runs/11/job/22', { type: 'actions', runId: 11, jobId: 22 }],
+    ['https://github.com/o/r/wiki/Home', { type: 'wiki', wikiPage: 'Home' }],
+    ['https://github.com/o/r/releases/tag/v1.0/beta', { type: 'releases', releaseTag: 'v1.0/beta' }],
+    ['https://raw.githubusercontent.com/o/r/main/a/b.ts', { type: 'raw', branch: 'main', path: 'a/b.ts' }],
+    ['https://codeload.github.com/o/r/zip/refs/heads/main', { type: 'archive', archiveFormat: 'zip', branch: 'refs/heads/main' }],
+    ['https://gist.github.com/octocat/aa5a315d61ae9438b18d', { type: 'gist', owner: 'octocat', gistId: 'aa5a315d61ae9438b18d' }],
+    ['https://gist.github.com/aa5a315d61ae9438b18d0000', { type: 'gist', gistId: 'aa5a315d61ae9438b18d0000' }],
+  ])('builds %s back without losing fields', (url, expected) => {
+    const parsed = handler.parse(url)
+
+    expect(parsed).toMatchObject({ host: 'github.com', ...expected })
+    expect(handler.build(parsed)).toBe(url)
+  })
+
+  it.each([
+    ['https://github.com/o/r/blob/main/a.ts#L10C5-L20C3', 'https://github.com/o/r/blob/main/a.ts#L10-L20'],
+    ['https://github.com/o/r/compare/v1..v2.diff', 'https://github.com/o/r/compare/v1..v2'],
+    ['https://github.com/o/r/raw/main/a.ts', 'https://raw.githubusercontent.com/o/r/main/a.ts'],
+    ['https://raw.githubusercontent.com/o/r/refs/heads/main/a.ts', 'https://raw.githubusercontent.com/o/r/main/a.ts'],
+  ])('formats %s as %s', (url, expected) => {
+    expect(handler.format(url)).toBe(expected)
+  })
+
+  it.each([
+    ['https://ghe.corp.example/o/r/pull/3', { type: 'pull', pullNumber: 3 }],
+    ['https://ghe.corp.example/raw/o/r/main/a.ts', { type: 'raw', branch: 'main', path: 'a.ts' }],
+    ['https://ghe.corp.example/gist/o/abc123', { type: 'gist', owner: 'o', gistId: 'abc123' }],
+  ])('handles the Enterprise Server URL %s', (url, expected) => {
+    const parsed = handler.parse(url)
+
+    expect(parsed).toMatchObject({ host: 'ghe.corp.example', ...expected })
+    expect(fieldsOf(handler.parse(handler.build(parsed)))).toEqual(fieldsOf(parsed))
+  })
+
+  it('leaves Enterprise Server hosts alone unless configured', () => {
+    expect(new GitHubHandler().validate('https://ghe.corp.example/o/r')).toBe(false)
+  })
+
+  it('builds objects that leave out the host for github.com', () => {
+    expect(handler.build({ type: 'actions', owner: 'o', repo: 'r', runId: 5 })).toBe('https://github.com/o/r/actions/runs/5')
+    expect(handler.build({ type: 'releases', owner: 'o', repo: 'r', releaseTag: 'v1' })).toBe('https://github.com/o/r/releases/tag/v1')
+  })
+
+  it('converts between blob and raw URLs', () => {
+    expect(handler.toRawUrl('https://github.com/o/r/blob/main/a.ts#L3')).toBe('https://raw.githubusercontent.com/o/r/main/a.ts')
+    expect(handler.toBlobUrl('https://raw.githubusercontent.com/o/r/main/a.ts')).toBe('https://github.com/o/r/blob/main/a.ts')
+    expect(handler.toRawUrl('https://ghe.corp.example/o/r/blob/main/a.ts')).toBe('https://ghe.corp.example/raw/o/r/main/a.ts')
+    expect(() => handler.toRawUrl('https://github.com/o/r')).toThrow('Not a GitHub file URL')
+  })
+
+  it('pins branch URLs to a commit', () => {
+    expect(handler.toPermalink('https://github.com/o/r/blob/main/a.ts#L3', 'ABCDEF1')).toBe('https://github.com/o/r/blob/abcdef1/a.ts#L3')
+    expect(handler.toPermalink('https://github.com/o/r/tree/main/src', 'abcdef1234')).toBe('https://github.com/o/r/tree/abcdef1234/src')
+    expect(handler.toPermalink('https://raw.githubusercontent.com/o/r/main/a.ts', 'abcdef1')).toBe('https://raw.githubusercontent.com/o/r/abcdef1/a.ts')
+    expect(() => handler.toPermalink('https://github.com/o/r/blob/main/a.ts', 'main')).toThrow(ValidationError)
+  })
+
+  it('sets and clears line ranges', () => {
+    expect(handler.withLineRange('https://github.com/o/r/blob/main/a.ts', 10, 20)).toBe('https://github.com/o/r/blob/main/a.ts#L10-L20')
+    expect(handler.withLineRange('https://github.com/o/r/blob/main/a.ts#L4', 5, 5)).toBe('https://github.com/o/r/blob/main/a.ts#L5')
+    expect(handler.withLineRange('https://github.com/o/r/blob/main/a.ts#L4')).toBe('https://github.com/o/r/blob/main/a.ts')
+    expect(() => handler.withLineRange('https://github.com/o/r/blob/main/a.ts', 20, 10)).toThrow('Invalid line range: 20-10')
+  })
+})
@@ -1,133 +1,188 @@
-import type { GitHubURL } from './types'
+import type { SpecialRoute, SpecialURLData } from '../../base/types'
+import type { GitHubHandlerOptions, GitHubURL } from './types'
 import { ValidationError } from '../../../../errors'
-import { BaseSpecialSiteHandler } from '../../base/handler'
-import { GitHubURLSchema } from './types'
-
-export class GitHubHandler extends BaseSpecialSiteHandler {
-  name = 'github'
-  domains = ['github.com']
-
-  parse(url: string): GitHubURL {
-    const normalizedUrl = this.normalize(url)
-    const parsedUrl = new URL(normalizedUrl)
-    const segments = this.getPathSegments(parsedUrl)
-
-    if (segments.length === 0) {
-      throw new ValidationError('Invalid GitHub URL: no path segments')
+import { RoutedSpecialSiteHandler } from '../../base/routed-handler'
+import { GitHubHandlerOptionsSchema, GitHubURLSchema } from './types'
+
+const GITHUB_HOST = 'github.com'
+const COMMIT_HASH = /^[0-9a-f]{7,40}$/i
+
+// "#L10" or "#L10-L20" on blob URLs; columns ("#L10C5-L20C3") are dropped
+const LINES_FRAGMENT: SpecialRoute<GitHubURL>['fragment'] = {
+  parse: (hash) => {
+    const lines = /^#L(\d+)(?:C\d+)?(?:-L(\d+)(?:C\d+)?)?$/.exec(hash)
+    if (!lines) {
+      return {}
     }
-
-    let result: Partial<GitHubURL> = {
-      type: 'profile',
-      originalUrl: url,
-      isValid: true,
-      owner: segments[0],
+    return {
+      lineStart: Number.parseInt(lines[1], 10),
+      lineEnd: lines[2] ? Number.parseInt(lines[2], 10) : undefined,
     }
+  },
+  build: ({ lineStart, lineEnd }) => lineStart === undefined
+    ? undefined
+    : `L${lineStart}${lineEnd !== undefined ? `-L${lineEnd}` : ''}`,
+}
 
-    if (segments.length === 1) {
-      // User profile URL
-      return GitHubURLSchema.parse(result)
+// "compare/main...feature" compares from the merge base, "main..feature" directly
+const COMPARE_RANGE: Pick<SpecialRoute<GitHubURL>, 'parse' | 'build'> = {
+  parse: ({ head = '' }) => {
+    const range = head.replace(/\.(?:diff|patch)$/, '')
+    const dots = range.includes('...') ? '...' : '..'
+    const at = range.indexOf(dots)
+    if (at <= 0 || at + dots.length >= range.length) {
+      return { head: range }
     }
-
-    // Repository URL
-    result.repo = segments[1]
-
-    if (segments.length === 2) {
-      result.type = 'repo'
-      return GitHubURLSchema.parse(result)
+    return {
+      base: range.slice(0, at),
+      head: range.slice(at + dots.length),
+      compareMode: dots === '..' ? 'two-dot' : 'three-dot',
     }
+  },
+  build: ({ base, head, compareMode }) => ({
+    head: base === undefined ? head : `${base}${compareMode === 'two-dot' ? '..' : '...'}${head}`,
+  }),
+}
 
-    // Parse specific repository sections
-    switch (segments[2]) {
-      case 'blob':
-      case 'tree':
-        if (segments.length < 4) {
-          throw new ValidationError(`Invalid GitHub ${segments[2]} URL: missing branch or path`)
-        }
-        result = {
-          ...result,
-          type: segments[2] === 'blob' ? 'blob' : 'tree',
-          branch: segments[3],
-          path: segments.slice(4).join('/'),
-        }
+// Routes under a repository, shared by github.com and Enterprise Server
+function repositoryRoutes(hosts: string[], host: string): SpecialRoute<GitHubURL>[] {
+  const values = { host }
+  const routes: SpecialRoute<GitHubURL>[] = [
+    { type: 'profile', path: '/:owner' },
+    { type: 'repo', path: '/:owner/:repo' },
+    { type: 'blob', path: '/:owner/:repo/blob/:branch/*path', fragment: LINES_FRAGMENT },
+    { type: 'raw', path: '/:owner/:repo/raw/:branch/*path' },
+    { type: 'tree', path: '/:owner/:repo/tree/:branch/*path' },
+    { type: 'commit', path: '/:owner/:repo/commit/:commitHash' },
+    { type: 'compare', path: '/:owner/:repo/compare/*head', required: ['head'], ...COMPARE_RANGE },
+    { type: 'issues', path: '/:owner/:repo/issues/:issueNumber?' },
+    { type: 'pull', path: '/:owner/:repo/pull/:pullNumber/:pullView(files|commits|checks)?' },
+    { type: 'discussions', path: '/:owner/:repo/discussions/:discussionNumber?' },
+    { type: 'actions', path: '/:owner/:repo/actions' },
+    { type: 'actions', path: '/:owner/:repo/actions/runs/:runId' },
+    { type: 'actions', path: '/:owner/:repo/actions/runs/:runId/job/:jobId' },
+    { type: 'wiki', path: '/:owner/:repo/wiki/:wikiPage?' },
+    { type: 'releases', path: '/:owner/:repo/releases' },
+    { type: 'releases', path: '/:owner/:repo/releases/tag/*releaseTag', required: ['releaseTag'] },
+  ]
+  return routes.map(route => ({ ...route, hosts, values }))
+}
 
-        // Parse line numbers for blob URLs
-        if (segments[2] === 'blob' && parsedUrl.hash) {
-          const lineMatch = parsedUrl.hash.match(/^#L(\d+)(?:-L(\d+))?$/)
-          if (lineMatch) {
-            result.lineStart = Number.parseInt(lineMatch[1], 10)
-            if (lineMatch[2]) {
-              result.lineEnd = Number.parseInt(lineMatch[2], 10)
-            }
-          }
-        }
-        break
+// Raw files and gists live on their own hosts on github.com, and under
+// /raw and /gist on an Enterprise Server host
+function githubRoutes(): SpecialRoute<GitHubURL>[] {
+  const values = { host: GITHUB_HOST }
+  return [
+    { type: 'gist', path: '/:owner/:gistId([0-9a-f]+)/:revision?', hosts: ['gist.github.com'], values },
+    { type: 'gist', path: '/:gistId([0-9a-f]{20,})', hosts: ['gist.github.com'], values },
+    // A branch named "refs" would read as a full ref name
+    { type: 'raw', path: '/:owner/:repo/:branch((?!refs$).+)/*path', hosts: ['raw.githubusercontent.com'], values },
+    { type: 'raw', path: '/:owner/:repo/refs/heads/:branch/*path', hosts: ['raw.githubusercontent.com'], values },
+    { type: 'raw', path: '/:owner/:repo/refs/tags/:branch/*path', hosts: ['raw.githubusercontent.com'], values },
+    {
+      type: 'archive',
+      path: '/:owner/:repo/:archiveFormat(zip|tar\\.gz|legacy\\.zip|legacy\\.tar\\.gz)/*branch',
+      hosts: ['codeload.github.com'],
+      values,
+      required: ['branch'],
+    },
+    ...repositoryRoutes([GITHUB_HOST], GITHUB_HOST),
+  ]
+}
 
-      case 'commit':
-        if (segments.length !== 4) {
-          throw new ValidationError('Invalid GitHub commit URL: missing commit hash')
-        }
-        result = {
-          ...result,
-          type: 'commit',
-          commitHash: segments[3],
-        }
-        break
+function enterpriseRoutes(host: string): SpecialRoute<GitHubURL>[] {
+  const values = { host }
+  return [
+    { type: 'gist', path: '/gist/:owner/:gistId([0-9a-f]+)/:revision?', hosts: [host], values },
+    { type: 'raw', path: '/raw/:owner/:repo/:branch/*path', hosts: [host], values },
+    ...repositoryRoutes([host], host),
+  ]
+}
 
-      case 'issues':
-        result = {
-          ...result,
-          type: 'issues',
-        }
-        if (segments.length === 4) {
-          result.issueNumber = Number.parseInt(segments[3], 10)
-        }
-        break
+export class GitHubHandler extends RoutedSpecialSiteHandler<GitHubURL> {
+  readonly name = 'github'
+  domains: string[]
+  schema = GitHubURLSchema
+  routes: SpecialRoute<GitHubURL>[]
+
+  /**
+   * @param {GitHubHandlerOptions} [options] - Enterprise Server hosts to handle besides github.com
+   */
+  constructor(options?: GitHubHandlerOptions) {
+    super()
+    const enterpriseHosts = GitHubHandlerOptionsSchema.parse(options ?? {}).enterpriseHosts.map(host => host.toLowerCase())
+    this.domains = [GITHUB_HOST, 'raw.githubusercontent.com', ...enterpriseHosts]
+    this.routes = [...githubRoutes(), ...enterpriseHosts.flatMap(host => enterpriseRoutes(host))]
+  }
 
-      case 'pull':
-        if (segments.length !== 4) {
-          throw new ValidationError('Invalid GitHub pull request URL: missing PR number')
-        }
-        result = {
-          ...result,
-          type: 'pull',
-          pullNumber: Number.parseInt(segments[3], 10),
-        }
-        break
+  /**
+   * Rewrites a blob URL into the URL of the raw file
+   * @param {string} url - A blob or raw URL
+   * @returns {string} The raw URL
+   * @throws {ValidationError} If the URL is not a file URL
+   */
+  toRawUrl(url: string): string {
+    const data = this.parseFile(url)
+    return this.build({ ...data, type: 'raw', lineStart: undefined, lineEnd: undefined })
+  }
 
-      case 'releases':
-        result = {
-          ...result,
-          type: 'releases',
-        }
-        if (segments.length === 4 && segments[3] === 'tag') {
-          result.releaseTag = segments[4]
-        }
-        break
+  /**
+   * Rewrites a raw file URL into the URL of the file page
+   * @param {string} url - A raw or blob URL
+   * @returns {string} The blob URL
+   * @throws {ValidationError} If the URL is not a file URL
+   */
+  toBlobUrl(url: string): string {
+    return this.build({ ...this.parseFile(url), type: 'blob' })
+  }
 
-      default:
-        throw new ValidationError(`Invalid GitHub URL path: ${parsedUrl.pathname}`)
+  /**
+   * Pins a file or directory URL to a commit, so that it keeps pointing at
+   * the same content when the branch moves
+   * @param {string} url - A blob, raw or tree URL
+   * @param {string} commitHash - Full or abbreviated SHA of the commit
+   * @returns {string} The URL with the branch replaced by the commit
+   * @throws {ValidationError} If the URL has no branch or the hash is not a SHA
+   */
+  toPermalink(url: string, commitHash: string): string {
+    if (!COMMIT_HASH.test(commitHash)) {
+      throw new ValidationError(`Invalid commit hash: ${commitHash}`)
     }
 
-    // Validate with zod schema
-    const validated = GitHubURLSchema.safeParse(result)
-    if (!validated.success) {
-      throw new ValidationError(`Invalid GitHub URL structure: ${validated.error.message}`)
+    const data = this.parse(url)
+    if (data.type !== 'tree') {
+      return this.build({ ...this.parseFile(url), branch: commitHash.toLowerCase() })
     }
-
-    return validated.data
+    return this.build({ ...data, branch: commitHash.toLowerCase() })
   }
 
-  override validate(url: string): boolean {
-    if (!super.validate(url)) {
-      return false
+  /**
+   * Sets or clears the highlighted lines of a file URL
+   * @param {string} url - A blob or raw URL
+   * @param {number} [lineStart] - First line; leave out to clear the range
+   * @param {number} [lineEnd] - Last line, for a range
+   * @returns {string} The blob URL with "#L10" or "#L10-L20"
+   * @throws {ValidationError} If the URL is not a file URL or the range is invalid
+   */
+  withLineRange(url: string, lineStart?: number, lineEnd?: number): string {
+    const valid = (line?: number): boolean => line === undefined || (Number.isInteger(line) && line > 0)
+    if (!valid(lineStart) || !valid(lineEnd) || (lineEnd !== undefined && (lineStart === undefined || lineEnd < lineStart))) {
+      throw new ValidationError(`Invalid line range: ${lineStart ?? ''}-${lineEnd ?? ''}`)
     }
 
-    try {
-      this.parse(url)
-      return true
-    }
-    catch {
-      return false
+    return this.build({
+      ...this.parseFile(url),
+      type: 'blob',
+      lineStart,
+      lineEnd: lineEnd === lineStart ? undefined : lineEnd,
+    })
+  }
+
+  private parseFile(url: string): SpecialURLData<GitHubURL> {
+    const data = this.parse(url)
+    if (data.type !== 'blob' && data.type !== 'raw') {
+      throw new ValidationError(`Not a GitHub file URL: ${url}`)
     }
+    return data
   }
 }
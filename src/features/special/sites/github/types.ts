@@ -2,17 +2,51 @@ import { z } from 'zod'
 import { BaseSpecialURLSchema } from '../../base/types'
 
 export const GitHubURLSchema = BaseSpecialURLSchema.extend({
-  type: z.enum(['repo', 'blob', 'tree', 'commit', 'issues', 'pull', 'releases', 'profile']),
-  owner: z.string(),
+  type: z.enum([
+    'repo',
+    'blob',
+    'raw',
+    'tree',
+    'commit',
+    'compare',
+    'issues',
+    'pull',
+    'discussions',
+    'actions',
+    'wiki',
+    'releases',
+    'archive',
+    'gist',
+    'profile',
+  ]),
+  host: z.string().optional(), // github.com or a GitHub Enterprise Server host
+  owner: z.string().optional(), // Absent only on anonymous gists
   repo: z.string().optional(),
-  branch: z.string().optional(),
+  branch: z.string().optional(), // Branch, tag or commit the URL points at
   path: z.string().optional(),
   lineStart: z.number().optional(),
   lineEnd: z.number().optional(),
   issueNumber: z.number().optional(),
   pullNumber: z.number().optional(),
+  pullView: z.enum(['files', 'commits', 'checks']).optional(),
   commitHash: z.string().optional(),
+  base: z.string().optional(), // Compared refs; "compare/main" compares the default branch with main
+  head: z.string().optional(),
+  compareMode: z.enum(['two-dot', 'three-dot']).optional(),
+  discussionNumber: z.number().optional(),
+  runId: z.number().optional(),
+  jobId: z.number().optional(),
+  wikiPage: z.string().optional(),
   releaseTag: z.string().optional(),
+  archiveFormat: z.enum(['zip', 'tar.gz', 'legacy.zip', 'legacy.tar.gz']).optional(),
+  gistId: z.string().optional(),
+  revision: z.string().optional(), // Gist revision
 })
 
 export type GitHubURL = z.infer<typeof GitHubURLSchema>
+
+export const GitHubHandlerOptionsSchema = z.object({
+  enterpriseHosts: z.array(z.string()).default([]), // GitHub Enterprise Server hosts, e.g. "github.example.com"
+})
+
+export type GitHubHandlerOptions = z.input<typeof GitHubHandlerOptionsSchema>
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { specialSiteManager } from '../..'
+import { MailHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('mailHandler', () => {
+  const handler = new MailHandler()
+
+  it.each([
+    ['https://mail.google.com/mail/u/1/#inbox/FMfcgz', { service: 'gmail', accountIndex: 1, folder: 'inbox', messageId: 'FMfcgz' }],
+    ['https://mail.google.com/mail/u/0/#label/Work%20Stuff/abc', { folder: 'label/Work Stuff', messageId: 'abc' }],
+    ['https://mail.google.com/mail/u/0/#search/from%3Abob+report', { searchQuery: 'from:bob report' }],
+    ['https://mail.google.com/mail/', { service: 'gmail', accountIndex: 0 }],
+    ['https://mail.google.com/mail/u/0/inbox?msgid=5', { folder: 'inbox', messageId: '5' }],
+    ['https://mail.google.com/mail/u/0/inbox?q=from%3Abob', { folder: 'inbox', searchQuery: 'from:bob' }],
+    ['https://outlook.live.com/mail/inbox?MessageId=9', { service: 'outlook', folder: 'inbox', messageId: '9' }],
+    ['https://mail.yahoo.com/d/folders/1/messages/2', { service: 'yahoo', folder: '1', messageId: '2' }],
+    ['https://mail.yahoo.com/d/folders/1?mid=2', { folder: '1', messageId: '2' }],
+    ['https://mail.proton.me/u/0/inbox/3', { service: 'protonmail', folder: 'inbox', messageId: '3' }],
+    ['https://mail.proton.me/u/0/inbox?id=3', { folder: 'inbox', messageId: '3' }],
+  ])('parses %s', (url, expected) => {
+    expect(specialSiteManager.parse(url)).toMatchObject({ type: 'webmail', ...expected })
+  })
+
+  it.each([
+    'https://mail.google.com/mail/u/2/#inbox/FMfcgz',
+    'https://mail.google.com/mail/u/0/#search/from%3Abob+x/abc',
+    'https://mail.google.com/mail/u/0/inbox?msgid=5',
+    'https://mail.google.com/mail/u/1/inbox?q=from%3Abob',
+    'https://mail.google.com/mail/u/0/compose?to=a@b.com&subject=Hi',
+    'https://outlook.live.com/mail/0/inbox',
+    'https://mail.yahoo.com/d/folders/1?mid=2',
+    'https://mail.proton.me/u/1/inbox?id=3',
+    'mailto:a@b.com?subject=Hi&cc=c@d.com',
+  ])('builds %s back without losing fields', (url) => {
+    const parsed = handler.parse(url)
+    expect(fieldsOf(handler.parse(handler.build(parsed)))).toEqual(fieldsOf(parsed))
+  })
+
+  it('writes Gmail views into the fragment', () => {
+    expect(handler.build({ type: 'webmail', service: 'gmail', accountIndex: 0, folder: 'inbox', messageId: '5' }))
+      .toBe('https://mail.google.com/mail/u/0#inbox/5')
+  })
+
+  it('hands compose pages over to mailto:', () => {
+    const compose = handler.parse('https://mail.google.com/mail/u/0/compose?to=a@b.com&subject=Hi')
+
+    expect(handler.buildAppUrl(compose)).toBe('mailto:a@b.com?subject=Hi')
+    expect(() => handler.buildAppUrl(handler.parse('https://mail.proton.me/u/0/inbox'))).toThrow('has no app link')
+  })
+})
@@ -1,10 +1,75 @@
+import type { SpecialRoute, SpecialURLData } from '../../base/types'
 import type { MailURL } from './types'
+import { PROTOCOLS } from '../../../../core/constants'
 import { ValidationError } from '../../../../errors'
-import { BaseSpecialSiteHandler } from '../../base/handler'
+import { RoutedSpecialSiteHandler } from '../../base/routed-handler'
 import { MailURLSchema } from './types'
 
-export class MailHandler extends BaseSpecialSiteHandler {
-  name = 'mail'
+function decodeView(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  }
+  catch {
+    return value
+  }
+}
+
+// Gmail keeps the view in the fragment: "#inbox", "#inbox/<message>",
+// "#label/<name>/<message>" or "#search/<query>/<message>"
+const GMAIL_FRAGMENT: SpecialRoute<MailURL>['fragment'] = {
+  parse: (hash) => {
+    const [view, ...rest] = hash.slice(1).split('/')
+    if (!view) {
+      return {}
+    }
+    if (view === 'search' && rest.length > 0) {
+      return { searchQuery: decodeView(rest[0].replace(/\+/g, ' ')), messageId: rest[1] }
+    }
+    if (view === 'label' && rest.length > 0) {
+      return { folder: `label/${decodeView(rest[0])}`, messageId: rest[1] }
+    }
+    return { folder: decodeView(view), messageId: rest[0] }
+  },
+  build: ({ folder, messageId, searchQuery }) => {
+    const view = searchQuery !== undefined
+      ? `search/${encodeURIComponent(searchQuery).replace(/%20/g, '+')}`
+      : folder?.split('/').map(encodeURIComponent).join('/')
+    if (view === undefined) {
+      return messageId === undefined ? undefined : `inbox/${messageId}`
+    }
+    return messageId === undefined ? view : `${view}/${messageId}`
+  },
+}
+
+// "/mail/u/1" is the second signed-in account; URLs without one open the first
+const DEFAULT_ACCOUNT: Pick<SpecialRoute<MailURL>, 'build'> = {
+  build: ({ accountIndex }) => ({ accountIndex: String(accountIndex ?? 0) }),
+}
+
+/**
+ * Routes of one webmail service. The first compose and settings routes are
+ * the canonical forms used for building; the others accept those pages
+ * anywhere in the path. Mailbox routes are listed by the service
+ */
+function webmailRoutes(
+  service: NonNullable<MailURL['service']>,
+  hosts: string[],
+  prefix: string,
+  compose: SpecialRoute<MailURL>['query'],
+  mailbox: SpecialRoute<MailURL>[],
+): SpecialRoute<MailURL>[] {
+  const values = { service }
+  return [
+    { type: 'compose', path: `${prefix}/compose`, hosts, values, query: compose },
+    { type: 'compose', path: '/*/compose/*', hosts, values, query: compose },
+    { type: 'settings', path: `${prefix}/settings`, hosts, values },
+    { type: 'settings', path: '/*/settings/*', hosts, values },
+    ...mailbox.map(route => ({ ...route, hosts, values: { ...values, ...route.values } })),
+  ]
+}
+
+export class MailHandler extends RoutedSpecialSiteHandler<MailURL> {
+  readonly name = 'mail'
   domains = [
     'mail.google.com',
     'outlook.live.com',
@@ -13,190 +78,53 @@ export class MailHandler extends BaseSpecialSiteHandler {
     'mail.proton.me',
   ]
 
-  parse(url: string): MailURL {
-    const normalizedUrl = this.normalize(url)
-    const parsedUrl = new URL(normalizedUrl)
-
-    // Handle mailto: protocol
-    if (parsedUrl.protocol === 'mailto:') {
-      return this.parseMailtoUrl(parsedUrl)
-    }
-
-    // Handle webmail services
-    return this.parseWebmailUrl(parsedUrl)
-  }
-
-  private parseMailtoUrl(parsedUrl: URL): MailURL {
-    const email = parsedUrl.pathname
-    if (!email) {
-      throw new ValidationError('Invalid mailto URL: missing email address')
-    }
+  schemes = [PROTOCOLS.MAILTO]
+  schema = MailURLSchema
 
-    const searchParams = new URLSearchParams(parsedUrl.search)
-    const result: Partial<MailURL> = {
+  routes: SpecialRoute<MailURL>[] = [
+    {
       type: 'mailto',
-      email,
-      originalUrl: parsedUrl.toString(),
-      isValid: true,
-      subject: searchParams.get('subject') || undefined,
-      body: searchParams.get('body') || undefined,
-      cc: searchParams.get('cc') || undefined,
-      bcc: searchParams.get('bcc') || undefined,
-    }
-
-    // Handle attachments if present
-    const attach = searchParams.getAll('attach')
-    if (attach.length > 0) {
-      result.attachments = attach
-    }
-
-    // Validate with zod schema
-    const validated = MailURLSchema.safeParse(result)
-    if (!validated.success) {
-      throw new ValidationError(`Invalid mailto URL structure: ${validated.error.message}`)
-    }
-
-    return validated.data
-  }
-
-  private parseWebmailUrl(parsedUrl: URL): MailURL {
-    const segments = this.getPathSegments(parsedUrl)
-    let result: Partial<MailURL> = {
-      type: 'webmail',
-      originalUrl: parsedUrl.toString(),
-      isValid: true,
-    }
-
-    // Determine mail service
-    if (parsedUrl.hostname.includes('google')) {
-      result.service = 'gmail'
-      result = this.parseGmailUrl(parsedUrl, segments, result)
-    }
-    else if (parsedUrl.hostname.includes('outlook')) {
-      result.service = 'outlook'
-      result = this.parseOutlookUrl(parsedUrl, segments, result)
-    }
-    else if (parsedUrl.hostname.includes('yahoo')) {
-      result.service = 'yahoo'
-      result = this.parseYahooUrl(parsedUrl, segments, result)
-    }
-    else if (parsedUrl.hostname.includes('proton')) {
-      result.service = 'protonmail'
-      result = this.parseProtonUrl(parsedUrl, segments, result)
-    }
-    else {
-      result.service = 'other'
-    }
-
-    // Validate with zod schema
-    const validated = MailURLSchema.safeParse(result)
-    if (!validated.success) {
-      throw new ValidationError(`Invalid webmail URL structure: ${validated.error.message}`)
-    }
-
-    return validated.data
-  }
-
-  private parseGmailUrl(parsedUrl: URL, segments: string[], result: Partial<MailURL>): Partial<MailURL> {
-    if (segments.includes('compose')) {
-      return {
-        ...result,
-        type: 'compose',
-        email: this.getQueryParam(parsedUrl, 'to'),
-        subject: this.getQueryParam(parsedUrl, 'subject'),
-        body: this.getQueryParam(parsedUrl, 'body'),
-        cc: this.getQueryParam(parsedUrl, 'cc'),
-        bcc: this.getQueryParam(parsedUrl, 'bcc'),
-      }
-    }
-
-    if (segments.includes('settings')) {
-      return {
-        ...result,
-        type: 'settings',
-      }
-    }
-
-    return {
-      ...result,
-      messageId: this.getQueryParam(parsedUrl, 'msgid'),
-      searchQuery: this.getQueryParam(parsedUrl, 'q'),
-      folder: segments[segments.length - 1],
-    }
-  }
-
-  private parseOutlookUrl(parsedUrl: URL, segments: string[], result: Partial<MailURL>): Partial<MailURL> {
-    if (segments.includes('compose')) {
-      return {
-        ...result,
-        type: 'compose',
-        email: this.getQueryParam(parsedUrl, 'to'),
-        subject: this.getQueryParam(parsedUrl, 'subject'),
-      }
-    }
-
-    return {
-      ...result,
-      messageId: this.getQueryParam(parsedUrl, 'MessageId'),
-      folder: segments[segments.length - 1],
-    }
-  }
-
-  private parseYahooUrl(parsedUrl: URL, segments: string[], result: Partial<MailURL>): Partial<MailURL> {
-    if (segments.includes('compose')) {
-      return {
-        ...result,
-        type: 'compose',
-        email: this.getQueryParam(parsedUrl, 'to'),
-        subject: this.getQueryParam(parsedUrl, 'subject'),
-      }
-    }
-
-    return {
-      ...result,
-      messageId: this.getQueryParam(parsedUrl, 'mid'),
-      folder: segments[segments.length - 1],
-    }
-  }
-
-  private parseProtonUrl(parsedUrl: URL, segments: string[], result: Partial<MailURL>): Partial<MailURL> {
-    if (segments.includes('compose')) {
-      return {
-        ...result,
-        type: 'compose',
-        email: this.getQueryParam(parsedUrl, 'to'),
-        subject: this.getQueryParam(parsedUrl, 'subject'),
-      }
-    }
+      path: '/:email',
+      scheme: PROTOCOLS.MAILTO,
+      query: { subject: 'subject', body: 'body', cc: 'cc', bcc: 'bcc', attachments: 'attach' },
+    },
+    ...webmailRoutes('gmail', ['mail.google.com'], '/mail/u/0', { email: 'to', subject: 'subject', body: 'body', cc: 'cc', bcc: 'bcc' }, [
+      { type: 'webmail', path: '/mail/u/:accountIndex(\\d+)', fragment: GMAIL_FRAGMENT, ...DEFAULT_ACCOUNT },
+      { type: 'webmail', path: '/mail', values: { accountIndex: 0 }, fragment: GMAIL_FRAGMENT },
+      { type: 'webmail', path: '/', values: { accountIndex: 0 }, fragment: GMAIL_FRAGMENT },
+      // Links into a folder without the fragment view
+      { type: 'webmail', path: '/mail/u/:accountIndex(\\d+)/:folder', query: { messageId: 'msgid', searchQuery: 'q' }, ...DEFAULT_ACCOUNT },
+    ]),
+    ...webmailRoutes('outlook', ['outlook.live.com', 'outlook.office.com'], '/mail', { email: 'to', subject: 'subject' }, [
+      { type: 'webmail', path: '/mail/:folder', query: { messageId: 'MessageId' } },
+      { type: 'webmail', path: '/mail/:accountIndex(\\d+)/:folder', query: { messageId: 'MessageId' } },
+      { type: 'webmail', path: '/mail', query: { messageId: 'MessageId' } },
+      { type: 'webmail', path: '/', query: { messageId: 'MessageId' } },
+    ]),
+    ...webmailRoutes('yahoo', ['mail.yahoo.com'], '/d', { email: 'to', subject: 'subject' }, [
+      { type: 'webmail', path: '/d/folders/:folder/messages/:messageId' },
+      { type: 'webmail', path: '/d/folders/:folder', query: { messageId: 'mid' } },
+      { type: 'webmail', path: '/d', query: { messageId: 'mid' } },
+      { type: 'webmail', path: '/', query: { messageId: 'mid' } },
+    ]),
+    ...webmailRoutes('protonmail', ['mail.proton.me'], '/u/0', { email: 'to', subject: 'subject' }, [
+      { type: 'webmail', path: '/u/:accountIndex(\\d+)/:folder/:messageId', ...DEFAULT_ACCOUNT },
+      { type: 'webmail', path: '/u/:accountIndex(\\d+)/:folder', query: { messageId: 'id' }, ...DEFAULT_ACCOUNT },
+      { type: 'webmail', path: '/u/:accountIndex(\\d+)', ...DEFAULT_ACCOUNT },
+      { type: 'webmail', path: '/', values: { accountIndex: 0 } },
+    ]),
+  ]
 
-    return {
-      ...result,
-      messageId: this.getQueryParam(parsedUrl, 'id'),
-      folder: segments[segments.length - 1],
-    }
+  // mailto: is both the canonical and the app form of a message
+  override build(data: SpecialURLData<MailURL>): string {
+    return data.type === 'mailto' ? super.buildAppUrl(data) : super.build(data)
   }
 
-  override validate(url: string): boolean {
-    if (!super.validate(url)) {
-      // Special case for mailto: protocol
-      if (url.startsWith('mailto:')) {
-        try {
-          this.parse(url)
-          return true
-        }
-        catch {
-          return false
-        }
-      }
-      return false
-    }
-
-    try {
-      this.parse(url)
-      return true
-    }
-    catch {
-      return false
+  // Compose pages hand over to the mail app
+  override buildAppUrl(data: SpecialURLData<MailURL>): string {
+    if (data.type !== 'mailto' && data.type !== 'compose') {
+      throw new ValidationError(`Invalid mail URL type: ${data.type} has no app link`)
     }
+    return super.buildAppUrl({ ...data, type: 'mailto', service: undefined })
   }
 }
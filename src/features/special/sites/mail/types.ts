@@ -9,6 +9,7 @@ export const MailURLSchema = BaseSpecialURLSchema.extend({
   cc: z.string().optional(),
   bcc: z.string().optional(),
   service: z.enum(['gmail', 'outlook', 'yahoo', 'protonmail', 'other']).optional(),
+  accountIndex: z.number().optional(), // Signed-in account, "/u/1" on Gmail and Proton Mail
   folder: z.string().optional(),
   messageId: z.string().optional(),
   searchQuery: z.string().optional(),
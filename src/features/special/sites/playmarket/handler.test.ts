@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { PlayMarketHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('playMarketHandler', () => {
+  const handler = new PlayMarketHandler()
+
+  it.each([
+    ['https://play.google.com/store/apps', { type: 'app' }],
+    ['https://play.google.com/store/apps/details?hl=en&gl=US&id=com.example', {
+      type: 'app',
+      packageName: 'com.example',
+      language: 'en',
+      country: 'US',
+    }],
+    ['https://play.google.com/store/apps/dev?id=123', { type: 'developer', developerId: '123' }],
+    ['https://play.google.com/store/apps/collection/top', { type: 'collection', collectionId: 'top' }],
+    ['https://play.google.com/store/apps/search?q=maps&price=1', { type: 'search', query: 'maps', price: '1' }],
+    ['https://play.google.com/store/movies/category/FAMILY', { type: 'movies', category: 'category', collectionId: 'FAMILY' }],
+    ['https://play.google.com/store/books', { type: 'books' }],
+    ['https://play.google.com/store/music', { type: 'music' }],
+  ])('builds %s back without losing fields', (url, expected) => {
+    const parsed = handler.parse(url)
+
+    expect(fieldsOf(parsed)).toEqual(expected)
+    expect(handler.build(parsed)).toBe(url)
+  })
+
+  it('requires a package name on details pages', () => {
+    expect(() => handler.parse('https://play.google.com/store/apps/details')).toThrow('missing packageName')
+  })
+
+  it.each([
+    ['https://play.google.com/store/apps/details?id=com.example', 'market://details?id=com.example'],
+    ['https://play.google.com/store/apps/dev?id=123', 'market://dev?id=123'],
+    ['https://play.google.com/store/apps/search?q=maps&price=1', 'market://search?q=maps&price=1'],
+  ])('converts %s to %s and back', (web, app) => {
+    expect(handler.toAppUrl(web)).toBe(app)
+    expect(handler.toWebUrl(app)).toBe(web)
+  })
+
+  it('leaves web-only parameters and pages out of app links', () => {
+    expect(handler.toAppUrl('https://play.google.com/store/apps/details?id=com.example&hl=en')).toBe('market://details?id=com.example')
+    expect(() => handler.toAppUrl('https://play.google.com/store/books')).toThrow('No playmarket app link')
+  })
+})
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { SpotifyHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('spotifyHandler', () => {
+  const handler = new SpotifyHandler()
+
+  it.each([
+    'https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC?context=spotify%3Aalbum%3A1',
+    'https://open.spotify.com/album/1DFixLWuPkv3KT3TnV35m3',
+    'https://open.spotify.com/artist/0OdUWJ0sBjDrqHygGUXeCF',
+    'https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M',
+    'https://open.spotify.com/playlist/37i9dQZF1DXcBWIGoYBM5M/spotify',
+    'https://open.spotify.com/user/spotify',
+    'https://open.spotify.com/episode/512ojhOuo1ktJprKbVcKyQ',
+    'https://open.spotify.com/show/2MAi0BvDc6GTFvKFPXnkCL?market=US',
+    'spotify:user:spotify:playlist:37i9dQZF1DXcBWIGoYBM5M',
+  ])('builds %s back without losing fields', (url) => {
+    const parsed = handler.parse(url)
+    expect(fieldsOf(handler.parse(handler.build(parsed)))).toEqual(fieldsOf(parsed))
+    expect(fieldsOf(handler.parse(handler.buildAppUrl(parsed)))).toMatchObject({ type: parsed.type, id: parsed.id })
+  })
+
+  it('keeps the playlist creator in web and app links', () => {
+    const parsed = handler.parse('https://open.spotify.com/playlist/PL1/bob?si=abc')
+
+    expect(parsed).toMatchObject({ type: 'playlist', id: 'PL1', creator: 'bob' })
+    expect(handler.build(parsed)).toBe('https://open.spotify.com/playlist/PL1/bob')
+    expect(handler.buildAppUrl(parsed)).toBe('spotify:user:bob:playlist:PL1')
+  })
+
+  it.each([
+    ['https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC', 'spotify:track:4uLU6hMCjMI75M1A2tKUQC'],
+    ['https://open.spotify.com/user/spotify', 'spotify:user:spotify'],
+  ])('converts %s to %s and back', (web, app) => {
+    expect(handler.toAppUrl(web)).toBe(app)
+    expect(handler.toWebUrl(app)).toBe(web)
+  })
+})
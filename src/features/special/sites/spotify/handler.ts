@@ -1,75 +1,24 @@
+import type { SpecialRoute } from '../../base/types'
 import type { SpotifyURL } from './types'
-import { ValidationError } from '../../../../errors'
-import { BaseSpecialSiteHandler } from '../../base/handler'
+import { PROTOCOLS } from '../../../../core/constants'
+import { RoutedSpecialSiteHandler } from '../../base/routed-handler'
 import { SpotifyURLSchema } from './types'
 
-export class SpotifyHandler extends BaseSpecialSiteHandler {
-  name = 'spotify'
+export class SpotifyHandler extends RoutedSpecialSiteHandler<SpotifyURL> {
+  readonly name = 'spotify'
   domains = ['open.spotify.com', 'play.spotify.com']
-
-  parse(url: string): SpotifyURL {
-    const normalizedUrl = this.normalize(url)
-    const parsedUrl = new URL(normalizedUrl)
-    const segments = this.getPathSegments(parsedUrl)
-
-    if (segments.length < 2) {
-      throw new ValidationError('Invalid Spotify URL: missing type or ID')
-    }
-
-    const [type, id, ...rest] = segments
-
-    // Validate type
-    if (!SpotifyURLSchema.shape.type.safeParse(type).success) {
-      throw new ValidationError(`Invalid Spotify URL type: ${type}`)
-    }
-
-    const result: Partial<SpotifyURL> = {
-      type: type as SpotifyURL['type'],
-      id,
-      originalUrl: url,
-      isValid: true,
-    }
-
-    // Parse additional parameters
-    if (type === 'playlist' && rest.length > 0) {
-      result.creator = rest[0]
-    }
-
-    const market = this.getQueryParam(parsedUrl, 'market')
-    if (market) {
-      result.market = market
-    }
-
-    const position = this.getQueryParam(parsedUrl, 'position')
-    if (position) {
-      result.position = Number.parseInt(position, 10)
-    }
-
-    const context = this.getQueryParam(parsedUrl, 'context')
-    if (context) {
-      result.context = context
-    }
-
-    // Validate with zod schema
-    const validated = SpotifyURLSchema.safeParse(result)
-    if (!validated.success) {
-      throw new ValidationError(`Invalid Spotify URL structure: ${validated.error.message}`)
-    }
-
-    return validated.data
-  }
-
-  override validate(url: string): boolean {
-    if (!super.validate(url)) {
-      return false
-    }
-
-    try {
-      this.parse(url)
-      return true
-    }
-    catch {
-      return false
-    }
-  }
+  schemes = [PROTOCOLS.SPOTIFY]
+  trackingParams = ['si', 'nd', 'dl_branch', 'utm_medium', 'utm_source']
+  schema = SpotifyURLSchema
+  sharedQuery = { market: 'market', position: 'position', context: 'context' }
+
+  routes: SpecialRoute<SpotifyURL>[] = [
+    // The web player ignores a creator after the ID; it is kept so that it survives a round trip
+    { type: 'playlist', path: '/playlist/:id/:creator?/*' },
+    { path: '/:type/:id/*' },
+    // App links carry the type and ID only; playlists may use the older
+    // "spotify:user:CREATOR:playlist:ID" form
+    { type: 'playlist', path: '/user/:creator/playlist/:id([A-Za-z0-9]+)', scheme: PROTOCOLS.SPOTIFY },
+    { path: '/:type([a-z]+)/:id([A-Za-z0-9]+)', scheme: PROTOCOLS.SPOTIFY },
+  ]
 }
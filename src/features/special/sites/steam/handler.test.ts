@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { SteamHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('steamHandler', () => {
+  const handler = new SteamHandler()
+
+  it.each([
+    ['https://store.steampowered.com', { type: 'store' }],
+    ['https://store.steampowered.com/search', { type: 'store', section: 'search' }],
+    ['https://store.steampowered.com/app/440/Team_Fortress_2?l=german&cc=de', {
+      type: 'app',
+      appId: '440',
+      section: 'Team_Fortress_2',
+      language: 'german',
+      currency: 'de',
+    }],
+    ['https://steamcommunity.com', { type: 'community' }],
+    ['https://steamcommunity.com/workshop/browse', { type: 'community', section: 'workshop', subsection: 'browse' }],
+    ['https://steamcommunity.com/id/gaben/games', { type: 'id', customUrl: 'gaben', section: 'games' }],
+    ['https://steamcommunity.com/profiles/76561197960287930/inventory', { type: 'profile', profileId: '76561197960287930', section: 'inventory' }],
+    ['https://steamcommunity.com/games/tf2', { type: 'games', gameId: 'tf2' }],
+    ['https://steamcommunity.com/market/listings/730/AK-47%20%7C%20Redline%20(Field-Tested)', {
+      type: 'market',
+      appId: '730',
+      marketHashName: 'AK-47 | Redline (Field-Tested)',
+    }],
+    ['https://steamcommunity.com/market?hash_name=Key', { type: 'market', marketHashName: 'Key' }],
+  ])('builds %s back without losing fields', (url, expected) => {
+    const parsed = handler.parse(url)
+
+    expect(fieldsOf(parsed)).toEqual(expected)
+    expect(handler.build(parsed)).toBe(url)
+  })
+
+  it('drops the page name after a community game', () => {
+    expect(handler.format('https://steamcommunity.com/games/tf2/announcements')).toBe('https://steamcommunity.com/games/tf2')
+  })
+
+  it.each([
+    ['https://store.steampowered.com/app/440', 'steam://store/440'],
+    ['https://store.steampowered.com', 'steam://store'],
+    ['https://steamcommunity.com/id/gaben', 'steam://openurl/https://steamcommunity.com/id/gaben'],
+    ['https://store.steampowered.com/app/440/Team_Fortress_2', 'steam://openurl/https://store.steampowered.com/app/440/Team_Fortress_2'],
+  ])('converts %s to %s and back', (web, app) => {
+    expect(handler.toAppUrl(web)).toBe(app)
+    expect(handler.toWebUrl(app)).toBe(web)
+  })
+
+  it('keeps the app link as the original URL of a wrapped page', () => {
+    const url = 'steam://openurl/https://steamcommunity.com/id/gaben'
+
+    expect(handler.parse(url)).toEqual({ type: 'id', customUrl: 'gaben', originalUrl: url, isValid: true })
+  })
+})
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../../../errors'
+import { TelegramHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('telegramHandler', () => {
+  const handler = new TelegramHandler()
+
+  it.each([
+    ['https://t.me/durov', { type: 'channel', identifier: 'durov' }],
+    ['https://t.me/durov/42?start=x', { type: 'channel', identifier: 'durov', messageId: '42', startParam: 'x' }],
+    ['https://t.me/durov/1/2/3', { type: 'channel', identifier: 'durov', messageId: '1', threadId: '2', comment: '3' }],
+    ['https://t.me/s/durov/5', { type: 'channel', identifier: 'durov', messageId: '5', preview: true }],
+    ['https://t.me/@durov', { type: 'user', identifier: '@durov' }],
+    ['https://t.me/+AbC', { type: 'group', identifier: '+AbC' }],
+    ['https://t.me/joinchat/AbC', { type: 'joinchat', identifier: 'AbC' }],
+    ['https://t.me/c/12345/6?thread=7', { type: 'privatepost', identifier: '12345', messageId: '6', threadId: '7' }],
+    ['https://t.me/addstickers/Cats', { type: 'addstickers', identifier: 'Cats', setName: 'Cats' }],
+    ['https://t.me/share?url=https%3A%2F%2Fa.example&text=hi', { type: 'share', identifier: 'share', shareUrl: 'https://a.example', shareText: 'hi' }],
+    ['https://t.me/proxy?server=1.2.3.4&port=443&secret=ab', { type: 'proxy', identifier: 'proxy', server: '1.2.3.4', port: '443', secret: 'ab' }],
+  ])('builds %s back without losing fields', (url, expected) => {
+    const parsed = handler.parse(url)
+
+    expect(fieldsOf(parsed)).toEqual(expected)
+    expect(handler.build(parsed)).toBe(url)
+  })
+
+  it('adds the prefix that tells users and groups apart', () => {
+    expect(handler.build({ type: 'user', identifier: 'durov' })).toBe('https://t.me/@durov')
+    expect(handler.build({ type: 'group', identifier: 'AbC' })).toBe('https://t.me/+AbC')
+  })
+
+  it('has no URL for single stickers', () => {
+    expect(() => handler.build({ type: 'sticker', identifier: 'x' })).toThrow(ValidationError)
+  })
+
+  it.each([
+    ['https://t.me/durov/5', 'tg://resolve?domain=durov&post=5'],
+    ['https://t.me/c/12345/6?thread=7', 'tg://privatepost?channel=12345&post=6&thread=7'],
+    ['https://t.me/joinchat/AbC', 'tg://join?invite=AbC'],
+    ['https://t.me/addstickers/Cats', 'tg://addstickers?set=Cats'],
+    ['https://t.me/share?url=https%3A%2F%2Fa.example&text=hi', 'tg://msg_url?url=https%3A%2F%2Fa.example&text=hi'],
+    ['https://t.me/proxy?server=1.2.3.4&port=443&secret=ab', 'tg://proxy?server=1.2.3.4&port=443&secret=ab'],
+  ])('converts %s to %s and back', (web, app) => {
+    expect(handler.toAppUrl(web)).toBe(app)
+    expect(handler.toWebUrl(app)).toBe(web)
+  })
+
+  it('opens users, groups and previews with the app\'s own actions', () => {
+    expect(handler.toAppUrl('https://t.me/@durov')).toBe('tg://resolve?domain=durov')
+    expect(handler.toAppUrl('https://t.me/+AbC')).toBe('tg://join?invite=AbC')
+    expect(handler.toAppUrl('https://t.me/s/durov/5')).toBe('tg://resolve?domain=durov&post=5')
+  })
+})
@@ -1,125 +1,111 @@
+import type { SpecialRoute, SpecialURLData } from '../../base/types'
 import type { TelegramURL } from './types'
-import { ValidationError } from '../../../../errors'
-import { BaseSpecialSiteHandler } from '../../base/handler'
+import { PROTOCOLS } from '../../../../core/constants'
+import { RoutedSpecialSiteHandler } from '../../base/routed-handler'
 import { TelegramURLSchema } from './types'
 
-export class TelegramHandler extends BaseSpecialSiteHandler {
-  name = 'telegram'
-  domains = ['t.me', 'telegram.me', 'telegram.dog']
-
-  parse(url: string): TelegramURL {
-    const normalizedUrl = this.normalize(url)
-    const parsedUrl = new URL(normalizedUrl)
-    const segments = this.getPathSegments(parsedUrl)
-
-    if (segments.length === 0) {
-      throw new ValidationError('Invalid Telegram URL: missing path segments')
-    }
-
-    const [firstSegment, ...rest] = segments
-
-    let result: TelegramURL
-
-    // Handle special paths
-    switch (firstSegment) {
-      case 'joinchat':
-        if (rest.length === 0) {
-          throw new ValidationError('Invalid Telegram join chat URL: missing chat identifier')
-        }
-        result = TelegramURLSchema.parse({
-          type: 'joinchat',
-          identifier: rest[0],
-          originalUrl: url,
-          isValid: true,
-        })
-        break
-
-      case 'addstickers':
-        if (rest.length === 0) {
-          throw new ValidationError('Invalid Telegram sticker URL: missing set name')
-        }
-        result = TelegramURLSchema.parse({
-          type: 'addstickers',
-          identifier: rest[0],
-          setName: rest[0],
-          originalUrl: url,
-          isValid: true,
-        })
-        break
-
-      case 'share':
-        result = TelegramURLSchema.parse({
-          type: 'share',
-          identifier: firstSegment,
-          shareUrl: this.getQueryParam(parsedUrl, 'url') || '',
-          shareText: this.getQueryParam(parsedUrl, 'text'),
-          originalUrl: url,
-          isValid: true,
-        })
-        break
-
-      case 'proxy':
-        result = TelegramURLSchema.parse({
-          type: 'proxy',
-          identifier: firstSegment,
-          server: this.getQueryParam(parsedUrl, 'server'),
-          port: this.getQueryParam(parsedUrl, 'port'),
-          secret: this.getQueryParam(parsedUrl, 'secret'),
-          originalUrl: url,
-          isValid: true,
-        })
-        break
+const POST = '/:messageId(\\d+)?/:threadId(\\d+)?/:comment(\\d+)?'
+const SET_NAME = ({ setName }: Partial<TelegramURL>): Partial<TelegramURL> => ({ identifier: setName })
 
-      default:
-        // Handle channel/user/group URLs
-        const baseResult = {
-          identifier: firstSegment,
-          originalUrl: url,
-          isValid: true,
-          type: firstSegment.startsWith('@')
-            ? 'user'
-            : firstSegment.startsWith('+')
-              ? 'group'
-              : 'channel' as const,
-        }
-
-        // Add optional parameters
-        const extendedResult: Record<string, any> = { ...baseResult }
-
-        if (rest.length > 0) {
-          extendedResult.messageId = rest[0]
-          if (rest.length > 1) {
-            extendedResult.threadId = rest[1]
-            if (rest.length > 2) {
-              extendedResult.comment = rest[2]
-            }
-          }
-        }
-
-        const startParam = this.getQueryParam(parsedUrl, 'start')
-        if (startParam) {
-          extendedResult.startParam = startParam
-        }
-
-        // Validate with schema
-        result = TelegramURLSchema.parse(extendedResult)
-        break
+export class TelegramHandler extends RoutedSpecialSiteHandler<TelegramURL> {
+  readonly name = 'telegram'
+  domains = ['t.me', 'telegram.me', 'telegram.dog']
+  schemes = [PROTOCOLS.TELEGRAM]
+  shareParams = ['url', 'text']
+  schema = TelegramURLSchema
+
+  routes: SpecialRoute<TelegramURL>[] = [
+    { type: 'joinchat', path: '/joinchat/:identifier' },
+    { type: 'addstickers', path: '/addstickers/:setName', parse: SET_NAME },
+    {
+      type: 'share',
+      path: '/share/*',
+      query: { shareUrl: 'url', shareText: 'text' },
+      values: { identifier: 'share', shareUrl: '' },
+    },
+    {
+      type: 'proxy',
+      path: '/proxy',
+      query: { server: 'server', port: 'port', secret: 'secret' },
+      values: { identifier: 'proxy' },
+    },
+    // The web preview of a public channel
+    { type: 'channel', path: '/s/:identifier/:messageId(\\d+)?', values: { preview: true }, required: ['preview'] },
+    // A post in a private channel or supergroup, by the chat's numeric ID
+    { type: 'privatepost', path: '/c/:identifier(\\d+)/:messageId(\\d+)', query: { threadId: 'thread' } },
+    // Users are told apart by "@" and private groups by "+"
+    { type: 'user', path: `/:identifier(@.+)${POST}`, query: { startParam: 'start' } },
+    { type: 'group', path: `/:identifier(\\+.+)${POST}`, query: { startParam: 'start' } },
+    { type: 'channel', path: `/:identifier${POST}`, query: { startParam: 'start' } },
+    // tg:// links name the action in the host; resolve links do not tell
+    // users from channels, so they parse as channels
+    {
+      type: 'channel',
+      path: '/',
+      scheme: PROTOCOLS.TELEGRAM,
+      hosts: ['resolve'],
+      query: { identifier: 'domain', messageId: 'post', threadId: 'thread', comment: 'comment', startParam: 'start' },
+      required: ['identifier'],
+    },
+    {
+      type: 'privatepost',
+      path: '/',
+      scheme: PROTOCOLS.TELEGRAM,
+      hosts: ['privatepost'],
+      query: { identifier: 'channel', messageId: 'post', threadId: 'thread' },
+      required: ['identifier', 'messageId'],
+    },
+    { type: 'joinchat', path: '/', scheme: PROTOCOLS.TELEGRAM, hosts: ['join'], query: { identifier: 'invite' }, required: ['identifier'] },
+    {
+      type: 'addstickers',
+      path: '/',
+      scheme: PROTOCOLS.TELEGRAM,
+      hosts: ['addstickers'],
+      query: { setName: 'set' },
+      required: ['setName'],
+      parse: SET_NAME,
+    },
+    {
+      type: 'share',
+      path: '/',
+      scheme: PROTOCOLS.TELEGRAM,
+      hosts: ['msg_url'],
+      query: { shareUrl: 'url', shareText: 'text' },
+      values: { identifier: 'share', shareUrl: '' },
+    },
+    {
+      type: 'proxy',
+      path: '/',
+      scheme: PROTOCOLS.TELEGRAM,
+      hosts: ['proxy'],
+      query: { server: 'server', port: 'port', secret: 'secret' },
+      values: { identifier: 'proxy' },
+    },
+  ]
+
+  override build(data: SpecialURLData<TelegramURL>): string {
+    // Add the "@" or "+" that tells users and groups apart
+    const prefix = data.type === 'user' ? '@' : data.type === 'group' ? '+' : ''
+    if (prefix && typeof data.identifier === 'string' && !data.identifier.startsWith(prefix)) {
+      return super.build({ ...data, identifier: `${prefix}${data.identifier}` })
     }
-
-    return result
+    return super.build(data)
   }
 
-  override validate(url: string): boolean {
-    if (!super.validate(url)) {
-      return false
+  override buildAppUrl(data: SpecialURLData<TelegramURL>): string {
+    if (typeof data.identifier !== 'string') {
+      return super.buildAppUrl(data)
     }
-
-    try {
-      this.parse(url)
-      return true
-    }
-    catch {
-      return false
+    switch (data.type) {
+      case 'channel':
+        // The app has no preview page
+        return super.buildAppUrl({ ...data, preview: undefined })
+      case 'user':
+        return super.buildAppUrl({ ...data, type: 'channel', identifier: data.identifier.replace(/^@/, '') })
+      case 'group':
+        return super.buildAppUrl({ ...data, type: 'joinchat', identifier: data.identifier.replace(/^\+/, '') })
+      default:
+        return super.buildAppUrl(data)
     }
   }
 }
@@ -2,11 +2,12 @@ import { z } from 'zod'
 import { BaseSpecialURLSchema } from '../../base/types'
 
 export const TelegramURLSchema = BaseSpecialURLSchema.extend({
-  type: z.enum(['channel', 'user', 'group', 'sticker', 'addstickers', 'share', 'proxy', 'joinchat']),
-  identifier: z.string(),
+  type: z.enum(['channel', 'user', 'group', 'sticker', 'addstickers', 'share', 'proxy', 'joinchat', 'privatepost']),
+  identifier: z.string(), // Username, invite hash or, on private posts, the numeric chat ID
   messageId: z.string().optional(),
   threadId: z.string().optional(),
   comment: z.string().optional(),
+  preview: z.boolean().optional(), // t.me/s/ web preview of a public channel
   startParam: z.string().optional(),
   server: z.string().optional(),
   port: z.string().optional(),
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { ValidationError } from '../../../../errors'
+import { WhatsAppHandler } from './handler'
+
+const fieldsOf = ({ originalUrl: _url, isValid: _valid, ...fields }: Record<string, unknown>): Record<string, unknown> => fields
+
+describe('whatsAppHandler', () => {
+  const handler = new WhatsAppHandler()
+
+  it.each([
+    ['https://wa.me/15551234567?text=hi', { type: 'chat', phoneNumber: '15551234567', text: 'hi' }],
+    ['https://chat.whatsapp.com/AbCdEf', { type: 'group', groupId: 'AbCdEf' }],
+    ['https://wa.me/c/15551234567', { type: 'catalog', catalogId: '15551234567' }],
+    ['https://api.whatsapp.com/send?phone=15551234567&text=hi', { type: 'send', phoneNumber: '15551234567', text: 'hi' }],
+    ['https://api.whatsapp.com/share?text=hi&url=https%3A%2F%2Fa.example', { type: 'share', shareText: 'hi', shareUrl: 'https://a.example' }],
+  ])('builds %s back without losing fields', (url, expected) => {
+    const parsed = handler.parse(url)
+
+    expect(fieldsOf(parsed)).toEqual(expected)
+    expect(handler.build(parsed)).toBe(url)
+  })
+
+  it('keeps only the digits of phone numbers', () => {
+    expect(handler.build({ type: 'chat', phoneNumber: '+1 (555) 123-4567' })).toBe('https://wa.me/15551234567')
+  })
+
+  it('has no URL for status updates', () => {
+    expect(() => handler.build({ type: 'status', statusId: '1' })).toThrow(ValidationError)
+  })
+
+  it.each([
+    ['https://api.whatsapp.com/send?phone=15551234567&text=hi', 'whatsapp://send?phone=15551234567&text=hi'],
+    ['https://chat.whatsapp.com/AbCdEf', 'whatsapp://chat?code=AbCdEf'],
+  ])('converts %s to %s and back', (web, app) => {
+    expect(handler.toAppUrl(web)).toBe(app)
+    expect(handler.toWebUrl(app)).toBe(web)
+  })
+
+  it('opens chats and shares in the app as send links', () => {
+    expect(handler.toAppUrl('https://wa.me/15551234567?text=hi')).toBe('whatsapp://send?phone=15551234567&text=hi')
+    expect(handler.toAppUrl('https://api.whatsapp.com/share?text=hi&url=https%3A%2F%2Fa.example'))
+      .toBe('whatsapp://send?text=hi+https%3A%2F%2Fa.example')
+    expect(() => handler.toAppUrl('https://wa.me/c/15551234567')).toThrow(ValidationError)
+  })
+})
@@ -1,109 +1,64 @@
+import type { SpecialRoute, SpecialURLData } from '../../base/types'
 import type { WhatsAppURL } from './types'
-import { ValidationError } from '../../../../errors'
-import { BaseSpecialSiteHandler } from '../../base/handler'
+import { PROTOCOLS } from '../../../../core/constants'
+import { RoutedSpecialSiteHandler } from '../../base/routed-handler'
 import { WhatsAppURLSchema } from './types'
 
-export class WhatsAppHandler extends BaseSpecialSiteHandler {
-  name = 'whatsapp'
-  domains = ['wa.me', 'api.whatsapp.com', 'chat.whatsapp.com']
-
-  parse(url: string): WhatsAppURL {
-    const normalizedUrl = this.normalize(url)
-    const parsedUrl = new URL(normalizedUrl)
-    const segments = this.getPathSegments(parsedUrl)
-
-    let result: Partial<WhatsAppURL> = {
-      originalUrl: url,
-      isValid: true,
-    }
-
-    // Handle different WhatsApp domains
-    switch (parsedUrl.hostname) {
-      case 'chat.whatsapp.com':
-        // Group invite links
-        if (segments.length === 0) {
-          throw new ValidationError(
-            'Invalid WhatsApp group URL: missing group ID',
-          )
-        }
-        result = {
-          ...result,
-          type: 'group',
-          groupId: segments[0],
-        }
-        break
+const CHAT_HOSTS = ['wa.me', 'api.whatsapp.com']
+const API_HOSTS = ['api.whatsapp.com', 'wa.me']
 
-      case 'wa.me':
-      case 'api.whatsapp.com':
-        if (segments.length === 0) {
-          throw new ValidationError(
-            'Invalid WhatsApp URL: missing phone number or action',
-          )
-        }
-
-        if (segments[0] === 'send' || segments[0] === 'share') {
-          // Handle send/share URLs
-          result = {
-            ...result,
-            type: segments[0],
-          }
-
-          if (segments[0] === 'send') {
-            const phone = segments[1]
-            if (phone) {
-              result.phoneNumber = this.normalizePhoneNumber(phone)
-            }
-            result.text = this.getQueryParam(parsedUrl, 'text')
-          }
-          else {
-            result.shareText = this.getQueryParam(parsedUrl, 'text')
-            result.shareUrl = this.getQueryParam(parsedUrl, 'url')
-          }
-        }
-        else {
-          // Handle direct chat URLs
-          result = {
-            ...result,
-            type: 'chat',
-            phoneNumber: this.normalizePhoneNumber(segments[0]),
-            text: this.getQueryParam(parsedUrl, 'text'),
-          }
-        }
-        break
+// Keeps the digits of a phone number
+function normalizePhoneNumber(phone: string): string {
+  return phone.replace(/\D/g, '')
+}
 
-      default:
-        throw new ValidationError(
-          `Invalid WhatsApp domain: ${parsedUrl.hostname}`,
-        )
-    }
+function PHONE({ phoneNumber }: Partial<WhatsAppURL>): Partial<WhatsAppURL> {
+  return phoneNumber === undefined ? {} : { phoneNumber: normalizePhoneNumber(phoneNumber) || undefined }
+}
 
-    // Validate with zod schema
-    const validated = WhatsAppURLSchema.safeParse(result)
-    if (!validated.success) {
-      throw new ValidationError(
-        `Invalid WhatsApp URL structure: ${validated.error.message}`,
-      )
-    }
+export class WhatsAppHandler extends RoutedSpecialSiteHandler<WhatsAppURL> {
+  readonly name = 'whatsapp'
+  domains = ['wa.me', 'api.whatsapp.com', 'chat.whatsapp.com']
+  schemes = [PROTOCOLS.WHATSAPP]
+  shareParams = ['text', 'url']
+  schema = WhatsAppURLSchema
 
-    return validated.data
-  }
+  routes: SpecialRoute<WhatsAppURL>[] = [
+    { type: 'group', path: '/:groupId/*', hosts: ['chat.whatsapp.com'] },
+    { type: 'send', path: '/send', hosts: API_HOSTS, query: { phoneNumber: 'phone', text: 'text' }, parse: PHONE },
+    { type: 'send', path: '/send/:phoneNumber', hosts: API_HOSTS, query: { text: 'text' }, parse: PHONE },
+    { type: 'share', path: '/share', hosts: API_HOSTS, query: { shareText: 'text', shareUrl: 'url' } },
+    // Business catalog links
+    { type: 'catalog', path: '/c/:catalogId', hosts: CHAT_HOSTS },
+    { type: 'chat', path: '/:phoneNumber', hosts: CHAT_HOSTS, query: { text: 'text' }, parse: PHONE, required: ['phoneNumber'] },
+    // The app opens chats with whatsapp://send and groups with whatsapp://chat
+    {
+      type: 'send',
+      path: '/',
+      scheme: PROTOCOLS.WHATSAPP,
+      hosts: ['send'],
+      query: { phoneNumber: 'phone', text: 'text' },
+      parse: PHONE,
+    },
+    { type: 'group', path: '/', scheme: PROTOCOLS.WHATSAPP, hosts: ['chat'], query: { groupId: 'code' } },
+  ]
 
-  private normalizePhoneNumber(phone: string): string {
-    // Remove any non-digit characters
-    return phone.replace(/\\D/g, '')
+  override build(data: SpecialURLData<WhatsAppURL>): string {
+    return super.build(data.phoneNumber === undefined ? data : { ...data, ...PHONE(data) })
   }
 
-  override validate(url: string): boolean {
-    if (!super.validate(url)) {
-      return false
-    }
-
-    try {
-      this.parse(url)
-      return true
-    }
-    catch {
-      return false
+  // Chats and shares come back from the app as send links
+  override buildAppUrl(data: SpecialURLData<WhatsAppURL>): string {
+    switch (data.type) {
+      case 'chat':
+        return super.buildAppUrl({ ...data, ...PHONE(data), type: 'send' })
+      case 'share':
+        return super.buildAppUrl({
+          type: 'send',
+          text: [data.shareText, data.shareUrl].filter(Boolean).join(' ') || undefined,
+        })
+      default:
+        return super.buildAppUrl(data.phoneNumber === undefined ? data : { ...data, ...PHONE(data) })
     }
   }
 }
@@ -0,0 +1,45 @@
+import type { TemplateOperator, TemplateOperatorSpec } from './types'
+
+/**
+ * Expansion behaviour of every RFC 6570 operator (appendix A)
+ */
+export const TEMPLATE_OPERATORS: Record<TemplateOperator, TemplateOperatorSpec> = {
+  '': { first: '', separator: ',', named: false, ifEmpty: '', allowReserved: false },
+  '+': { first: '', separator: ',', named: false, ifEmpty: '', allowReserved: true },
+  '#': { first: '#', separator: ',', named: false, ifEmpty: '', allowReserved: true },
+  '.': { first: '.', separator: '.', named: false, ifEmpty: '', allowReserved: false },
+  '/': { first: '/', separator: '/', named: false, ifEmpty: '', allowReserved: false },
+  ';': { first: ';', separator: ';', named: true, ifEmpty: '', allowReserved: false },
+  '?': { first: '?', separator: '&', named: true, ifEmpty: '=', allowReserved: false },
+  '&': { first: '&', separator: '&', named: true, ifEmpty: '=', allowReserved: false },
+}
+
+/**
+ * Operators reserved by RFC 6570 for future extensions
+ */
+export const RESERVED_TEMPLATE_OPERATORS = ['=', ',', '!', '@', '|'] as const
+
+/**
+ * Variable name: varchar *( ["."] varchar ), varchar = ALPHA / DIGIT / "_" / pct-encoded
+ */
+export const TEMPLATE_VARNAME_PATTERN = /^(?:\w|%[0-9A-F]{2})(?:\.?(?:\w|%[0-9A-F]{2}))*$/i
+
+/**
+ * Largest prefix modifier allowed by the RFC (max-length < 10000)
+ */
+export const TEMPLATE_MAX_PREFIX_LENGTH = 9999
+
+/**
+ * Characters an expression may produce when matched back, by operator.
+ * Unreserved-only operators never emit reserved characters besides their separators.
+ */
+export const TEMPLATE_MATCH_PATTERNS: Record<TemplateOperator, string> = {
+  '': '[\\w\\-.~%,=]*',
+  '+': '.*?',
+  '#': '(?:#.*)?',
+  '.': '(?:\\.[\\w\\-~%,=]*)*',
+  '/': '(?:/[\\w\\-.~%,=]*)*',
+  ';': '(?:;[\\w\\-.~%,=]*)*',
+  '?': '(?:\\?[^#]*)?',
+  '&': '(?:&[^#]*)*',
+}
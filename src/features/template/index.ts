@@ -0,0 +1,9 @@
+// Constants
+export * from './constants'
+// Core exports
+export { TemplateExpander } from './template-expander'
+export { TemplateMatcher } from './template-matcher'
+export { TemplateParser } from './template-parser'
+// Type exports
+export * from './types'
+export { UrlTemplate } from './url-template'
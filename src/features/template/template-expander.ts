@@ -0,0 +1,195 @@
+import type { QueryParam } from '../query/types'
+import type {
+  TemplateExpression,
+  TemplateOperatorSpec,
+  TemplatePart,
+  TemplateScalar,
+  TemplateValue,
+  TemplateVarSpec,
+  UrlTemplateOptions,
+} from './types'
+import { ErrorCode, ValidationError } from '../../errors'
+import { EncodingUtils } from '../../utils/encoding'
+import { QueryHandler } from '../query/query-handler'
+import { TEMPLATE_OPERATORS } from './constants'
+import { TemplateVariablesSchema } from './types'
+
+/**
+ * Variable value after dropping undefined, null and empty composites
+ */
+type DefinedValue = string | string[] | Array<[string, string]>
+
+export class TemplateExpander {
+  /** Query handler used for ? and & expressions */
+  private readonly queryHandler: QueryHandler
+
+  /**
+   * Creates an instance of TemplateExpander
+   * @param {UrlTemplateOptions} [options] - Expansion options
+   */
+  constructor(private readonly options: UrlTemplateOptions = {}) {
+    this.queryHandler = new QueryHandler()
+  }
+
+  /**
+   * Expands parsed template parts with the given variables
+   * @param {TemplatePart[]} parts - Parts produced by TemplateParser
+   * @param {Record<string, TemplateValue>} variables - Variable values
+   * @returns {string} The expanded URI
+   * @throws {ValidationError} If a variable has an unsupported value
+   */
+  public expand(parts: TemplatePart[], variables: Record<string, TemplateValue>): string {
+    const result = TemplateVariablesSchema.safeParse(variables)
+    if (!result.success) {
+      throw new ValidationError(
+        'Invalid template variables',
+        ErrorCode.INVALID_OPERATION,
+        { issues: result.error.issues },
+      )
+    }
+
+    return parts
+      .map(part => part.type === 'literal'
+        ? EncodingUtils.encodeReserved(part.value)
+        : this.expandExpression(part, result.data))
+      .join('')
+  }
+
+  /**
+   * Expands a single expression
+   * @private
+   */
+  private expandExpression(
+    expression: TemplateExpression,
+    variables: Record<string, TemplateValue>,
+  ): string {
+    const spec = TEMPLATE_OPERATORS[expression.operator]
+    const defined = expression.variables
+      .map(varSpec => ({ varSpec, value: this.normalizeValue(variables[varSpec.name]) }))
+      .filter((entry): entry is { varSpec: TemplateVarSpec, value: DefinedValue } =>
+        entry.value !== undefined)
+
+    if (defined.length === 0) {
+      return ''
+    }
+
+    if (expression.operator === '?' || expression.operator === '&') {
+      return spec.first + defined
+        .map(({ varSpec, value }) => this.expandQueryVariable(varSpec, value))
+        .join(spec.separator)
+    }
+
+    return spec.first + defined
+      .map(({ varSpec, value }) => this.expandVariable(varSpec, value, spec))
+      .join(spec.separator)
+  }
+
+  /**
+   * Expands a variable for every operator except ? and &
+   * @private
+   */
+  private expandVariable(
+    varSpec: TemplateVarSpec,
+    value: DefinedValue,
+    spec: TemplateOperatorSpec,
+  ): string {
+    const encode = (text: string): string => spec.allowReserved
+      ? EncodingUtils.encodeReserved(text)
+      : EncodingUtils.encodeUnreserved(text)
+    const named = (text: string, name = varSpec.name): string => spec.named
+      ? `${name}${text === '' ? spec.ifEmpty : `=${text}`}`
+      : text
+
+    if (typeof value === 'string') {
+      return named(encode(this.applyPrefix(value, varSpec.prefix)))
+    }
+
+    if (!varSpec.explode) {
+      const items = this.isPairs(value)
+        ? value.flatMap(([key, item]) => [encode(key), encode(item)])
+        : value.map(encode)
+      return named(items.join(','))
+    }
+
+    if (this.isPairs(value)) {
+      return value
+        .map(([key, item]) => spec.named
+          ? named(encode(item), encode(key))
+          : `${encode(key)}=${encode(item)}`)
+        .join(spec.separator)
+    }
+
+    return value.map(item => named(encode(item))).join(spec.separator)
+  }
+
+  /**
+   * Expands a variable of a ? or & expression through QueryHandler
+   * @private
+   */
+  private expandQueryVariable(varSpec: TemplateVarSpec, value: DefinedValue): string {
+    const options = {
+      encoder: EncodingUtils.encodeUnreserved,
+      arrayFormat: varSpec.explode ? this.options.arrayFormat ?? 'none' : 'comma',
+    } as const
+
+    if (typeof value === 'string') {
+      return this.queryHandler.stringify(
+        [this.toQueryParam(varSpec.name, this.applyPrefix(value, varSpec.prefix))],
+        options,
+      )
+    }
+
+    if (this.isPairs(value)) {
+      const params = varSpec.explode
+        ? value.map(([key, item]) => this.toQueryParam(key, item))
+        : [this.toQueryParam(varSpec.name, value.flat())]
+      return this.queryHandler.stringify(params, options)
+    }
+
+    return this.queryHandler.stringify([this.toQueryParam(varSpec.name, value)], options)
+  }
+
+  /**
+   * Turns a variable value into strings, or undefined when the RFC treats it as undefined
+   * @private
+   */
+  private normalizeValue(value: TemplateValue): DefinedValue | undefined {
+    if (value === undefined || value === null) {
+      return undefined
+    }
+
+    if (Array.isArray(value)) {
+      return value.length > 0 ? value.map(String) : undefined
+    }
+
+    if (typeof value === 'object') {
+      const pairs = Object.entries(value)
+        .map(([key, item]): [string, string] => [key, String(item as TemplateScalar)])
+      return pairs.length > 0 ? pairs : undefined
+    }
+
+    return String(value)
+  }
+
+  /**
+   * Truncates a value to its first n characters (code points, not UTF-16 units)
+   * @private
+   */
+  private applyPrefix(value: string, prefix?: number): string {
+    return prefix === undefined ? value : Array.from(value).slice(0, prefix).join('')
+  }
+
+  private isPairs(value: string[] | Array<[string, string]>): value is Array<[string, string]> {
+    return Array.isArray(value[0])
+  }
+
+  private toQueryParam(key: string, value: string | string[]): QueryParam {
+    return {
+      key,
+      value,
+      isArray: Array.isArray(value),
+      hasMultipleValues: Array.isArray(value) && value.length > 1,
+      rawValue: String(value),
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import type {
+  TemplateExpression,
+  TemplateMatchValue,
+  TemplatePart,
+  TemplateVarSpec,
+} from './types'
+import { EncodingUtils } from '../../utils/encoding'
+import { TEMPLATE_MATCH_PATTERNS, TEMPLATE_OPERATORS } from './constants'
+
+export class TemplateMatcher {
+  /** Anchored expression with one capture group per template expression */
+  private readonly pattern: RegExp
+
+  /** Expressions, in the order of their capture groups */
+  private readonly expressions: TemplateExpression[]
+
+  /**
+   * Creates a matcher for parsed template parts
+   * @param {TemplatePart[]} parts - Parts produced by TemplateParser
+   */
+  constructor(parts: TemplatePart[]) {
+    this.expressions = parts.filter((part): part is TemplateExpression => part.type === 'expression')
+    this.pattern = new RegExp(`^${parts.map(part => part.type === 'literal'
+      ? this.escapeLiteral(part.value)
+      : `(${this.expressionPattern(part)})`).join('')}$`)
+  }
+
+  /**
+   * Extracts variable values from a URI produced by the template
+   * @param {string} uri - The URI to match
+   * @returns {Record<string, TemplateMatchValue> | null} Extracted values, or null if the URI does not match
+   */
+  public match(uri: string): Record<string, TemplateMatchValue> | null {
+    const match = this.pattern.exec(uri)
+    if (!match) {
+      return null
+    }
+
+    const result: Record<string, TemplateMatchValue> = {}
+    this.expressions.forEach((expression, index) => {
+      const text = match[index + 1] ?? ''
+      if (text === '') {
+        return
+      }
+
+      const { first } = TEMPLATE_OPERATORS[expression.operator]
+      const body = text.startsWith(first) ? text.slice(first.length) : text
+      Object.assign(result, TEMPLATE_OPERATORS[expression.operator].named
+        ? this.matchNamed(expression, body)
+        : this.matchPositional(expression, body))
+    })
+
+    return result
+  }
+
+  /**
+   * Assigns separated values to variables in order; the last variable takes the rest
+   * @private
+   */
+  private matchPositional(
+    expression: TemplateExpression,
+    body: string,
+  ): Record<string, TemplateMatchValue> {
+    const { separator } = TEMPLATE_OPERATORS[expression.operator]
+    const items = body.split(separator)
+    const result: Record<string, TemplateMatchValue> = {}
+
+    expression.variables.forEach((varSpec, index) => {
+      const isLast = index === expression.variables.length - 1
+      const taken = isLast ? items.slice(index) : items.slice(index, index + 1)
+      if (taken.length === 0 || (taken.length === 1 && taken[0] === '' && !isLast)) {
+        return
+      }
+
+      if (varSpec.explode) {
+        result[varSpec.name] = taken.every(item => item.includes('='))
+          ? this.toRecord(taken)
+          : taken.map(item => this.decode(item))
+        return
+      }
+
+      const values = taken.join(separator).split(',')
+      result[varSpec.name] = values.length > 1
+        ? values.map(item => this.decode(item))
+        : this.decode(values[0])
+    })
+
+    return result
+  }
+
+  /**
+   * Matches name=value pairs to variables regardless of their order
+   * @private
+   */
+  private matchNamed(
+    expression: TemplateExpression,
+    body: string,
+  ): Record<string, TemplateMatchValue> {
+    const { separator } = TEMPLATE_OPERATORS[expression.operator]
+    const declared = new Map<string, TemplateVarSpec>(
+      expression.variables.map(varSpec => [varSpec.name, varSpec]),
+    )
+    const collected = new Map<string, string[]>()
+    const unclaimed: Array<[string, string]> = []
+
+    for (const pair of body.split(separator)) {
+      if (pair === '') {
+        continue
+      }
+
+      const equals = pair.indexOf('=')
+      const rawName = equals === -1 ? pair : pair.slice(0, equals)
+      const value = equals === -1 ? '' : pair.slice(equals + 1)
+      const name = this.decode(rawName.replace(/\[\d*\]$/, ''))
+
+      if (declared.has(name)) {
+        collected.set(name, [...collected.get(name) ?? [], value])
+      }
+      else {
+        unclaimed.push([this.decode(rawName), this.decode(value)])
+      }
+    }
+
+    const result: Record<string, TemplateMatchValue> = {}
+    for (const [name, values] of collected) {
+      const varSpec = declared.get(name)!
+      if (varSpec.explode) {
+        result[name] = values.map(value => this.decode(value))
+      }
+      else if (values.length === 1 && !values[0].includes(',')) {
+        result[name] = this.decode(values[0])
+      }
+      else {
+        result[name] = values.flatMap(value => value.split(',')).map(value => this.decode(value))
+      }
+    }
+
+    // Exploded associative arrays lose their variable name, so unknown pairs belong to them
+    const associative = expression.variables.find(varSpec => varSpec.explode && !collected.has(varSpec.name))
+    if (associative && unclaimed.length > 0) {
+      result[associative.name] = Object.fromEntries(unclaimed)
+    }
+
+    return result
+  }
+
+  /**
+   * Pattern for one expression; repeated segments are capped at the number of
+   * variables unless one of them is exploded
+   * @private
+   */
+  private expressionPattern(expression: TemplateExpression): string {
+    const pattern = TEMPLATE_MATCH_PATTERNS[expression.operator]
+    const repeated = ['.', '/', ';'].includes(expression.operator)
+    if (!repeated || expression.variables.some(varSpec => varSpec.explode)) {
+      return pattern
+    }
+    return pattern.replace(/\*$/, `{0,${expression.variables.length}}`)
+  }
+
+  private toRecord(items: string[]): Record<string, string> {
+    return Object.fromEntries(items.map((item) => {
+      const equals = item.indexOf('=')
+      return [this.decode(item.slice(0, equals)), this.decode(item.slice(equals + 1))]
+    }))
+  }
+
+  private decode(value: string): string {
+    return EncodingUtils.decodeComponent(value)
+  }
+
+  private escapeLiteral(value: string): string {
+    return EncodingUtils.encodeReserved(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  }
+}
@@ -0,0 +1,148 @@
+import type {
+  TemplateExpression,
+  TemplateOperator,
+  TemplatePart,
+  TemplateVarSpec,
+} from './types'
+import { ErrorCode, ParseError } from '../../errors'
+import {
+  RESERVED_TEMPLATE_OPERATORS,
+  TEMPLATE_MAX_PREFIX_LENGTH,
+  TEMPLATE_OPERATORS,
+  TEMPLATE_VARNAME_PATTERN,
+} from './constants'
+
+export class TemplateParser {
+  /**
+   * Splits a template into literals and expressions
+   * @param {string} template - The URI template
+   * @returns {TemplatePart[]} Parsed parts, in order
+   * @throws {ParseError} If the template is malformed
+   */
+  public parse(template: string): TemplatePart[] {
+    const parts: TemplatePart[] = []
+    let literal = ''
+    let position = 0
+
+    while (position < template.length) {
+      const char = template[position]
+
+      if (char === '}') {
+        throw this.error(template, position, 'Unexpected "}" outside of an expression')
+      }
+
+      if (char !== '{') {
+        literal += char
+        position++
+        continue
+      }
+
+      const end = template.indexOf('}', position + 1)
+      const nested = template.indexOf('{', position + 1)
+      if (end === -1) {
+        throw this.error(template, position, 'Unclosed expression')
+      }
+      if (nested !== -1 && nested < end) {
+        throw this.error(template, nested, 'Nested "{" inside an expression')
+      }
+
+      if (literal) {
+        parts.push({ type: 'literal', value: literal })
+        literal = ''
+      }
+
+      parts.push(this.parseExpression(template, position, end))
+      position = end + 1
+    }
+
+    if (literal) {
+      parts.push({ type: 'literal', value: literal })
+    }
+
+    return parts
+  }
+
+  /**
+   * Parses the text between a pair of braces
+   * @param {string} template - The whole template, for error reporting
+   * @param {number} start - Index of "{"
+   * @param {number} end - Index of "}"
+   * @returns {TemplateExpression} The parsed expression
+   * @private
+   */
+  private parseExpression(template: string, start: number, end: number): TemplateExpression {
+    let body = template.slice(start + 1, end)
+    let operator: TemplateOperator = ''
+
+    if (body.length === 0) {
+      throw this.error(template, start, 'Empty expression')
+    }
+
+    const first = body[0]
+    if ((RESERVED_TEMPLATE_OPERATORS as readonly string[]).includes(first)) {
+      throw this.error(template, start + 1, `Operator "${first}" is reserved`)
+    }
+    if (first in TEMPLATE_OPERATORS) {
+      operator = first as TemplateOperator
+      body = body.slice(1)
+    }
+
+    const variables = body
+      .split(',')
+      .map(spec => this.parseVarSpec(template, start, spec))
+
+    return {
+      type: 'expression',
+      operator,
+      variables,
+      raw: template.slice(start, end + 1),
+    }
+  }
+
+  /**
+   * Parses a single varspec: name, name* or name:n
+   * @private
+   */
+  private parseVarSpec(template: string, start: number, spec: string): TemplateVarSpec {
+    let name = spec
+    let explode = false
+    let prefix: number | undefined
+
+    if (name.endsWith('*')) {
+      explode = true
+      name = name.slice(0, -1)
+    }
+
+    const colon = name.indexOf(':')
+    if (colon !== -1) {
+      const length = name.slice(colon + 1)
+      name = name.slice(0, colon)
+
+      if (explode) {
+        throw this.error(template, start, `Variable "${name}" cannot have both prefix and explode modifiers`)
+      }
+      if (!/^[1-9]\d{0,3}$/.test(length) || Number(length) > TEMPLATE_MAX_PREFIX_LENGTH) {
+        throw this.error(template, start, `Invalid prefix length "${length}" for variable "${name}"`)
+      }
+      prefix = Number(length)
+    }
+
+    if (!TEMPLATE_VARNAME_PATTERN.test(name)) {
+      throw this.error(template, start, `Invalid variable name "${name}"`)
+    }
+
+    return { name, explode, prefix }
+  }
+
+  /**
+   * Creates a ParseError pointing at a position in the template
+   * @private
+   */
+  private error(template: string, position: number, message: string): ParseError {
+    return new ParseError(
+      `Invalid URI template: ${message} at position ${position}`,
+      ErrorCode.PARSE_ERROR,
+      { template, position },
+    )
+  }
+}
@@ -0,0 +1,150 @@
+import { z } from 'zod'
+
+/**
+ * RFC 6570 expression operators; '' is simple string expansion
+ */
+export type TemplateOperator = '' | '+' | '#' | '.' | '/' | ';' | '?' | '&'
+
+/**
+ * Expansion behaviour of an operator
+ */
+export interface TemplateOperatorSpec {
+  /** String prepended when the expression expands to anything */
+  first: string
+  /** Separator between variables and exploded items */
+  separator: string
+  /** Whether values are emitted as name=value pairs */
+  named: boolean
+  /** Emitted after the name when the value is empty */
+  ifEmpty: string
+  /** Whether reserved characters pass through unencoded */
+  allowReserved: boolean
+}
+
+/**
+ * A single variable reference inside an expression
+ */
+export interface TemplateVarSpec {
+  /** Variable name */
+  name: string
+  /** Explode modifier (*) */
+  explode: boolean
+  /** Prefix modifier (:n), in characters */
+  prefix?: number
+}
+
+/**
+ * Literal text between expressions
+ */
+export interface TemplateLiteral {
+  type: 'literal'
+  value: string
+}
+
+/**
+ * A {...} expression
+ */
+export interface TemplateExpression {
+  type: 'expression'
+  operator: TemplateOperator
+  variables: TemplateVarSpec[]
+  /** Original text, braces included */
+  raw: string
+}
+
+/**
+ * Parsed template part
+ */
+export type TemplatePart = TemplateLiteral | TemplateExpression
+
+/**
+ * Options for UrlTemplate
+ */
+export interface UrlTemplateOptions {
+  /**
+   * How exploded lists are written in ? and & expressions.
+   * 'none' repeats the key as the RFC specifies; 'bracket' and 'index' follow QueryHandler.
+   */
+  arrayFormat?: 'none' | 'bracket' | 'index'
+}
+
+/**
+ * Value accepted for a template variable
+ */
+export type TemplateScalar = string | number | boolean
+
+export type TemplateValue =
+  | TemplateScalar
+  | null
+  | undefined
+  | TemplateScalar[]
+  | Record<string, TemplateScalar>
+
+/**
+ * Value extracted from a URL by reverse matching
+ */
+export type TemplateMatchValue = string | string[] | Record<string, string>
+
+// Type-level variable name inference
+
+type TemplateOperatorChar = Exclude<TemplateOperator, ''>
+
+type StripModifier<V extends string> =
+  V extends `${infer Name}*`
+    ? Name
+    : V extends `${infer Name}:${string}`
+      ? Name
+      : V
+
+type SplitVariables<S extends string> =
+  S extends `${infer Head},${infer Tail}`
+    ? StripModifier<Head> | SplitVariables<Tail>
+    : StripModifier<S>
+
+type ExpressionVariables<E extends string> =
+  E extends `${TemplateOperatorChar}${infer Rest}`
+    ? SplitVariables<Rest>
+    : SplitVariables<E>
+
+/**
+ * Union of the variable names used in a template literal type
+ * @example TemplateVariableNames<'/users/{id}{?page,limit}'> // 'id' | 'page' | 'limit'
+ */
+export type TemplateVariableNames<T extends string> =
+  T extends `${string}{${infer Expression}}${infer Rest}`
+    ? ExpressionVariables<Expression> | TemplateVariableNames<Rest>
+    : never
+
+/**
+ * Variables accepted by a template; falls back to a plain record for non-literal strings
+ */
+export type TemplateVariables<T extends string> =
+  string extends T
+    ? Record<string, TemplateValue>
+    : { [K in TemplateVariableNames<T>]?: TemplateValue }
+
+/**
+ * Variables extracted from a URL by a template
+ */
+export type TemplateMatch<T extends string> =
+  string extends T
+    ? Record<string, TemplateMatchValue>
+    : { [K in TemplateVariableNames<T>]?: TemplateMatchValue }
+
+// Schemas
+
+export const TemplateScalarSchema = z.union([z.string(), z.number(), z.boolean()])
+
+export const TemplateValueSchema = z.union([
+  TemplateScalarSchema,
+  z.null(),
+  z.undefined(),
+  z.array(TemplateScalarSchema),
+  z.record(z.string(), TemplateScalarSchema),
+])
+
+export const TemplateVariablesSchema = z.record(z.string(), TemplateValueSchema)
+
+export const UrlTemplateOptionsSchema = z.object({
+  arrayFormat: z.enum(['none', 'bracket', 'index']).optional(),
+})
@@ -0,0 +1,84 @@
+import type {
+  TemplateMatch,
+  TemplatePart,
+  TemplateVariables,
+  UrlTemplateOptions,
+} from './types'
+import { TemplateExpander } from './template-expander'
+import { TemplateMatcher } from './template-matcher'
+import { TemplateParser } from './template-parser'
+
+/**
+ * UrlTemplate - RFC 6570 URI template (levels 1-4)
+ *
+ * Variable names are inferred from the template literal:
+ * `new UrlTemplate('/users/{id}{?page}').expand({ id: 1, page: 2 })`
+ * @class UrlTemplate
+ */
+export class UrlTemplate<T extends string = string> {
+  private static readonly parser = new TemplateParser()
+
+  /** Parsed literals and expressions */
+  public readonly parts: readonly TemplatePart[]
+
+  private readonly expander: TemplateExpander
+  private matcher?: TemplateMatcher
+
+  /**
+   * Creates an instance of UrlTemplate
+   * @param {T} template - The URI template
+   * @param {UrlTemplateOptions} [options] - Expansion options
+   * @throws {ParseError} If the template is malformed
+   */
+  constructor(
+    public readonly template: T,
+    private readonly options: UrlTemplateOptions = {},
+  ) {
+    this.parts = UrlTemplate.parser.parse(template)
+    this.expander = new TemplateExpander(options)
+  }
+
+  /**
+   * Names of all variables used in the template, in order of appearance
+   * @returns {string[]} Unique variable names
+   */
+  public get variables(): string[] {
+    const names = this.parts.flatMap(part => part.type === 'expression'
+      ? part.variables.map(varSpec => varSpec.name)
+      : [])
+    return [...new Set(names)]
+  }
+
+  /**
+   * Expands the template
+   * @param {TemplateVariables<T>} [variables] - Variable values; missing ones are skipped
+   * @returns {string} The expanded URI
+   * @throws {ValidationError} If a variable has an unsupported value
+   */
+  public expand(variables: TemplateVariables<T> = {} as TemplateVariables<T>): string {
+    return this.expander.expand([...this.parts], variables)
+  }
+
+  /**
+   * Extracts variables from a URI produced by this template
+   * @param {string | URL} uri - The URI to match
+   * @returns {TemplateMatch<T> | null} Extracted values, or null if the URI does not match
+   */
+  public match(uri: string | URL): TemplateMatch<T> | null {
+    this.matcher ??= new TemplateMatcher([...this.parts])
+    return this.matcher.match(typeof uri === 'string' ? uri : uri.href) as TemplateMatch<T> | null
+  }
+
+  /**
+   * Checks whether a URI could have been produced by this template
+   * @param {string | URL} uri - The URI to check
+   * @returns {boolean} True if the URI matches
+   */
+  public test(uri: string | URL): boolean {
+    return this.match(uri) !== null
+  }
+
+  public toString(): string {
+    return this.template
+  }
+}
@@ -0,0 +1,6 @@
+// Rules
+export { DEFAULT_TRACKING_PROVIDERS } from './rules'
+// Core exports
+export { TrackingCleaner } from './tracking-cleaner'
+// Type exports
+export * from './types'
@@ -0,0 +1,142 @@
+import type { TrackingProviderInput } from './types'
+
+/**
+ * Bundled tracking rules. Site-specific share parameters (Spotify "si",
+ * Play Store "pcampaignid", ...) live on the special-site handlers
+ */
+export const DEFAULT_TRACKING_PROVIDERS: TrackingProviderInput[] = [
+  {
+    name: 'global',
+    rules: [
+      'utm_[a-z_]+',
+      'fbclid',
+      'gclid',
+      'gclsrc',
+      'dclid',
+      'gbraid',
+      'wbraid',
+      'msclkid',
+      'yclid',
+      'twclid',
+      'ttclid',
+      'li_fat_id',
+      'igshid',
+      'igsh',
+      'mc_cid',
+      'mc_eid',
+      '_hsenc',
+      '_hsmi',
+      '__hssc',
+      '__hstc',
+      '__hsfp',
+      'hsctatracking',
+      'mkt_tok',
+      'oly_anon_id',
+      'oly_enc_id',
+      'vero_conv',
+      'vero_id',
+      '_openstat',
+      'wickedid',
+      'ga_[a-z_]+',
+      '_ga',
+      '_gl',
+      'spm',
+      'scm',
+      'rb_clickid',
+      's_cid',
+      'ncid',
+      'sr_share',
+    ],
+    referralMarketing: ['ref', 'referrer', 'ref_src', 'ref_url'],
+  },
+  {
+    name: 'google',
+    domains: ['google.com'],
+    rules: ['ved', 'ei', 'gs_[a-z]+', 'sca_esv', 'sxsrf', 'uact', 'oq', 'aqs', 'sourceid', 'client', 'bih', 'biw', 'dpr', 'rlz'],
+    exceptions: ['^https?://(?:[\\w-]+\\.)*google\\.com/(?:recaptcha|maps|accounts)/'],
+    redirections: ['^https?://(?:www\\.)?google\\.com/url\\?(?:.*&)?(?:q|url)=([^&]+)'],
+  },
+  {
+    name: 'youtube',
+    domains: ['youtube.com', 'youtu.be'],
+    rules: ['si', 'feature', 'pp', 'kw'],
+    redirections: ['^https?://(?:www\\.)?youtube\\.com/redirect\\?(?:.*&)?q=([^&]+)'],
+  },
+  {
+    name: 'facebook',
+    domains: ['facebook.com', 'fb.me', 'messenger.com'],
+    rules: ['__tn__', '__cft__\\[[^\\]]*\\]', 'eid', 'hc_ref', 'fref', 'rdid', 'mibextid', 'sfnsn', 'paipv', 'acontext'],
+    redirections: ['^https?://l[m]?\\.(?:facebook|messenger)\\.com/l\\.php\\?(?:.*&)?u=([^&]+)'],
+  },
+  {
+    name: 'instagram',
+    domains: ['instagram.com'],
+    rules: ['igshid', 'igsh', 'img_index'],
+    redirections: ['^https?://l\\.instagram\\.com/\\?(?:.*&)?u=([^&]+)'],
+  },
+  {
+    name: 'twitter',
+    domains: ['twitter.com', 'x.com'],
+    rules: ['s', 't', 'cxt', 'ref_src', 'ref_url'],
+  },
+  {
+    name: 'reddit',
+    domains: ['reddit.com'],
+    rules: ['share_id', 'correlation_id', 'ref_campaign', 'ref_source', 'rdt'],
+    redirections: ['^https?://out\\.reddit\\.com/[^?]*\\?(?:.*&)?url=([^&]+)'],
+  },
+  {
+    name: 'linkedin',
+    domains: ['linkedin.com'],
+    rules: ['trk', 'trkInfo', 'trackingId', 'refId', 'lipi', 'midToken', 'midSig', 'eid', 'originalSubdomain'],
+  },
+  {
+    name: 'tiktok',
+    domains: ['tiktok.com'],
+    rules: ['_r', '_t', 'is_from_webapp', 'sender_device', 'is_copy_url', 'share_app_id', 'share_link_id', 'social_sharing', 'tt_from', 'u_code', 'sec_user_id'],
+  },
+  {
+    name: 'amazon',
+    domains: ['amazon.com', 'amazon.co.uk', 'amazon.de', 'amazon.fr', 'amazon.it', 'amazon.es', 'amazon.ca', 'amazon.co.jp', 'amazon.in'],
+    rules: ['pd_rd_[a-z]+', 'pf_rd_[a-z]+', 'qid', 'sr', 'srs', 'crid', 'sprefix', 'content-id', 'linkCode', 'ref_', 'dib', 'dib_tag', 'smid', 'spIA', 'sp_csd', '_encoding'],
+    referralMarketing: ['tag', 'ascsubtag', 'linkId'],
+    rawRules: ['/ref=[^/?]*'],
+    exceptions: ['^https?://(?:[\\w-]+\\.)?amazon\\.[a-z.]+/(?:gp/(?:redirect|buy|cart)|ap/)'],
+  },
+  {
+    name: 'aliexpress',
+    domains: ['aliexpress.com', 'aliexpress.us', 'aliexpress.ru'],
+    rules: ['aff_[a-z_]+', 'algo_[a-z]+', 'btsid', 'ws_ab_test', 'gps-id', 'scm_id', 'scm-url', 'pvid', 'sk', 'terminal_id'],
+  },
+  {
+    name: 'ebay',
+    domains: ['ebay.com', 'ebay.co.uk', 'ebay.de'],
+    rules: ['_trkparms', '_trksid', '_from', 'hash', 'amdata', 'mkcid', 'mkrid', 'campid', 'toolid', 'customid', 'mkevt'],
+  },
+  {
+    name: 'steam',
+    domains: ['steamcommunity.com', 'steampowered.com'],
+    redirections: ['^https?://steamcommunity\\.com/linkfilter/\\?(?:.*&)?(?:u|url)=([^&]+)'],
+  },
+  {
+    name: 'vk',
+    domains: ['vk.com'],
+    redirections: ['^https?://(?:m\\.)?vk\\.com/away\\.php\\?(?:.*&)?to=([^&]+)'],
+  },
+  {
+    name: 'medium',
+    domains: ['medium.com'],
+    rules: ['source', 'sk'],
+  },
+  {
+    name: 'substack',
+    domains: ['substack.com'],
+    rules: ['triedRedirect', 'showWelcome', 'publication_id', 'post_id', 'isFreemail', 'triggerShare'],
+    referralMarketing: ['r'],
+  },
+  {
+    name: 'netflix',
+    domains: ['netflix.com'],
+    rules: ['trackId', 'tctx'],
+  },
+]
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { TrackingCleaner } from './tracking-cleaner'
+
+describe('trackingCleaner', () => {
+  const cleaner = new TrackingCleaner()
+
+  it('removes global tracking parameters and keeps the others as written', () => {
+    const result = cleaner.clean('https://example.com/page?utm_source=news&id=7&flag&tags[]=a&fbclid=abc#top')
+
+    expect(result.url).toBe('https://example.com/page?id=7&flag&tags[]=a#top')
+    expect(result.removedParams).toEqual([
+      { key: 'utm_source', value: 'news', provider: 'global' },
+      { key: 'fbclid', value: 'abc', provider: 'global' },
+    ])
+  })
+
+  it('matches rules against the name without an array suffix', () => {
+    const result = cleaner.clean('https://example.com/?utm_source[]=x&utm_medium[0]=y&gclid[a][b]=z&q=1')
+
+    expect(result.url).toBe('https://example.com/?q=1')
+    expect(result.removedParams.map(param => param.key)).toEqual(['utm_source[]', 'utm_medium[0]', 'gclid[a][b]'])
+  })
+
+  it('drops the question mark once every parameter is gone', () => {
+    expect(cleaner.clean('https://example.com/?utm_campaign=spring').url).toBe('https://example.com/')
+  })
+
+  it('applies special-site parameters only on their domains', () => {
+    expect(cleaner.clean('https://open.spotify.com/track/abc?si=123').url).toBe('https://open.spotify.com/track/abc')
+    expect(cleaner.clean('https://example.com/?si=123').url).toBe('https://example.com/?si=123')
+  })
+
+  it('cleans links inside share parameters', () => {
+    const result = cleaner.clean('https://t.me/share/url?url=https%3A%2F%2Fexample.com%2F%3Futm_source%3Dtg%26id%3D1')
+
+    expect(new URL(result.url).searchParams.get('url')).toBe('https://example.com/?id=1')
+    expect(result.providers).toContain('telegram')
+  })
+
+  it('reads ClearURLs rule files with exceptions and redirections', () => {
+    const custom = TrackingCleaner.fromClearUrls({
+      providers: {
+        shop: {
+          urlPattern: '^https?://shop\\.example',
+          rules: ['ref'],
+          exceptions: ['^https?://shop\\.example/keep'],
+          redirections: ['^https?://shop\\.example/out\\?to=([^&]+)'],
+        },
+      },
+    })
+
+    expect(custom.clean('https://shop.example/item?ref=mail&id=1').url).toBe('https://shop.example/item?id=1')
+    expect(custom.clean('https://shop.example/keep?ref=mail').url).toBe('https://shop.example/keep?ref=mail')
+
+    const unwrapped = custom.clean('https://shop.example/out?to=https%3A%2F%2Fshop.example%2Fitem%3Fref%3Dx')
+    expect(unwrapped).toMatchObject({ url: 'https://shop.example/item', redirects: ['https://shop.example/out?to=https%3A%2F%2Fshop.example%2Fitem%3Fref%3Dx'] })
+  })
+})
@@ -0,0 +1,348 @@
+import type { QueryParam } from '../query/types'
+import type { SpecialSiteHandler } from '../special/base/types'
+import type {
+  ClearUrlsRuleSet,
+  CompiledTrackingProvider,
+  RemovedTrackingParam,
+  TrackingCleanerOptions,
+  TrackingCleanResult,
+  TrackingProvider,
+  TrackingProviderInput,
+} from './types'
+import { ErrorCode, ParseError, ValidationError } from '../../errors'
+import { QueryHandler } from '../query/query-handler'
+import { specialSiteManager } from '../special'
+import { DEFAULT_TRACKING_PROVIDERS } from './rules'
+import {
+  ClearUrlsRuleSetSchema,
+  TrackingCleanerOptionsSchema,
+  TrackingProviderSchema,
+} from './types'
+
+/** URLs inside shared text */
+const EMBEDDED_URL_PATTERN = /https?:\/\/[^\s"<>]+/g
+
+export class TrackingCleaner {
+  /** Handler used to parse and rebuild query strings */
+  private readonly queryHandler: QueryHandler
+
+  /** Resolved cleaner options */
+  private readonly options: Required<Omit<TrackingCleanerOptions, 'providers'>>
+
+  /** Compiled providers, in the order they are applied */
+  private readonly providers: CompiledTrackingProvider[] = []
+
+  /** Special-site handlers with share parameters */
+  private readonly shareHandlers: SpecialSiteHandler[] = []
+
+  /**
+   * Creates an instance of TrackingCleaner
+   * @param {TrackingCleanerOptions} [options] - Rule sources and behaviour
+   * @throws {ParseError} If a provider contains an invalid pattern
+   */
+  constructor(options?: TrackingCleanerOptions) {
+    const { providers, ...rest } = TrackingCleanerOptionsSchema.parse(options ?? {})
+    this.queryHandler = new QueryHandler()
+    this.options = rest
+
+    if (rest.useDefaultRules) {
+      DEFAULT_TRACKING_PROVIDERS.forEach(provider => this.addProvider(provider))
+    }
+
+    if (rest.useSpecialSites) {
+      for (const handler of specialSiteManager.getAllHandlers()) {
+        if (handler.trackingParams?.length) {
+          this.addProvider({
+            name: handler.name,
+            domains: handler.domains,
+            rules: handler.trackingParams.map(param => param.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')),
+          })
+        }
+        if (handler.shareParams?.length) {
+          this.shareHandlers.push(handler)
+        }
+      }
+    }
+
+    providers.forEach(provider => this.addProvider(provider))
+  }
+
+  /**
+   * Creates a cleaner from a ClearURLs rule file
+   * @param {ClearUrlsRuleSet} ruleSet - Parsed "data.min.json"
+   * @param {TrackingCleanerOptions} [options] - Cleaner options; the bundled rules are off unless enabled here
+   * @returns {TrackingCleaner} The cleaner
+   * @throws {ValidationError} If the rule set is malformed
+   */
+  public static fromClearUrls(ruleSet: ClearUrlsRuleSet, options?: TrackingCleanerOptions): TrackingCleaner {
+    const parsed = ClearUrlsRuleSetSchema.safeParse(ruleSet)
+    if (!parsed.success) {
+      throw new ValidationError(
+        `Invalid ClearURLs rule set: ${parsed.error.message}`,
+        ErrorCode.INVALID_OPERATION,
+      )
+    }
+
+    return new TrackingCleaner({
+      useDefaultRules: false,
+      ...options,
+      providers: [
+        ...Object.entries(parsed.data.providers).map(([name, provider]) => ({ name, ...provider })),
+        ...(options?.providers ?? []),
+      ],
+    })
+  }
+
+  /**
+   * Adds a provider; it applies after the existing ones
+   * @param {TrackingProviderInput} provider - The provider
+   * @throws {ParseError} If the provider contains an invalid pattern
+   */
+  public addProvider(provider: TrackingProviderInput): void {
+    this.providers.push(this.compile(TrackingProviderSchema.parse(provider)))
+  }
+
+  /**
+   * Removes tracking parameters and unwraps redirect wrappers
+   * @param {string} url - The URL to clean
+   * @returns {TrackingCleanResult} The cleaned URL and what was removed
+   * @throws {ValidationError} If the URL is invalid
+   */
+  public clean(url: string): TrackingCleanResult {
+    const redirects: string[] = []
+    const removedParams: RemovedTrackingParam[] = []
+    const providers = new Set<string>()
+    let current = url
+
+    if (this.options.unwrapRedirects) {
+      for (let i = 0; i < this.options.maxRedirects; i++) {
+        const unwrapped = this.unwrap(current)
+        if (!unwrapped) {
+          break
+        }
+        redirects.push(current)
+        providers.add(unwrapped.provider)
+        current = unwrapped.target
+      }
+    }
+
+    let parsed = this.parseUrl(current)
+    for (const provider of this.providers) {
+      if (!this.applies(provider, parsed)) {
+        continue
+      }
+
+      for (const rawRule of provider.rawRules) {
+        const stripped = parsed.href.replace(rawRule, '')
+        if (stripped !== parsed.href) {
+          parsed = this.parseUrl(stripped)
+          providers.add(provider.name)
+        }
+      }
+
+      const rules = this.options.removeReferralMarketing
+        ? [...provider.rules, ...provider.referralMarketing]
+        : provider.rules
+      const removed = this.removeParams(parsed, rules)
+      if (removed.length > 0) {
+        removedParams.push(...removed.map(({ key, rawValue }) => ({ key, value: rawValue, provider: provider.name })))
+        providers.add(provider.name)
+      }
+    }
+
+    if (this.options.cleanShareLinks) {
+      for (const handler of this.shareHandlers) {
+        if (!this.matchesDomain(parsed.hostname, handler.domains)) {
+          continue
+        }
+
+        for (const param of handler.shareParams ?? []) {
+          const value = parsed.searchParams.get(param)
+          if (value === null) {
+            continue
+          }
+
+          const cleaned = value.replace(EMBEDDED_URL_PATTERN, (embedded) => {
+            try {
+              const result = this.clean(embedded)
+              removedParams.push(...result.removedParams)
+              result.providers.forEach(name => providers.add(name))
+              return result.url
+            }
+            catch {
+              return embedded
+            }
+          })
+
+          if (cleaned !== value) {
+            parsed.searchParams.set(param, cleaned)
+            providers.add(handler.name)
+          }
+        }
+      }
+    }
+
+    const cleanedUrl = parsed.href === this.parseUrl(current).href ? current : parsed.href
+
+    return {
+      url: cleanedUrl,
+      original: url,
+      changed: cleanedUrl !== url,
+      removedParams,
+      redirects,
+      providers: Array.from(providers),
+    }
+  }
+
+  /**
+   * Returns the providers that would apply to a URL
+   * @param {string} url - The URL
+   * @returns {string[]} Provider names
+   * @throws {ValidationError} If the URL is invalid
+   */
+  public getProviders(url: string): string[] {
+    const parsed = this.parseUrl(url)
+    return this.providers
+      .filter(provider => this.applies(provider, parsed))
+      .map(provider => provider.name)
+  }
+
+  /**
+   * Removes the query parameters whose names match any rule
+   * @returns {QueryParam[]} The removed parameters
+   * @private
+   */
+  private removeParams(url: URL, rules: RegExp[]): QueryParam[] {
+    if (!url.search || rules.length === 0) {
+      return []
+    }
+
+    const { params } = this.queryHandler.parse(url.search, { allowDuplicates: true, decode: false })
+    // "utm_source[]" and "utm_source[0]" are utm_source to the server
+    const removed = params.filter(param => rules.some(rule => rule.test(param.key.replace(/\[.*\]$/, ''))))
+    if (removed.length === 0) {
+      return []
+    }
+
+    // The remaining pairs are copied from the raw query; they keep their
+    // spelling, so "flag" does not become "flag=" nor "a[]" "a%5B%5D"
+    const kept = removed.reduce((rest, param) => this.queryHandler.removeParam(rest, param.key), params)
+    const keys = new Set(kept.map(param => param.key))
+    url.search = url.search
+      .slice(1)
+      .split('&')
+      .filter(pair => keys.has(this.decodeKey(pair)))
+      .join('&')
+
+    return removed
+  }
+
+  /**
+   * Decodes the name of a raw "name=value" pair the way the query parser does
+   * @private
+   */
+  private decodeKey(pair: string): string {
+    const key = pair.split('=', 1)[0].replace(/\+/g, ' ')
+    try {
+      return decodeURIComponent(key)
+    }
+    catch {
+      return key
+    }
+  }
+
+  /**
+   * Extracts the target of a redirect wrapper
+   * @private
+   */
+  private unwrap(url: string): { target: string, provider: string } | undefined {
+    const parsed = this.parseUrl(url)
+
+    for (const provider of this.providers) {
+      if (!this.applies(provider, parsed)) {
+        continue
+      }
+
+      for (const redirection of provider.redirections) {
+        const encoded = redirection.exec(url)?.[1]
+        if (!encoded) {
+          continue
+        }
+
+        try {
+          const target = decodeURIComponent(encoded.replace(/\+/g, ' '))
+          return { target: new URL(target).href, provider: provider.name }
+        }
+        catch {
+          // Not a usable URL; leave the wrapper in place
+        }
+      }
+    }
+
+    return undefined
+  }
+
+  private applies(provider: CompiledTrackingProvider, url: URL): boolean {
+    if (provider.exceptions.some(exception => exception.test(url.href))) {
+      return false
+    }
+
+    if (provider.domains.length === 0 && !provider.urlPattern) {
+      return true
+    }
+
+    return this.matchesDomain(url.hostname, provider.domains)
+      || (provider.urlPattern?.test(url.href) ?? false)
+  }
+
+  private matchesDomain(hostname: string, domains: string[]): boolean {
+    const host = hostname.toLowerCase().replace(/\.$/, '')
+    return domains.some(domain => host === domain || host.endsWith(`.${domain}`))
+  }
+
+  /**
+   * Compiles the patterns of a provider
+   * @private
+   */
+  private compile(provider: TrackingProvider): CompiledTrackingProvider {
+    const toRegExp = (source: string, flags: string, anchored = false): RegExp => {
+      try {
+        return new RegExp(anchored ? `^(?:${source})$` : source, flags)
+      }
+      catch (error) {
+        throw new ParseError(
+          `Invalid pattern in tracking provider "${provider.name}": ${source}`,
+          ErrorCode.PARSE_ERROR,
+          { provider: provider.name, pattern: source },
+          error instanceof Error ? error : undefined,
+        )
+      }
+    }
+    const toParamRegExp = (source: string): RegExp => toRegExp(source, 'i', true)
+
+    return {
+      name: provider.name,
+      domains: provider.domains.map(domain => domain.toLowerCase()),
+      urlPattern: provider.urlPattern === undefined ? undefined : toRegExp(provider.urlPattern, 'i'),
+      rules: provider.rules.map(toParamRegExp),
+      referralMarketing: provider.referralMarketing.map(toParamRegExp),
+      rawRules: provider.rawRules.map(source => toRegExp(source, 'gi')),
+      exceptions: provider.exceptions.map(source => toRegExp(source, 'i')),
+      redirections: provider.redirections.map(source => toRegExp(source, 'i')),
+    }
+  }
+
+  private parseUrl(url: string): URL {
+    try {
+      return new URL(url)
+    }
+    catch (error) {
+      throw new ValidationError(
+        `Invalid URL: ${url}`,
+        ErrorCode.INVALID_URL,
+        { url },
+        error instanceof Error ? error : undefined,
+      )
+    }
+  }
+}
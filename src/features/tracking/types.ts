@@ -0,0 +1,99 @@
+import { z } from 'zod'
+
+/**
+ * A tracking rule provider, modelled on the ClearURLs rule format. All
+ * patterns are regular expression sources; parameter rules must match
+ * the whole parameter name (case-insensitive)
+ */
+export const TrackingProviderSchema = z.object({
+  /** Provider name, reported for every parameter it removes */
+  name: z.string().min(1),
+  /** Hostnames (and their subdomains) the provider applies to */
+  domains: z.array(z.string()).default([]),
+  /** URL pattern the provider applies to; with no domains either, the provider is global */
+  urlPattern: z.string().optional(),
+  /** Query parameter names to remove */
+  rules: z.array(z.string()).default([]),
+  /** Referral/affiliate parameter names, removed only when enabled */
+  referralMarketing: z.array(z.string()).default([]),
+  /** Patterns removed from anywhere in the URL */
+  rawRules: z.array(z.string()).default([]),
+  /** URLs matching any of these are left alone */
+  exceptions: z.array(z.string()).default([]),
+  /** Redirect wrappers; capture group 1 holds the (encoded) target URL */
+  redirections: z.array(z.string()).default([]),
+})
+
+export type TrackingProvider = z.infer<typeof TrackingProviderSchema>
+export type TrackingProviderInput = z.input<typeof TrackingProviderSchema>
+
+/**
+ * A ClearURLs rule file ("data.min.json")
+ */
+export const ClearUrlsRuleSetSchema = z.object({
+  providers: z.record(z.string(), TrackingProviderSchema.omit({ name: true, domains: true }).extend({
+    urlPattern: z.string(),
+  })),
+})
+
+export type ClearUrlsRuleSet = z.input<typeof ClearUrlsRuleSetSchema>
+
+export const TrackingCleanerOptionsSchema = z.object({
+  /** Extra providers, checked after the bundled ones */
+  providers: z.array(TrackingProviderSchema).default([]),
+  /** Include the bundled rule set */
+  useDefaultRules: z.boolean().default(true),
+  /** Include tracking parameters declared by the special-site handlers */
+  useSpecialSites: z.boolean().default(true),
+  /** Remove referral/affiliate parameters too */
+  removeReferralMarketing: z.boolean().default(false),
+  /** Unwrap redirect wrappers such as google.com/url?q= */
+  unwrapRedirects: z.boolean().default(true),
+  /** Clean URLs embedded in share links (t.me/share, wa.me) */
+  cleanShareLinks: z.boolean().default(true),
+  /** Maximum number of nested redirect wrappers to unwrap */
+  maxRedirects: z.number().int().min(0).default(5),
+})
+
+export type TrackingCleanerOptions = z.input<typeof TrackingCleanerOptionsSchema>
+
+/**
+ * A parameter removed by the cleaner
+ */
+export interface RemovedTrackingParam {
+  key: string
+  value: string
+  provider: string
+}
+
+/**
+ * Result of TrackingCleaner.clean()
+ */
+export interface TrackingCleanResult {
+  /** The cleaned URL */
+  url: string
+  /** The input URL */
+  original: string
+  /** Whether anything was removed or unwrapped */
+  changed: boolean
+  /** Removed query parameters */
+  removedParams: RemovedTrackingParam[]
+  /** Redirect wrappers that were unwrapped, outermost first */
+  redirects: string[]
+  /** Providers that changed the URL */
+  providers: string[]
+}
+
+/**
+ * A provider with its patterns compiled
+ */
+export interface CompiledTrackingProvider {
+  name: string
+  domains: string[]
+  urlPattern?: RegExp
+  rules: RegExp[]
+  referralMarketing: RegExp[]
+  rawRules: RegExp[]
+  exceptions: RegExp[]
+  redirections: RegExp[]
+}
@@ -0,0 +1,178 @@
+// Core types
+export {
+  HashSchema,
+  HostnameSchema,
+  PathSchema,
+  PortSchema,
+  ProtocolSchema,
+  QueryParamsSchema,
+  QueryValueSchema,
+  SearchSchema,
+  URLComponentsSchema,
+  URLErrorSchema,
+  URLPatternSchema,
+  URLValidationOptionsSchema,
+} from './core/types'
+export type {
+  Protocol,
+  QueryParams,
+  QueryValue,
+  URLBuilder,
+  URLComponents,
+  URLError,
+  URLPattern,
+  URLValidationOptions,
+} from './core/types'
+
+// Builder
+export { UrlBuilder } from './core/UrlBuilder'
+export type { UrlBuilderComponent, UrlBuilderOptions } from './core/UrlBuilder'
+
+// Facade
+export { UrlMage } from './core/UrlMage'
+export type { UrlInput } from './core/UrlMage'
+
+// Errors
+export * from './errors'
+
+// Feature handlers
+export { Blocklist } from './features/blocklist/blocklist'
+export { FeedParser } from './features/blocklist/feed-parser'
+export { BlocklistFeedSchema, BlocklistFormatSchema } from './features/blocklist/types'
+export type {
+  BlocklistFeed,
+  BlocklistFeedInfo,
+  BlocklistFormat,
+  BlocklistMatch,
+  BlocklistRule,
+  BlocklistWatchOptions,
+} from './features/blocklist/types'
+export { UrlCanonicalizer } from './features/canonical/canonicalizer'
+export type {
+  CanonicalChange,
+  CanonicalizeOptions,
+  CanonicalizeResult,
+  CanonicalPreset,
+  CanonicalStep,
+} from './features/canonical/types'
+export { ConfusableDetector } from './features/domain/confusables/confusable-detector'
+export { DomainHandler } from './features/domain/core/domain-handler'
+export { PublicSuffixList } from './features/domain/core/public-suffix-list'
+export { Idna } from './features/domain/idna/idna'
+export { TyposquatGenerator } from './features/domain/security/typosquat-generator'
+export type { ConfusableAnalysis, ConfusableComparison, SuspiciousCharacter } from './features/domain/types/confusables'
+export type { DomainInfo, IpAddress, IpCidr, IpSpecialRange } from './features/domain/types/domain'
+export type { IdnaError, IdnaErrorCode, IdnaOptions, IdnaResult } from './features/domain/types/idna'
+export type { PublicSuffixMode, PublicSuffixOptions, PublicSuffixResult } from './features/domain/types/psl'
+export type { TyposquatCandidate, TyposquatLookup, TyposquatOptions, TyposquatTechnique } from './features/domain/types/typosquat'
+export { PathHandler } from './features/path/core/path-handler'
+export type { PathInfo, PathOptions } from './features/path/types/path'
+export type {
+  UrlPatternInit,
+  UrlPatternInput,
+  UrlPatternOptions,
+  UrlPatternResult,
+} from './features/pattern/types'
+export { UrlPattern } from './features/pattern/url-pattern'
+export { ProtocolHandler } from './features/protocol/core/protocol-handler'
+export type { ProtocolFullInfo } from './features/protocol/types/protocol'
+export { QueryHandler } from './features/query/query-handler'
+export type { QueryInfo, QueryOptions, QueryParam } from './features/query/types'
+export { DnsInspector } from './features/security/dns-inspector'
+export { InMemoryDnsResolver, NodeDnsResolver } from './features/security/dns-resolver'
+export { NodeHttpClient } from './features/security/http-client'
+export { InjectionScanner } from './features/security/injection-scanner'
+export { OpenRedirectDetector } from './features/security/open-redirect-detector'
+export { RedirectTracer } from './features/security/redirect-tracer'
+export { SafeBrowsingClient } from './features/security/safe-browsing-client'
+export { HttpSafeBrowsingTransport, LocalSafeBrowsingTransport } from './features/security/safe-browsing-transport'
+export { SafeBrowsingUrl } from './features/security/safe-browsing-url'
+export { SecurityChecker } from './features/security/security-checker'
+export { SecuritySanitizer } from './features/security/security-sanitizer'
+export { SsrfGuard } from './features/security/ssrf-guard'
+export { TlsInspector } from './features/security/tls-inspector'
+export { SECURITY_RISK_SEVERITY, SecurityRiskLevel } from './features/security/types'
+export type {
+  DnsFinding,
+  DnsFindingCode,
+  DnsInspectionOptions,
+  DnsInspectionResult,
+  DnsMxRecord,
+  DnsRecords,
+  DnsResolver,
+  HttpClient,
+  HttpRequestOptions,
+  HttpResponse,
+  InjectionCategory,
+  InjectionDecoding,
+  InjectionFinding,
+  InjectionScannerOptions,
+  InjectionScanResult,
+  InMemoryDnsRecords,
+  LocalSafeBrowsingList,
+  OpenRedirectFinding,
+  OpenRedirectOptions,
+  OpenRedirectReason,
+  OpenRedirectResult,
+  RedirectHop,
+  RedirectTraceOptions,
+  RedirectTraceResult,
+  RedirectType,
+  SafeBrowsingClientInfo,
+  SafeBrowsingClientOptions,
+  SafeBrowsingFetchRequest,
+  SafeBrowsingFetchResponse,
+  SafeBrowsingFindRequest,
+  SafeBrowsingFindResponse,
+  SafeBrowsingListDescriptor,
+  SafeBrowsingListUpdate,
+  SafeBrowsingMatch,
+  SafeBrowsingThreatMatch,
+  SafeBrowsingThreatType,
+  SafeBrowsingTransport,
+  SafeBrowsingUpdateResult,
+  SecurityCheckerOptions,
+  SecurityCheckResult,
+  SecuritySanitizerOptions,
+  SecurityScanOptions,
+  SecurityScanResult,
+  SsrfPolicyOptions,
+  SsrfValidationResult,
+  SsrfViolationReason,
+  TlsCertificateInfo,
+  TlsFinding,
+  TlsFindingCode,
+  TlsInspectionResult,
+  TlsInspectorOptions,
+} from './features/security/types'
+
+// Special sites
+export { RoutedSpecialSiteHandler, RoutePattern, specialSiteManager } from './features/special'
+export type {
+  SpecialRoute,
+  SpecialRouteQuery,
+  SpecialSiteDispatch,
+  SpecialSiteHandler,
+  SpecialURL,
+  SpecialURLData,
+} from './features/special/base/types'
+
+// Templates
+export type {
+  TemplateMatch,
+  TemplateValue,
+  TemplateVariableNames,
+  TemplateVariables,
+  UrlTemplateOptions,
+} from './features/template/types'
+export { UrlTemplate } from './features/template/url-template'
+
+// Tracking
+export { TrackingCleaner } from './features/tracking/tracking-cleaner'
+export type {
+  ClearUrlsRuleSet,
+  RemovedTrackingParam,
+  TrackingCleanerOptions,
+  TrackingCleanResult,
+  TrackingProviderInput,
+} from './features/tracking/types'
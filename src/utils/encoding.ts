@@ -1,4 +1,4 @@
-import { ValidationError } from '../errors'
+import { ErrorCode, ValidationError } from '../errors'
 
 /**
  * URL encoding utilities
@@ -53,7 +53,7 @@ export class EncodingUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Failed to decode component', { cause: error })
+        throw new ValidationError('Failed to decode component', ErrorCode.DECODING_ERROR, undefined, error)
       }
       throw error
     }
@@ -72,6 +72,29 @@ export class EncodingUtils {
     })
   }
 
+  /**
+   * Encode everything except RFC 3986 unreserved characters (ALPHA / DIGIT / "-" / "." / "_" / "~")
+   */
+  public static encodeUnreserved(value: string): string {
+    return encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+    )
+  }
+
+  /**
+   * Encode everything except unreserved and reserved characters,
+   * keeping existing percent-encoded triplets intact
+   */
+  public static encodeReserved(value: string): string {
+    return value
+      .split(/(%[0-9A-F]{2})/i)
+      .map((chunk, index) => index % 2 === 1
+        ? chunk
+        : encodeURI(chunk).replace(/%5B/g, '[').replace(/%5D/g, ']'))
+      .join('')
+  }
+
   /**
    * Encode path segment
    */
@@ -129,7 +152,7 @@ export class EncodingUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Failed to decode URL', { cause: error })
+        throw new ValidationError('Failed to decode URL', ErrorCode.DECODING_ERROR, undefined, error)
       }
       throw error
     }
@@ -166,7 +189,7 @@ export class EncodingUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Failed to decode URL', { cause: error })
+        throw new ValidationError('Failed to decode URL', ErrorCode.DECODING_ERROR, undefined, error)
       }
       throw error
     }
@@ -1,4 +1,4 @@
-import { ValidationError } from '../errors'
+import { ErrorCode, ValidationError } from '../errors'
 
 /**
  * URL formatting utilities
@@ -34,8 +34,12 @@ export class FormattingUtils {
       // Apply transformations
       let formatted = url
 
+      // Only the scheme and host are case-insensitive; userinfo, path, query and fragment are not
       if (toLowerCase) {
-        formatted = formatted.toLowerCase()
+        formatted = formatted.replace(
+          /^([a-z][a-z0-9+\-.]*:\/\/)([^/?#]*@)?([^/?#]*)/i,
+          (_, scheme: string, userinfo = '', host: string) => `${scheme.toLowerCase()}${userinfo}${host.toLowerCase()}`,
+        )
       }
 
       if (removeDefaultPort) {
@@ -70,7 +74,7 @@ export class FormattingUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Failed to format URL', { cause: error })
+        throw new ValidationError('Failed to format URL', ErrorCode.INVALID_URL, undefined, error)
       }
       throw error
     }
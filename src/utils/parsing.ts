@@ -1,4 +1,4 @@
-import { ValidationError } from '../errors'
+import { ErrorCode, ValidationError } from '../errors'
 
 /**
  * URL parsing utilities
@@ -13,7 +13,7 @@ export class ParsingUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Failed to parse URL', { cause: error })
+        throw new ValidationError('Failed to parse URL', ErrorCode.INVALID_URL, undefined, error)
       }
       throw error
     }
@@ -46,7 +46,7 @@ export class ParsingUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Failed to parse query string', { cause: error })
+        throw new ValidationError('Failed to parse query string', ErrorCode.INVALID_QUERY, undefined, error)
       }
       throw error
     }
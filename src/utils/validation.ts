@@ -1,4 +1,4 @@
-import { ValidationError } from '../errors'
+import { ErrorCode, ValidationError } from '../errors'
 
 /**
  * URL validation utilities
@@ -14,7 +14,7 @@ export class ValidationUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Invalid URL', { cause: error })
+        throw new ValidationError('Invalid URL', ErrorCode.INVALID_URL, undefined, error)
       }
       throw error
     }
@@ -53,7 +53,7 @@ export class ValidationUtils {
     }
     catch (error) {
       if (error instanceof Error) {
-        throw new ValidationError('Invalid query string', { cause: error })
+        throw new ValidationError('Invalid query string', ErrorCode.INVALID_QUERY, undefined, error)
       }
       throw error
     }